@@ -0,0 +1,48 @@
+// Imports the fixture README the way the Open dialog does, takes it through
+// the editor's HTML and back, and checks that exporting it gives the same
+// file. Run with: npm run check:markdown
+import { readFile } from 'node:fs/promises'
+import { JSDOM } from 'jsdom'
+import { createServer } from 'vite'
+
+const fixture = new URL('./fixtures/README.md', import.meta.url)
+
+// The model is parsed from HTML with the browser's DOM
+const { window } = new JSDOM('')
+Object.assign(globalThis, { window, document: window.document, Node: window.Node, HTMLElement: window.HTMLElement })
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  optimizeDeps: { noDiscovery: true },
+  server: { middlewareMode: true, hmr: false }
+})
+try {
+  const { parseMarkdown, serializeMarkdown } = await server.ssrLoadModule('/src/lib/markdown.ts')
+  const { normalizeHtml, parseHtml, serializeHtml } = await server.ssrLoadModule('/src/lib/document-html.ts')
+  const { validateDocument } = await server.ssrLoadModule('/src/lib/document-model.ts')
+
+  const source = await readFile(fixture, 'utf8')
+  const html = normalizeHtml(serializeHtml(parseMarkdown(source)))
+  const doc = parseHtml(html)
+  const exported = serializeMarkdown(doc)
+
+  const problems = []
+  const validation = validateDocument(doc)
+  if (!validation.success) problems.push(`The imported document doesn't validate: ${validation.error.message}`)
+  if (exported !== source) {
+    const expected = source.split('\n')
+    const actual = exported.split('\n')
+    const line = expected.findIndex((text, index) => text !== actual[index])
+    problems.push(`The export differs from the fixture at line ${line + 1}:\n  expected: ${JSON.stringify(expected[line])}\n  exported: ${JSON.stringify(actual[line])}`)
+  }
+
+  if (problems.length > 0) {
+    console.error(problems.join('\n'))
+    process.exitCode = 1
+  } else {
+    console.log('Markdown round trip OK')
+  }
+} finally {
+  await server.close()
+}
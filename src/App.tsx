@@ -1,12 +1,36 @@
+import { BrowserRouter, Navigate, Route, Routes, useParams } from 'react-router-dom'
 import DocumentEditor from './components/DocumentEditor'
+import DocumentList from './components/DocumentList'
+import CommandPalette from './components/CommandPalette'
 import './App.css'
 
+// Remount the editor per document so no state leaks between them
+function DocumentRoute() {
+  const { documentId } = useParams()
+  if (!documentId) return <Navigate to="/" replace />
+  return <DocumentEditor key={documentId} documentId={documentId} />
+}
+
+function FolderRoute() {
+  const { folderId } = useParams()
+  return <DocumentList key={folderId} folderId={folderId} />
+}
+
 function App() {
   return (
     <div className="App">
-      <DocumentEditor />
+      <BrowserRouter>
+        <Routes>
+          <Route path="/" element={<DocumentList />} />
+          <Route path="/d/:documentId" element={<DocumentRoute />} />
+          <Route path="/f/:folderId" element={<FolderRoute />} />
+          <Route path="/trash" element={<DocumentList showTrash />} />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+        <CommandPalette />
+      </BrowserRouter>
     </div>
   )
 }
 
-export default App
\ No newline at end of file
+export default App
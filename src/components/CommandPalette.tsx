@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Dialog, DialogContent, DialogTitle } from './ui/dialog'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from './ui/command'
+import { commandRegistry, isMac, modKey, recentCommandIds, recordRecentCommand, type PaletteCommand } from '../lib/command-registry'
+import { useRegisterCommands } from '../hooks/use-commands'
+
+// Ctrl+K or Ctrl+Shift+P (⌘ on a Mac) from anywhere in the app. Ctrl+K
+// typed in a document adds a link instead; the editor has handled it by then.
+const isPaletteShortcut = (event: KeyboardEvent) => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey || event.defaultPrevented) return false
+  const key = event.key.toLowerCase()
+  return (key === 'k' && !event.shiftKey) || (key === 'p' && event.shiftKey)
+}
+
+export default function CommandPalette() {
+  const navigate = useNavigate()
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState('')
+  // Where the caret was, so document commands apply to it and not the search box
+  const savedRangeRef = useRef<Range | null>(null)
+  const pendingRef = useRef<PaletteCommand | null>(null)
+
+  useRegisterCommands('navigation', [
+    { id: 'go-home', label: 'Go to Home', group: 'Navigation', keywords: ['documents', 'list'], run: () => navigate('/') },
+    { id: 'go-trash', label: 'Go to Trash', group: 'Navigation', keywords: ['deleted', 'bin'], run: () => navigate('/trash') }
+  ])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isPaletteShortcut(event)) return
+      event.preventDefault()
+      if (!document.activeElement?.closest('[cmdk-root]')) {
+        const selection = window.getSelection()
+        savedRangeRef.current = selection && selection.rangeCount > 0 ? selection.getRangeAt(0).cloneRange() : null
+      }
+      setSearch('')
+      setOpen(current => !current)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const select = (command: PaletteCommand) => {
+    recordRecentCommand(command.id)
+    pendingRef.current = command
+    setOpen(false)
+  }
+
+  // Runs the chosen command once the dialog has gone and the caret is back
+  const runPending = (event: Event) => {
+    const command = pendingRef.current
+    pendingRef.current = null
+    const range = savedRangeRef.current
+    savedRangeRef.current = null
+    if (!command) return
+
+    event.preventDefault()
+    if (range && document.contains(range.startContainer)) {
+      const host = (range.startContainer instanceof Element ? range.startContainer : range.startContainer.parentElement)
+        ?.closest<HTMLElement>('[contenteditable="true"]')
+      host?.focus()
+      const selection = window.getSelection()
+      selection?.removeAllRanges()
+      selection?.addRange(range)
+    }
+    command.run()
+  }
+
+  const commands = open ? commandRegistry.getCommands() : []
+  const recents = recentCommandIds()
+    .map(id => commands.find(command => command.id === id))
+    .filter((command): command is PaletteCommand => !!command && !command.disabled)
+  const groups = Array.from(new Set(commands.map(command => command.group)))
+
+  const item = (command: PaletteCommand, prefix = '') => (
+    <CommandItem
+      key={prefix + command.id}
+      value={prefix + command.id}
+      keywords={[command.label, command.group, ...(command.keywords || [])]}
+      disabled={command.disabled}
+      onSelect={() => select(command)}
+    >
+      <span>{command.label}</span>
+      {command.shortcut && <CommandShortcut>{command.shortcut}</CommandShortcut>}
+    </CommandItem>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="overflow-hidden p-0 sm:max-w-xl" onCloseAutoFocus={runPending}>
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <Command
+          filter={(_, query, keywords) => {
+            // Match on the label and keywords, never on the internal id
+            const haystack = (keywords || []).join(' ').toLowerCase()
+            return query.toLowerCase().split(/\s+/).every(word => haystack.includes(word)) ? 1 : 0
+          }}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input]]:h-12"
+        >
+          <CommandInput value={search} onValueChange={setSearch} placeholder={`Search for actions… (${modKey}${isMac ? '⇧' : 'Shift+'}P)`} />
+          <CommandList className="max-h-[400px]">
+            <CommandEmpty>No matching actions</CommandEmpty>
+            {recents.length > 0 && !search && (
+              <CommandGroup heading="Recently used">
+                {recents.map(command => item(command, 'recent:'))}
+              </CommandGroup>
+            )}
+            {groups.map(group => (
+              <CommandGroup key={group} heading={group}>
+                {commands.filter(command => command.group === group).map(command => item(command))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,65 @@
+import { useLayoutEffect, useRef, useState, type RefObject } from 'react'
+import { getRangeRects, type OverlayRect } from '../lib/text-offsets'
+
+export interface CommentRange {
+  commentId: string
+  start: number
+  end: number
+}
+
+interface CommentHighlightsProps {
+  editorRef: RefObject<HTMLDivElement | null>
+  ranges: CommentRange[]
+  activeCommentId: string | null
+  content: string
+}
+
+interface HighlightShape {
+  commentId: string
+  rects: OverlayRect[]
+}
+
+export default function CommentHighlights({ editorRef, ranges, activeCommentId, content }: CommentHighlightsProps) {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [shapes, setShapes] = useState<HighlightShape[]>([])
+  const [layoutVersion, setLayoutVersion] = useState(0)
+
+  useLayoutEffect(() => {
+    const handleResize = () => setLayoutVersion(v => v + 1)
+    window.addEventListener('resize', handleResize)
+    return () => window.removeEventListener('resize', handleResize)
+  }, [])
+
+  useLayoutEffect(() => {
+    const editor = editorRef.current
+    const overlay = overlayRef.current
+    if (!editor || !overlay) return
+
+    const origin = overlay.getBoundingClientRect()
+    const next: HighlightShape[] = []
+    for (const range of ranges) {
+      try {
+        next.push({ commentId: range.commentId, rects: getRangeRects(editor, range.start, range.end, origin) })
+      } catch (e) {
+        // The editor may be mid-update; the next render will catch up
+      }
+    }
+    setShapes(next)
+  }, [editorRef, ranges, content, layoutVersion])
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none overflow-hidden print:hidden">
+      {shapes.map((shape) => shape.rects.map((rect, index) => (
+        <div
+          key={`${shape.commentId}-${index}`}
+          className="absolute"
+          style={{
+            ...rect,
+            backgroundColor: shape.commentId === activeCommentId ? 'rgba(251, 188, 4, 0.55)' : 'rgba(251, 188, 4, 0.25)',
+            borderBottom: shape.commentId === activeCommentId ? '2px solid #f9ab00' : undefined
+          }}
+        />
+      )))}
+    </div>
+  )
+}
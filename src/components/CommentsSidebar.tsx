@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import { MessageSquare, Check, RotateCcw, Eye, EyeOff } from 'lucide-react'
+
+export interface Comment {
+  id: string
+  documentId: string
+  userId: string
+  content: string
+  positionStart: number
+  positionEnd: number
+  anchorStart?: string | null
+  anchorEnd?: string | null
+  quote?: string | null
+  createdAt: string
+  resolved: boolean
+  parentId?: string | null
+  resolvedBy?: string | null
+  resolvedAt?: string | null
+  user?: {
+    email: string
+    name?: string
+  }
+}
+
+interface CommentsSidebarProps {
+  comments: Comment[]
+  orphanedIds: Set<string>
+  activeCommentId: string | null
+  onSelect: (commentId: string) => void
+  showResolved: boolean
+  onShowResolvedChange: (showResolved: boolean) => void
+  onReply: (parentId: string, content: string) => void
+  onResolve: (commentId: string, resolved: boolean) => void
+}
+
+const authorName = (comment: Comment) => comment.user?.email?.split('@')[0] || 'Anonymous'
+
+export default function CommentsSidebar({
+  comments,
+  orphanedIds,
+  activeCommentId,
+  onSelect,
+  showResolved,
+  onShowResolvedChange,
+  onReply,
+  onResolve
+}: CommentsSidebarProps) {
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({})
+
+  const threads = comments.filter(comment => !comment.parentId)
+  const repliesFor = (commentId: string) => comments
+    .filter(comment => comment.parentId === commentId)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+
+  const openCount = threads.filter(thread => !thread.resolved).length
+  const resolvedCount = threads.length - openCount
+  const visibleThreads = showResolved ? threads : threads.filter(thread => !thread.resolved)
+
+  const submitReply = (commentId: string) => {
+    const content = replyDrafts[commentId]?.trim()
+    if (!content) return
+    onReply(commentId, content)
+    setReplyDrafts(prev => ({ ...prev, [commentId]: '' }))
+  }
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="font-medium text-gray-900 flex items-center">
+          <MessageSquare className="w-4 h-4 mr-2" />
+          Comments ({openCount})
+        </h3>
+        {resolvedCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onShowResolvedChange(!showResolved)}
+            className="h-7 px-2 text-xs text-gray-600"
+          >
+            {showResolved ? <EyeOff className="w-3 h-3 mr-1" /> : <Eye className="w-3 h-3 mr-1" />}
+            {showResolved ? 'Hide' : 'Show'} resolved ({resolvedCount})
+          </Button>
+        )}
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          {visibleThreads.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-6">No open comments</p>
+          )}
+          {visibleThreads.map((comment) => (
+            <div
+              key={comment.id}
+              onClick={() => onSelect(comment.id)}
+              className={`border rounded-lg p-3 cursor-pointer ${comment.resolved ? 'bg-white opacity-75' : 'bg-gray-50'} ${
+                comment.id === activeCommentId ? 'border-[#f9ab00] shadow-md' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex items-start justify-between mb-2">
+                <div className="flex items-center space-x-2">
+                  <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center text-white text-xs">
+                    {comment.user?.email?.[0]?.toUpperCase() || 'U'}
+                  </div>
+                  <span className="text-sm font-medium">{authorName(comment)}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {comment.resolved && (
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Resolved</Badge>
+                  )}
+                  <span className="text-xs text-gray-500">
+                    {new Date(comment.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+              </div>
+              {comment.quote && (
+                <p className={`text-xs text-gray-500 border-l-2 pl-2 mb-2 line-clamp-2 ${orphanedIds.has(comment.id) ? 'line-through' : 'border-[#f9ab00]'}`}>
+                  {comment.quote}
+                </p>
+              )}
+              {orphanedIds.has(comment.id) && (
+                <p className="text-[11px] text-gray-500 italic mb-2">The text this comment was on has been deleted</p>
+              )}
+              <p className="text-sm text-gray-700">{comment.content}</p>
+
+              {/* Replies */}
+              {repliesFor(comment.id).length > 0 && (
+                <div className="mt-3 space-y-2 border-l-2 border-gray-200 pl-3">
+                  {repliesFor(comment.id).map((reply) => (
+                    <div key={reply.id}>
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-medium text-gray-800">{authorName(reply)}</span>
+                        <span className="text-[10px] text-gray-500">
+                          {new Date(reply.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-700">{reply.content}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {comment.resolved ? (
+                <div className="mt-2 flex justify-end">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onResolve(comment.id, false)}
+                    className="h-6 text-xs"
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Reopen
+                  </Button>
+                </div>
+              ) : (
+                <div className="mt-2 space-y-2">
+                  <Input
+                    placeholder="Reply..."
+                    value={replyDrafts[comment.id] || ''}
+                    onChange={(e) => setReplyDrafts(prev => ({ ...prev, [comment.id]: e.target.value }))}
+                    onKeyDown={(e) => e.key === 'Enter' && submitReply(comment.id)}
+                    className="h-7 text-sm bg-white"
+                  />
+                  <div className="flex justify-end space-x-2">
+                    {replyDrafts[comment.id]?.trim() && (
+                      <Button size="sm" onClick={() => submitReply(comment.id)} className="h-6 text-xs bg-[#1a73e8] hover:bg-[#1557b0]">
+                        Reply
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onResolve(comment.id, true)}
+                      className="h-6 text-xs"
+                    >
+                      <Check className="w-3 h-3 mr-1" />
+                      Resolve
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react'
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Separator } from './ui/separator'
@@ -6,8 +6,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
 import { Badge } from './ui/badge'
-import { ScrollArea } from './ui/scroll-area'
 import { Avatar, AvatarFallback } from './ui/avatar'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
 import { 
   Bold, 
   Italic, 
@@ -42,27 +47,139 @@ import {
   Check,
   Clock,
   UserPlus,
-  Settings
+  Settings,
+  Lock,
+  Trash2,
+  Pencil,
+  PenLine,
+  History
 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Link as RouterLink, useNavigate } from 'react-router-dom'
 import { blink } from '../blink/client'
+import { useAuth } from '../hooks/use-auth'
+import { retryWithBackoff } from '../lib/retry'
+import { createDocument, documentPath, isStarred as loadStarred, listAccessibleDocuments, listDocumentsById, recordVisit, setStarred } from '../lib/documents'
+import { downloadBlob, exportHtml, exportText, fileNameFor, printBlob } from '../lib/download'
+import { exportDocx } from '../lib/docx-export'
+import { exportPdf, type PdfExport } from '../lib/pdf-export'
+import { exportMarkdown } from '../lib/markdown'
+import { DEFAULT_PAGE_SETUP, pageDimensions, parsePageSetup, savePageSetup, type PageSetup } from '../lib/page-setup'
+import { daysUntilPurge, deleteForever, moveToTrash, restoreFromTrash } from '../lib/trash'
+import {
+  claimFolderGrants,
+  folderPath,
+  inheritedGrants,
+  loadFolderChain,
+  moveDocument,
+  type Folder as FolderEntry
+} from '../lib/folders'
+import { HtmlCrdt, crdtOperationSchema, crdtStateSchema, type CrdtOperation, type CrdtState } from '../lib/crdt'
+import { createRangeFromOffsets, getSelectionOffsets, setSelectionOffsets, textBeforeCaret } from '../lib/text-offsets'
+import { autolinkBeforeEnter, autoformatEnter, autoformatInput } from '../lib/autoformat'
+import { patchDroppedText, patchHtml, revertDomEdit, type DomEdit } from '../lib/dom-patch'
+import {
+  adjacentCell,
+  applyTableAction,
+  cellBelow,
+  columnEdges,
+  createTableHtml,
+  freezeColumnWidths,
+  isInHeaderRow,
+  selectedCells,
+  setCellStyle,
+  setColumnWidth,
+  type CellStyle,
+  type TableAction
+} from '../lib/table-editing'
+import { commitFormula, isFormula, recalculateFormulas, setCellFormula, sortRows, withFormulaResults } from '../lib/table-formulas'
+import { imageElement, imageFiles, initialImageSize, readImage, resizeImage, selectedImage, updateImage, uploadImage } from '../lib/images'
+import { addressedDocumentIds, findTarget, linkedDocumentId, linkTargets, newBlockId, showDocumentTitles, type LinkTarget } from '../lib/links'
+import type { ImageAlign, ImageNode } from '../lib/document-model'
+import { modKey, type PaletteCommand } from '../lib/command-registry'
+import { useRegisterCommands } from '../hooks/use-commands'
+import { normalizeHtml, parseHtml, serializeHtml, serializeInlines } from '../lib/document-html'
+import { documentText, validateDocument } from '../lib/document-model'
+import { getUserColor } from '../lib/presence'
+import RemoteCursors, { type RemoteCursor, type RemoteSelection } from './RemoteCursors'
+import CommentsSidebar, { type Comment } from './CommentsSidebar'
+import CommentHighlights, { type CommentRange } from './CommentHighlights'
+import SuggestionsPanel, { type Suggestion } from './SuggestionsPanel'
+import VersionHistory, { type DocumentVersion } from './VersionHistory'
+import RequestAccess from './RequestAccess'
+import MoveToDialog from './MoveToDialog'
+import OpenDocumentDialog from './OpenDocumentDialog'
+import PageSetupDialog from './PageSetupDialog'
+import SlashCommandMenu from './SlashCommandMenu'
+import TableToolbar from './TableToolbar'
+import FormulaEditor from './FormulaEditor'
+import ImageDialog from './ImageDialog'
+import ImageToolbar from './ImageToolbar'
+import LinkDialog from './LinkDialog'
+import LinkPopover from './LinkPopover'
+import EditorMenubar, { type DownloadFormat, type EditorMode } from './EditorMenubar'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbSeparator
+} from './ui/breadcrumb'
+import {
+  canEdit,
+  canView,
+  grantedByEmail,
+  resolveAccess,
+  type AccessGrant,
+  type AccessLevel,
+  type DocumentGrant,
+  type FolderGrant,
+  type Permission
+} from '../lib/permissions'
+import {
+  collectSuggestions,
+  resolveSuggestion,
+  suggestDeletion,
+  suggestInsertion,
+  type SuggestionKind,
+  type SuggestionOptions
+} from '../lib/suggestions'
 
 interface DocumentEditorProps {
-  documentId?: string
+  documentId: string
 }
 
-interface Comment {
+const EDITOR_MODES: { value: EditorMode; label: string; description: string }[] = [
+  { value: 'editing', label: 'Editing', description: 'Edit document directly' },
+  { value: 'suggesting', label: 'Suggesting', description: 'Edits become suggestions' },
+  { value: 'viewing', label: 'Viewing', description: 'Read or print final document' }
+]
+
+// Autosave takes a snapshot at most this often while the document changes
+const VERSION_SNAPSHOT_INTERVAL = 10 * 60 * 1000
+
+// What the link dialog is given while it is closed, kept stable across renders
+const NO_LINK = { text: '', href: '', editing: false }
+const NO_LINK_TARGETS: LinkTarget[] = []
+
+interface AccessRequest {
   id: string
   documentId: string
   userId: string
-  content: string
-  positionStart: number
-  positionEnd: number
+  email: string
+  message?: string | null
+  status: 'pending' | 'approved' | 'declined'
   createdAt: string
-  resolved: boolean
-  user?: {
-    email: string
-    name?: string
-  }
 }
 
 interface CollaborativeUser {
@@ -70,49 +187,68 @@ interface CollaborativeUser {
   metadata: {
     displayName: string
     email: string
-    cursor?: number
+    cursor?: RemoteSelection | null
   }
   lastSeen: number
 }
 
-// Add retry utility function
-const retryWithBackoff = async (fn: () => Promise<any>, maxRetries = 3, baseDelay = 1000) => {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await fn()
-    } catch (error: any) {
-      // If it's a rate limit error, wait for the specified time
-      if (error?.details?.code === 'RATE_LIMIT_EXCEEDED') {
-        const resetTime = new Date(error.details.reset).getTime()
-        const currentTime = Date.now()
-        const waitTime = Math.max(resetTime - currentTime, baseDelay * Math.pow(2, attempt))
-        
-        console.log(`Rate limited. Waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`)
-        
-        if (attempt < maxRetries - 1) {
-          await new Promise(resolve => setTimeout(resolve, waitTime))
-          continue
-        }
-      }
-      
-      // For non-rate-limit errors or final attempt, throw the error
-      throw error
-    }
-  }
-}
-
-export default function DocumentEditor({ documentId = 'doc-main-document' }: DocumentEditorProps) {
+export default function DocumentEditor({ documentId }: DocumentEditorProps) {
   const [documentTitle, setDocumentTitle] = useState('Untitled document')
   const [documentContent, setDocumentContent] = useState('')
   const [isEditing, setIsEditing] = useState(false)
-  const [user, setUser] = useState<any>(null)
-  const [isLoading, setIsLoading] = useState(true)
+  const { user, isLoading } = useAuth()
   const [isLoadingDocument, setIsLoadingDocument] = useState(false)
   const [isLoadingComments, setIsLoadingComments] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
   const [collaborators, setCollaborators] = useState<CollaborativeUser[]>([])
   const [comments, setComments] = useState<Comment[]>([])
+  const [commentRanges, setCommentRanges] = useState<CommentRange[]>([])
+  const [showResolvedComments, setShowResolvedComments] = useState(false)
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null)
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const [editorMode, setEditorMode] = useState<EditorMode>('editing')
+  const [documentOwnerId, setDocumentOwnerId] = useState<string | null>(null)
+  const [versions, setVersions] = useState<DocumentVersion[]>([])
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [accessLevel, setAccessLevel] = useState<AccessLevel | null>(null)
+  const [accessRequested, setAccessRequested] = useState(false)
+  const [accessRequests, setAccessRequests] = useState<AccessRequest[]>([])
+  const [folderChain, setFolderChain] = useState<FolderEntry[]>([])
+  const [isMoveDialogOpen, setIsMoveDialogOpen] = useState(false)
+  const [isOpenDialogOpen, setIsOpenDialogOpen] = useState(false)
+  const [pageSetup, setPageSetup] = useState<PageSetup>(DEFAULT_PAGE_SETUP)
+  const [slashMenu, setSlashMenu] = useState<{ query: string; top: number; left: number } | null>(null)
+  const [tableSelection, setTableSelection] = useState<{ table: HTMLTableElement; cells: HTMLTableCellElement[] } | null>(null)
+  // The table cell holding the caret; a formula typed into it is saved when the caret leaves
+  const editingCellRef = useRef<HTMLTableCellElement | null>(null)
+  // The formula cell whose source is open for editing
+  const [formulaCell, setFormulaCell] = useState<HTMLTableCellElement | null>(null)
+  // Set while the pointer is over a column edge that can be dragged
+  const [columnResizable, setColumnResizable] = useState(false)
+  const [activeImage, setActiveImage] = useState<HTMLImageElement | null>(null)
+  // Open with the pasted or dropped file, if any
+  const [imageDialog, setImageDialog] = useState<{ file: File | null } | null>(null)
+  // Where an image from the dialog goes, and the uploaded image waiting for the dialog to close
+  const imageInsertionRef = useRef<{ anchor: number; focus: number } | null>(null)
+  const pendingImageRef = useRef<ImageNode | null>(null)
+  const imageResizeRef = useRef<{ before: string; caret: number } | null>(null)
+  // The link under the pointer, whose card shows where it goes
+  const [hoveredLink, setHoveredLink] = useState<HTMLAnchorElement | null>(null)
+  const linkHideTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const [linkDialog, setLinkDialog] = useState<{
+    initial: { text: string; href: string; editing: boolean }
+    textEditable: boolean
+    targets: LinkTarget[]
+  } | null>(null)
+  // What the dialog links, the link it edits, and its result waiting for it to close
+  const linkSelectionRef = useRef<{ anchor: number; focus: number } | null>(null)
+  const editingLinkRef = useRef<HTMLAnchorElement | null>(null)
+  const pendingLinkRef = useRef<{ text: string; href: string; retype: boolean } | null>(null)
+  const [isPageSetupOpen, setIsPageSetupOpen] = useState(false)
+  const [isStarred, setIsStarred] = useState(false)
+  const [trashedAt, setTrashedAt] = useState<string | null>(null)
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [selectedText, setSelectedText] = useState('')
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false)
   const [shareEmail, setShareEmail] = useState('')
@@ -121,10 +257,43 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
 
   const editorRef = useRef<HTMLDivElement>(null)
   const titleRef = useRef<HTMLInputElement>(null)
-  const saveTimeoutRef = useRef<NodeJS.Timeout>()
-  const loadDocumentTimeoutRef = useRef<NodeJS.Timeout>()
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const loadDocumentTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
   const hasLoadedDocument = useRef(false)
   const hasLoadedComments = useRef(false)
+  const crdtRef = useRef<HtmlCrdt | null>(null)
+  // The last table or image edit, so Ctrl+Z can put it back in one step
+  const domEditRef = useRef<DomEdit | null>(null)
+  // While an input method composes text, the DOM is left alone
+  const composingRef = useRef(false)
+  // Titles of linked documents we can open, and the ids already looked up
+  const documentTitlesRef = useRef(new Map<string, string>())
+  const requestedTitlesRef = useRef(new Set<string>())
+  // Text offset of the "/" that opened the slash menu
+  const slashOffsetRef = useRef<number | null>(null)
+  const siteIdRef = useRef(`site-${Math.random().toString(36).slice(2, 10)}`)
+  const outgoingOpsRef = useRef<CrdtOperation[]>([])
+  const flushOpsTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const pendingRemoteOpsRef = useRef<CrdtOperation[]>([])
+  const pendingRemoteStatesRef = useRef<CrdtState[]>([])
+  const cursorTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const ownSuggestionIdsRef = useRef(new Set<string>())
+  const lastSnapshotAtRef = useRef(0)
+  // Realtime handlers outlive renders, so permission checks read from refs
+  const ownerIdRef = useRef<string | null>(null)
+  const grantsRef = useRef<DocumentGrant[]>([])
+  const inheritedGrantsRef = useRef<AccessGrant[]>([])
+  // Senders refused edit access, not checked again until access changes
+  const refusedSendersRef = useRef(new Set<string>())
+  const trashedRef = useRef(false)
+  const navigate = useNavigate()
+
+  // A trashed document is read-only for everyone until it is restored
+  const hasEditAccess = accessLevel !== null && canEdit(accessLevel)
+  const canEditDocument = hasEditAccess && !trashedAt
+  const isOwner = accessLevel === 'owner'
+  // Moving changes who inherits access, so it is the owner's call
+  const canMoveDocument = isOwner && !trashedAt
 
   // Font families and sizes
   const fontFamilies = [
@@ -147,34 +316,44 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
     '#444444', '#5c0000', '#663d00', '#666600', '#003700', '#002966', '#3d1466'
   ]
 
-  // Auth state management
-  useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
-      setUser(state.user)
-      setIsLoading(state.isLoading)
-    })
-    return unsubscribe
-  }, [])
-
   // Load document data with retry logic and caching
   useEffect(() => {
-    if (user && documentId && !hasLoadedDocument.current) {
-      // Debounce document loading
-      if (loadDocumentTimeoutRef.current) {
-        clearTimeout(loadDocumentTimeoutRef.current)
-      }
-      
-      loadDocumentTimeoutRef.current = setTimeout(() => {
-        loadDocument()
-        loadComments()
-        setupRealtime()
-      }, 300) // 300ms debounce
+    if (!user || !documentId || hasLoadedDocument.current) return
+
+    // Debounce document loading
+    if (loadDocumentTimeoutRef.current) {
+      clearTimeout(loadDocumentTimeoutRef.current)
     }
-  }, [user, documentId])
+
+    let cancelled = false
+    let leaveRealtime: (() => void) | undefined
+    loadDocumentTimeoutRef.current = setTimeout(async () => {
+      // Nothing else about the document is fetched until access is confirmed
+      const access = await loadDocument()
+      if (cancelled || !access || !canView(access)) return
+
+      recordVisit(user.id, documentId).catch(error => console.error('Failed to record visit:', error))
+      loadStarred(user.id, documentId)
+        .then(setIsStarred)
+        .catch(error => console.error('Failed to load star:', error))
+      loadComments()
+      loadSuggestions()
+      loadVersions()
+      leaveRealtime = await setupRealtime()
+      // Cleaned up while the channel was still joining
+      if (cancelled) leaveRealtime?.()
+    }, 300) // 300ms debounce
+
+    return () => {
+      cancelled = true
+      clearTimeout(loadDocumentTimeoutRef.current)
+      leaveRealtime?.()
+    }
+  }, [user?.id, documentId])
 
   // Auto-save document content
   useEffect(() => {
-    if (user && documentContent && !isLoading && hasLoadedDocument.current) {
+    if (user && documentContent && !isLoading && hasLoadedDocument.current && canEditDocument) {
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current)
       }
@@ -182,9 +361,124 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
         saveDocument()
       }, 1000) // Auto-save after 1 second of inactivity
     }
-  }, [documentContent, user, isLoading])
+  }, [documentContent, user, isLoading, canEditDocument])
+
+  // In suggesting mode, typing and deleting produce tracked changes instead of edits
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!editor || editorMode !== 'suggesting') return
+
+    const handleBeforeInput = (event: InputEvent) => {
+      // Formulas can't be suggested
+      if (formulaCellAtCaret()) {
+        event.preventDefault()
+        return
+      }
+      const { handleContentChange, suggestionOptions } = latestRef.current
+      const options = suggestionOptions()
+      switch (event.inputType) {
+        case 'insertText':
+        case 'insertReplacementText':
+          event.preventDefault()
+          suggestInsertion(event.data || event.dataTransfer?.getData('text/plain') || '', options)
+          break
+        case 'insertFromPaste':
+        case 'insertFromDrop':
+          event.preventDefault()
+          suggestInsertion(event.dataTransfer?.getData('text/plain') || '', options)
+          break
+        case 'deleteContentBackward':
+        case 'deleteContentForward':
+        case 'deleteWordBackward':
+        case 'deleteWordForward':
+        case 'deleteByCut':
+          event.preventDefault()
+          suggestDeletion(
+            event.inputType.endsWith('Forward') ? 'forward' : 'backward',
+            event.inputType.startsWith('deleteWord') ? 'word' : 'character',
+            options
+          )
+          break
+        case 'insertCompositionText':
+        case 'deleteCompositionText':
+          // Can't be cancelled; the composed text is suggested once it is committed
+          return
+        default:
+          // Paragraph breaks, formatting and the rest can't be tracked as suggestions
+          event.preventDefault()
+          return
+      }
+      handleContentChange()
+    }
+
+    // Where the text being composed with an input method starts
+    let compositionStart: number | null = null
+
+    const handleCompositionStart = () => {
+      const { handleContentChange, suggestionOptions } = latestRef.current
+      const selection = window.getSelection()
+      if (selection && !selection.isCollapsed) {
+        suggestDeletion('forward', 'character', suggestionOptions())
+        handleContentChange()
+      }
+      compositionStart = getSelectionOffsets(editor)?.anchor ?? null
+    }
+
+    const handleCompositionEnd = (event: CompositionEvent) => {
+      const { handleContentChange, suggestionOptions } = latestRef.current
+      const start = compositionStart
+      compositionStart = null
+      if (start === null || !event.data) return
+      const range = createRangeFromOffsets(editor, start, start + event.data.length)
+      if (range.toString() !== event.data) return
+      range.deleteContents()
+      const selection = window.getSelection()
+      selection?.removeAllRanges()
+      selection?.addRange(range)
+      suggestInsertion(event.data, suggestionOptions())
+      handleContentChange()
+    }
+
+    editor.addEventListener('beforeinput', handleBeforeInput)
+    editor.addEventListener('compositionstart', handleCompositionStart)
+    editor.addEventListener('compositionend', handleCompositionEnd)
+    return () => {
+      editor.removeEventListener('beforeinput', handleBeforeInput)
+      editor.removeEventListener('compositionstart', handleCompositionStart)
+      editor.removeEventListener('compositionend', handleCompositionEnd)
+    }
+  }, [editorMode])
+
+  // Ctrl+P prints through the PDF export rather than the browser's page print
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== 'p' || !(event.ctrlKey || event.metaKey) || event.shiftKey || event.altKey) return
+      event.preventDefault()
+      printDocument()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  // Share our caret with collaborators as they move it
+  useEffect(() => {
+    if (!user) return
+
+    const handleSelectionChange = () => {
+      if (!editorRef.current || !getSelectionOffsets(editorRef.current)) return
+      if (!cursorTimeoutRef.current) {
+        cursorTimeoutRef.current = setTimeout(() => {
+          cursorTimeoutRef.current = undefined
+          latestRef.current.publishCursor()
+        }, 100)
+      }
+    }
+
+    document.addEventListener('selectionchange', handleSelectionChange)
+    return () => document.removeEventListener('selectionchange', handleSelectionChange)
+  }, [user, documentId])
 
-  const loadDocument = async () => {
+  const loadDocument = async (): Promise<AccessLevel | undefined> => {
     if (isLoadingDocument || hasLoadedDocument.current) return
     
     setIsLoadingDocument(true)
@@ -198,15 +492,70 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
         })
       })
       
-      if (result.length > 0) {
-        const doc = result[0]
+      const doc = result[0]
+      const grants: DocumentGrant[] = doc ? await loadGrants() : []
+      await loadFolderAccess(doc?.folderId)
+      const access = resolveAccess(doc?.userId, [...grants, ...inheritedGrantsRef.current], { id: user.id, email: user.email })
+      ownerIdRef.current = doc?.userId || user.id
+      setDocumentOwnerId(doc?.userId || user.id)
+      setAccessLevel(access)
+      trashedRef.current = !!doc?.trashedAt
+      setTrashedAt(doc?.trashedAt || null)
+
+      if (!canView(access)) {
+        const requests = await retryWithBackoff(async () => {
+          return await blink.db.documentAccessRequests.list({
+            where: { documentId: documentId, userId: user.id, status: 'pending' },
+            limit: 1
+          })
+        })
+        setAccessRequested(requests.length > 0)
+        hasLoadedDocument.current = true
+        return access
+      }
+
+      if (doc) {
         setDocumentTitle(doc.title || 'Untitled document')
-        setDocumentContent(doc.content || '')
-        if (editorRef.current) {
-          editorRef.current.innerHTML = doc.content || '<div>Start typing your document...</div>'
+        setPageSetup(parsePageSetup(doc.pageSetup))
+      }
+      if (!canEdit(access)) {
+        setEditorMode('viewing')
+      }
+      if (access === 'owner') {
+        loadAccessRequests()
+      }
+      if (canView(access)) {
+        claimEmailGrants().catch(error => console.error('Failed to claim shares:', error))
+      }
+
+      // Replicas seeded from the same saved state share atom ids, so their edits merge
+      let crdt: HtmlCrdt | null = null
+      if (doc?.crdtState) {
+        try {
+          crdt = HtmlCrdt.fromState(siteIdRef.current, crdtStateSchema.parse(JSON.parse(doc.crdtState)))
+        } catch (e) {
+          console.error('Failed to restore document state, reseeding from content:', e)
         }
       }
+      if (!crdt) {
+        crdt = HtmlCrdt.fromHtml(siteIdRef.current, normalizeHtml(doc?.content || ''))
+      }
+      pendingRemoteStatesRef.current.forEach(state => crdt!.merge(state))
+      crdt.applyRemote(pendingRemoteOpsRef.current)
+      pendingRemoteStatesRef.current = []
+      pendingRemoteOpsRef.current = []
+      crdtRef.current = crdt
+
+      // Merged state comes from other clients, so only its canonical form reaches the page
+      const content = normalizeHtml(crdt.toHtml())
+      setDocumentContent(content)
+      if (editorRef.current) {
+        editorRef.current.innerHTML = content || '<div>Start typing your document...</div>'
+        recalculateFormulas(editorRef.current)
+        titleDocumentLinks()
+      }
       hasLoadedDocument.current = true
+      return access
     } catch (error: any) {
       console.error('Failed to load document:', error)
       if (error?.details?.code === 'RATE_LIMIT_EXCEEDED') {
@@ -219,20 +568,121 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
     }
   }
 
+  const loadGrants = async () => {
+    const grants: DocumentGrant[] = await retryWithBackoff(async () => {
+      return await blink.db.documentCollaborators.list({
+        where: { documentId: documentId }
+      })
+    })
+    grantsRef.current = grants
+    return grants
+  }
+
+  // Breadcrumbs and the grants the document inherits from its folders
+  const loadFolderAccess = async (folderId: string | null | undefined) => {
+    const chain = await loadFolderChain(folderId)
+    inheritedGrantsRef.current = await inheritedGrants(chain)
+    setFolderChain(chain)
+  }
+
+  // After a move, from wherever the document now is rather than where a message says it went
+  const reloadFolderAccess = async () => {
+    try {
+      const [doc] = await listDocumentsById([documentId])
+      await loadFolderAccess(doc?.folderId)
+      await refreshAccess()
+    } catch (error) {
+      console.error('Failed to load folders:', error)
+    }
+  }
+
+  // Re-check our own access after the owner changes who can do what
+  const refreshAccess = async () => {
+    try {
+      const grants = await loadGrants()
+      const access = resolveAccess(ownerIdRef.current, [...grants, ...inheritedGrantsRef.current], { id: user.id, email: user.email })
+      setAccessLevel(access)
+      if (!canEdit(access)) setEditorMode('viewing')
+    } catch (error) {
+      console.error('Failed to refresh access:', error)
+    }
+  }
+
+  const loadAccessRequests = async () => {
+    try {
+      const result = await retryWithBackoff(async () => {
+        return await blink.db.documentAccessRequests.list({
+          where: { documentId: documentId, status: 'pending' },
+          orderBy: { createdAt: 'asc' }
+        })
+      })
+      setAccessRequests(result)
+    } catch (error) {
+      console.error('Failed to load access requests:', error)
+    }
+  }
+
+  // Realtime messages carry the sender's user id, checked against the grants we
+  // loaded. Anything else a client sends about itself, like its email, can't be trusted.
+  const senderHasEditAccess = (userId?: string) => !!userId && canEdit(resolveAccess(
+    ownerIdRef.current,
+    [...grantsRef.current, ...inheritedGrantsRef.current],
+    { id: userId }
+  ))
+
+  const senderCanEdit = (userId?: string) => senderHasEditAccess(userId) && !trashedRef.current
+
+  // Someone may have been given access after we loaded the grants. If so, the
+  // changes we dropped come back in full with everyone's state.
+  const recheckSender = async (userId?: string) => {
+    if (!userId || trashedRef.current || refusedSendersRef.current.has(userId)) return
+    refusedSendersRef.current.add(userId)
+    try {
+      await loadGrants()
+      if (!senderCanEdit(userId)) {
+        console.warn(`Ignoring changes from ${userId} without edit access`)
+        return
+      }
+      refusedSendersRef.current.delete(userId)
+      await blink.realtime.publish(`document-${documentId}`, 'crdt-sync-request', { site: siteIdRef.current })
+    } catch (error) {
+      refusedSendersRef.current.delete(userId)
+      console.error('Failed to check access:', error)
+    }
+  }
+
+  // Shares made to our email before we signed in move onto our user id, which
+  // is what other sessions check our edits against
+  const claimEmailGrants = async () => {
+    const subject = { id: user.id, email: user.email }
+    const claimed = grantsRef.current.filter(grant => grantedByEmail(grant, subject))
+    const folderGrants = inheritedGrantsRef.current.filter((grant): grant is FolderGrant => 'folderId' in grant)
+    if (claimed.length === 0 && !folderGrants.some(grant => grantedByEmail(grant, subject))) return
+    await Promise.all(claimed.map(grant => retryWithBackoff(async () => {
+      return await blink.db.documentCollaborators.update(grant.id, { userId: user.id })
+    })))
+    await claimFolderGrants(folderGrants, subject)
+    grantsRef.current = grantsRef.current.map(grant => grantedByEmail(grant, subject) ? { ...grant, userId: user.id } : grant)
+    inheritedGrantsRef.current = inheritedGrantsRef.current.map(grant => grantedByEmail(grant, subject) ? { ...grant, userId: user.id } : grant)
+    // Open sessions reload the grants
+    await blink.realtime.publish(`document-${documentId}`, 'access-updated', { userId: user.id })
+  }
+
   const loadComments = async () => {
     if (isLoadingComments || hasLoadedComments.current) return
     
     setIsLoadingComments(true)
     
     try {
-      const result = await retryWithBackoff(async () => {
+      // SQLite hands booleans back as "0"/"1"
+      const result: (Omit<Comment, 'resolved'> & { resolved: boolean | number | string })[] = await retryWithBackoff(async () => {
         return await blink.db.documentComments.list({
           where: { documentId: documentId },
           orderBy: { createdAt: 'desc' }
         })
       })
       
-      setComments(result)
+      setComments(result.map(comment => ({ ...comment, resolved: Number(comment.resolved) > 0 })))
       hasLoadedComments.current = true
     } catch (error: any) {
       console.error('Failed to load comments:', error)
@@ -245,7 +695,38 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
     }
   }
 
-  const setupRealtime = async () => {
+  const loadSuggestions = async () => {
+    try {
+      const result = await retryWithBackoff(async () => {
+        return await blink.db.documentSuggestions.list({
+          where: { documentId: documentId },
+          orderBy: { createdAt: 'asc' }
+        })
+      })
+      setSuggestions(result)
+    } catch (error) {
+      console.error('Failed to load suggestions:', error)
+    }
+  }
+
+  const loadVersions = async () => {
+    try {
+      const result = await retryWithBackoff(async () => {
+        return await blink.db.documentVersions.list({
+          where: { documentId: documentId },
+          orderBy: { createdAt: 'asc' }
+        })
+      })
+      setVersions(result)
+      const latest = result[result.length - 1]
+      if (latest) lastSnapshotAtRef.current = new Date(latest.createdAt).getTime()
+    } catch (error) {
+      console.error('Failed to load versions:', error)
+    }
+  }
+
+  // Resolves to a function that leaves the channel again
+  const setupRealtime = async (): Promise<(() => void) | undefined> => {
     if (!user) return
 
     try {
@@ -256,57 +737,169 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
         metadata: {
           displayName: user.email?.split('@')[0] || 'Anonymous',
           email: user.email || '',
-          cursor: 0
+          cursor: null
         }
       })
 
       // Listen for content changes from other users
-      channel.onMessage((message) => {
-        if (message.type === 'content-update' && message.userId !== user.id) {
-          if (editorRef.current && message.data.content) {
-            // Update content but preserve cursor position
-            const selection = window.getSelection()
-            const range = selection?.getRangeAt(0)
-            const startOffset = range?.startOffset || 0
-            
-            editorRef.current.innerHTML = message.data.content
-            setDocumentContent(message.data.content)
-            
-            // Restore cursor position (simplified)
-            try {
-              if (range && editorRef.current.firstChild) {
-                range.setStart(editorRef.current.firstChild, Math.min(startOffset, editorRef.current.textContent?.length || 0))
-                range.collapse(true)
-                selection?.removeAllRanges()
-                selection?.addRange(range)
-              }
-            } catch (e) {
-              // Ignore cursor restoration errors
-            }
+      const stopMessages = channel.onMessage((message) => {
+        // Content from people without edit access is dropped, whatever their client claims
+        if ((message.type === 'crdt-ops' || message.type === 'crdt-sync-state') && !senderCanEdit(message.userId)) {
+          recheckSender(message.userId)
+          return
+        }
+
+        if (message.type === 'crdt-ops' && message.data.site !== siteIdRef.current) {
+          const parsed = crdtOperationSchema.array().safeParse(message.data.ops)
+          if (!parsed.success) {
+            console.error('Ignoring malformed document changes:', parsed.error)
+          } else if (!crdtRef.current) {
+            pendingRemoteOpsRef.current.push(...parsed.data)
+          } else {
+            applyRemoteChange(crdt => crdt.applyRemote(parsed.data))
+          }
+        }
+
+        // Late joiners ask for the full state so their replica matches everyone else's
+        if (message.type === 'crdt-sync-request' && message.data.site !== siteIdRef.current && crdtRef.current) {
+          blink.realtime.publish(`document-${documentId}`, 'crdt-sync-state', {
+            site: siteIdRef.current,
+            to: message.data.site,
+            state: crdtRef.current.toState()
+          }).catch(error => console.error('Failed to send document state:', error))
+        }
+
+        if (message.type === 'crdt-sync-state' && message.data.to === siteIdRef.current) {
+          const parsed = crdtStateSchema.safeParse(message.data.state)
+          if (!parsed.success) {
+            console.error('Ignoring malformed document state:', parsed.error)
+          } else if (!crdtRef.current) {
+            pendingRemoteStatesRef.current.push(parsed.data)
+          } else {
+            applyRemoteChange(crdt => crdt.merge(parsed.data))
           }
         }
-        
-        if (message.type === 'title-update' && message.userId !== user.id) {
+
+        if (message.type === 'cursor-update' && message.userId !== user.id) {
+          setCollaborators(prev => prev.map(collab =>
+            collab.userId === message.userId
+              ? { ...collab, metadata: { ...collab.metadata, cursor: message.data.selection } }
+              : collab
+          ))
+        }
+
+        if (message.type === 'title-update' && message.userId !== user.id && senderCanEdit(message.userId)) {
           setDocumentTitle(message.data.title)
         }
 
+        if (message.type === 'page-setup-updated' && message.userId !== user.id && senderCanEdit(message.userId)) {
+          setPageSetup(parsePageSetup(message.data.setup))
+        }
+
+        if (message.type === 'access-updated') {
+          refusedSendersRef.current.clear()
+          refreshAccess()
+        }
+
+        if (message.type === 'document-trashed' && senderHasEditAccess(message.userId)) {
+          trashedRef.current = !!message.data.trashedAt
+          setTrashedAt(message.data.trashedAt)
+        }
+
+        if (message.type === 'document-moved' && senderCanEdit(message.userId)) {
+          reloadFolderAccess()
+        }
+
+        if (message.type === 'version-added') {
+          setVersions(prev => prev.some(v => v.id === message.data.version.id)
+            ? prev
+            : [...prev, message.data.version])
+          lastSnapshotAtRef.current = Math.max(lastSnapshotAtRef.current, new Date(message.data.version.createdAt).getTime())
+        }
+
+        if (message.type === 'version-updated') {
+          setVersions(prev => prev.map(v => v.id === message.data.version.id ? { ...v, ...message.data.version } : v))
+        }
+
         if (message.type === 'comment-added') {
-          setComments(prev => [message.data.comment, ...prev])
+          setComments(prev => prev.some(c => c.id === message.data.comment.id)
+            ? prev
+            : [message.data.comment, ...prev])
+        }
+
+        if (message.type === 'suggestion-added') {
+          setSuggestions(prev => prev.some(s => s.id === message.data.suggestion.id)
+            ? prev
+            : [...prev, message.data.suggestion])
+        }
+
+        if (message.type === 'suggestion-updated' && message.userId === ownerIdRef.current) {
+          setSuggestions(prev => prev.map(s => s.id === message.data.suggestion.id ? { ...s, ...message.data.suggestion } : s))
+        }
+
+        if (message.type === 'comment-updated') {
+          setComments(prev => prev.map(c => c.id === message.data.comment.id ? { ...c, ...message.data.comment } : c))
         }
       })
 
       // Listen for presence changes
-      channel.onPresence((users) => {
-        setCollaborators(users.filter(u => u.userId !== user.id))
+      const stopPresence = channel.onPresence((users) => {
+        setCollaborators(prev => users
+          .filter(u => u.userId !== user.id)
+          .map(u => ({
+            userId: u.userId,
+            lastSeen: u.lastSeen,
+            metadata: {
+              displayName: u.metadata?.displayName || 'Anonymous',
+              email: u.metadata?.email || '',
+              cursor: prev.find(p => p.userId === u.userId)?.metadata.cursor ?? u.metadata?.cursor ?? null
+            }
+          })))
+        // Newcomers have not seen where we are yet
+        publishCursor()
       })
 
+      // The SDK hands out the same channel for a name, so handlers left behind would run twice on reopening
+      const leave = () => {
+        stopMessages()
+        stopPresence()
+        channel.unsubscribe().catch(error => console.error('Failed to leave realtime channel:', error))
+      }
+
+      channel.publish('crdt-sync-request', { site: siteIdRef.current })
+        .catch(error => console.error('Failed to request document state:', error))
+      return leave
     } catch (error) {
       console.error('Failed to setup realtime:', error)
     }
   }
 
+  const publishCursor = async () => {
+    if (!editorRef.current || !crdtRef.current) return
+    const offsets = getSelectionOffsets(editorRef.current)
+    if (!offsets) return
+
+    const selection: RemoteSelection = {
+      anchor: crdtRef.current.anchorAt(offsets.anchor),
+      focus: crdtRef.current.anchorAt(offsets.focus)
+    }
+
+    try {
+      await blink.realtime.publish(`document-${documentId}`, 'cursor-update', { selection })
+    } catch (error) {
+      console.error('Failed to broadcast cursor:', error)
+    }
+  }
+
   const saveDocument = async () => {
-    if (!user || isSaving) return
+    if (!user || isSaving || !canEditDocument) return
+
+    const model = parseHtml(documentContent)
+    const validation = validateDocument(model)
+    if (!validation.success) {
+      console.error('Refusing to save invalid document:', validation.error)
+      return
+    }
     
     setIsSaving(true)
     try {
@@ -314,19 +907,18 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
         return await blink.db.documents.upsert({
           id: documentId,
           title: documentTitle,
-          content: documentContent,
-          userId: user.id,
+          content: serializeHtml(validation.data),
+          crdtState: crdtRef.current ? JSON.stringify(crdtRef.current.toState()) : undefined,
+          userId: documentOwnerId || user.id,
           updatedAt: new Date()
         })
       })
       
       setLastSaved(new Date())
 
-      // Broadcast content update to other users
-      await blink.realtime.publish(`document-${documentId}`, 'content-update', {
-        content: documentContent,
-        updatedBy: user.id
-      })
+      if (Date.now() - lastSnapshotAtRef.current >= VERSION_SNAPSHOT_INTERVAL) {
+        await createVersion()
+      }
     } catch (error) {
       console.error('Failed to save document:', error)
     } finally {
@@ -334,7 +926,106 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
     }
   }
 
+  const createVersion = async (name?: string) => {
+    if (!user || !canEditDocument) return
+
+    const validation = validateDocument(parseHtml(documentContent))
+    if (!validation.success) return
+
+    const content = serializeHtml(validation.data)
+    const latest = versions[versions.length - 1]
+    // Automatic snapshots skip unchanged documents; named ones are always kept
+    if (!name && latest && latest.content === content && latest.title === documentTitle) return
+
+    const version: DocumentVersion = {
+      id: `version-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      documentId,
+      userId: user.id,
+      title: documentTitle,
+      content,
+      name: name || null,
+      createdAt: new Date().toISOString()
+    }
+    lastSnapshotAtRef.current = Date.now()
+
+    try {
+      await retryWithBackoff(async () => {
+        return await blink.db.documentVersions.create(version)
+      })
+
+      const withUser = { ...version, user: { email: user.email } }
+      setVersions(prev => [...prev, withUser])
+      await blink.realtime.publish(`document-${documentId}`, 'version-added', { version: withUser })
+    } catch (error) {
+      console.error('Failed to save version:', error)
+    }
+  }
+
+  const renameVersion = async (versionId: string, name: string) => {
+    setVersions(prev => prev.map(v => v.id === versionId ? { ...v, name: name || null } : v))
+    try {
+      await retryWithBackoff(async () => {
+        return await blink.db.documentVersions.update(versionId, { name: name || null })
+      })
+      await blink.realtime.publish(`document-${documentId}`, 'version-updated', {
+        version: { id: versionId, name: name || null }
+      })
+    } catch (error) {
+      console.error('Failed to rename version:', error)
+    }
+  }
+
+  const restoreVersion = async (version: DocumentVersion) => {
+    if (!user || !editorRef.current || !canEditDocument || editorMode !== 'editing') return
+
+    // Keep what we are about to replace so the restore can itself be undone
+    await createVersion(`Before restoring ${version.name || new Date(version.createdAt).toLocaleString()}`)
+
+    // Stored versions go through the model before they reach the page, like any other HTML
+    editorRef.current.innerHTML = normalizeHtml(version.content)
+    handleContentChange()
+    setDocumentTitle(version.title)
+    setIsHistoryOpen(false)
+
+    try {
+      await retryWithBackoff(async () => {
+        return await blink.db.documents.update(documentId, {
+          title: version.title,
+          updatedAt: new Date()
+        })
+      })
+      await blink.realtime.publish(`document-${documentId}`, 'title-update', {
+        title: version.title,
+        updatedBy: user.id
+      })
+      toast.success('Version restored')
+    } catch (error) {
+      console.error('Failed to restore title:', error)
+    }
+  }
+
+  const copyVersion = async (version: DocumentVersion) => {
+    const text = documentText(parseHtml(version.content))
+    try {
+      if (typeof ClipboardItem !== 'undefined') {
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            'text/html': new Blob([version.content], { type: 'text/html' }),
+            'text/plain': new Blob([text], { type: 'text/plain' })
+          })
+        ])
+      } else {
+        await navigator.clipboard.writeText(text)
+      }
+      toast.success('Version copied to clipboard')
+    } catch (error) {
+      console.error('Failed to copy version:', error)
+      toast.error('Could not copy this version')
+    }
+  }
+
   const handleTitleEdit = () => {
+    if (!canEditDocument) return
     setIsEditing(true)
     setTimeout(() => titleRef.current?.focus(), 0)
   }
@@ -347,7 +1038,7 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
           return await blink.db.documents.upsert({
             id: documentId,
             title: documentTitle,
-            userId: user.id,
+            userId: documentOwnerId || user.id,
             updatedAt: new Date()
           })
         })
@@ -363,91 +1054,1250 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
     }
   }
 
+  // The browser's editing commands keep formatting in its undo history; whatever
+  // markup they produce is normalized into the document model afterwards.
+  // In suggesting mode only inserted text can be tracked, so formatting is refused.
   const formatText = (command: string, value?: string) => {
-    document.execCommand(command, false, value)
-    editorRef.current?.focus()
+    if (!canEditDocument) return
+    if (editorMode === 'suggesting') {
+      if (command !== 'insertText' || !value) return
+      editorRef.current?.focus()
+      suggestInsertion(value, suggestionOptions())
+    } else {
+      document.execCommand(command, false, value)
+      editorRef.current?.focus()
+    }
     handleContentChange()
   }
 
-  const handleContentChange = () => {
-    if (editorRef.current) {
-      const content = editorRef.current.innerHTML
-      setDocumentContent(content)
+  const undoLastDomEdit = () => {
+    const edit = domEditRef.current
+    domEditRef.current = null
+    if (!edit || !editorRef.current || !revertDomEdit(editorRef.current, edit)) return false
+    handleContentChange()
+    return true
+  }
+
+  // Menu commands; selecting all is allowed on read-only documents too
+  const menuCommand = (command: string, value?: string) => {
+    if (command === 'undo' && undoLastDomEdit()) return
+    if (command === 'selectAll') {
+      editorRef.current?.focus()
+      document.execCommand('selectAll')
+      return
+    }
+    if (command === 'insertPageBreak') {
+      formatText('insertHTML', '<hr data-page-break="true"><p><br></p>')
+      return
+    }
+    if (command === 'insertChecklist') {
+      formatText('insertUnorderedList')
+      const anchor = window.getSelection()?.anchorNode
+      const item = (anchor instanceof Element ? anchor : anchor?.parentElement)?.closest('li')
+      if (item && editorRef.current?.contains(item)) {
+        item.setAttribute('data-checked', 'false')
+        handleContentChange()
+      }
+      return
+    }
+    if (command === 'insertTable') {
+      if (editorMode !== 'editing') return
+      // Size comes as "rowsxcolumns" from the grid picker
+      const [rows, columns] = (value || '3x3').split('x').map(Number)
+      formatText('insertHTML', createTableHtml(rows || 3, columns || 3))
+      return
+    }
+    if (command === 'insertImage') {
+      openImageDialog(null)
+      return
+    }
+    if (command === 'insertLink') {
+      openLinkDialog()
+      return
+    }
+    if (command === 'insertBookmark') {
+      toggleBookmark()
+      return
+    }
+    if (command === 'insertDate') {
+      formatText('insertText', new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }))
+      return
+    }
+    formatText(command, value)
+  }
+
+  const closeSlashMenu = () => {
+    slashOffsetRef.current = null
+    setSlashMenu(null)
+  }
+
+  // Keeps the slash menu in step with what has been typed after the slash
+  const refreshSlashMenu = (opened = false) => {
+    const editor = editorRef.current
+    const offsets = editor && getSelectionOffsets(editor)
+    if (!editor || !offsets) return closeSlashMenu()
+    if (opened) slashOffsetRef.current = offsets.anchor - 1
+    const start = slashOffsetRef.current
+    if (start === null) return
+    const typed = offsets.anchor > start && offsets.anchor === offsets.focus
+      ? createRangeFromOffsets(editor, start, offsets.anchor).toString()
+      : ''
+    if (!typed.startsWith('/') || typed.length > 40) return closeSlashMenu()
+    const range = window.getSelection()!.getRangeAt(0)
+    const rect = range.getBoundingClientRect()
+    setSlashMenu({ query: typed.slice(1), top: rect.bottom + 4, left: rect.left })
+  }
+
+  // Swaps the typed "/query" for the chosen block
+  const runSlashCommand = (command: string, value?: string) => {
+    const editor = editorRef.current
+    const offsets = editor && getSelectionOffsets(editor)
+    const start = slashOffsetRef.current
+    closeSlashMenu()
+    if (!editor || !offsets || start === null) return
+    const selection = window.getSelection()
+    selection?.removeAllRanges()
+    selection?.addRange(createRangeFromOffsets(editor, start, offsets.anchor))
+    document.execCommand('delete')
+    menuCommand(command, value)
+  }
+
+  const handleEditorKeyDown = (event: React.KeyboardEvent) => {
+    const mod = event.ctrlKey || event.metaKey
+    if (event.key === 'Enter' && mod) {
+      event.preventDefault()
+      menuCommand('insertPageBreak')
+    } else if (event.key.toLowerCase() === 'k' && mod && !event.shiftKey && !event.altKey) {
+      if (openLinkDialog()) event.preventDefault()
+    } else if (event.key.toLowerCase() === 'z' && mod && !event.shiftKey && !event.altKey) {
+      if (undoLastDomEdit()) event.preventDefault()
+    } else if (editorMode === 'editing' && !mod && /^(.|Enter|Backspace|Delete)$/.test(event.key) && formulaCellAtCaret()) {
+      // A formula cell has no text of its own; typing in it edits the formula
+      event.preventDefault()
+      setFormulaCell(formulaCellAtCaret())
+    } else if (event.key === 'Enter' && !event.shiftKey && editorMode === 'editing' && isFormula(editingCellRef.current?.textContent?.trim() || '')) {
+      // Enter saves a formula and moves down a row, as in a spreadsheet
+      event.preventDefault()
+      const cell = editingCellRef.current!
+      const next = cellBelow(cell) || adjacentCell(cell, false)
+      if (next) {
+        placeCaretIn(next, true)
+        updateTableSelection()
+      } else if (commitFormula(cell)) {
+        handleContentChange()
+      }
+    } else if (event.key === 'Enter' && !event.shiftKey && editorMode === 'editing' && editorRef.current) {
+      if (autoformatEnter(editorRef.current)) {
+        event.preventDefault()
+        handleContentChange()
+      } else {
+        autolinkBeforeEnter(editorRef.current)
+      }
+    } else if (event.key === 'Tab' && !mod && !event.altKey && editorMode === 'editing') {
+      // Tab moves between table cells; in the last cell it adds a row
+      const anchor = window.getSelection()?.anchorNode
+      const cell = (anchor instanceof Element ? anchor : anchor?.parentElement)?.closest<HTMLTableCellElement>('td, th')
+      const table = cell?.closest('table')
+      if (!cell || !table || !editorRef.current?.contains(cell)) return
+      event.preventDefault()
+      const next = adjacentCell(cell, event.shiftKey)
+      if (next) placeCaretIn(next, true)
+      else if (!event.shiftKey) editDom(() => applyTableAction('insertRowBelow', table, [cell]))
+      updateTableSelection()
+    }
+  }
+
+  // Markdown shortcuts and the slash menu work as they are typed, in editing mode only
+  const handleEditorInput = (event: React.FormEvent) => {
+    const input = event.nativeEvent as InputEvent
+    const editor = editorRef.current
+    // Suggested text is synced once the composition ends and it becomes a suggestion
+    if (input.isComposing && editorMode === 'suggesting') return
+    if (input.inputType === 'insertText' && editorMode === 'editing' && editor) {
+      autoformatInput(editor, input.data)
+      if (input.data === '/' && textBeforeCaret(editor)?.trim() === '/') refreshSlashMenu(true)
+    }
+    if (slashOffsetRef.current !== null) refreshSlashMenu()
+
+    // A new checklist item starts unticked, whatever the one it was split from
+    if (input.inputType === 'insertParagraph') {
+      const anchor = window.getSelection()?.anchorNode
+      const item = (anchor instanceof Element ? anchor : anchor?.parentElement)?.closest('li[data-checked="true"]')
+      if (item && !item.textContent) item.setAttribute('data-checked', 'false')
+    }
+    handleContentChange()
+  }
+
+  const handleEditorKeyUp = () => {
+    handleTextSelection()
+    if (slashOffsetRef.current !== null) refreshSlashMenu()
+  }
+
+  // The table under the selection and the cells it covers, for the table toolbar
+  const updateTableSelection = () => {
+    const editor = editorRef.current
+    const selection = window.getSelection()
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null
+    const node = range?.commonAncestorContainer
+    const table = (node instanceof Element ? node : node?.parentElement)?.closest('table')
+    if (!editor || !range || !table || !editor.contains(table)) {
+      trackFormulaCell(null)
+      setTableSelection(null)
+      return
+    }
+    trackFormulaCell((node instanceof Element ? node : node?.parentElement)?.closest<HTMLTableCellElement>('td, th') || null)
+    setTableSelection({ table, cells: selectedCells(table, range) })
+  }
+
+  const formulaCellAtCaret = () => {
+    const anchor = window.getSelection()?.anchorNode
+    const cell = (anchor instanceof Element ? anchor : anchor?.parentElement)?.closest<HTMLTableCellElement>('td[data-formula], th[data-formula]')
+    return cell && editorRef.current?.contains(cell) ? cell : null
+  }
+
+  // Leaving a cell saves a formula typed into it; entering a formula cell opens its source for editing
+  const trackFormulaCell = (cell: HTMLTableCellElement | null) => {
+    const editable = canEditDocument && editorMode === 'editing'
+    const previous = editingCellRef.current
+    if (cell === previous) return
+    editingCellRef.current = editable ? cell : null
+    if (!editable) return
+    if (previous?.isConnected && commitFormula(previous)) handleContentChange()
+    if (cell?.hasAttribute('data-formula')) setFormulaCell(cell)
+  }
+
+  // Enter in the formula editor moves on down the column, as in a spreadsheet
+  const saveFormula = (cell: HTMLTableCellElement, formula: string, down: boolean) => {
+    setFormulaCell(null)
+    const editor = editorRef.current
+    if (!editor || !cell.isConnected) return
+    if (editorMode === 'editing' && setCellFormula(cell, formula)) handleContentChange()
+    if (!down) return
+    editor.focus()
+    placeCaretIn(cellBelow(cell) || adjacentCell(cell, false) || cell, true)
+    updateTableSelection()
+  }
+
+  const cancelFormula = (cell: HTMLTableCellElement) => {
+    setFormulaCell(null)
+    if (!cell.isConnected) return
+    editorRef.current?.focus()
+    placeCaretIn(cell)
+  }
+
+  const placeCaretIn = (element: HTMLElement, selectContents = false) => {
+    const range = document.createRange()
+    range.selectNodeContents(element)
+    if (!selectContents) range.collapse(true)
+    const selection = window.getSelection()
+    selection?.removeAllRanges()
+    selection?.addRange(range)
+  }
+
+  // Table and image edits change the DOM directly, outside the browser's undo history.
+  // They can't be tracked as suggestions, so they are for editing mode only.
+  const editDom = (edit: () => HTMLElement | null | void, select: (target: HTMLElement) => void = placeCaretIn) => {
+    const editor = editorRef.current
+    if (!editor || !canEditDocument || editorMode !== 'editing') return
+    const before = editor.innerHTML
+    const caret = getSelectionOffsets(editor)?.anchor ?? 0
+    const target = edit()
+    if (editor.innerHTML === before) return
+    domEditRef.current = { before, after: editor.innerHTML, caret }
+    if (target) {
+      editor.focus()
+      select(target)
+    }
+    handleContentChange()
+    updateTableSelection()
+  }
+
+  const runTableAction = (action: TableAction) => {
+    const current = tableSelection
+    const cells = current ? current.cells.filter(cell => current.table.contains(cell)) : []
+    if (!current || cells.length === 0) return
+    editDom(() => applyTableAction(action, current.table, cells))
+  }
+
+  const sortTable = (descending: boolean) => {
+    const current = tableSelection
+    const cell = current?.cells.find(cell => current.table.contains(cell))
+    const editor = editorRef.current
+    if (!current || !cell || !editor) return
+    editDom(() => {
+      // Sort on results, with any formula being typed saved first
+      if (editingCellRef.current?.isConnected) commitFormula(editingCellRef.current)
+      editingCellRef.current = null
+      recalculateFormulas(editor)
+      if (!sortRows(current.table, cell, descending)) {
+        toast.error("Rows with merged cells can't be sorted")
+        return null
+      }
+      return cell
+    })
+  }
+
+  const styleTableCells = (style: CellStyle) => {
+    const cells = tableSelection ? tableSelection.cells.filter(cell => cell.isConnected) : []
+    if (cells.length > 0) editDom(() => setCellStyle(cells, style))
+  }
+
+  // A column edge under the pointer, when it is close enough to drag
+  const columnEdgeAt = (event: React.MouseEvent) => {
+    const table = (event.target as HTMLElement).closest('table')
+    if (!table || !editorRef.current?.contains(table)) return null
+    const column = columnEdges(table).findIndex(edge => Math.abs(edge - event.clientX) <= 4)
+    return column === -1 ? null : { table, column }
+  }
+
+  // Dragging an edge fixes every column at its current width, then moves that one
+  const startColumnResize = (table: HTMLTableElement, column: number, startX: number) => {
+    const editor = editorRef.current
+    if (!editor || !canEditDocument || editorMode !== 'editing') return
+    const before = editor.innerHTML
+    const caret = getSelectionOffsets(editor)?.anchor ?? 0
+    const width = freezeColumnWidths(table)[column]
+    const handleMove = (move: MouseEvent) => setColumnWidth(table, column, width + move.clientX - startX)
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove)
+      window.removeEventListener('mouseup', handleUp)
+      if (editor.innerHTML === before) return
+      domEditRef.current = { before, after: editor.innerHTML, caret }
+      handleContentChange()
+    }
+    window.addEventListener('mousemove', handleMove)
+    window.addEventListener('mouseup', handleUp)
+  }
+
+  const handleEditorMouseMove = (event: React.MouseEvent) => {
+    if (!canEditDocument || editorMode !== 'editing' || event.buttons) return
+    const resizable = !!columnEdgeAt(event)
+    if (resizable !== columnResizable) setColumnResizable(resizable)
+  }
+
+  // Selects the image whole, so typing replaces it and Delete removes it
+  const selectImage = (image: HTMLImageElement) => {
+    const range = document.createRange()
+    range.selectNode(imageElement(image))
+    const selection = window.getSelection()
+    selection?.removeAllRanges()
+    selection?.addRange(range)
+    setActiveImage(image)
+  }
+
+  const editImage = (edit: (image: HTMLImageElement) => HTMLImageElement | null) => {
+    const image = activeImage
+    if (!image?.isConnected || !canEditDocument || editorMode !== 'editing') return
+    setActiveImage(null)
+    editDom(() => edit(image), target => selectImage(target as HTMLImageElement))
+  }
+
+  const openImageDialog = (file: File | null) => {
+    const editor = editorRef.current
+    if (!editor || !canEditDocument || editorMode !== 'editing') return
+    imageInsertionRef.current = getSelectionOffsets(editor)
+    setImageDialog({ file })
+  }
+
+  // The image is uploaded while the dialog waits, and inserted once it has closed
+  const uploadDialogImage = async ({ file, alt, caption }: { file: File; alt: string; caption: string }) => {
+    try {
+      const size = await initialImageSize(file)
+      const src = await uploadImage(file, documentId)
+      pendingImageRef.current = { type: 'image', src, alt, ...size, ...(caption ? { caption } : {}) }
+      setImageDialog(null)
+      return true
+    } catch (error) {
+      console.error('Failed to upload image:', error)
+      toast.error('Could not upload the image')
+      return false
+    }
+  }
+
+  const handleImageDialogClosed = () => {
+    const editor = editorRef.current
+    const image = pendingImageRef.current
+    const offsets = imageInsertionRef.current
+    pendingImageRef.current = null
+    imageInsertionRef.current = null
+    if (!editor) return
+    editor.focus()
+    if (offsets) setSelectionOffsets(editor, offsets.anchor, offsets.focus)
+    // The mode may have changed while the image uploaded
+    if (image && editorMode === 'editing') formatText('insertHTML', serializeInlines([image]))
+  }
+
+  const startImageResize = () => {
+    const editor = editorRef.current
+    if (!editor || !canEditDocument || editorMode !== 'editing') return
+    imageResizeRef.current = { before: editor.innerHTML, caret: getSelectionOffsets(editor)?.anchor ?? 0 }
+  }
+
+  // No wider than the page's text column
+  const resizeActiveImage = (width: number) => {
+    const editor = editorRef.current
+    if (!editor || !activeImage || !imageResizeRef.current) return
+    const style = getComputedStyle(editor)
+    resizeImage(activeImage, width, editor.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight))
+  }
+
+  const finishImageResize = () => {
+    const editor = editorRef.current
+    const start = imageResizeRef.current
+    imageResizeRef.current = null
+    if (!editor || !start || editor.innerHTML === start.before) return
+    domEditRef.current = { before: start.before, after: editor.innerHTML, caret: start.caret }
+    handleContentChange()
+  }
+
+  // Pasted and dropped image files go through the image dialog for their alt text
+  const handleEditorPaste = (event: React.ClipboardEvent) => {
+    const [file] = imageFiles(event.clipboardData)
+    if (!file || !canEditDocument || editorMode !== 'editing') return
+    event.preventDefault()
+    openImageDialog(file)
+  }
+
+  const handleEditorDragOver = (event: React.DragEvent) => {
+    if (canEditDocument && editorMode === 'editing' && event.dataTransfer.types.includes('Files')) event.preventDefault()
+  }
+
+  const handleEditorDrop = (event: React.DragEvent) => {
+    const [file] = imageFiles(event.dataTransfer)
+    if (!file || !canEditDocument || editorMode !== 'editing') return
+    event.preventDefault()
+    const range = document.caretRangeFromPoint?.(event.clientX, event.clientY)
+    if (range && editorRef.current?.contains(range.startContainer)) {
+      const selection = window.getSelection()
+      selection?.removeAllRanges()
+      selection?.addRange(range)
+    }
+    openImageDialog(file)
+  }
+
+  const linkAt = (node: EventTarget | Node | null | undefined) => {
+    const element = node instanceof Element ? node : node instanceof Node ? node.parentElement : null
+    const link = element?.closest('a')
+    return link && editorRef.current?.contains(link) ? link : null
+  }
+
+  // Edits the link at the caret, or links the selection; false when there is nothing to link
+  const openLinkDialog = (link?: HTMLAnchorElement | null) => {
+    const editor = editorRef.current
+    if (!editor || !canEditDocument || editorMode === 'viewing') return false
+    const selection = window.getSelection()
+    const existing = link || linkAt(selection?.anchorNode)
+    if (existing) {
+      editor.focus()
+      placeCaretIn(existing, true)
+    }
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null
+    if (!range || !editor.contains(range.commonAncestorContainer)) return false
+    // Retyping the text would lose any formatting inside it
+    const contents = existing || range.cloneContents()
+    linkSelectionRef.current = getSelectionOffsets(editor)
+    editingLinkRef.current = existing
+    setHoveredLink(null)
+    setLinkDialog({
+      initial: { text: range.toString(), href: existing?.getAttribute('href') || '', editing: !!existing },
+      textEditable: Array.from(contents.childNodes).every(node => node.nodeType === Node.TEXT_NODE),
+      targets: linkTargets(editor)
+    })
+    return true
+  }
+
+  const applyLink = (link: { text: string; href: string }) => {
+    pendingLinkRef.current = { ...link, retype: !!linkDialog?.textEditable }
+    setLinkDialog(null)
+  }
+
+  const handleLinkDialogClosed = () => {
+    const editor = editorRef.current
+    const link = pendingLinkRef.current
+    const offsets = linkSelectionRef.current
+    const existing = editingLinkRef.current
+    pendingLinkRef.current = null
+    linkSelectionRef.current = null
+    editingLinkRef.current = null
+    if (!editor) return
+    editor.focus()
+    if (offsets) setSelectionOffsets(editor, offsets.anchor, offsets.focus)
+    if (!link) return
+    if (existing?.isConnected) {
+      editDom(() => {
+        existing.setAttribute('href', link.href)
+        if (link.retype && existing.textContent !== link.text) existing.textContent = link.text
+        return existing
+      }, target => placeCaretIn(target, true))
+      return
+    }
+    const selected = window.getSelection()?.toString() || ''
+    if (!selected || (link.retype && selected !== link.text)) {
+      formatText('insertHTML', serializeInlines([{ type: 'text', text: link.text, marks: { link: link.href } }]))
+    } else {
+      formatText('createLink', link.href)
+    }
+  }
+
+  const removeLink = (link: HTMLAnchorElement) => {
+    setHoveredLink(null)
+    editDom(() => {
+      link.replaceWith(...Array.from(link.childNodes))
+    })
+  }
+
+  // Links within the document are copied as the document's address with the target on the end
+  const copyLink = (link: HTMLAnchorElement) => {
+    const href = link.getAttribute('href') || ''
+    const url = new URL(href.startsWith('#') ? documentPath(documentId) + href : href, window.location.origin).href
+    navigator.clipboard.writeText(url)
+      .then(() => toast.success('Link copied to clipboard'))
+      .catch(() => toast.error('Failed to copy link'))
+  }
+
+  // Headings and bookmarks scroll into view, documents open here and anything else in a new tab
+  const followLink = (href: string) => {
+    setHoveredLink(null)
+    if (href.startsWith('#')) {
+      const target = editorRef.current && findTarget(editorRef.current, href)
+      if (target) target.element.scrollIntoView({ behavior: 'smooth', block: 'start' })
+      else toast.error('This heading or bookmark is no longer in the document')
+    } else if (linkedDocumentId(href)) {
+      navigate(href)
+    } else {
+      window.open(href, '_blank', 'noopener,noreferrer')
+    }
+  }
+
+  // Leaving the link for its card, or the card for the link, keeps it open
+  const showLinkPopover = (link: HTMLAnchorElement) => {
+    clearTimeout(linkHideTimeoutRef.current)
+    setHoveredLink(link)
+  }
+
+  const hideLinkPopover = () => {
+    clearTimeout(linkHideTimeoutRef.current)
+    linkHideTimeoutRef.current = setTimeout(() => setHoveredLink(null), 300)
+  }
+
+  const handleEditorMouseOver = (event: React.MouseEvent) => {
+    const link = linkAt(event.target)
+    if (link && !event.buttons) showLinkPopover(link)
+  }
+
+  const handleEditorMouseOut = (event: React.MouseEvent) => {
+    const link = linkAt(event.target)
+    if (link && linkAt(event.relatedTarget) !== link) hideLinkPopover()
+  }
+
+  // Links only follow a plain click where the text can't be edited; otherwise it takes Ctrl or ⌘
+  const handleEditorClick = (event: React.MouseEvent) => {
+    const link = linkAt(event.target)
+    const editable = canEditDocument && editorMode !== 'viewing'
+    if (!link) return
+    event.preventDefault()
+    if (!editable || event.ctrlKey || event.metaKey) followLink(link.getAttribute('href') || '')
+  }
+
+  // A document's address typed into the text shows as its title, on this page
+  // only and only for documents we can open
+  const titleDocumentLinks = async () => {
+    const editor = editorRef.current
+    if (!editor) return
+    showDocumentTitles(editor, documentTitlesRef.current)
+    const ids = addressedDocumentIds(editor).filter(id => !requestedTitlesRef.current.has(id))
+    if (ids.length === 0) return
+    ids.forEach(id => requestedTitlesRef.current.add(id))
+    try {
+      const documents = await listAccessibleDocuments(ids, { id: user.id, email: user.email })
+      documents.forEach(doc => documentTitlesRef.current.set(doc.id, doc.title || 'Untitled'))
+      if (editorRef.current) showDocumentTitles(editorRef.current, documentTitlesRef.current)
+    } catch (error) {
+      ids.forEach(id => requestedTitlesRef.current.delete(id))
+      console.error('Failed to load linked documents:', error)
+    }
+  }
+
+  // Marks the paragraph at the caret as a place links can point at, or unmarks it
+  const toggleBookmark = () => {
+    const anchor = window.getSelection()?.anchorNode
+    const block = (anchor instanceof Element ? anchor : anchor?.parentElement)?.closest('p, h1, h2, h3, h4, h5, h6')
+    if (!block || !editorRef.current?.contains(block)) {
+      toast.error('Put the cursor in a paragraph to bookmark it')
+      return
+    }
+    if (block.tagName !== 'P') {
+      toast.error('Headings can be linked to without a bookmark')
+      return
+    }
+    editDom(() => {
+      if (block.id.startsWith('bookmark-')) block.removeAttribute('id')
+      else block.id = newBlockId('bookmark')
+    })
+  }
+
+  // Clicking the box of a checklist item ticks or unticks it; pressing on a
+  // table column edge starts resizing the column; clicking an image selects it
+  const handleEditorMouseDown = (event: React.MouseEvent) => {
+    const edge = canEditDocument && editorMode === 'editing' ? columnEdgeAt(event) : null
+    if (edge) {
+      event.preventDefault()
+      startColumnResize(edge.table, edge.column, event.clientX)
+      return
+    }
+    // Clicking the formula cell the caret is already in opens it again
+    const cell = (event.target as HTMLElement).closest<HTMLTableCellElement>('td[data-formula], th[data-formula]')
+    if (cell && cell === editingCellRef.current && !formulaCell) {
+      event.preventDefault()
+      setFormulaCell(cell)
+      return
+    }
+    const image = (event.target as HTMLElement).closest('img')
+    if (image && canEditDocument && editorMode === 'editing') {
+      event.preventDefault()
+      editorRef.current?.focus()
+      selectImage(image)
+      return
+    }
+    const item = (event.target as HTMLElement).closest('li[data-checked]')
+    if (!item || editorMode !== 'editing' || !canEditDocument) return
+    if (event.clientX >= item.getBoundingClientRect().left) return
+    event.preventDefault()
+    item.setAttribute('data-checked', item.getAttribute('data-checked') === 'true' ? 'false' : 'true')
+    handleContentChange()
+  }
+
+  const newDocument = async () => {
+    if (!user) return
+    try {
+      const doc = await createDocument(user.id)
+      navigate(documentPath(doc.id))
+    } catch (error) {
+      console.error('Failed to create document:', error)
+      toast.error('Could not create a document')
+    }
+  }
+
+  // The copy belongs to whoever makes it and lands next to the original
+  const makeCopy = async () => {
+    if (!user) return
+    try {
+      const content = serializeHtml(parseHtml(documentContent))
+      const folderId = folderChain[folderChain.length - 1]?.id ?? null
+      const doc = await createDocument(user.id, `Copy of ${documentTitle}`, folderId, content)
+      toast.success(`Created "${doc.title}"`)
+      navigate(documentPath(doc.id))
+    } catch (error) {
+      console.error('Failed to copy document:', error)
+      toast.error('Could not make a copy of this document')
+    }
+  }
+
+  // The PDF's fonts only cover Western European text; say what they left out
+  const pdfWithWarning = ({ blob, unsupported }: PdfExport) => {
+    if (unsupported.length > 0) {
+      const shown = unsupported.slice(0, 10).join(' ')
+      toast(`Some characters can't be shown in the PDF and appear as "?": ${shown}${unsupported.length > 10 ? ' …' : ''}`, { icon: '⚠️', duration: 6000 })
+    }
+    return blob
+  }
+
+  const download = async (format: DownloadFormat) => {
+    try {
+      const content = withFormulaResults(documentContent)
+      let blob: Blob
+      if (format === 'docx') blob = await exportDocx(documentTitle, content, user?.email)
+      else if (format === 'pdf') blob = pdfWithWarning(await exportPdf(documentTitle, content, pageSetup))
+      else if (format === 'html') blob = exportHtml(documentTitle, content)
+      else if (format === 'md') blob = exportMarkdown(content)
+      else blob = exportText(content)
+      downloadBlob(blob, fileNameFor(documentTitle, format))
+    } catch (error) {
+      console.error('Failed to export document:', error)
+      toast.error('Could not download this document')
+    }
+  }
+
+  // Prints the same PDF the download produces, so the printout matches page setup
+  const printDocument = async () => {
+    try {
+      printBlob(pdfWithWarning(await exportPdf(documentTitle, withFormulaResults(documentContent), pageSetup)))
+    } catch (error) {
+      console.error('Failed to prepare document for printing:', error)
+      window.print()
+    }
+  }
+
+  const updatePageSetup = async (setup: PageSetup) => {
+    setPageSetup(setup)
+    setIsPageSetupOpen(false)
+    try {
+      await savePageSetup(documentId, setup)
+      await blink.realtime.publish(`document-${documentId}`, 'page-setup-updated', { setup })
+    } catch (error) {
+      console.error('Failed to save page setup:', error)
+      toast.error('Could not save page setup')
+    }
+  }
+
+  const showWordCount = () => {
+    const text = documentText(parseHtml(documentContent))
+    const words = text.split(/\s+/).filter(Boolean).length
+    const characters = text.replace(/\n/g, '').length
+    toast(`${words} words · ${characters} characters`)
+  }
+
+  const handleContentChange = () => {
+    if (editorRef.current) {
+      // Sync and store the canonical form, not whatever markup the browser produced
+      const content = normalizeHtml(editorRef.current.innerHTML)
+      // Text the canonical form leaves out goes from the page too, so offsets match
+      // the CRDT's; an input method keeps its text until the composition ends
+      if (!composingRef.current) patchDroppedText(editorRef.current, content)
+      recalculateFormulas(editorRef.current)
+      titleDocumentLinks()
+      setDocumentContent(content)
+
+      if (crdtRef.current) {
+        const ops = crdtRef.current.applyLocalHtml(content)
+        if (ops.length > 0) {
+          outgoingOpsRef.current.push(...ops)
+          scheduleOpsFlush()
+        }
+      }
+    }
+  }
+
+  // Batch keystrokes into one realtime message per tick
+  const scheduleOpsFlush = () => {
+    if (flushOpsTimeoutRef.current) return
+    flushOpsTimeoutRef.current = setTimeout(async () => {
+      flushOpsTimeoutRef.current = undefined
+      const ops = outgoingOpsRef.current
+      outgoingOpsRef.current = []
+      if (ops.length === 0) return
+
+      try {
+        await blink.realtime.publish(`document-${documentId}`, 'crdt-ops', {
+          site: siteIdRef.current,
+          ops
+        })
+      } catch (error) {
+        console.error('Failed to broadcast changes:', error)
+        // Resend with the next batch
+        outgoingOpsRef.current = [...ops, ...outgoingOpsRef.current]
+      }
+    }, 50)
+  }
+
+  const applyRemoteChange = (apply: (crdt: HtmlCrdt) => boolean) => {
+    const crdt = crdtRef.current
+    const editor = editorRef.current
+    if (!crdt || !editor) return
+
+    // Pin the local selection to characters before the text moves under it
+    const offsets = getSelectionOffsets(editor)
+    const anchors = offsets && {
+      anchor: crdt.anchorAt(offsets.anchor),
+      focus: crdt.anchorAt(offsets.focus)
+    }
+
+    if (!apply(crdt)) return
+
+    const content = normalizeHtml(crdt.toHtml())
+    patchHtml(editor, content)
+    recalculateFormulas(editor)
+    titleDocumentLinks()
+    setDocumentContent(content)
+
+    if (anchors) {
+      try {
+        setSelectionOffsets(editor, crdt.offsetOf(anchors.anchor) ?? 0, crdt.offsetOf(anchors.focus) ?? 0)
+      } catch (e) {
+        // Ignore cursor restoration errors
+      }
+    }
+  }
+
+  const handleTextSelection = () => {
+    updateTableSelection()
+    const selection = window.getSelection()
+    const image = selection && selection.rangeCount > 0 ? selectedImage(selection.getRangeAt(0)) : null
+    setActiveImage(image && editorRef.current?.contains(image) ? image : null)
+    if (selection && selection.toString().trim()) {
+      setSelectedText(selection.toString().trim())
+    } else {
+      setSelectedText('')
+
+      // Clicking inside commented text brings its thread forward
+      const offsets = editorRef.current && getSelectionOffsets(editorRef.current)
+      if (offsets) {
+        const hit = commentRanges.find(range => offsets.focus >= range.start && offsets.focus <= range.end)
+        setActiveCommentId(hit ? hit.commentId : null)
+      }
+    }
+  }
+
+  const selectComment = (commentId: string) => {
+    setActiveCommentId(commentId)
+    const range = commentRanges.find(r => r.commentId === commentId)
+    if (!range || !editorRef.current) return
+
+    try {
+      const domRange = createRangeFromOffsets(editorRef.current, range.start, range.end)
+      const container = domRange.startContainer
+      const element = container.nodeType === Node.ELEMENT_NODE ? container as Element : container.parentElement
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    } catch (e) {
+      // Ignore scrolling errors
+    }
+  }
+
+  const addComment = async () => {
+    if (!selectedText || !user) return
+
+    const selection = window.getSelection()
+    if (!selection || selection.rangeCount === 0) return
+
+    const offsets = editorRef.current && getSelectionOffsets(editorRef.current)
+    if (!offsets || !crdtRef.current) return
+    const startOffset = Math.min(offsets.anchor, offsets.focus)
+    const endOffset = Math.max(offsets.anchor, offsets.focus)
+
+    // Anchor to the first and last selected characters so the range moves with edits
+    const anchorStart = crdtRef.current.anchorAt(startOffset + 1)
+    const anchorEnd = crdtRef.current.anchorAt(endOffset)
+
+    const commentContent = prompt('Add a comment:')
+    if (!commentContent) return
+
+    try {
+      const comment = {
+        id: 'comment-' + Date.now(),
+        documentId,
+        userId: user.id,
+        content: commentContent,
+        positionStart: startOffset,
+        positionEnd: endOffset,
+        anchorStart,
+        anchorEnd,
+        quote: selectedText,
+        createdAt: new Date().toISOString(),
+        resolved: false
+      }
+
+      await retryWithBackoff(async () => {
+        return await blink.db.documentComments.create(comment)
+      })
+      
+      setComments(prev => [{ ...comment, user: { email: user.email } }, ...prev])
+
+      // Broadcast new comment
+      await blink.realtime.publish(`document-${documentId}`, 'comment-added', {
+        comment: { ...comment, user: { email: user.email } }
+      })
+
+      setSelectedText('')
+    } catch (error) {
+      console.error('Failed to add comment:', error)
+    }
+  }
+
+  const replyToComment = async (parentId: string, content: string) => {
+    if (!user) return
+    const parent = comments.find(c => c.id === parentId)
+    if (!parent) return
+
+    try {
+      const reply = {
+        id: 'comment-' + Date.now(),
+        documentId,
+        userId: user.id,
+        content,
+        parentId,
+        positionStart: parent.positionStart,
+        positionEnd: parent.positionEnd,
+        anchorStart: parent.anchorStart,
+        anchorEnd: parent.anchorEnd,
+        createdAt: new Date().toISOString(),
+        resolved: false
+      }
+
+      await retryWithBackoff(async () => {
+        return await blink.db.documentComments.create(reply)
+      })
+
+      setComments(prev => [{ ...reply, user: { email: user.email } }, ...prev])
+
+      await blink.realtime.publish(`document-${documentId}`, 'comment-added', {
+        comment: { ...reply, user: { email: user.email } }
+      })
+    } catch (error) {
+      console.error('Failed to reply to comment:', error)
+    }
+  }
+
+  const setCommentResolved = async (commentId: string, resolved: boolean) => {
+    if (!user) return
+
+    const changes = {
+      resolved,
+      resolvedBy: resolved ? user.id : null,
+      resolvedAt: resolved ? new Date().toISOString() : null
+    }
+
+    try {
+      await retryWithBackoff(async () => {
+        return await blink.db.documentComments.update(commentId, changes)
+      })
+
+      setComments(prev => prev.map(c => c.id === commentId ? { ...c, ...changes } : c))
+
+      await blink.realtime.publish(`document-${documentId}`, 'comment-updated', {
+        comment: { id: commentId, ...changes }
+      })
+    } catch (error) {
+      console.error('Failed to update comment:', error)
+    }
+  }
+
+  const suggestionOptions = (): SuggestionOptions => ({
+    ownsSuggestion: (suggestionId) => ownSuggestionIdsRef.current.has(suggestionId) ||
+      suggestions.some(s => s.id === suggestionId && s.userId === user?.id),
+    createSuggestion: (kind) => createSuggestion(kind)
+  })
+
+  // Listeners that effects attach call this render's functions, not the ones
+  // from when they were attached
+  const latestRef = useRef({ handleContentChange, suggestionOptions, publishCursor })
+  latestRef.current = { handleContentChange, suggestionOptions, publishCursor }
+
+  const createSuggestion = (kind: SuggestionKind) => {
+    const suggestion: Suggestion = {
+      id: `suggestion-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      documentId,
+      userId: user.id,
+      kind,
+      status: 'open',
+      createdAt: new Date().toISOString()
+    }
+    const withUser = { ...suggestion, user: { email: user.email } }
+
+    // Ownership checks run before React re-renders, so record it right away
+    ownSuggestionIdsRef.current.add(suggestion.id)
+    setSuggestions(prev => [...prev, withUser])
+
+    retryWithBackoff(async () => {
+      return await blink.db.documentSuggestions.create(suggestion)
+    })
+      .then(() => blink.realtime.publish(`document-${documentId}`, 'suggestion-added', { suggestion: withUser }))
+      .catch(error => console.error('Failed to save suggestion:', error))
+
+    return suggestion.id
+  }
+
+  const resolveSuggestions = async (suggestionIds: string[], accept: boolean) => {
+    if (!user || !editorRef.current) return
+
+    const changed = suggestionIds.filter(id => resolveSuggestion(editorRef.current!, id, accept))
+    if (changed.length === 0) return
+    handleContentChange()
+
+    const changes = {
+      status: accept ? 'accepted' as const : 'rejected' as const,
+      resolvedBy: user.id,
+      resolvedAt: new Date().toISOString()
+    }
+    setSuggestions(prev => prev.map(s => changed.includes(s.id) ? { ...s, ...changes } : s))
+
+    for (const id of changed) {
+      try {
+        await retryWithBackoff(async () => {
+          return await blink.db.documentSuggestions.update(id, changes)
+        })
+        await blink.realtime.publish(`document-${documentId}`, 'suggestion-updated', {
+          suggestion: { id, ...changes }
+        })
+      } catch (error) {
+        console.error('Failed to update suggestion:', error)
+      }
+    }
+  }
+
+  const shareDocument = async () => {
+    if (!shareEmail || !user) return
+
+    try {
+      await grantAccess(shareEmail.trim().toLowerCase(), sharePermission)
+
+      setShareEmail('')
+      setIsShareDialogOpen(false)
+      toast.success(`Shared with ${shareEmail}`)
+    } catch (error) {
+      console.error('Failed to share document:', error)
+    }
+  }
+
+  // userId is an email until the invitee signs in; resolveAccess matches either
+  const grantAccess = async (userId: string, permission: Permission) => {
+    const existing = grantsRef.current.find(grant => grant.userId === userId)
+    if (existing) {
+      await retryWithBackoff(async () => {
+        return await blink.db.documentCollaborators.update(existing.id, { permission })
+      })
+      grantsRef.current = grantsRef.current.map(grant => grant.id === existing.id ? { ...grant, permission } : grant)
+    } else {
+      const grant: DocumentGrant = { id: 'collab-' + Date.now(), documentId, userId, permission }
+      await retryWithBackoff(async () => {
+        return await blink.db.documentCollaborators.create(grant)
+      })
+      grantsRef.current = [...grantsRef.current, grant]
+    }
+
+    // Open sessions re-check their access
+    await blink.realtime.publish(`document-${documentId}`, 'access-updated', { userId })
+  }
+
+  const moveToFolder = async (folderId: string | null) => {
+    if (!canMoveDocument) return
+    try {
+      await moveDocument(documentId, folderId)
+      await loadFolderAccess(folderId)
+      setIsMoveDialogOpen(false)
+      await blink.realtime.publish(`document-${documentId}`, 'document-moved', { folderId })
+      toast.success('Document moved')
+    } catch (error) {
+      console.error('Failed to move document:', error)
+      toast.error('Could not move the document')
+    }
+  }
+
+  const setTrashed = async (trashed: boolean) => {
+    try {
+      const nextTrashedAt = trashed ? await moveToTrash(documentId, user.id) : null
+      if (!trashed) await restoreFromTrash(documentId)
+      trashedRef.current = trashed
+      setTrashedAt(nextTrashedAt)
+      await blink.realtime.publish(`document-${documentId}`, 'document-trashed', { trashedAt: nextTrashedAt })
+      toast.success(trashed ? 'Moved to trash' : 'Document restored')
+    } catch (error) {
+      console.error('Failed to update trash state:', error)
+      toast.error(trashed ? 'Could not move this document to the trash' : 'Could not restore this document')
     }
   }
 
-  const handleTextSelection = () => {
-    const selection = window.getSelection()
-    if (selection && selection.toString().trim()) {
-      setSelectedText(selection.toString().trim())
-    } else {
-      setSelectedText('')
+  const deleteDocumentForever = async () => {
+    setIsDeleteDialogOpen(false)
+    if (!isOwner) return
+    try {
+      await deleteForever(documentId)
+      navigate('/trash')
+    } catch (error) {
+      console.error('Failed to delete document:', error)
+      toast.error('Could not delete this document')
     }
   }
 
-  const addComment = async () => {
-    if (!selectedText || !user) return
-
-    const selection = window.getSelection()
-    if (!selection || selection.rangeCount === 0) return
-
-    const range = selection.getRangeAt(0)
-    const startOffset = range.startOffset
-    const endOffset = range.endOffset
+  const toggleStarred = async () => {
+    const starred = !isStarred
+    setIsStarred(starred)
+    try {
+      await setStarred(user.id, documentId, starred)
+    } catch (error) {
+      console.error('Failed to update star:', error)
+      setIsStarred(!starred)
+      toast.error(starred ? 'Could not star this document' : 'Could not remove the star')
+    }
+  }
 
-    const commentContent = prompt('Add a comment:')
-    if (!commentContent) return
+  const requestAccess = async (message: string) => {
+    if (!user) return
 
     try {
-      const comment = {
-        id: 'comment-' + Date.now(),
-        documentId,
-        userId: user.id,
-        content: commentContent,
-        positionStart: startOffset,
-        positionEnd: endOffset,
-        createdAt: new Date().toISOString(),
-        resolved: false
-      }
-
       await retryWithBackoff(async () => {
-        return await blink.db.documentComments.create(comment)
-      })
-      
-      setComments(prev => [{ ...comment, user: { email: user.email } }, ...prev])
-
-      // Broadcast new comment
-      await blink.realtime.publish(`document-${documentId}`, 'comment-added', {
-        comment: { ...comment, user: { email: user.email } }
+        return await blink.db.documentAccessRequests.create({
+          id: `access-request-${Date.now()}`,
+          documentId,
+          userId: user.id,
+          email: user.email,
+          message: message || null,
+          status: 'pending',
+          createdAt: new Date().toISOString()
+        })
       })
-
-      setSelectedText('')
+      setAccessRequested(true)
     } catch (error) {
-      console.error('Failed to add comment:', error)
+      console.error('Failed to request access:', error)
+      toast.error('Could not send your request. Please try again.')
     }
   }
 
-  const shareDocument = async () => {
-    if (!shareEmail || !user) return
-
+  const answerAccessRequest = async (request: AccessRequest, permission: Permission | null) => {
     try {
+      if (permission) {
+        await grantAccess(request.userId, permission)
+      }
       await retryWithBackoff(async () => {
-        return await blink.db.documentCollaborators.create({
-          id: 'collab-' + Date.now(),
-          documentId,
-          userId: shareEmail, // In real app, this would be resolved to actual user ID
-          permission: sharePermission
+        return await blink.db.documentAccessRequests.update(request.id, {
+          status: permission ? 'approved' : 'declined'
         })
       })
-
-      setShareEmail('')
-      setIsShareDialogOpen(false)
-      // You could show a success toast here
+      setAccessRequests(prev => prev.filter(r => r.id !== request.id))
     } catch (error) {
-      console.error('Failed to share document:', error)
+      console.error('Failed to answer access request:', error)
     }
   }
 
+  // Where each comment thread currently sits in the text; missing entries are orphaned.
+  // The CRDT lives in a ref, so this re-resolves whenever the content changes.
+  useEffect(() => {
+    const crdt = crdtRef.current
+    if (!crdt) {
+      setCommentRanges([])
+      return
+    }
+
+    setCommentRanges(comments
+      .filter(comment => !comment.parentId && comment.anchorStart && comment.anchorEnd)
+      .flatMap(comment => {
+        const range = crdt.rangeBetween(comment.anchorStart!, comment.anchorEnd!)
+        return range ? [{ commentId: comment.id, ...range }] : []
+      }))
+  }, [comments, documentContent])
+
+  const orphanedCommentIds = useMemo(() => new Set(
+    comments
+      .filter(comment => !comment.parentId && !commentRanges.some(range => range.commentId === comment.id))
+      .map(comment => comment.id)
+  ), [comments, commentRanges])
+
+  const openCommentRanges = commentRanges.filter(range =>
+    !comments.find(comment => comment.id === range.commentId)?.resolved
+  )
+
+  const suggestionSpans = useMemo(() => collectSuggestions(documentContent), [documentContent])
+  const paper = pageDimensions(pageSetup)
+
+  const remoteCursors: RemoteCursor[] = collaborators
+    .filter(collab => collab.metadata.cursor)
+    .map(collab => ({
+      userId: collab.userId,
+      displayName: collab.metadata.displayName,
+      selection: collab.metadata.cursor!
+    }))
+
+  // Everything the editor offers, for the command palette while this document is open
+  const readOnly = !canEditDocument
+  const paletteCommands: PaletteCommand[] = [
+    { id: 'file-new', label: 'New document', group: 'File', keywords: ['create', 'blank'], run: newDocument },
+    { id: 'file-open', label: 'Open…', group: 'File', keywords: ['upload', 'import'], run: () => setIsOpenDialogOpen(true) },
+    { id: 'file-copy', label: 'Make a copy', group: 'File', keywords: ['duplicate'], run: makeCopy },
+    { id: 'file-rename', label: 'Rename', group: 'File', keywords: ['title'], disabled: readOnly, run: handleTitleEdit },
+    { id: 'file-move', label: 'Move…', group: 'File', keywords: ['folder'], disabled: !canMoveDocument, run: () => setIsMoveDialogOpen(true) },
+    { id: 'file-star', label: isStarred ? 'Remove from Starred' : 'Star', group: 'File', keywords: ['favorite', 'star'], run: toggleStarred },
+    { id: 'file-trash', label: 'Move to trash', group: 'File', keywords: ['delete', 'remove'], disabled: readOnly, run: () => setTrashed(true) },
+    { id: 'file-history', label: 'Version history', group: 'File', keywords: ['revisions', 'restore'], run: () => setIsHistoryOpen(true) },
+    { id: 'file-page-setup', label: 'Page setup…', group: 'File', keywords: ['margins', 'orientation', 'paper'], disabled: readOnly, run: () => setIsPageSetupOpen(true) },
+    { id: 'file-print', label: 'Print', group: 'File', shortcut: `${modKey}P`, run: printDocument },
+    ...([
+      ['docx', 'Microsoft Word (.docx)'],
+      ['pdf', 'PDF document (.pdf)'],
+      ['html', 'Web page (.html)'],
+      ['md', 'Markdown (.md)'],
+      ['txt', 'Plain text (.txt)']
+    ] as [DownloadFormat, string][]).map(([format, label]) => ({
+      id: `file-download-${format}`, label: `Download as ${label}`, group: 'File', keywords: ['export', 'save'], run: () => download(format)
+    })),
+
+    { id: 'share', label: 'Share…', group: 'Share', keywords: ['invite', 'permissions'], disabled: !isOwner, run: () => setIsShareDialogOpen(true) },
+    {
+      id: 'share-copy-link', label: 'Copy link', group: 'Share', keywords: ['url'],
+      run: () => {
+        navigator.clipboard.writeText(window.location.href)
+          .then(() => toast.success('Link copied to clipboard'))
+          .catch(() => toast.error('Failed to copy link'))
+      }
+    },
+
+    { id: 'edit-undo', label: 'Undo', group: 'Edit', shortcut: `${modKey}Z`, disabled: readOnly, run: () => menuCommand('undo') },
+    { id: 'edit-redo', label: 'Redo', group: 'Edit', shortcut: `${modKey}Y`, disabled: readOnly, run: () => menuCommand('redo') },
+    { id: 'edit-select-all', label: 'Select all', group: 'Edit', shortcut: `${modKey}A`, run: () => menuCommand('selectAll') },
+
+    ...EDITOR_MODES.map(mode => ({
+      id: `view-${mode.value}`, label: `${mode.label} mode`, group: 'View', keywords: [mode.description],
+      disabled: !canEditDocument && mode.value !== 'viewing', run: () => setEditorMode(mode.value)
+    })),
+
+    { id: 'format-bold', label: 'Bold', group: 'Format', shortcut: `${modKey}B`, disabled: readOnly, run: () => menuCommand('bold') },
+    { id: 'format-italic', label: 'Italic', group: 'Format', shortcut: `${modKey}I`, disabled: readOnly, run: () => menuCommand('italic') },
+    { id: 'format-underline', label: 'Underline', group: 'Format', shortcut: `${modKey}U`, disabled: readOnly, run: () => menuCommand('underline') },
+    { id: 'format-strikethrough', label: 'Strikethrough', group: 'Format', disabled: readOnly, run: () => menuCommand('strikeThrough') },
+    { id: 'format-clear', label: 'Clear formatting', group: 'Format', keywords: ['remove', 'plain'], disabled: readOnly, run: () => menuCommand('removeFormat') },
+    ...(['Left', 'Center', 'Right', 'Full'] as const).map(align => ({
+      id: `format-align-${align.toLowerCase()}`, label: align === 'Full' ? 'Justify' : `Align ${align.toLowerCase()}`, group: 'Format',
+      keywords: ['alignment'], disabled: readOnly, run: () => menuCommand(`justify${align}`)
+    })),
+    { id: 'format-bulleted-list', label: 'Bulleted list', group: 'Format', keywords: ['unordered', 'bullet'], disabled: readOnly, run: () => menuCommand('insertUnorderedList') },
+    { id: 'format-numbered-list', label: 'Numbered list', group: 'Format', keywords: ['ordered'], disabled: readOnly, run: () => menuCommand('insertOrderedList') },
+    { id: 'format-checklist', label: 'Checklist', group: 'Format', keywords: ['todo', 'task', 'checkbox'], disabled: readOnly, run: () => menuCommand('insertChecklist') },
+    ...textColors.map(color => ({
+      id: `format-color-${color}`, label: `Text color ${color}`, group: 'Format', keywords: ['colour', 'foreground'],
+      disabled: readOnly, run: () => menuCommand('foreColor', color)
+    })),
+
+    { id: 'style-normal', label: 'Normal text', group: 'Text style', keywords: ['paragraph'], disabled: readOnly, run: () => menuCommand('formatBlock', 'p') },
+    ...[1, 2, 3, 4, 5, 6].map(level => ({
+      id: `style-heading-${level}`, label: `Heading ${level}`, group: 'Text style', keywords: [`h${level}`, 'title'],
+      disabled: readOnly, run: () => menuCommand('formatBlock', `h${level}`)
+    })),
+    { id: 'style-quote', label: 'Quote', group: 'Text style', keywords: ['blockquote'], disabled: readOnly, run: () => menuCommand('formatBlock', 'blockquote') },
+    { id: 'style-code', label: 'Code block', group: 'Text style', keywords: ['pre', 'monospace'], disabled: readOnly, run: () => menuCommand('formatBlock', 'pre') },
+
+    ...fontFamilies.map(font => ({
+      id: `font-${font.label}`, label: `Font: ${font.label}`, group: 'Font', keywords: ['typeface', 'family'],
+      disabled: readOnly, run: () => menuCommand('fontName', font.value)
+    })),
+    ...fontSizes.map(size => ({
+      id: `font-size-${size}`, label: `Font size: ${size}`, group: 'Font', keywords: ['text size'],
+      disabled: readOnly, run: () => menuCommand('fontSize', size)
+    })),
+
+    { id: 'insert-horizontal-line', label: 'Horizontal line', group: 'Insert', keywords: ['divider', 'rule', 'hr'], disabled: readOnly, run: () => menuCommand('insertHorizontalRule') },
+    { id: 'insert-page-break', label: 'Page break', group: 'Insert', shortcut: `${modKey}Enter`, disabled: readOnly, run: () => menuCommand('insertPageBreak') },
+    { id: 'insert-table', label: 'Table', group: 'Insert', keywords: ['grid'], disabled: readOnly || editorMode !== 'editing', run: () => menuCommand('insertTable') },
+    { id: 'insert-image', label: 'Image', group: 'Insert', keywords: ['picture', 'photo'], disabled: readOnly || editorMode !== 'editing', run: () => menuCommand('insertImage') },
+    { id: 'insert-link', label: 'Link', group: 'Insert', shortcut: `${modKey}K`, keywords: ['url', 'hyperlink', 'heading', 'document'], disabled: readOnly, run: () => menuCommand('insertLink') },
+    { id: 'insert-bookmark', label: 'Bookmark', group: 'Insert', keywords: ['anchor', 'link target'], disabled: readOnly, run: () => menuCommand('insertBookmark') },
+    { id: 'insert-date', label: 'Date', group: 'Insert', keywords: ['today'], disabled: readOnly, run: () => menuCommand('insertDate') },
+    { id: 'insert-comment', label: 'Comment', group: 'Insert', keywords: ['note', 'feedback'], disabled: !selectedText, run: addComment },
+
+    ...([
+      ['insertRowAbove', 'Insert row above'],
+      ['insertRowBelow', 'Insert row below'],
+      ['insertColumnLeft', 'Insert column left'],
+      ['insertColumnRight', 'Insert column right'],
+      ['deleteRow', 'Delete row'],
+      ['deleteColumn', 'Delete column'],
+      ['deleteTable', 'Delete table'],
+      ['mergeCells', 'Merge cells'],
+      ['splitCell', 'Unmerge cells'],
+      ['toggleHeaderRow', 'Toggle header row']
+    ] as [TableAction, string][]).map(([action, label]) => ({
+      id: `table-${action}`, label, group: 'Table', keywords: ['table', 'cell'],
+      disabled: readOnly || !tableSelection, run: () => runTableAction(action)
+    })),
+    { id: 'table-sort-ascending', label: 'Sort column A to Z', group: 'Table', keywords: ['table', 'order', 'ascending'], disabled: readOnly || !tableSelection, run: () => sortTable(false) },
+    { id: 'table-sort-descending', label: 'Sort column Z to A', group: 'Table', keywords: ['table', 'order', 'descending'], disabled: readOnly || !tableSelection, run: () => sortTable(true) },
+
+    { id: 'tools-word-count', label: 'Word count', group: 'Tools', keywords: ['characters', 'statistics'], run: showWordCount },
+
+    ...folderChain.map(folder => ({
+      id: `go-folder-${folder.id}`, label: `Go to ${folder.name}`, group: 'Navigation', keywords: ['folder'],
+      run: () => navigate(folderPath(folder.id))
+    }))
+  ]
+  useRegisterCommands('editor', paletteCommands)
+
   if (error) {
     return (
       <div className="h-screen bg-[#f9fbfd] flex items-center justify-center w-full">
@@ -505,50 +2355,114 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
     )
   }
 
+  if (accessLevel === 'none') {
+    return (
+      <RequestAccess
+        userEmail={user.email}
+        requested={accessRequested}
+        onRequest={requestAccess}
+        onSwitchAccount={() => blink.auth.logout()}
+      />
+    )
+  }
+
   return (
-    <div className="h-screen bg-[#f9fbfd] flex flex-col w-full">
+    <div className="h-screen bg-[#f9fbfd] flex flex-col w-full print:h-auto print:bg-white">
       {/* Header */}
-      <header className="bg-white border-b border-gray-200 flex-shrink-0">
+      <header className="bg-white border-b border-gray-200 flex-shrink-0 print:hidden">
         <div className="px-6 py-3">
           {/* Top row - Logo and main controls */}
           <div className="flex items-center justify-between mb-3">
             <div className="flex items-center">
-              {/* Logo and brand */}
-              <div className="flex items-center mr-6">
+              {/* Logo and brand, back to the document list */}
+              <RouterLink to="/" className="flex items-center mr-6" title="Docs home">
                 <div className="w-10 h-10 bg-[#1a73e8] rounded-lg flex items-center justify-center mr-3">
                   <span className="text-white text-lg font-bold">D</span>
                 </div>
                 <span className="text-gray-700 text-xl font-normal">Docs</span>
-              </div>
+              </RouterLink>
               
               {/* Document title section */}
-              <div className="flex items-center space-x-1">
-                {isEditing ? (
-                  <Input
-                    ref={titleRef}
-                    value={documentTitle}
-                    onChange={(e) => setDocumentTitle(e.target.value)}
-                    onBlur={handleTitleSave}
-                    onKeyPress={(e) => e.key === 'Enter' && handleTitleSave()}
-                    className="text-lg font-normal border-none shadow-none focus-visible:ring-1 focus-visible:ring-blue-500 px-2 py-1 h-8"
-                  />
-                ) : (
-                  <h1 
-                    className="text-lg font-normal text-gray-800 cursor-pointer hover:bg-gray-100 px-2 py-1 rounded-md transition-colors"
-                    onClick={handleTitleEdit}
-                  >
-                    {documentTitle}
-                  </h1>
+              <div className="flex flex-col">
+                {folderChain.length > 0 && (
+                  <Breadcrumb className="px-2">
+                    <BreadcrumbList className="text-xs sm:gap-1">
+                      <BreadcrumbItem>
+                        <BreadcrumbLink asChild>
+                          <RouterLink to="/">My Drive</RouterLink>
+                        </BreadcrumbLink>
+                      </BreadcrumbItem>
+                      {folderChain.map((folder) => (
+                        <React.Fragment key={folder.id}>
+                          <BreadcrumbSeparator />
+                          <BreadcrumbItem>
+                            <BreadcrumbLink asChild>
+                              <RouterLink to={folderPath(folder.id)}>{folder.name}</RouterLink>
+                            </BreadcrumbLink>
+                          </BreadcrumbItem>
+                        </React.Fragment>
+                      ))}
+                    </BreadcrumbList>
+                  </Breadcrumb>
                 )}
-                <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                  <Star className="w-4 h-4 text-gray-600" />
-                </Button>
-                <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                  <Folder className="w-4 h-4 text-gray-600" />
-                </Button>
-                <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                  <MoreHorizontal className="w-4 h-4 text-gray-600" />
-                </Button>
+                <div className="flex items-center space-x-1">
+                  {isEditing ? (
+                    <Input
+                      ref={titleRef}
+                      value={documentTitle}
+                      onChange={(e) => setDocumentTitle(e.target.value)}
+                      onBlur={handleTitleSave}
+                      onKeyPress={(e) => e.key === 'Enter' && handleTitleSave()}
+                      className="text-lg font-normal border-none shadow-none focus-visible:ring-1 focus-visible:ring-blue-500 px-2 py-1 h-8"
+                    />
+                  ) : (
+                    <h1 
+                      className={`text-lg font-normal text-gray-800 px-2 py-1 rounded-md transition-colors ${canEditDocument ? 'cursor-pointer hover:bg-gray-100' : ''}`}
+                      onClick={handleTitleEdit}
+                    >
+                      {documentTitle}
+                    </h1>
+                  )}
+                  {accessLevel === 'view' && (
+                    <Badge variant="secondary" className="text-xs">
+                      <Lock className="w-3 h-3 mr-1" />
+                      View only
+                    </Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={toggleStarred}
+                    className="h-8 w-8 p-0"
+                    title={isStarred ? 'Remove from Starred' : 'Star'}
+                    aria-pressed={isStarred}
+                  >
+                    <Star className={`w-4 h-4 ${isStarred ? 'text-[#fbbc04] fill-[#fbbc04]' : 'text-gray-600'}`} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={!canMoveDocument}
+                    onClick={() => setIsMoveDialogOpen(true)}
+                    className="h-8 w-8 p-0"
+                    title={isOwner ? 'Move' : 'Only the owner can move this document'}
+                  >
+                    <Folder className="w-4 h-4 text-gray-600" />
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                        <MoreHorizontal className="w-4 h-4 text-gray-600" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      <DropdownMenuItem disabled={!canEditDocument} onClick={() => setTrashed(true)}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Move to trash
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
               </div>
             </div>
 
@@ -558,7 +2472,7 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
               <div className="flex items-center space-x-2">
                 {collaborators.slice(0, 3).map((collab, index) => (
                   <Avatar key={collab.userId} className="w-8 h-8 border-2 border-white" style={{ marginLeft: index > 0 ? '-8px' : '0' }}>
-                    <AvatarFallback className="bg-green-500 text-white text-xs">
+                    <AvatarFallback className="text-white text-xs" style={{ backgroundColor: getUserColor(collab.userId) }}>
                       {collab.metadata.displayName?.[0]?.toUpperCase() || 'U'}
                     </AvatarFallback>
                   </Avatar>
@@ -586,15 +2500,56 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
                 )}
               </div>
 
-              <Button variant="ghost" size="sm" className="text-gray-700 px-3 py-1.5 h-8">
-                <Eye className="w-4 h-4 mr-1.5" />
-                <span className="text-sm">Editing</span>
-                <ChevronDown className="w-3 h-3 ml-1.5" />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsHistoryOpen(true)}
+                className="h-8 w-8 p-0"
+                title="Version history"
+              >
+                <History className="w-4 h-4 text-gray-600" />
               </Button>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="text-gray-700 px-3 py-1.5 h-8">
+                    {editorMode === 'editing' && <Pencil className="w-4 h-4 mr-1.5" />}
+                    {editorMode === 'suggesting' && <PenLine className="w-4 h-4 mr-1.5" />}
+                    {editorMode === 'viewing' && <Eye className="w-4 h-4 mr-1.5" />}
+                    <span className="text-sm">{EDITOR_MODES.find(m => m.value === editorMode)?.label}</span>
+                    <ChevronDown className="w-3 h-3 ml-1.5" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-64">
+                  {EDITOR_MODES.map((mode) => (
+                    <DropdownMenuItem
+                      key={mode.value}
+                      disabled={!canEditDocument && mode.value !== 'viewing'}
+                      onClick={() => setEditorMode(mode.value)}
+                      className="items-start"
+                    >
+                      <div className="flex-1">
+                        <div className="text-sm font-medium">{mode.label}</div>
+                        <div className="text-xs text-gray-500">{mode.description}</div>
+                      </div>
+                      {editorMode === mode.value && <Check className="w-4 h-4 text-[#1a73e8]" />}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
               
               <Dialog open={isShareDialogOpen} onOpenChange={setIsShareDialogOpen}>
                 <DialogTrigger asChild>
-                  <Button className="bg-[#1a73e8] hover:bg-[#1557b0] text-white px-4 py-1.5 h-8 text-sm font-medium">
+                  <Button
+                    disabled={!isOwner}
+                    title={isOwner ? undefined : 'Only the owner can share this document'}
+                    className="relative bg-[#1a73e8] hover:bg-[#1557b0] text-white px-4 py-1.5 h-8 text-sm font-medium"
+                  >
+                    {accessRequests.length > 0 && (
+                      <span className="absolute -top-1 -right-1 w-4 h-4 bg-[#d93025] rounded-full text-[10px] flex items-center justify-center">
+                        {accessRequests.length}
+                      </span>
+                    )}
                     <Share2 className="w-4 h-4 mr-2" />
                     Share
                   </Button>
@@ -628,6 +2583,30 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
                       <UserPlus className="w-4 h-4 mr-2" />
                       Share
                     </Button>
+
+                    {/* Pending access requests */}
+                    {accessRequests.length > 0 && (
+                      <div className="space-y-2 border-t border-gray-200 pt-4">
+                        <label className="text-sm font-medium">Access requests</label>
+                        {accessRequests.map((request) => (
+                          <div key={request.id} className="border border-gray-200 rounded-lg p-3">
+                            <div className="text-sm font-medium">{request.email}</div>
+                            {request.message && <p className="text-sm text-gray-600 mt-1">{request.message}</p>}
+                            <div className="flex justify-end space-x-2 mt-2">
+                              <Button size="sm" variant="ghost" onClick={() => answerAccessRequest(request, null)} className="h-7 text-xs">
+                                Decline
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => answerAccessRequest(request, 'view')} className="h-7 text-xs">
+                                Allow viewing
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => answerAccessRequest(request, 'edit')} className="h-7 text-xs">
+                                Allow editing
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </DialogContent>
               </Dialog>
@@ -638,233 +2617,273 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
             </div>
           </div>
 
-          {/* Menu bar */}
-          <div className="flex items-center space-x-4 text-sm text-gray-700 mb-3">
-            <button className="hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors">File</button>
-            <button className="hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors">Edit</button>
-            <button className="hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors">View</button>
-            <button className="hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors">Insert</button>
-            <button className="hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors">Format</button>
-            <button className="hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors">Tools</button>
-            <button className="hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors">Extensions</button>
-            <button className="hover:bg-gray-100 px-3 py-1.5 rounded-md transition-colors">Help</button>
-          </div>
+          <EditorMenubar
+            canEdit={canEditDocument}
+            canMove={canMoveDocument}
+            editorMode={editorMode}
+            hasSelection={!!selectedText}
+            onEditorModeChange={setEditorMode}
+            onNew={newDocument}
+            onOpen={() => setIsOpenDialogOpen(true)}
+            onMakeCopy={makeCopy}
+            onRename={handleTitleEdit}
+            onMove={() => setIsMoveDialogOpen(true)}
+            onDownload={download}
+            onVersionHistory={() => setIsHistoryOpen(true)}
+            onPageSetup={() => setIsPageSetupOpen(true)}
+            onPrint={printDocument}
+            onFormat={menuCommand}
+            onComment={addComment}
+            onWordCount={showWordCount}
+          />
 
-          {/* Enhanced Formatting toolbar */}
-          <div className="flex items-center space-x-1 py-2 border-t border-gray-200 pt-3">
-            {/* Undo/Redo group */}
-            <div className="flex items-center">
-              <Button variant="ghost" size="sm" onClick={() => formatText('undo')} className="h-8 w-8 p-0">
-                <Undo className="w-4 h-4" />
-              </Button>
-              <Button variant="ghost" size="sm" onClick={() => formatText('redo')} className="h-8 w-8 p-0">
-                <Redo className="w-4 h-4" />
-              </Button>
-              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                <Printer className="w-4 h-4" />
-              </Button>
-            </div>
-            
-            <Separator orientation="vertical" className="h-6 mx-2" />
-            
-            {/* Text formatting dropdowns */}
-            <div className="flex items-center space-x-2">
-              <Select onValueChange={(value) => formatText('formatBlock', value)}>
-                <SelectTrigger className="w-32 h-8 text-sm">
-                  <SelectValue placeholder="Normal text" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="div">Normal text</SelectItem>
-                  <SelectItem value="h1">Heading 1</SelectItem>
-                  <SelectItem value="h2">Heading 2</SelectItem>
-                  <SelectItem value="h3">Heading 3</SelectItem>
-                  <SelectItem value="h4">Heading 4</SelectItem>
-                  <SelectItem value="h5">Heading 5</SelectItem>
-                  <SelectItem value="h6">Heading 6</SelectItem>
-                </SelectContent>
-              </Select>
+          <div className="flex items-center space-x-1 py-2 border-t border-gray-200 pt-3 min-w-0">
+            {/* Anyone who can read the document can print it */}
+            <Button variant="ghost" size="sm" title={`Print (${modKey}P)`} onClick={printDocument} className="h-8 w-8 p-0">
+              <Printer className="w-4 h-4" />
+            </Button>
+
+            {/* Enhanced Formatting toolbar, disabled as a whole for read-only access */}
+            <fieldset
+              disabled={!canEditDocument}
+              className="flex flex-1 items-center space-x-1 min-w-0 disabled:opacity-60"
+            >
+              {/* Undo/Redo group */}
+              <div className="flex items-center">
+                <Button variant="ghost" size="sm" onClick={() => menuCommand('undo')} className="h-8 w-8 p-0">
+                  <Undo className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => formatText('redo')} className="h-8 w-8 p-0">
+                  <Redo className="w-4 h-4" />
+                </Button>
+              </div>
               
-              <Select onValueChange={(value) => formatText('fontName', value)}>
-                <SelectTrigger className="w-28 h-8 text-sm">
-                  <SelectValue placeholder="Arial" />
-                </SelectTrigger>
-                <SelectContent>
-                  {fontFamilies.map((font) => (
-                    <SelectItem key={font.value} value={font.value}>{font.label}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <Separator orientation="vertical" className="h-6 mx-2" />
               
-              <Select onValueChange={(value) => formatText('fontSize', value)}>
-                <SelectTrigger className="w-16 h-8 text-sm">
-                  <SelectValue placeholder="11" />
-                </SelectTrigger>
-                <SelectContent>
-                  {fontSizes.map((size) => (
-                    <SelectItem key={size} value={size}>{size}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <Separator orientation="vertical" className="h-6 mx-2" />
+              {/* Text formatting dropdowns */}
+              <div className="flex items-center space-x-2">
+                <Select onValueChange={(value) => formatText('formatBlock', value)}>
+                  <SelectTrigger className="w-32 h-8 text-sm">
+                    <SelectValue placeholder="Normal text" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="p">Normal text</SelectItem>
+                    <SelectItem value="h1">Heading 1</SelectItem>
+                    <SelectItem value="h2">Heading 2</SelectItem>
+                    <SelectItem value="h3">Heading 3</SelectItem>
+                    <SelectItem value="h4">Heading 4</SelectItem>
+                    <SelectItem value="h5">Heading 5</SelectItem>
+                    <SelectItem value="h6">Heading 6</SelectItem>
+                  </SelectContent>
+                </Select>
+                
+                <Select onValueChange={(value) => formatText('fontName', value)}>
+                  <SelectTrigger className="w-28 h-8 text-sm">
+                    <SelectValue placeholder="Arial" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fontFamilies.map((font) => (
+                      <SelectItem key={font.value} value={font.value}>{font.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                
+                <Select onValueChange={(value) => formatText('fontSize', value)}>
+                  <SelectTrigger className="w-16 h-8 text-sm">
+                    <SelectValue placeholder="11" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fontSizes.map((size) => (
+                      <SelectItem key={size} value={size}>{size}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
-            {/* Text style buttons */}
-            <div className="flex items-center">
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('bold')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <Bold className="w-4 h-4" />
-              </Button>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('italic')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <Italic className="w-4 h-4" />
-              </Button>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('underline')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <Underline className="w-4 h-4" />
-              </Button>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('strikeThrough')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <Strikethrough className="w-4 h-4" />
-              </Button>
-            </div>
+              <Separator orientation="vertical" className="h-6 mx-2" />
 
-            {/* Text color */}
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button variant="ghost" size="sm" className="h-8 w-8 p-0 hover:bg-gray-100">
-                  <Palette className="w-4 h-4" />
+              {/* Text style buttons */}
+              <div className="flex items-center">
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => formatText('bold')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
+                >
+                  <Bold className="w-4 h-4" />
                 </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-48">
-                <div className="grid grid-cols-7 gap-1">
-                  {textColors.map((color) => (
-                    <button
-                      key={color}
-                      className="w-6 h-6 rounded border border-gray-300 hover:scale-110 transition-transform"
-                      style={{ backgroundColor: color }}
-                      onClick={() => formatText('foreColor', color)}
-                    />
-                  ))}
-                </div>
-              </PopoverContent>
-            </Popover>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => formatText('italic')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
+                >
+                  <Italic className="w-4 h-4" />
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => formatText('underline')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
+                >
+                  <Underline className="w-4 h-4" />
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => formatText('strikeThrough')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
+                >
+                  <Strikethrough className="w-4 h-4" />
+                </Button>
+              </div>
 
-            <Separator orientation="vertical" className="h-6 mx-2" />
+              {/* Text color */}
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0 hover:bg-gray-100">
+                    <Palette className="w-4 h-4" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-48">
+                  <div className="grid grid-cols-7 gap-1">
+                    {textColors.map((color) => (
+                      <button
+                        key={color}
+                        className="w-6 h-6 rounded border border-gray-300 hover:scale-110 transition-transform"
+                        style={{ backgroundColor: color }}
+                        onClick={() => formatText('foreColor', color)}
+                      />
+                    ))}
+                  </div>
+                </PopoverContent>
+              </Popover>
 
-            {/* Lists */}
-            <div className="flex items-center">
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('insertUnorderedList')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <List className="w-4 h-4" />
-              </Button>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('insertOrderedList')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <ListOrdered className="w-4 h-4" />
-              </Button>
-            </div>
+              <Separator orientation="vertical" className="h-6 mx-2" />
 
-            <Separator orientation="vertical" className="h-6 mx-2" />
+              {/* Lists */}
+              <div className="flex items-center">
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => formatText('insertUnorderedList')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
+                >
+                  <List className="w-4 h-4" />
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => formatText('insertOrderedList')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
+                >
+                  <ListOrdered className="w-4 h-4" />
+                </Button>
+              </div>
 
-            {/* Alignment buttons */}
-            <div className="flex items-center">
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('justifyLeft')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <AlignLeft className="w-4 h-4" />
-              </Button>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('justifyCenter')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <AlignCenter className="w-4 h-4" />
-              </Button>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('justifyRight')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <AlignRight className="w-4 h-4" />
-              </Button>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => formatText('justifyFull')}
-                className="h-8 w-8 p-0 hover:bg-gray-100"
-              >
-                <AlignJustify className="w-4 h-4" />
-              </Button>
-            </div>
+              <Separator orientation="vertical" className="h-6 mx-2" />
 
-            {/* Right side toolbar items */}
-            <div className="ml-auto flex items-center space-x-1">
-              {selectedText && (
+              {/* Alignment buttons */}
+              <div className="flex items-center">
                 <Button 
                   variant="ghost" 
                   size="sm" 
-                  onClick={addComment}
-                  className="h-8 px-3 text-sm bg-blue-50 text-blue-700 hover:bg-blue-100"
+                  onClick={() => formatText('justifyLeft')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
                 >
-                  <MessageSquare className="w-4 h-4 mr-1" />
-                  Comment
+                  <AlignLeft className="w-4 h-4" />
                 </Button>
-              )}
-              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                <Link className="w-4 h-4" />
-              </Button>
-            </div>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => formatText('justifyCenter')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
+                >
+                  <AlignCenter className="w-4 h-4" />
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => formatText('justifyRight')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
+                >
+                  <AlignRight className="w-4 h-4" />
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => formatText('justifyFull')}
+                  className="h-8 w-8 p-0 hover:bg-gray-100"
+                >
+                  <AlignJustify className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {/* Right side toolbar items */}
+              <div className="ml-auto flex items-center space-x-1">
+                {selectedText && (
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    onClick={addComment}
+                    className="h-8 px-3 text-sm bg-blue-50 text-blue-700 hover:bg-blue-100"
+                  >
+                    <MessageSquare className="w-4 h-4 mr-1" />
+                    Comment
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" title={`Insert link (${modKey}K)`} onClick={() => openLinkDialog()} className="h-8 w-8 p-0">
+                  <Link className="w-4 h-4" />
+                </Button>
+              </div>
+            </fieldset>
           </div>
         </div>
       </header>
 
+      {/* Trashed documents stay readable but can't change until restored */}
+      {trashedAt && (
+        <div className="bg-[#fce8e6] border-b border-[#f4c7c3] px-6 py-2 flex items-center justify-between text-sm text-[#a50e0e] print:hidden">
+          <div className="flex items-center">
+            <Trash2 className="w-4 h-4 mr-2" />
+            This document is in the trash and will be deleted forever in {daysUntilPurge(trashedAt)} days.
+          </div>
+          <div className="flex items-center space-x-2">
+            {hasEditAccess && (
+              <Button size="sm" variant="outline" onClick={() => setTrashed(false)} className="h-7 bg-white">
+                Restore
+              </Button>
+            )}
+            {isOwner && (
+              <Button size="sm" variant="ghost" onClick={() => setIsDeleteDialogOpen(true)} className="h-7 text-[#a50e0e]">
+                Delete forever
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Main content area */}
-      <main className="flex-1 overflow-auto bg-[#f9fbfd] custom-scrollbar">
+      <main className="flex-1 overflow-auto bg-[#f9fbfd] custom-scrollbar print:overflow-visible print:bg-white">
         <div className="flex">
           {/* Document content */}
-          <div className="flex-1 flex justify-center pt-6 pb-12">
-            <div className="w-full max-w-[8.5in] px-6">
+          <div className="flex-1 flex justify-center pt-6 pb-12 print:p-0">
+            <div className="w-full px-6 print:px-0" style={{ maxWidth: `${paper.width}in` }}>
               {/* Document paper */}
               <div 
-                className="bg-white document-shadow rounded-sm mx-auto transition-smooth"
+                className="relative bg-white document-shadow rounded-sm mx-auto transition-smooth"
                 style={{ 
-                  width: '8.5in',
-                  minHeight: '11in',
+                  width: `${paper.width}in`,
+                  minHeight: `${paper.height}in`,
                   maxWidth: '100%'
                 }}
               >
                 {/* Ruler */}
-                <div className="h-6 bg-gray-50 border-b border-gray-200 relative overflow-hidden">
-                  <div className="absolute inset-0 flex items-end px-16">
+                <div className="h-6 bg-gray-50 border-b border-gray-200 relative overflow-hidden print:hidden">
+                  <div
+                    className="absolute inset-0 flex items-end"
+                    style={{ paddingLeft: `${pageSetup.margins.left}in`, paddingRight: `${pageSetup.margins.right}in` }}
+                  >
                     {Array.from({ length: 17 }, (_, i) => (
                       <div key={i} className="flex-1 relative">
                         <div className="absolute right-0 bottom-0 w-px h-2 bg-gray-300"></div>
@@ -881,16 +2900,48 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
                   </div>
                 </div>
                 
+                {/* Header and footer from page setup; printing lays them out per page */}
+                {pageSetup.header && (
+                  <div
+                    className="absolute left-0 right-0 text-[9pt] text-[#5f6368] truncate pointer-events-none select-none print:hidden"
+                    style={{ top: `calc(1.5rem + ${pageSetup.margins.top / 2}in)`, paddingLeft: `${pageSetup.margins.left}in`, paddingRight: `${pageSetup.margins.right}in` }}
+                  >
+                    {pageSetup.header}
+                  </div>
+                )}
+                {(pageSetup.footer || pageSetup.pageNumbers) && (
+                  <div
+                    className="absolute left-0 right-0 flex justify-between text-[9pt] text-[#5f6368] pointer-events-none select-none print:hidden"
+                    style={{ bottom: `${pageSetup.margins.bottom / 2}in`, paddingLeft: `${pageSetup.margins.left}in`, paddingRight: `${pageSetup.margins.right}in` }}
+                  >
+                    <span className="truncate">{pageSetup.footer}</span>
+                    {pageSetup.pageNumbers && <span className="ml-4 flex-shrink-0">Page 1</span>}
+                  </div>
+                )}
+
                 {/* Document content area */}
                 <div 
                   ref={editorRef}
-                  contentEditable
+                  contentEditable={canEditDocument && editorMode !== 'viewing'}
                   suppressContentEditableWarning
-                  onInput={handleContentChange}
+                  onInput={handleEditorInput}
+                  onCompositionStart={() => { composingRef.current = true }}
+                  onCompositionEnd={() => { composingRef.current = false }}
+                  onKeyDown={handleEditorKeyDown}
+                  onMouseDown={handleEditorMouseDown}
+                  onMouseMove={handleEditorMouseMove}
+                  onMouseOver={handleEditorMouseOver}
+                  onMouseOut={handleEditorMouseOut}
+                  onClick={handleEditorClick}
                   onMouseUp={handleTextSelection}
-                  onKeyUp={handleTextSelection}
-                  className="px-16 py-16 min-h-[10.5in] outline-none text-gray-900 leading-relaxed focus:outline-none"
+                  onKeyUp={handleEditorKeyUp}
+                  onPaste={handleEditorPaste}
+                  onDragOver={handleEditorDragOver}
+                  onDrop={handleEditorDrop}
+                  className={`document-content outline-none text-gray-900 leading-relaxed focus:outline-none ${columnResizable ? 'cursor-col-resize' : ''}`}
                   style={{ 
+                    padding: `${pageSetup.margins.top}in ${pageSetup.margins.right}in ${pageSetup.margins.bottom}in ${pageSetup.margins.left}in`,
+                    minHeight: `calc(${paper.height}in - 1.5rem)`,
                     fontSize: '11pt',
                     fontFamily: 'Arial, sans-serif',
                     lineHeight: '1.6'
@@ -899,50 +2950,196 @@ export default function DocumentEditor({ documentId = 'doc-main-document' }: Doc
                 >
                   <div className="text-gray-400">Start typing your document...</div>
                 </div>
+
+                <CommentHighlights
+                  editorRef={editorRef}
+                  ranges={openCommentRanges}
+                  activeCommentId={activeCommentId}
+                  content={documentContent}
+                />
+
+                {tableSelection && tableSelection.table.isConnected && canEditDocument && editorMode === 'editing' && (
+                  <TableToolbar
+                    table={tableSelection.table}
+                    content={documentContent}
+                    canMerge={tableSelection.cells.length > 1}
+                    canSplit={tableSelection.cells.some(cell => cell.colSpan > 1 || cell.rowSpan > 1)}
+                    headerRow={tableSelection.cells.length > 0 && isInHeaderRow(tableSelection.cells[0])}
+                    colors={textColors}
+                    onAction={runTableAction}
+                    onStyle={styleTableCells}
+                    onSort={sortTable}
+                  />
+                )}
+
+                {formulaCell && formulaCell.isConnected && (
+                  <FormulaEditor
+                    cell={formulaCell}
+                    content={documentContent}
+                    onCommit={(formula, down) => saveFormula(formulaCell, formula, down)}
+                    onCancel={() => cancelFormula(formulaCell)}
+                  />
+                )}
+
+                {hoveredLink && hoveredLink.isConnected && !linkDialog && (
+                  <LinkPopover
+                    link={hoveredLink}
+                    content={documentContent}
+                    target={editorRef.current && findTarget(editorRef.current, hoveredLink.getAttribute('href') || '')}
+                    editable={canEditDocument && editorMode !== 'viewing'}
+                    user={user}
+                    onOpen={() => followLink(hoveredLink.getAttribute('href') || '')}
+                    onCopy={() => copyLink(hoveredLink)}
+                    onEdit={() => openLinkDialog(hoveredLink)}
+                    onRemove={() => removeLink(hoveredLink)}
+                    onMouseEnter={() => showLinkPopover(hoveredLink)}
+                    onMouseLeave={hideLinkPopover}
+                  />
+                )}
+
+                {activeImage && activeImage.isConnected && canEditDocument && editorMode === 'editing' && (
+                  <ImageToolbar
+                    image={activeImage}
+                    details={readImage(activeImage) || { type: 'image', src: activeImage.src }}
+                    content={documentContent}
+                    onAlign={(align: ImageAlign | undefined) => editImage(image => updateImage(image, { align }))}
+                    onDescribe={(alt, caption) => editImage(image => updateImage(image, { alt, caption: caption || undefined }))}
+                    onDelete={() => editImage(image => {
+                      imageElement(image).remove()
+                      return null
+                    })}
+                    onResizeStart={startImageResize}
+                    onResize={resizeActiveImage}
+                    onResizeEnd={finishImageResize}
+                  />
+                )}
+
+                <RemoteCursors
+                  editorRef={editorRef}
+                  crdtRef={crdtRef}
+                  cursors={remoteCursors}
+                  content={documentContent}
+                />
               </div>
             </div>
           </div>
 
-          {/* Comments sidebar */}
-          {comments.length > 0 && (
-            <div className="w-80 bg-white border-l border-gray-200 flex flex-col">
-              <div className="p-4 border-b border-gray-200">
-                <h3 className="font-medium text-gray-900 flex items-center">
-                  <MessageSquare className="w-4 h-4 mr-2" />
-                  Comments ({comments.length})
-                </h3>
-              </div>
-              <ScrollArea className="flex-1">
-                <div className="p-4 space-y-4">
-                  {comments.map((comment) => (
-                    <div key={comment.id} className="border border-gray-200 rounded-lg p-3 bg-gray-50">
-                      <div className="flex items-start justify-between mb-2">
-                        <div className="flex items-center space-x-2">
-                          <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center text-white text-xs">
-                            {comment.user?.email?.[0]?.toUpperCase() || 'U'}
-                          </div>
-                          <span className="text-sm font-medium">{comment.user?.email?.split('@')[0] || 'Anonymous'}</span>
-                        </div>
-                        <span className="text-xs text-gray-500">
-                          {new Date(comment.createdAt).toLocaleDateString()}
-                        </span>
-                      </div>
-                      <p className="text-sm text-gray-700">{comment.content}</p>
-                      {!comment.resolved && (
-                        <div className="mt-2 flex justify-end">
-                          <Button size="sm" variant="outline" className="h-6 text-xs">
-                            Resolve
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              </ScrollArea>
+          {/* Suggestions and comments sidebar */}
+          {(suggestionSpans.length > 0 || comments.length > 0) && (
+            <div className="w-80 bg-white border-l border-gray-200 flex flex-col print:hidden">
+              {suggestionSpans.length > 0 && (
+                <SuggestionsPanel
+                  spans={suggestionSpans}
+                  suggestions={suggestions}
+                  canResolve={isOwner}
+                  onResolve={(id, accept) => resolveSuggestions([id], accept)}
+                  onResolveAll={(accept) => resolveSuggestions(suggestionSpans.map(span => span.id), accept)}
+                />
+              )}
+              {comments.length > 0 && (
+                <CommentsSidebar
+                  comments={comments}
+                  orphanedIds={orphanedCommentIds}
+                  activeCommentId={activeCommentId}
+                  onSelect={selectComment}
+                  showResolved={showResolvedComments}
+                  onShowResolvedChange={setShowResolvedComments}
+                  onReply={replyToComment}
+                  onResolve={setCommentResolved}
+                />
+              )}
             </div>
           )}
         </div>
       </main>
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{documentTitle}" and its comments and version history will be deleted forever. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteDocumentForever} className="bg-red-600 hover:bg-red-700">
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {slashMenu && (
+        <SlashCommandMenu
+          query={slashMenu.query}
+          top={slashMenu.top}
+          left={slashMenu.left}
+          onSelect={runSlashCommand}
+          onClose={closeSlashMenu}
+        />
+      )}
+
+      <ImageDialog
+        open={!!imageDialog}
+        onOpenChange={(open) => !open && setImageDialog(null)}
+        file={imageDialog?.file ?? null}
+        onInsert={uploadDialogImage}
+        onClosed={handleImageDialogClosed}
+      />
+
+      <LinkDialog
+        open={!!linkDialog}
+        onOpenChange={(open) => !open && setLinkDialog(null)}
+        initial={linkDialog?.initial ?? NO_LINK}
+        textEditable={linkDialog?.textEditable ?? true}
+        targets={linkDialog?.targets ?? NO_LINK_TARGETS}
+        user={user}
+        currentDocumentId={documentId}
+        onApply={applyLink}
+        onClosed={handleLinkDialogClosed}
+      />
+
+      <PageSetupDialog
+        open={isPageSetupOpen}
+        onOpenChange={setIsPageSetupOpen}
+        setup={pageSetup}
+        onSave={updatePageSetup}
+      />
+
+      <OpenDocumentDialog
+        open={isOpenDialogOpen}
+        onOpenChange={setIsOpenDialogOpen}
+        user={user}
+        currentDocumentId={documentId}
+        onOpenDocument={(id) => {
+          setIsOpenDialogOpen(false)
+          navigate(documentPath(id))
+        }}
+      />
+
+      <MoveToDialog
+        open={isMoveDialogOpen && canMoveDocument}
+        onOpenChange={setIsMoveDialogOpen}
+        userId={user.id}
+        documentTitle={documentTitle}
+        currentFolderId={folderChain[folderChain.length - 1]?.id ?? null}
+        onMove={moveToFolder}
+      />
+
+      {isHistoryOpen && (
+        <VersionHistory
+          versions={versions}
+          currentTitle={documentTitle}
+          currentContent={documentContent}
+          canRestore={canEditDocument && editorMode === 'editing'}
+          onClose={() => setIsHistoryOpen(false)}
+          onCreate={(name) => createVersion(name || `Saved ${new Date().toLocaleString()}`)}
+          onRename={renameVersion}
+          onRestore={restoreVersion}
+          onCopy={copyVersion}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
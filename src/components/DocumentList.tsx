@@ -0,0 +1,248 @@
+import { useEffect, useState } from 'react'
+import { Link as RouterLink, useNavigate } from 'react-router-dom'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { FileText, FolderPlus, Plus, Search, Star, Trash2, Users, Clock } from 'lucide-react'
+import { blink } from '../blink/client'
+import { useAuth } from '../hooks/use-auth'
+import DocumentSection from './DocumentSection'
+import FolderSection from './FolderSection'
+import FolderView from './FolderView'
+import TrashView from './TrashView'
+import {
+  createDocument,
+  documentPath,
+  listHomeDocuments,
+  type DocumentSummary,
+  type HomeDocuments
+} from '../lib/documents'
+import { createFolder, folderPath, listChildFolders, listSharedFolders, type Folder } from '../lib/folders'
+import { purgeExpiredTrash } from '../lib/trash'
+
+interface DocumentListProps {
+  // Show the contents of this folder, or the trash, instead of the home sections
+  folderId?: string
+  showTrash?: boolean
+}
+
+export default function DocumentList({ folderId, showTrash = false }: DocumentListProps) {
+  const { user, isLoading } = useAuth()
+  const navigate = useNavigate()
+  const [documents, setDocuments] = useState<HomeDocuments | null>(null)
+  const [folders, setFolders] = useState<Folder[]>([])
+  const [newFolderName, setNewFolderName] = useState<string | null>(null)
+  const [query, setQuery] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!user || folderId || showTrash) return
+    // Clear out expired trash first so it never flashes up in the lists
+    purgeExpiredTrash(user.id)
+      .catch(error => console.error('Failed to purge trash:', error))
+      .then(() => listHomeDocuments(user))
+      .then(setDocuments)
+      .catch((error) => {
+        console.error('Failed to load documents:', error)
+        setError('Failed to load your documents. Please try again.')
+      })
+    Promise.all([listChildFolders(null, user.id), listSharedFolders(user)])
+      .then(([owned, shared]) => setFolders([...owned, ...shared]))
+      .catch(error => console.error('Failed to load folders:', error))
+  }, [user, folderId, showTrash])
+
+  const openDocument = (documentId: string) => navigate(documentPath(documentId))
+
+  const openFolder = (id: string) => navigate(folderPath(id))
+
+  const submitNewFolder = async () => {
+    if (newFolderName === null || !user) return
+    try {
+      const folder = await createFolder(user.id, newFolderName, null)
+      setFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.error('Failed to create folder:', error)
+    }
+    setNewFolderName(null)
+  }
+
+  const newDocument = async () => {
+    if (!user || isCreating) return
+    setIsCreating(true)
+    try {
+      const doc = await createDocument(user.id)
+      openDocument(doc.id)
+    } catch (error) {
+      console.error('Failed to create document:', error)
+      setError('Failed to create a document. Please try again.')
+      setIsCreating(false)
+    }
+  }
+
+  const matches = (doc: DocumentSummary) => (doc.title || '').toLowerCase().includes(query.trim().toLowerCase())
+
+  if (isLoading) {
+    return (
+      <div className="h-screen bg-[#f9fbfd] flex items-center justify-center w-full">
+        <div className="w-16 h-16 bg-[#1a73e8] rounded-lg flex items-center justify-center animate-pulse">
+          <span className="text-white text-2xl font-bold">D</span>
+        </div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="h-screen bg-[#f9fbfd] flex items-center justify-center w-full">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-[#1a73e8] rounded-lg flex items-center justify-center mx-auto mb-4">
+            <span className="text-white text-2xl font-bold">D</span>
+          </div>
+          <h2 className="text-2xl font-normal text-gray-900 mb-2">Google Docs</h2>
+          <p className="text-gray-600 mb-4">Please sign in to continue</p>
+          <Button onClick={() => blink.auth.login()} className="bg-[#1a73e8] hover:bg-[#1557b0]">
+            Sign In
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-screen bg-[#f9fbfd] flex flex-col w-full">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 flex-shrink-0 px-6 py-3 flex items-center justify-between">
+        <RouterLink to="/" className="flex items-center">
+          <div className="w-10 h-10 bg-[#1a73e8] rounded-lg flex items-center justify-center mr-3">
+            <span className="text-white text-lg font-bold">D</span>
+          </div>
+          <span className="text-gray-700 text-xl font-normal">Docs</span>
+        </RouterLink>
+        <div className="relative w-full max-w-xl mx-6">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            placeholder="Search documents"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9 bg-[#f1f3f4] border-none"
+          />
+        </div>
+        <div className="w-8 h-8 bg-[#34a853] rounded-full flex items-center justify-center text-white text-sm font-medium">
+          {user.email?.[0]?.toUpperCase() || 'U'}
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-auto custom-scrollbar">
+        {folderId || showTrash ? (
+          <div className="max-w-5xl mx-auto px-6 py-6">
+            {showTrash ? (
+              <TrashView userId={user.id} query={query} onOpenDocument={openDocument} />
+            ) : (
+              <FolderView
+                user={user}
+                folderId={folderId!}
+                query={query}
+                onOpenDocument={openDocument}
+                onOpenFolder={openFolder}
+              />
+            )}
+          </div>
+        ) : (
+          <>
+            {/* Start a new document */}
+            <div className="bg-[#f1f3f4] py-6">
+              <div className="max-w-5xl mx-auto px-6">
+                <h2 className="text-base text-gray-800 mb-3">Start a new document</h2>
+                <button
+                  onClick={newDocument}
+                  disabled={isCreating}
+                  className="w-36 h-44 bg-white border border-gray-300 rounded hover:border-[#1a73e8] flex items-center justify-center transition-colors disabled:opacity-60"
+                >
+                  <Plus className="w-12 h-12 text-[#1a73e8]" />
+                </button>
+                <p className="text-sm text-gray-800 mt-2">{isCreating ? 'Creating…' : 'Blank document'}</p>
+              </div>
+            </div>
+
+            <div className="max-w-5xl mx-auto px-6 py-6">
+              {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+              {!documents && !error && <p className="text-sm text-gray-500">Loading documents…</p>}
+              <div className="flex justify-end space-x-2 mb-4">
+                <Button variant="outline" size="sm" asChild>
+                  <RouterLink to="/trash">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Trash
+                  </RouterLink>
+                </Button>
+                {newFolderName === null ? (
+                  <Button variant="outline" size="sm" onClick={() => setNewFolderName('')}>
+                    <FolderPlus className="w-4 h-4 mr-2" />
+                    New folder
+                  </Button>
+                ) : (
+                  <Input
+                    autoFocus
+                    placeholder="Folder name"
+                    value={newFolderName}
+                    onChange={(e) => setNewFolderName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitNewFolder()
+                      if (e.key === 'Escape') setNewFolderName(null)
+                    }}
+                    onBlur={() => setNewFolderName(null)}
+                    className="h-9 text-sm max-w-xs"
+                  />
+                )}
+              </div>
+              <FolderSection
+                folders={folders.filter(folder => folder.name.toLowerCase().includes(query.trim().toLowerCase()))}
+                userId={user.id}
+                onOpen={openFolder}
+              />
+              {documents && (
+                <>
+                  <DocumentSection
+                    title="Starred"
+                    icon={<Star className="w-4 h-4 mr-2" />}
+                    documents={documents.starred.filter(matches)}
+                    userId={user.id}
+                    emptyText="Star documents to keep them one click away"
+                    dateLabel="Last opened by me"
+                    onOpen={openDocument}
+                  />
+                  <DocumentSection
+                    title="Recent"
+                    icon={<Clock className="w-4 h-4 mr-2" />}
+                    documents={documents.recent.filter(matches)}
+                    userId={user.id}
+                    emptyText="Documents you open will show up here"
+                    dateLabel="Last opened by me"
+                    onOpen={openDocument}
+                  />
+                  <DocumentSection
+                    title="Owned by me"
+                    icon={<FileText className="w-4 h-4 mr-2" />}
+                    documents={documents.owned.filter(matches)}
+                    userId={user.id}
+                    emptyText="You haven't created any documents yet"
+                    dateLabel="Last modified"
+                    onOpen={openDocument}
+                  />
+                  <DocumentSection
+                    title="Shared with me"
+                    icon={<Users className="w-4 h-4 mr-2" />}
+                    documents={documents.shared.filter(matches)}
+                    userId={user.id}
+                    emptyText="Nothing has been shared with you yet"
+                    dateLabel="Last modified"
+                    onOpen={openDocument}
+                  />
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import type { ReactNode } from 'react'
+import { FileText } from 'lucide-react'
+import type { DocumentSummary } from '../lib/documents'
+
+interface DocumentSectionProps {
+  title: string
+  icon: ReactNode
+  documents: (DocumentSummary & { openedAt?: string })[]
+  userId: string
+  emptyText: string
+  dateLabel: string
+  onOpen: (documentId: string) => void
+}
+
+export default function DocumentSection({ title, icon, documents, userId, emptyText, dateLabel, onOpen }: DocumentSectionProps) {
+  return (
+    <section className="mb-8">
+      <h2 className="text-base font-medium text-gray-800 mb-3 flex items-center">
+        {icon}
+        {title}
+      </h2>
+      {documents.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">{emptyText}</p>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+          <div className="grid grid-cols-[1fr_160px_200px] px-4 py-2 text-xs font-medium text-gray-500">
+            <span>Name</span>
+            <span>Owner</span>
+            <span>{dateLabel}</span>
+          </div>
+          {documents.map((doc) => (
+            <button
+              key={doc.id}
+              onClick={() => onOpen(doc.id)}
+              className="grid grid-cols-[1fr_160px_200px] w-full px-4 py-3 text-left text-sm hover:bg-[#e8f0fe] transition-colors"
+            >
+              <span className="flex items-center min-w-0">
+                <FileText className="w-4 h-4 mr-3 text-[#1a73e8] flex-shrink-0" />
+                <span className="truncate text-gray-900">{doc.title || 'Untitled document'}</span>
+              </span>
+              <span className="text-gray-600">{doc.userId === userId ? 'me' : 'Shared with me'}</span>
+              <span className="text-gray-600">
+                {new Date(doc.openedAt || doc.updatedAt || doc.createdAt || 0).toLocaleString()}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
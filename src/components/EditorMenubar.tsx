@@ -0,0 +1,325 @@
+import { useEffect, useState } from 'react'
+import {
+  Menubar,
+  MenubarContent,
+  MenubarItem,
+  MenubarMenu,
+  MenubarRadioGroup,
+  MenubarRadioItem,
+  MenubarSeparator,
+  MenubarShortcut,
+  MenubarSub,
+  MenubarSubContent,
+  MenubarSubTrigger,
+  MenubarTrigger
+} from './ui/menubar'
+import {
+  Bold,
+  Bookmark,
+  Copy,
+  Download,
+  FileText,
+  FilePlus,
+  FolderInput,
+  FolderOpen,
+  History,
+  Image,
+  Italic,
+  Link,
+  MessageSquare,
+  Minus,
+  PenLine,
+  Printer,
+  Redo,
+  RemoveFormatting,
+  SeparatorHorizontal,
+  Strikethrough,
+  Table,
+  TextCursorInput,
+  Underline,
+  Undo
+} from 'lucide-react'
+import { isMac, modKey } from '../lib/command-registry'
+import TableGridPicker from './TableGridPicker'
+
+export type DownloadFormat = 'docx' | 'pdf' | 'html' | 'md' | 'txt'
+
+export type EditorMode = 'editing' | 'suggesting' | 'viewing'
+
+interface EditorMenubarProps {
+  canEdit: boolean
+  // Only the owner can move a document
+  canMove: boolean
+  editorMode: EditorMode
+  hasSelection: boolean
+  onEditorModeChange: (mode: EditorMode) => void
+  onNew: () => void
+  onOpen: () => void
+  onMakeCopy: () => void
+  onRename: () => void
+  onMove: () => void
+  onDownload: (format: DownloadFormat) => void
+  onVersionHistory: () => void
+  onPageSetup: () => void
+  onPrint: () => void
+  onFormat: (command: string, value?: string) => void
+  onComment: () => void
+  onWordCount: () => void
+}
+
+// Alt+<key> opens a menu, as in desktop word processors. Matched on
+// KeyboardEvent.code so it works where Alt produces special characters.
+// On a Mac, Option alone types accents (Option+E, I, N are dead keys),
+// so menus open with Ctrl+Option there.
+const MENU_ACCESS_KEYS: Record<string, string> = {
+  KeyF: 'file',
+  KeyE: 'edit',
+  KeyV: 'view',
+  KeyI: 'insert',
+  KeyO: 'format',
+  KeyT: 'tools',
+  KeyN: 'extensions',
+  KeyH: 'help'
+}
+
+const mod = modKey
+const MENU_ACCESS_PREFIX = isMac ? '⌃⌥' : 'Alt+'
+
+const triggerClassName = 'px-3 py-1.5 text-sm font-normal text-gray-700 rounded-md hover:bg-gray-100 data-[state=open]:bg-gray-100 cursor-pointer'
+
+export default function EditorMenubar({
+  canEdit,
+  canMove,
+  editorMode,
+  hasSelection,
+  onEditorModeChange,
+  onNew,
+  onOpen,
+  onMakeCopy,
+  onRename,
+  onMove,
+  onDownload,
+  onVersionHistory,
+  onPageSetup,
+  onPrint,
+  onFormat,
+  onComment,
+  onWordCount
+}: EditorMenubarProps) {
+  const [openMenu, setOpenMenu] = useState('')
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.altKey || event.ctrlKey !== isMac || event.metaKey || event.shiftKey) return
+      const menu = MENU_ACCESS_KEYS[event.code]
+      if (!menu) return
+      event.preventDefault()
+      setOpenMenu(menu)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  return (
+    <Menubar
+      value={openMenu}
+      onValueChange={setOpenMenu}
+      className="h-auto border-none shadow-none bg-transparent p-0 space-x-0 mb-3"
+    >
+      <MenubarMenu value="file">
+        <MenubarTrigger className={triggerClassName}>File</MenubarTrigger>
+        <MenubarContent className="w-64">
+          <MenubarItem onSelect={onNew}>
+            <FilePlus className="w-4 h-4 mr-2" />
+            New document
+          </MenubarItem>
+          <MenubarItem onSelect={onOpen}>
+            <FolderOpen className="w-4 h-4 mr-2" />
+            Open
+          </MenubarItem>
+          <MenubarItem onSelect={onMakeCopy}>
+            <Copy className="w-4 h-4 mr-2" />
+            Make a copy
+          </MenubarItem>
+          <MenubarSeparator />
+          <MenubarItem disabled={!canEdit} onSelect={onRename}>
+            <TextCursorInput className="w-4 h-4 mr-2" />
+            Rename
+          </MenubarItem>
+          <MenubarItem disabled={!canMove} onSelect={onMove}>
+            <FolderInput className="w-4 h-4 mr-2" />
+            Move
+          </MenubarItem>
+          <MenubarSub>
+            <MenubarSubTrigger>
+              <Download className="w-4 h-4 mr-2" />
+              Download as…
+            </MenubarSubTrigger>
+            <MenubarSubContent className="w-56">
+              <MenubarItem onSelect={() => onDownload('docx')}>Microsoft Word (.docx)</MenubarItem>
+              <MenubarItem onSelect={() => onDownload('pdf')}>PDF document (.pdf)</MenubarItem>
+              <MenubarItem onSelect={() => onDownload('html')}>Web page (.html)</MenubarItem>
+              <MenubarItem onSelect={() => onDownload('md')}>Markdown (.md)</MenubarItem>
+              <MenubarItem onSelect={() => onDownload('txt')}>Plain text (.txt)</MenubarItem>
+            </MenubarSubContent>
+          </MenubarSub>
+          <MenubarSeparator />
+          <MenubarItem onSelect={onVersionHistory}>
+            <History className="w-4 h-4 mr-2" />
+            Version history
+          </MenubarItem>
+          <MenubarSeparator />
+          <MenubarItem disabled={!canEdit} onSelect={onPageSetup}>
+            <FileText className="w-4 h-4 mr-2" />
+            Page setup
+          </MenubarItem>
+          <MenubarItem onSelect={onPrint}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+            <MenubarShortcut>{mod}P</MenubarShortcut>
+          </MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu value="edit">
+        <MenubarTrigger className={triggerClassName}>Edit</MenubarTrigger>
+        <MenubarContent className="w-56">
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('undo')}>
+            <Undo className="w-4 h-4 mr-2" />
+            Undo
+            <MenubarShortcut>{mod}Z</MenubarShortcut>
+          </MenubarItem>
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('redo')}>
+            <Redo className="w-4 h-4 mr-2" />
+            Redo
+            <MenubarShortcut>{mod}Y</MenubarShortcut>
+          </MenubarItem>
+          <MenubarSeparator />
+          <MenubarItem onSelect={() => onFormat('selectAll')}>
+            Select all
+            <MenubarShortcut>{mod}A</MenubarShortcut>
+          </MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu value="view">
+        <MenubarTrigger className={triggerClassName}>View</MenubarTrigger>
+        <MenubarContent className="w-56">
+          <MenubarSub>
+            <MenubarSubTrigger>
+              <PenLine className="w-4 h-4 mr-2" />
+              Mode
+            </MenubarSubTrigger>
+            <MenubarSubContent>
+              <MenubarRadioGroup value={editorMode} onValueChange={(value) => onEditorModeChange(value as EditorMode)}>
+                <MenubarRadioItem value="editing" disabled={!canEdit}>Editing</MenubarRadioItem>
+                <MenubarRadioItem value="suggesting" disabled={!canEdit}>Suggesting</MenubarRadioItem>
+                <MenubarRadioItem value="viewing">Viewing</MenubarRadioItem>
+              </MenubarRadioGroup>
+            </MenubarSubContent>
+          </MenubarSub>
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu value="insert">
+        <MenubarTrigger className={triggerClassName}>Insert</MenubarTrigger>
+        <MenubarContent className="w-56">
+          <MenubarSub>
+            <MenubarSubTrigger disabled={!canEdit || editorMode !== 'editing'}>
+              <Table className="w-4 h-4 mr-2" />
+              Table
+            </MenubarSubTrigger>
+            <MenubarSubContent>
+              <TableGridPicker
+                onSelect={(rows, columns) => {
+                  setOpenMenu('')
+                  onFormat('insertTable', `${rows}x${columns}`)
+                }}
+              />
+            </MenubarSubContent>
+          </MenubarSub>
+          <MenubarItem disabled={!canEdit || editorMode !== 'editing'} onSelect={() => onFormat('insertImage')}>
+            <Image className="w-4 h-4 mr-2" />
+            Image…
+          </MenubarItem>
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('insertLink')}>
+            <Link className="w-4 h-4 mr-2" />
+            Link…
+            <MenubarShortcut>{mod}K</MenubarShortcut>
+          </MenubarItem>
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('insertBookmark')}>
+            <Bookmark className="w-4 h-4 mr-2" />
+            Bookmark
+          </MenubarItem>
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('insertHorizontalRule')}>
+            <Minus className="w-4 h-4 mr-2" />
+            Horizontal line
+          </MenubarItem>
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('insertPageBreak')}>
+            <SeparatorHorizontal className="w-4 h-4 mr-2" />
+            Page break
+            <MenubarShortcut>{mod}Enter</MenubarShortcut>
+          </MenubarItem>
+          <MenubarSeparator />
+          <MenubarItem disabled={!hasSelection} onSelect={onComment}>
+            <MessageSquare className="w-4 h-4 mr-2" />
+            Comment
+          </MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu value="format">
+        <MenubarTrigger className={triggerClassName}>Format</MenubarTrigger>
+        <MenubarContent className="w-56">
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('bold')}>
+            <Bold className="w-4 h-4 mr-2" />
+            Bold
+            <MenubarShortcut>{mod}B</MenubarShortcut>
+          </MenubarItem>
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('italic')}>
+            <Italic className="w-4 h-4 mr-2" />
+            Italic
+            <MenubarShortcut>{mod}I</MenubarShortcut>
+          </MenubarItem>
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('underline')}>
+            <Underline className="w-4 h-4 mr-2" />
+            Underline
+            <MenubarShortcut>{mod}U</MenubarShortcut>
+          </MenubarItem>
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('strikeThrough')}>
+            <Strikethrough className="w-4 h-4 mr-2" />
+            Strikethrough
+          </MenubarItem>
+          <MenubarSeparator />
+          <MenubarItem disabled={!canEdit} onSelect={() => onFormat('removeFormat')}>
+            <RemoveFormatting className="w-4 h-4 mr-2" />
+            Clear formatting
+          </MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu value="tools">
+        <MenubarTrigger className={triggerClassName}>Tools</MenubarTrigger>
+        <MenubarContent className="w-56">
+          <MenubarItem onSelect={onWordCount}>
+            Word count
+          </MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu value="extensions">
+        <MenubarTrigger className={triggerClassName}>Extensions</MenubarTrigger>
+        <MenubarContent className="w-56">
+          <MenubarItem disabled>No extensions installed</MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+
+      <MenubarMenu value="help">
+        <MenubarTrigger className={triggerClassName}>Help</MenubarTrigger>
+        <MenubarContent className="w-64">
+          <MenubarItem disabled>Open menus with {Object.keys(MENU_ACCESS_KEYS).map(code => MENU_ACCESS_PREFIX + code.slice(3)).join(', ')}</MenubarItem>
+        </MenubarContent>
+      </MenubarMenu>
+    </Menubar>
+  )
+}
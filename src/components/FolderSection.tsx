@@ -0,0 +1,35 @@
+import { Folder as FolderIcon, Users } from 'lucide-react'
+import type { Folder } from '../lib/folders'
+
+interface FolderSectionProps {
+  folders: Folder[]
+  userId: string
+  onOpen: (folderId: string) => void
+}
+
+export default function FolderSection({ folders, userId, onOpen }: FolderSectionProps) {
+  if (folders.length === 0) return null
+
+  return (
+    <section className="mb-8">
+      <h2 className="text-base font-medium text-gray-800 mb-3 flex items-center">
+        <FolderIcon className="w-4 h-4 mr-2" />
+        Folders
+      </h2>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+        {folders.map((folder) => (
+          <button
+            key={folder.id}
+            onClick={() => onOpen(folder.id)}
+            className="flex items-center bg-white border border-gray-200 rounded-lg px-4 py-3 text-left text-sm hover:bg-[#e8f0fe] transition-colors min-w-0"
+          >
+            {folder.userId === userId
+              ? <FolderIcon className="w-4 h-4 mr-3 text-gray-600 flex-shrink-0" />
+              : <Users className="w-4 h-4 mr-3 text-gray-600 flex-shrink-0" />}
+            <span className="truncate text-gray-900">{folder.name}</span>
+          </button>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react'
+import { Link as RouterLink } from 'react-router-dom'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator
+} from './ui/breadcrumb'
+import { FileText, FolderPlus, Lock, Plus, Share2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import DocumentSection from './DocumentSection'
+import FolderSection from './FolderSection'
+import { createDocument, listFolderDocuments, type DocumentSummary } from '../lib/documents'
+import {
+  createFolder,
+  folderPath,
+  inheritedGrants,
+  listChildFolders,
+  loadFolderChain,
+  shareFolder,
+  type Folder
+} from '../lib/folders'
+import { canEdit, canView, resolveAccess, type AccessLevel, type Permission } from '../lib/permissions'
+
+interface FolderViewProps {
+  user: { id: string; email: string }
+  folderId: string
+  query: string
+  onOpenDocument: (documentId: string) => void
+  onOpenFolder: (folderId: string) => void
+}
+
+export default function FolderView({ user, folderId, query, onOpenDocument, onOpenFolder }: FolderViewProps) {
+  const [chain, setChain] = useState<Folder[]>([])
+  const [access, setAccess] = useState<AccessLevel | null>(null)
+  const [children, setChildren] = useState<Folder[]>([])
+  const [documents, setDocuments] = useState<DocumentSummary[]>([])
+  const [newFolderName, setNewFolderName] = useState<string | null>(null)
+  const [isShareOpen, setIsShareOpen] = useState(false)
+  const [shareEmail, setShareEmail] = useState('')
+  const [sharePermission, setSharePermission] = useState<Permission>('view')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setAccess(null)
+    setError(null)
+
+    const load = async () => {
+      const nextChain = await loadFolderChain(folderId)
+      const folder = nextChain[nextChain.length - 1]
+      if (!folder || folder.id !== folderId) {
+        throw new Error('Folder not found')
+      }
+
+      // The folder's own owner shows up as an inherited editor; access is judged against it
+      const grants = await inheritedGrants(nextChain)
+      const nextAccess = resolveAccess(folder.userId, grants, user)
+      if (cancelled) return
+      setChain(nextChain)
+      setAccess(nextAccess)
+      if (!canView(nextAccess)) return
+
+      const [nextChildren, nextDocuments] = await Promise.all([
+        listChildFolders(folderId, user.id),
+        listFolderDocuments(folderId)
+      ])
+      if (cancelled) return
+      setChildren(nextChildren)
+      setDocuments(nextDocuments)
+    }
+
+    load().catch((error) => {
+      console.error('Failed to load folder:', error)
+      if (!cancelled) setError('This folder does not exist or could not be loaded.')
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [folderId, user])
+
+  const folder = chain[chain.length - 1]
+  const isOwner = folder?.userId === user.id
+  const canAdd = access !== null && canEdit(access)
+
+  const submitNewFolder = async () => {
+    if (newFolderName === null) return
+    try {
+      const created = await createFolder(user.id, newFolderName, folderId)
+      setChildren(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.error('Failed to create folder:', error)
+    }
+    setNewFolderName(null)
+  }
+
+  const newDocument = async () => {
+    try {
+      const doc = await createDocument(user.id, 'Untitled document', folderId)
+      onOpenDocument(doc.id)
+    } catch (error) {
+      console.error('Failed to create document:', error)
+      toast.error('Could not create a document here')
+    }
+  }
+
+  const submitShare = async () => {
+    if (!shareEmail.trim()) return
+    try {
+      await shareFolder(folderId, shareEmail.trim().toLowerCase(), sharePermission)
+      toast.success(`Shared "${folder?.name}" with ${shareEmail}`)
+      setShareEmail('')
+      setIsShareOpen(false)
+    } catch (error) {
+      console.error('Failed to share folder:', error)
+      toast.error('Could not share this folder')
+    }
+  }
+
+  const matches = (name: string) => name.toLowerCase().includes(query.trim().toLowerCase())
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (access === null) {
+    return <p className="text-sm text-gray-500">Loading folder…</p>
+  }
+
+  if (!canView(access)) {
+    return (
+      <div className="text-center py-16">
+        <Lock className="w-8 h-8 text-gray-400 mx-auto mb-3" />
+        <p className="text-gray-700">You don't have access to this folder</p>
+        <p className="text-sm text-gray-500">Ask its owner to share it with {user.email}</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-6">
+        <Breadcrumb>
+          <BreadcrumbList className="text-base">
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <RouterLink to="/">My Drive</RouterLink>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            {chain.map((entry, index) => (
+              <React.Fragment key={entry.id}>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  {index === chain.length - 1 ? (
+                    <BreadcrumbPage>{entry.name}</BreadcrumbPage>
+                  ) : (
+                    <BreadcrumbLink asChild>
+                      <RouterLink to={folderPath(entry.id)}>{entry.name}</RouterLink>
+                    </BreadcrumbLink>
+                  )}
+                </BreadcrumbItem>
+              </React.Fragment>
+            ))}
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <div className="flex items-center space-x-2">
+          {canAdd && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setNewFolderName('')}>
+                <FolderPlus className="w-4 h-4 mr-2" />
+                New folder
+              </Button>
+              <Button variant="outline" size="sm" onClick={newDocument}>
+                <Plus className="w-4 h-4 mr-2" />
+                New document
+              </Button>
+            </>
+          )}
+          {isOwner && (
+            <Button size="sm" onClick={() => setIsShareOpen(true)} className="bg-[#1a73e8] hover:bg-[#1557b0]">
+              <Share2 className="w-4 h-4 mr-2" />
+              Share folder
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {newFolderName !== null && (
+        <Input
+          autoFocus
+          placeholder="Folder name"
+          value={newFolderName}
+          onChange={(e) => setNewFolderName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitNewFolder()
+            if (e.key === 'Escape') setNewFolderName(null)
+          }}
+          onBlur={() => setNewFolderName(null)}
+          className="h-9 text-sm mb-6 max-w-sm"
+        />
+      )}
+
+      <FolderSection
+        folders={children.filter(child => matches(child.name))}
+        userId={user.id}
+        onOpen={onOpenFolder}
+      />
+      <DocumentSection
+        title="Documents"
+        icon={<FileText className="w-4 h-4 mr-2" />}
+        documents={documents.filter(doc => matches(doc.title || ''))}
+        userId={user.id}
+        emptyText="This folder has no documents yet"
+        dateLabel="Last modified"
+        onOpen={onOpenDocument}
+      />
+
+      <Dialog open={isShareOpen} onOpenChange={setIsShareOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Share "{folder?.name}"</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">Everything in this folder, including subfolders, is shared too.</p>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Email address</label>
+              <Input
+                placeholder="Enter email address"
+                value={shareEmail}
+                onChange={(e) => setShareEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Permission</label>
+              <Select value={sharePermission} onValueChange={(value: Permission) => setSharePermission(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="view">Can view</SelectItem>
+                  <SelectItem value="edit">Can edit</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={submitShare} className="w-full">
+              <Share2 className="w-4 h-4 mr-2" />
+              Share
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
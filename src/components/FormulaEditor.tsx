@@ -0,0 +1,67 @@
+import { useLayoutEffect, useRef, useState } from 'react'
+
+interface FormulaEditorProps {
+  cell: HTMLTableCellElement
+  // Re-measured whenever the document changes
+  content: string
+  // down: Enter was pressed, so the caret moves on to the cell below
+  onCommit: (formula: string, down: boolean) => void
+  onCancel: () => void
+}
+
+// Edits a formula cell's source in place, over the cell. The source only
+// reaches the document once it is saved, so nothing half-typed is synced.
+export default function FormulaEditor({ cell, content, onCommit, onCancel }: FormulaEditorProps) {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [rect, setRect] = useState({ top: 0, left: 0, width: 0, height: 0 })
+  const [formula, setFormula] = useState('')
+  // Enter and Escape close the editor, and the blur that follows mustn't save again
+  const doneRef = useRef(false)
+
+  // Enter moves straight on to the formula cell below, in the same editor
+  useLayoutEffect(() => {
+    setFormula(cell.getAttribute('data-formula') || '')
+    doneRef.current = false
+    inputRef.current?.focus()
+  }, [cell])
+
+  useLayoutEffect(() => {
+    const overlay = overlayRef.current
+    if (!overlay) return
+    const origin = overlay.getBoundingClientRect()
+    const bounds = cell.getBoundingClientRect()
+    setRect({ top: bounds.top - origin.top, left: bounds.left - origin.left, width: bounds.width, height: bounds.height })
+  }, [cell, content])
+
+  const finish = (save: boolean, down = false) => {
+    if (doneRef.current) return
+    doneRef.current = true
+    if (save) onCommit(formula, down)
+    else onCancel()
+  }
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none print:hidden">
+      <input
+        ref={inputRef}
+        aria-label="Formula"
+        spellCheck={false}
+        value={formula}
+        onChange={(e) => setFormula(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault()
+            finish(true, true)
+          } else if (e.key === 'Escape') {
+            e.preventDefault()
+            finish(false)
+          }
+        }}
+        onBlur={() => finish(true)}
+        className="absolute z-20 min-w-[8rem] rounded-sm border-2 border-[#1a73e8] bg-white px-2 font-mono text-sm shadow-md outline-none pointer-events-auto"
+        style={{ top: rect.top, left: rect.left, width: rect.width, height: rect.height }}
+      />
+    </div>
+  )
+}
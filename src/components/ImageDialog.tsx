@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { ImagePlus } from 'lucide-react'
+import { imageFileProblem } from '../lib/images'
+
+interface ImageDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // A pasted or dropped file to start with
+  file: File | null
+  // Resolves to false when the upload failed and the dialog should stay open
+  onInsert: (image: { file: File; alt: string; caption: string }) => Promise<boolean>
+  // Once the dialog has gone and focus can go back to the document
+  onClosed: () => void
+}
+
+export default function ImageDialog({ open, onOpenChange, file: initialFile, onInsert, onClosed }: ImageDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState('')
+  const [alt, setAlt] = useState('')
+  const [caption, setCaption] = useState('')
+  const [uploading, setUploading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setFile(initialFile)
+    setAlt('')
+    setCaption('')
+    setUploading(false)
+  }, [open, initialFile])
+
+  useEffect(() => {
+    if (!file) {
+      setPreview('')
+      return
+    }
+    const url = URL.createObjectURL(file)
+    setPreview(url)
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  const problem = file && imageFileProblem(file)
+  const canInsert = !!file && !problem && !!alt.trim() && !uploading
+
+  const insert = async () => {
+    if (!file || !canInsert) return
+    setUploading(true)
+    const inserted = await onInsert({ file, alt: alt.trim(), caption: caption.trim() })
+    if (!inserted) setUploading(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !uploading && onOpenChange(next)}>
+      <DialogContent
+        className="sm:max-w-md"
+        onCloseAutoFocus={(e) => {
+          e.preventDefault()
+          onClosed()
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>Insert image</DialogTitle>
+          <DialogDescription>Images are stored with the document and shared with everyone who can open it.</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4 text-sm"
+          onSubmit={(e) => {
+            e.preventDefault()
+            insert()
+          }}
+        >
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/gif,image/webp"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.[0]) setFile(e.target.files[0])
+              e.target.value = ''
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="flex h-40 w-full items-center justify-center overflow-hidden rounded-md border border-dashed border-gray-300 bg-gray-50 hover:bg-gray-100"
+          >
+            {preview ? (
+              <img src={preview} alt="" className="max-h-full max-w-full object-contain" />
+            ) : (
+              <span className="flex flex-col items-center gap-2 text-gray-600">
+                <ImagePlus className="w-6 h-6" />
+                Choose an image to upload
+              </span>
+            )}
+          </button>
+          {problem && <p className="text-xs text-red-600">{problem}</p>}
+
+          <div className="space-y-2">
+            <Label htmlFor="image-alt">Alt text</Label>
+            <Input
+              id="image-alt"
+              placeholder="Describe the image for people who can't see it"
+              value={alt}
+              onChange={(e) => setAlt(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="image-caption">Caption (optional)</Label>
+            <Input id="image-caption" value={caption} onChange={(e) => setCaption(e.target.value)} />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" disabled={uploading} onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={!canInsert} className="bg-[#1a73e8] hover:bg-[#1557b0]">
+              {uploading ? 'Uploading…' : 'Insert'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
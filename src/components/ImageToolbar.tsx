@@ -0,0 +1,172 @@
+import React, { useCallback, useLayoutEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Separator } from './ui/separator'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Trash2 } from 'lucide-react'
+import type { ImageAlign, ImageNode } from '../lib/document-model'
+
+interface ImageToolbarProps {
+  image: HTMLImageElement
+  details: ImageNode
+  // Re-measured whenever the document changes
+  content: string
+  onAlign: (align: ImageAlign | undefined) => void
+  onDescribe: (alt: string, caption: string) => void
+  onDelete: () => void
+  onResizeStart: () => void
+  onResize: (width: number) => void
+  onResizeEnd: () => void
+}
+
+const PLACEMENTS: { label: string; align: ImageAlign | undefined }[] = [
+  { label: 'In line', align: undefined },
+  { label: 'Wrap left', align: 'left' },
+  { label: 'Wrap right', align: 'right' },
+  { label: 'Break text', align: 'break' }
+]
+
+const CORNERS = [
+  { name: 'top-left', x: 0, y: 0, cursor: 'nwse-resize' },
+  { name: 'top-right', x: 1, y: 0, cursor: 'nesw-resize' },
+  { name: 'bottom-left', x: 0, y: 1, cursor: 'nesw-resize' },
+  { name: 'bottom-right', x: 1, y: 1, cursor: 'nwse-resize' }
+]
+
+// Outlines the selected image with handles at its corners to resize it,
+// and floats its placement and alt text options above it
+export default function ImageToolbar({ image, details, content, onAlign, onDescribe, onDelete, onResizeStart, onResize, onResizeEnd }: ImageToolbarProps) {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [box, setBox] = useState({ top: 0, left: 0, width: 0, height: 0 })
+  const [describing, setDescribing] = useState(false)
+  const [alt, setAlt] = useState('')
+  const [caption, setCaption] = useState('')
+
+  const measure = useCallback(() => {
+    const overlay = overlayRef.current
+    if (!overlay) return
+    const origin = overlay.getBoundingClientRect()
+    const rect = image.getBoundingClientRect()
+    setBox({ top: rect.top - origin.top, left: rect.left - origin.left, width: rect.width, height: rect.height })
+  }, [image])
+
+  useLayoutEffect(measure, [measure, content])
+
+  // Dragging a left-hand corner outwards grows the image just as a right-hand one does
+  const startResize = (event: React.MouseEvent, fromLeft: boolean) => {
+    event.preventDefault()
+    event.stopPropagation()
+    const startX = event.clientX
+    const startWidth = image.getBoundingClientRect().width
+    onResizeStart()
+    const handleMove = (move: MouseEvent) => {
+      const delta = move.clientX - startX
+      onResize(startWidth + (fromLeft ? -delta : delta))
+      measure()
+    }
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove)
+      window.removeEventListener('mouseup', handleUp)
+      onResizeEnd()
+    }
+    window.addEventListener('mousemove', handleMove)
+    window.addEventListener('mouseup', handleUp)
+  }
+
+  const missingAlt = !details.alt?.trim()
+
+  // Keeping focus in the document keeps the image selected
+  return (
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none print:hidden">
+      <div
+        className="absolute border-2 border-[#1a73e8]"
+        style={{ top: box.top, left: box.left, width: box.width, height: box.height }}
+      >
+        {CORNERS.map(corner => (
+          <div
+            key={corner.name}
+            aria-hidden="true"
+            className="absolute h-2.5 w-2.5 border border-white bg-[#1a73e8] pointer-events-auto"
+            style={{
+              left: `calc(${corner.x * 100}% - 5px)`,
+              top: `calc(${corner.y * 100}% - 5px)`,
+              cursor: corner.cursor
+            }}
+            onMouseDown={(e) => startResize(e, corner.x === 0)}
+          />
+        ))}
+      </div>
+
+      <div
+        className="absolute z-20 flex items-center gap-0.5 rounded-md border border-gray-200 bg-white px-1 py-0.5 shadow-md pointer-events-auto"
+        style={{ top: Math.max(0, box.top - 40), left: box.left }}
+        onMouseDown={(e) => e.preventDefault()}
+      >
+        {PLACEMENTS.map(({ label, align }) => (
+          <Button
+            key={label}
+            variant="ghost"
+            size="sm"
+            aria-pressed={details.align === align}
+            onClick={() => onAlign(align)}
+            className={`h-8 px-2 text-xs hover:bg-gray-100 ${details.align === align ? 'bg-[#e8f0fe] text-[#1a73e8]' : ''}`}
+          >
+            {label}
+          </Button>
+        ))}
+        <Separator orientation="vertical" className="h-6 mx-1" />
+
+        {/* Alt text and caption */}
+        <Popover
+          open={describing}
+          onOpenChange={(open) => {
+            setDescribing(open)
+            if (open) {
+              setAlt(details.alt || '')
+              setCaption(details.caption || '')
+            }
+          }}
+        >
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              title={missingAlt ? 'This image has no alt text' : 'Alt text and caption'}
+              className={`h-8 px-2 text-xs hover:bg-gray-100 ${missingAlt ? 'text-red-600' : ''}`}
+            >
+              Alt text
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72">
+            <form
+              className="space-y-3"
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (!alt.trim()) return
+                onDescribe(alt.trim(), caption.trim())
+                setDescribing(false)
+              }}
+            >
+              <div className="space-y-1">
+                <Label htmlFor="image-toolbar-alt" className="text-xs">Alt text</Label>
+                <Input id="image-toolbar-alt" value={alt} onChange={(e) => setAlt(e.target.value)} placeholder="Describe the image" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="image-toolbar-caption" className="text-xs">Caption</Label>
+                <Input id="image-toolbar-caption" value={caption} onChange={(e) => setCaption(e.target.value)} />
+              </div>
+              <Button type="submit" size="sm" disabled={!alt.trim()} className="w-full bg-[#1a73e8] hover:bg-[#1557b0]">
+                Save
+              </Button>
+            </form>
+          </PopoverContent>
+        </Popover>
+
+        <Button variant="ghost" size="sm" title="Delete image" aria-label="Delete image" onClick={onDelete} className="h-8 w-8 p-0 hover:bg-gray-100">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Bookmark, FileText, Heading } from 'lucide-react'
+import { documentPath, listHomeDocuments, type DocumentSummary } from '../lib/documents'
+import { linkedDocumentId, normalizeLink, targetHref, type LinkTarget } from '../lib/links'
+
+interface LinkDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The link being edited, or the selected text for a new one
+  initial: { text: string; href: string; editing: boolean }
+  // Formatted selections keep their formatting, so their text can't be retyped here
+  textEditable: boolean
+  targets: LinkTarget[]
+  user: { id: string; email?: string | null }
+  currentDocumentId: string
+  onApply: (link: { text: string; href: string }) => void
+  // Once the dialog has gone and focus can go back to the document
+  onClosed: () => void
+}
+
+const MAX_TARGETS = 8
+const MAX_DOCUMENTS = 6
+
+// Anything that already looks like a link is taken as one; other text searches
+const looksLikeUrl = (value: string) => /^(#|\/|[a-z][a-z0-9+.-]*:|www\.)/i.test(value) || /^[\w-]+\.[a-z]{2,}(\/|$)/i.test(value)
+
+export default function LinkDialog({ open, onOpenChange, initial, textEditable, targets, user, currentDocumentId, onApply, onClosed }: LinkDialogProps) {
+  const [text, setText] = useState('')
+  const [url, setUrl] = useState('')
+  // What a picked heading, bookmark or document is called, to show instead of its href
+  const [picked, setPicked] = useState<{ href: string; label: string } | null>(null)
+  const [documents, setDocuments] = useState<DocumentSummary[]>([])
+  const [invalid, setInvalid] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    const target = targets.find(target => `#${target.element.id}` === initial.href)
+    setText(initial.text)
+    setUrl(initial.href)
+    setPicked(target ? { href: initial.href, label: target.label } : null)
+    setInvalid(false)
+  }, [open, initial, targets])
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    listHomeDocuments(user)
+      .then((home) => {
+        if (cancelled) return
+        const seen = new Set<string>([currentDocumentId])
+        setDocuments([...home.recent, ...home.owned, ...home.shared].filter((doc) => {
+          if (seen.has(doc.id)) return false
+          seen.add(doc.id)
+          return true
+        }))
+      })
+      .catch((error) => {
+        console.error('Failed to load documents:', error)
+        if (!cancelled) setDocuments([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, user, currentDocumentId])
+
+  const query = picked || looksLikeUrl(url.trim()) ? null : url.trim().toLowerCase()
+  const matchingTargets = query === null ? [] : targets.filter(target => target.label.toLowerCase().includes(query)).slice(0, MAX_TARGETS)
+  const matchingDocuments = query === null ? [] : documents.filter(doc => (doc.title || 'Untitled').toLowerCase().includes(query)).slice(0, MAX_DOCUMENTS)
+  const linkedDocument = picked ? null : documents.find(doc => doc.id === linkedDocumentId(url.trim()))
+
+  const pick = (href: string, label: string) => {
+    setUrl(href)
+    setPicked({ href, label })
+    setInvalid(false)
+    if (textEditable && !text.trim()) setText(label)
+  }
+
+  const apply = () => {
+    const href = picked?.href || normalizeLink(url)
+    if (!href) {
+      setInvalid(true)
+      return
+    }
+    onApply({ text: text.trim() || picked?.label || url.trim(), href })
+  }
+
+  const suggestion = (key: string, icon: React.ReactNode, label: string, onPick: () => void, indent = 0) => (
+    <button
+      key={key}
+      type="button"
+      onClick={onPick}
+      className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-left hover:bg-gray-100"
+      style={{ paddingLeft: 8 + indent * 12 }}
+    >
+      {icon}
+      <span className="truncate">{label}</span>
+    </button>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-md"
+        onCloseAutoFocus={(e) => {
+          e.preventDefault()
+          onClosed()
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>{initial.editing ? 'Edit link' : 'Insert link'}</DialogTitle>
+        </DialogHeader>
+
+        <form
+          className="space-y-4 text-sm"
+          onSubmit={(e) => {
+            e.preventDefault()
+            apply()
+          }}
+        >
+          {textEditable && (
+            <div className="space-y-2">
+              <Label htmlFor="link-text">Text</Label>
+              <Input id="link-text" value={text} onChange={(e) => setText(e.target.value)} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="link-url">Link</Label>
+            {picked ? (
+              <div className="flex h-9 items-center justify-between gap-2 rounded-md border border-gray-200 px-3">
+                <span className="truncate text-[#1a73e8]">{picked.label}</span>
+                <button type="button" className="text-xs text-gray-500 hover:text-gray-800" onClick={() => { setPicked(null); setUrl('') }}>
+                  Change
+                </button>
+              </div>
+            ) : (
+              <Input
+                id="link-url"
+                autoFocus={textEditable && !!initial.text}
+                placeholder="Paste a link, or search headings and documents"
+                value={url}
+                onChange={(e) => {
+                  setUrl(e.target.value)
+                  setInvalid(false)
+                }}
+              />
+            )}
+            {invalid && <p className="text-xs text-red-600">Enter a web address, email address or document link</p>}
+            {linkedDocument && <p className="text-xs text-gray-500">Links to “{linkedDocument.title || 'Untitled'}”</p>}
+          </div>
+
+          {(matchingTargets.length > 0 || matchingDocuments.length > 0) && (
+            <div className="max-h-56 overflow-y-auto rounded-md border border-gray-200 p-1">
+              {matchingTargets.length > 0 && <div className="px-2 py-1 text-xs font-medium text-gray-500">In this document</div>}
+              {matchingTargets.map((target, index) => suggestion(
+                `target-${index}`,
+                target.kind === 'heading'
+                  ? <Heading className="w-4 h-4 shrink-0 text-gray-500" />
+                  : <Bookmark className="w-4 h-4 shrink-0 text-gray-500" />,
+                target.label,
+                () => pick(targetHref(target), target.label),
+                target.level ? target.level - 1 : 0
+              ))}
+              {matchingDocuments.length > 0 && <div className="px-2 py-1 text-xs font-medium text-gray-500">Documents</div>}
+              {matchingDocuments.map(doc => suggestion(
+                `document-${doc.id}`,
+                <FileText className="w-4 h-4 shrink-0 text-[#1a73e8]" />,
+                doc.title || 'Untitled',
+                () => pick(documentPath(doc.id), doc.title || 'Untitled')
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={!url.trim()} className="bg-[#1a73e8] hover:bg-[#1557b0]">
+              Apply
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
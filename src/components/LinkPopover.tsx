@@ -0,0 +1,102 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Separator } from './ui/separator'
+import { Bookmark, Copy, ExternalLink, FileText, Heading, Pencil, Unlink } from 'lucide-react'
+import { listAccessibleDocuments } from '../lib/documents'
+import { linkedDocumentId, type LinkTarget } from '../lib/links'
+
+interface LinkPopoverProps {
+  link: HTMLAnchorElement
+  // Re-measured whenever the document changes
+  content: string
+  // The heading or bookmark an in-document link points at
+  target: LinkTarget | null
+  editable: boolean
+  user: { id: string; email?: string | null }
+  onOpen: () => void
+  onCopy: () => void
+  onEdit: () => void
+  onRemove: () => void
+  // Hovering the card keeps it open after the pointer leaves the link
+  onMouseEnter: () => void
+  onMouseLeave: () => void
+}
+
+// Shows where the link under the pointer goes, below it
+export default function LinkPopover({ link, content, target, editable, user, onOpen, onCopy, onEdit, onRemove, onMouseEnter, onMouseLeave }: LinkPopoverProps) {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [position, setPosition] = useState({ top: 0, left: 0 })
+  const href = link.getAttribute('href') || ''
+  const documentId = linkedDocumentId(href)
+  // undefined while loading, null when the document can't be found or opened
+  const [documentTitle, setDocumentTitle] = useState<string | null | undefined>(undefined)
+
+  useLayoutEffect(() => {
+    const overlay = overlayRef.current
+    if (!overlay) return
+    const origin = overlay.getBoundingClientRect()
+    const rect = link.getBoundingClientRect()
+    setPosition({ top: rect.bottom - origin.top + 4, left: rect.left - origin.left })
+  }, [link, content])
+
+  useEffect(() => {
+    if (!documentId) return
+    let cancelled = false
+    setDocumentTitle(undefined)
+    listAccessibleDocuments([documentId], user)
+      .then(([doc]) => {
+        if (!cancelled) setDocumentTitle(doc ? doc.title || 'Untitled' : null)
+      })
+      .catch((error) => {
+        console.error('Failed to load linked document:', error)
+        if (!cancelled) setDocumentTitle(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [documentId, user])
+
+  let icon = <ExternalLink className="w-4 h-4 shrink-0 text-gray-500" />
+  let label = href
+  if (href.startsWith('#')) {
+    icon = target?.kind === 'bookmark'
+      ? <Bookmark className="w-4 h-4 shrink-0 text-gray-500" />
+      : <Heading className="w-4 h-4 shrink-0 text-gray-500" />
+    label = target ? target.label : 'Heading or bookmark no longer in this document'
+  } else if (documentId) {
+    icon = <FileText className="w-4 h-4 shrink-0 text-[#1a73e8]" />
+    label = documentTitle === undefined ? 'Loading…' : documentTitle ?? "Document not found or you don't have access"
+  }
+
+  const action = (title: string, Icon: React.ComponentType<{ className?: string }>, onClick: () => void) => (
+    <Button variant="ghost" size="sm" title={title} aria-label={title} onClick={onClick} className="h-8 w-8 p-0 hover:bg-gray-100">
+      <Icon className="w-4 h-4" />
+    </Button>
+  )
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none print:hidden">
+      <div
+        className="absolute z-30 flex max-w-sm items-center gap-1 rounded-md border border-gray-200 bg-white py-0.5 pl-3 pr-1 text-sm shadow-md pointer-events-auto"
+        style={{ top: position.top, left: position.left }}
+        onMouseDown={(e) => e.preventDefault()}
+        onMouseEnter={onMouseEnter}
+        onMouseLeave={onMouseLeave}
+      >
+        {icon}
+        <button
+          type="button"
+          onClick={onOpen}
+          title={href}
+          className="mr-1 min-w-0 truncate text-left text-[#1a73e8] hover:underline"
+        >
+          {label}
+        </button>
+        <Separator orientation="vertical" className="h-6" />
+        {action('Copy link', Copy, onCopy)}
+        {editable && action('Edit link', Pencil, onEdit)}
+        {editable && action('Remove link', Unlink, onRemove)}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { ScrollArea } from './ui/scroll-area'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { ArrowLeft, ChevronRight, Folder as FolderIcon, FolderPlus } from 'lucide-react'
+import { createFolder, listChildFolders, loadFolderChain, type Folder } from '../lib/folders'
+
+interface MoveToDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string
+  documentTitle: string
+  currentFolderId: string | null
+  onMove: (folderId: string | null) => void
+}
+
+export default function MoveToDialog({ open, onOpenChange, userId, documentTitle, currentFolderId, onMove }: MoveToDialogProps) {
+  // The folder whose contents the dialog is showing; null is My Drive
+  const [browsingId, setBrowsingId] = useState<string | null>(currentFolderId)
+  const [chain, setChain] = useState<Folder[]>([])
+  const [children, setChildren] = useState<Folder[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [newFolderName, setNewFolderName] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) setBrowsingId(currentFolderId)
+  }, [open, currentFolderId])
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setIsLoading(true)
+    Promise.all([loadFolderChain(browsingId), listChildFolders(browsingId, userId)])
+      .then(([nextChain, nextChildren]) => {
+        if (cancelled) return
+        setChain(nextChain)
+        setChildren(nextChildren)
+      })
+      .catch(error => console.error('Failed to load folders:', error))
+      .finally(() => !cancelled && setIsLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [open, browsingId, userId])
+
+  const submitNewFolder = async () => {
+    if (newFolderName === null) return
+    try {
+      const folder = await createFolder(userId, newFolderName, browsingId)
+      setChildren(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.error('Failed to create folder:', error)
+    }
+    setNewFolderName(null)
+  }
+
+  const browsingName = chain[chain.length - 1]?.name || 'My Drive'
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Move "{documentTitle}"</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2 text-sm">
+          {browsingId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setBrowsingId(chain[chain.length - 2]?.id ?? null)}
+              className="h-7 w-7 p-0"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          )}
+          <span className="font-medium text-gray-900 truncate">{browsingName}</span>
+        </div>
+
+        <ScrollArea className="h-64 border border-gray-200 rounded-md">
+          <div className="p-1">
+            {isLoading && <p className="text-sm text-gray-500 p-3">Loading…</p>}
+            {!isLoading && children.length === 0 && (
+              <p className="text-sm text-gray-500 p-3">No folders here</p>
+            )}
+            {!isLoading && children.map((folder) => (
+              <button
+                key={folder.id}
+                onClick={() => setBrowsingId(folder.id)}
+                className="w-full flex items-center justify-between px-3 py-2 rounded-md text-sm hover:bg-gray-100"
+              >
+                <span className="flex items-center min-w-0">
+                  <FolderIcon className="w-4 h-4 mr-2 text-gray-600 flex-shrink-0" />
+                  <span className="truncate">{folder.name}</span>
+                </span>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {newFolderName !== null && (
+          <Input
+            autoFocus
+            placeholder="Folder name"
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitNewFolder()
+              if (e.key === 'Escape') setNewFolderName(null)
+            }}
+            className="h-8 text-sm"
+          />
+        )}
+
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => newFolderName === null ? setNewFolderName('') : submitNewFolder()}>
+            <FolderPlus className="w-4 h-4 mr-2" />
+            {newFolderName === null ? 'New folder' : 'Create folder'}
+          </Button>
+          <Button
+            size="sm"
+            disabled={browsingId === currentFolderId}
+            onClick={() => onMove(browsingId)}
+            className="bg-[#1a73e8] hover:bg-[#1557b0]"
+          >
+            Move here
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
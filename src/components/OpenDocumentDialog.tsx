@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { ScrollArea } from './ui/scroll-area'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { AlertTriangle, FileText, Search, Upload } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { createDocument, listHomeDocuments, type DocumentSummary } from '../lib/documents'
+import { importDocx } from '../lib/docx-import'
+import { importMarkdown } from '../lib/markdown'
+
+interface OpenDocumentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  user: { id: string; email?: string | null }
+  currentDocumentId: string
+  onOpenDocument: (documentId: string) => void
+}
+
+export default function OpenDocumentDialog({ open, onOpenChange, user, currentDocumentId, onOpenDocument }: OpenDocumentDialogProps) {
+  const [documents, setDocuments] = useState<DocumentSummary[] | null>(null)
+  const [query, setQuery] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+  // Set after an import that lost something, so the user sees what before opening it
+  const [imported, setImported] = useState<{ id: string; title: string; unsupported: string[] } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setQuery('')
+    setDocuments(null)
+    setImported(null)
+    listHomeDocuments(user)
+      .then((home) => {
+        if (cancelled) return
+        // Recently opened first, then everything else the user can see
+        const seen = new Set<string>()
+        const merged = [...home.recent, ...home.owned, ...home.shared].filter((doc) => {
+          if (seen.has(doc.id)) return false
+          seen.add(doc.id)
+          return true
+        })
+        setDocuments(merged)
+      })
+      .catch((error) => {
+        console.error('Failed to load documents:', error)
+        if (!cancelled) setDocuments([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, user])
+
+  const upload = async (file: File | undefined) => {
+    if (!file || isImporting) return
+    const isMarkdown = /\.(md|markdown)$/i.test(file.name)
+    if (!isMarkdown && !/\.docx$/i.test(file.name)) {
+      toast.error('Choose a Word document (.docx) or Markdown file (.md)')
+      return
+    }
+    setIsImporting(true)
+    try {
+      const result = isMarkdown ? { ...await importMarkdown(file), unsupported: [] } : await importDocx(file)
+      const doc = await createDocument(user.id, result.title, null, result.html)
+      if (result.unsupported.length > 0) {
+        setImported({ id: doc.id, title: doc.title, unsupported: result.unsupported })
+      } else {
+        toast.success(`Imported "${doc.title}"`)
+        onOpenDocument(doc.id)
+      }
+    } catch (error) {
+      console.error('Failed to import document:', error)
+      toast.error('Could not read this file')
+    } finally {
+      setIsImporting(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault()
+    setIsDragging(false)
+    upload(event.dataTransfer.files[0])
+  }
+
+  const visible = (documents || []).filter(doc => (doc.title || '').toLowerCase().includes(query.trim().toLowerCase()))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Open a document</DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue="documents">
+          <TabsList className="mb-2">
+            <TabsTrigger value="documents">My documents</TabsTrigger>
+            <TabsTrigger value="upload">Upload</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="documents" className="space-y-4">
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <Input
+                autoFocus
+                placeholder="Search documents"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            <ScrollArea className="h-72 border border-gray-200 rounded-md">
+              <div className="p-1">
+                {!documents && <p className="text-sm text-gray-500 p-3">Loading…</p>}
+                {documents && visible.length === 0 && (
+                  <p className="text-sm text-gray-500 p-3">No matching documents</p>
+                )}
+                {visible.map((doc) => (
+                  <button
+                    key={doc.id}
+                    onClick={() => onOpenDocument(doc.id)}
+                    disabled={doc.id === currentDocumentId}
+                    className="w-full flex items-center px-3 py-2 rounded-md text-sm text-left hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <FileText className="w-4 h-4 mr-2 text-[#1a73e8] flex-shrink-0" />
+                    <span className="truncate flex-1">{doc.title || 'Untitled document'}</span>
+                    <span className="text-xs text-gray-500 ml-3">
+                      {doc.userId === user.id ? 'me' : 'Shared with me'}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="upload">
+            {imported ? (
+              <div className="space-y-4">
+                <div className="flex items-start p-3 rounded-md bg-[#fef7e0] text-sm text-gray-800">
+                  <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 text-[#b06000] flex-shrink-0" />
+                  <div>
+                    <p className="font-medium">"{imported.title}" was imported, but some parts couldn't be converted:</p>
+                    <ul className="list-disc ml-5 mt-2 space-y-0.5">
+                      {imported.unsupported.map(feature => <li key={feature}>{feature}</li>)}
+                    </ul>
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={() => onOpenDocument(imported.id)} className="bg-[#1a73e8] hover:bg-[#1557b0]">
+                    Open document
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  setIsDragging(true)
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`h-72 flex flex-col items-center justify-center border-2 border-dashed rounded-md text-sm text-gray-600 ${
+                  isDragging ? 'border-[#1a73e8] bg-[#e8f0fe]' : 'border-gray-300'
+                }`}
+              >
+                <Upload className="w-8 h-8 text-gray-400 mb-3" />
+                {isImporting ? (
+                  <p>Importing…</p>
+                ) : (
+                  <>
+                    <p className="mb-3">Drag a Word document (.docx) or Markdown file (.md) here</p>
+                    <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                      Select a file from your device
+                    </Button>
+                  </>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".docx,.md,.markdown,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/markdown"
+                  className="hidden"
+                  onChange={(e) => upload(e.target.files?.[0])}
+                />
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { DEFAULT_PAGE_SETUP, PAGE_SIZES, pageSetupSchema, type PageSetup, type PageSizeName } from '../lib/page-setup'
+
+interface PageSetupDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  setup: PageSetup
+  onSave: (setup: PageSetup) => void
+}
+
+const MARGINS = ['top', 'bottom', 'left', 'right'] as const
+
+export default function PageSetupDialog({ open, onOpenChange, setup, onSave }: PageSetupDialogProps) {
+  const [draft, setDraft] = useState<PageSetup>(setup)
+  // Margin fields are edited as text so they can be cleared while typing
+  const [margins, setMargins] = useState<Record<typeof MARGINS[number], string>>({ top: '', bottom: '', left: '', right: '' })
+
+  const reset = (next: PageSetup) => {
+    setDraft(next)
+    setMargins({
+      top: String(next.margins.top),
+      bottom: String(next.margins.bottom),
+      left: String(next.margins.left),
+      right: String(next.margins.right)
+    })
+  }
+
+  useEffect(() => {
+    if (open) reset(setup)
+  }, [open, setup])
+
+  const candidate: PageSetup = {
+    ...draft,
+    margins: {
+      top: Number(margins.top),
+      bottom: Number(margins.bottom),
+      left: Number(margins.left),
+      right: Number(margins.right)
+    }
+  }
+  const isValid = MARGINS.every(side => margins[side].trim() !== '') && pageSetupSchema.safeParse(candidate).success
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Page setup</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5 text-sm">
+          <div className="space-y-2">
+            <Label>Orientation</Label>
+            <RadioGroup
+              value={draft.orientation}
+              onValueChange={(value) => setDraft({ ...draft, orientation: value as PageSetup['orientation'] })}
+              className="flex space-x-6"
+            >
+              <label className="flex items-center space-x-2">
+                <RadioGroupItem value="portrait" />
+                <span>Portrait</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <RadioGroupItem value="landscape" />
+                <span>Landscape</span>
+              </label>
+            </RadioGroup>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Paper size</Label>
+              <Select value={draft.size} onValueChange={(value) => setDraft({ ...draft, size: value as PageSizeName })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAGE_SIZES).map(([name, size]) => (
+                    <SelectItem key={name} value={name}>{size.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Margins (inches)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {MARGINS.map(side => (
+                  <Input
+                    key={side}
+                    type="number"
+                    min={0}
+                    max={4}
+                    step={0.1}
+                    aria-label={`${side} margin`}
+                    title={side[0].toUpperCase() + side.slice(1)}
+                    value={margins[side]}
+                    onChange={(e) => setMargins({ ...margins, [side]: e.target.value })}
+                  />
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">Top, bottom, left, right</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="page-header">Header</Label>
+            <Input
+              id="page-header"
+              placeholder="Shown at the top of every page"
+              value={draft.header}
+              maxLength={500}
+              onChange={(e) => setDraft({ ...draft, header: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="page-footer">Footer</Label>
+            <Input
+              id="page-footer"
+              placeholder="Shown at the bottom of every page"
+              value={draft.footer}
+              maxLength={500}
+              onChange={(e) => setDraft({ ...draft, footer: e.target.value })}
+            />
+          </div>
+
+          <label className="flex items-center justify-between">
+            <span>Page numbers in the footer</span>
+            <Switch checked={draft.pageNumbers} onCheckedChange={(checked) => setDraft({ ...draft, pageNumbers: checked })} />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => reset(DEFAULT_PAGE_SETUP)}>
+            Reset to defaults
+          </Button>
+          <Button
+            size="sm"
+            disabled={!isValid}
+            onClick={() => onSave(candidate)}
+            className="bg-[#1a73e8] hover:bg-[#1557b0]"
+          >
+            OK
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,115 @@
+import { useLayoutEffect, useRef, useState, type RefObject } from 'react'
+import type { AtomId, HtmlCrdt } from '../lib/crdt'
+import { createRangeFromOffsets, getRangeRects, toOverlayRect, type OverlayRect } from '../lib/text-offsets'
+import { getUserColor } from '../lib/presence'
+
+export interface RemoteSelection {
+  anchor: AtomId | null
+  focus: AtomId | null
+}
+
+export interface RemoteCursor {
+  userId: string
+  displayName: string
+  selection: RemoteSelection
+}
+
+interface RemoteCursorsProps {
+  editorRef: RefObject<HTMLDivElement | null>
+  crdtRef: RefObject<HtmlCrdt | null>
+  cursors: RemoteCursor[]
+  content: string
+}
+
+interface CursorShape {
+  userId: string
+  displayName: string
+  color: string
+  caret: OverlayRect
+  highlights: OverlayRect[]
+}
+
+export default function RemoteCursors({ editorRef, crdtRef, cursors, content }: RemoteCursorsProps) {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [shapes, setShapes] = useState<CursorShape[]>([])
+  const [layoutVersion, setLayoutVersion] = useState(0)
+
+  // Line wrapping changes with the window width
+  useLayoutEffect(() => {
+    const handleResize = () => setLayoutVersion(v => v + 1)
+    window.addEventListener('resize', handleResize)
+    return () => window.removeEventListener('resize', handleResize)
+  }, [])
+
+  useLayoutEffect(() => {
+    const editor = editorRef.current
+    const overlay = overlayRef.current
+    const crdt = crdtRef.current
+    if (!editor || !overlay || !crdt) {
+      setShapes([])
+      return
+    }
+
+    const origin = overlay.getBoundingClientRect()
+
+    const next: CursorShape[] = []
+    for (const cursor of cursors) {
+      const anchor = crdt.offsetOf(cursor.selection.anchor)
+      const focus = crdt.offsetOf(cursor.selection.focus)
+      if (anchor === null || focus === null) continue
+
+      try {
+        const highlights = anchor === focus ? [] : getRangeRects(editor, anchor, focus, origin)
+
+        const caretRange = createRangeFromOffsets(editor, focus, focus)
+        let caretRect = caretRange.getClientRects()[0] || caretRange.getBoundingClientRect()
+        // Collapsed ranges in empty blocks have no box; fall back to the block itself
+        if (!caretRect || caretRect.height === 0) {
+          const container = caretRange.startContainer
+          const element = container.nodeType === Node.ELEMENT_NODE ? container as Element : container.parentElement
+          if (!element) continue
+          caretRect = element.getBoundingClientRect()
+        }
+
+        next.push({
+          userId: cursor.userId,
+          displayName: cursor.displayName,
+          color: getUserColor(cursor.userId),
+          caret: { ...toOverlayRect(caretRect, origin), width: 2 },
+          highlights
+        })
+      } catch (e) {
+        // The editor may be mid-update; the next render will catch up
+      }
+    }
+
+    setShapes(next)
+  }, [editorRef, crdtRef, cursors, content, layoutVersion])
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none overflow-hidden print:hidden">
+      {shapes.map((shape) => (
+        <div key={shape.userId}>
+          {shape.highlights.map((rect, index) => (
+            <div
+              key={index}
+              className="absolute"
+              style={{ ...rect, backgroundColor: shape.color, opacity: 0.2 }}
+            />
+          ))}
+          <div
+            className="absolute"
+            style={{ ...shape.caret, backgroundColor: shape.color }}
+          >
+            <span
+              className="absolute -top-4 left-0 px-1 text-[10px] leading-4 text-white rounded-sm rounded-bl-none whitespace-nowrap"
+              style={{ backgroundColor: shape.color }}
+            >
+              {shape.displayName}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Textarea } from './ui/textarea'
+import { Lock, Check } from 'lucide-react'
+
+interface RequestAccessProps {
+  userEmail: string
+  requested: boolean
+  onRequest: (message: string) => void
+  onSwitchAccount: () => void
+}
+
+export default function RequestAccess({ userEmail, requested, onRequest, onSwitchAccount }: RequestAccessProps) {
+  const [message, setMessage] = useState('')
+
+  return (
+    <div className="h-screen bg-[#f9fbfd] flex items-center justify-center w-full">
+      <div className="bg-white border border-gray-200 rounded-lg p-8 w-full max-w-md text-center">
+        <div className="w-16 h-16 bg-[#e8f0fe] rounded-full flex items-center justify-center mx-auto mb-4">
+          <Lock className="w-7 h-7 text-[#1a73e8]" />
+        </div>
+        <h2 className="text-2xl font-normal text-gray-900 mb-2">You need access</h2>
+        <p className="text-gray-600 mb-6">
+          Ask the owner for access, or switch to an account that has it.
+        </p>
+
+        {requested ? (
+          <div className="flex items-center justify-center space-x-2 text-green-700 mb-6">
+            <Check className="w-4 h-4" />
+            <span className="text-sm">Request sent. You'll be able to open the document once it's approved.</span>
+          </div>
+        ) : (
+          <div className="space-y-3 mb-6 text-left">
+            <Textarea
+              placeholder="Message (optional)"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              className="text-sm"
+            />
+            <Button onClick={() => onRequest(message.trim())} className="w-full bg-[#1a73e8] hover:bg-[#1557b0]">
+              Request access
+            </Button>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-500">
+          You're signed in as <span className="font-medium text-gray-700">{userEmail}</span>.{' '}
+          <button onClick={onSwitchAccount} className="text-[#1a73e8] hover:underline">
+            Switch account
+          </button>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Command, CommandEmpty, CommandItem, CommandList } from './ui/command'
+import {
+  Calendar,
+  CheckSquare,
+  Code,
+  Heading1,
+  Heading2,
+  Heading3,
+  Heading4,
+  Heading5,
+  Heading6,
+  Image,
+  Link,
+  List,
+  ListOrdered,
+  Minus,
+  Pilcrow,
+  Quote,
+  SeparatorHorizontal,
+  Table
+} from 'lucide-react'
+
+interface SlashCommandMenuProps {
+  // Text typed after the slash
+  query: string
+  top: number
+  left: number
+  onSelect: (command: string, value?: string) => void
+  onClose: () => void
+}
+
+interface SlashCommand {
+  label: string
+  description: string
+  icon: React.ComponentType<{ className?: string }>
+  keywords: string[]
+  command: string
+  value?: string
+}
+
+// Every entry runs through the editor's menu commands, like the menu bar
+const SLASH_COMMANDS: SlashCommand[] = [
+  { label: 'Text', description: 'Plain paragraph', icon: Pilcrow, keywords: ['paragraph', 'normal'], command: 'formatBlock', value: 'p' },
+  { label: 'Heading 1', description: 'Large section heading', icon: Heading1, keywords: ['h1', 'title'], command: 'formatBlock', value: 'h1' },
+  { label: 'Heading 2', description: 'Medium section heading', icon: Heading2, keywords: ['h2', 'subtitle'], command: 'formatBlock', value: 'h2' },
+  { label: 'Heading 3', description: 'Small section heading', icon: Heading3, keywords: ['h3'], command: 'formatBlock', value: 'h3' },
+  { label: 'Heading 4', description: 'Subsection heading', icon: Heading4, keywords: ['h4'], command: 'formatBlock', value: 'h4' },
+  { label: 'Heading 5', description: 'Subsection heading', icon: Heading5, keywords: ['h5'], command: 'formatBlock', value: 'h5' },
+  { label: 'Heading 6', description: 'Subsection heading', icon: Heading6, keywords: ['h6'], command: 'formatBlock', value: 'h6' },
+  { label: 'Bulleted list', description: 'List with bullets', icon: List, keywords: ['unordered', 'ul', 'bullet'], command: 'insertUnorderedList' },
+  { label: 'Numbered list', description: 'List with numbers', icon: ListOrdered, keywords: ['ordered', 'ol'], command: 'insertOrderedList' },
+  { label: 'Checklist', description: 'List with checkboxes', icon: CheckSquare, keywords: ['todo', 'task', 'checkbox'], command: 'insertChecklist' },
+  { label: 'Table', description: 'Three by three grid', icon: Table, keywords: ['grid', 'rows', 'columns'], command: 'insertTable' },
+  { label: 'Image', description: 'Upload a picture', icon: Image, keywords: ['picture', 'photo', 'img'], command: 'insertImage' },
+  { label: 'Link', description: 'Web page, heading or document', icon: Link, keywords: ['url', 'href', 'bookmark'], command: 'insertLink' },
+  { label: 'Quote', description: 'Indented quotation', icon: Quote, keywords: ['blockquote', 'citation'], command: 'formatBlock', value: 'blockquote' },
+  { label: 'Code block', description: 'Monospaced code', icon: Code, keywords: ['pre', 'snippet', 'monospace'], command: 'formatBlock', value: 'pre' },
+  { label: 'Divider', description: 'Horizontal line', icon: Minus, keywords: ['rule', 'hr', 'line', 'separator'], command: 'insertHorizontalRule' },
+  { label: 'Page break', description: 'Start a new page', icon: SeparatorHorizontal, keywords: ['page', 'break'], command: 'insertPageBreak' },
+  { label: 'Date', description: "Today's date", icon: Calendar, keywords: ['today', 'time'], command: 'insertDate' }
+]
+
+const matches = (item: SlashCommand, query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  const haystack = [item.label, ...item.keywords].join(' ').toLowerCase()
+  return words.every(word => haystack.includes(word))
+}
+
+export default function SlashCommandMenu({ query, top, left, onSelect, onClose }: SlashCommandMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+  const visible = SLASH_COMMANDS.filter(item => matches(item, query))
+  // The highlight goes back to the first entry whenever the query changes
+  const [selected, setSelected] = useState({ query, label: '' })
+  const current = (selected.query === query && visible.find(item => item.label === selected.label)) || visible[0]
+  const select = (label: string) => setSelected({ query, label })
+
+  useEffect(() => {
+    menuRef.current?.querySelector('[data-selected="true"]')?.scrollIntoView({ block: 'nearest' })
+  }, [current?.label])
+
+  // A space after a query that matches nothing means the slash was just text
+  const abandoned = visible.length === 0 && /\s$/.test(query)
+  useEffect(() => {
+    if (abandoned) onClose()
+  }, [abandoned, onClose])
+
+  // The caret stays in the document, so the menu's keys are taken before the editor sees them
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose()
+      } else if ((event.key === 'ArrowDown' || event.key === 'ArrowUp') && visible.length > 0) {
+        const index = current ? visible.indexOf(current) : -1
+        const step = event.key === 'ArrowDown' ? 1 : -1
+        select(visible[(index + step + visible.length) % visible.length].label)
+      } else if ((event.key === 'Enter' || event.key === 'Tab') && current) {
+        onSelect(current.command, current.value)
+      } else {
+        return
+      }
+      event.preventDefault()
+      event.stopPropagation()
+    }
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    window.addEventListener('mousedown', handleMouseDown, true)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true)
+      window.removeEventListener('mousedown', handleMouseDown, true)
+    }
+  })
+
+  // Clicking an entry must not take focus, and the caret, out of the document
+  return (
+    <div
+      ref={menuRef}
+      style={{ top, left }}
+      className="fixed z-50 w-72 rounded-md border border-gray-200 bg-white shadow-lg print:hidden"
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <Command shouldFilter={false} value={current?.label ?? ''} onValueChange={select}>
+        <CommandList>
+          <CommandEmpty>No matching blocks</CommandEmpty>
+          {visible.map(item => (
+            <CommandItem
+              key={item.label}
+              value={item.label}
+              onSelect={() => onSelect(item.command, item.value)}
+              className="cursor-pointer"
+            >
+              <item.icon className="text-gray-500" />
+              <div className="flex flex-col">
+                <span>{item.label}</span>
+                <span className="text-xs text-gray-500">{item.description}</span>
+              </div>
+            </CommandItem>
+          ))}
+        </CommandList>
+      </Command>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { Button } from './ui/button'
+import { ScrollArea } from './ui/scroll-area'
+import { Check, X, CheckCheck, PenLine } from 'lucide-react'
+import type { SuggestionKind, SuggestionSpan } from '../lib/suggestions'
+import { getUserColor } from '../lib/presence'
+
+export interface Suggestion {
+  id: string
+  documentId: string
+  userId: string
+  kind: SuggestionKind
+  status: 'open' | 'accepted' | 'rejected'
+  createdAt: string
+  resolvedBy?: string | null
+  resolvedAt?: string | null
+  user?: {
+    email: string
+  }
+}
+
+interface SuggestionsPanelProps {
+  spans: SuggestionSpan[]
+  suggestions: Suggestion[]
+  canResolve: boolean
+  onResolve: (suggestionId: string, accept: boolean) => void
+  onResolveAll: (accept: boolean) => void
+}
+
+export default function SuggestionsPanel({ spans, suggestions, canResolve, onResolve, onResolveAll }: SuggestionsPanelProps) {
+  return (
+    <div className="border-b border-gray-200 flex flex-col max-h-[45%]">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="font-medium text-gray-900 flex items-center">
+          <PenLine className="w-4 h-4 mr-2" />
+          Suggestions ({spans.length})
+        </h3>
+        {canResolve && (
+          <div className="flex items-center space-x-1">
+            <Button variant="ghost" size="sm" onClick={() => onResolveAll(true)} className="h-7 px-2 text-xs text-green-700">
+              <CheckCheck className="w-3 h-3 mr-1" />
+              Accept all
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onResolveAll(false)} className="h-7 px-2 text-xs text-red-700">
+              <X className="w-3 h-3 mr-1" />
+              Reject all
+            </Button>
+          </div>
+        )}
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-3">
+          {spans.map((span) => {
+            const record = suggestions.find(s => s.id === span.id)
+            const author = record?.user?.email?.split('@')[0] || 'Someone'
+            return (
+              <div key={span.id} className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center space-x-2">
+                    <div
+                      className="w-5 h-5 rounded-full flex items-center justify-center text-white text-[10px]"
+                      style={{ backgroundColor: getUserColor(record?.userId || span.id) }}
+                    >
+                      {author[0]?.toUpperCase()}
+                    </div>
+                    <span className="text-sm font-medium">{author}</span>
+                  </div>
+                  {record && (
+                    <span className="text-xs text-gray-500">{new Date(record.createdAt).toLocaleString()}</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-700">
+                  <span className="font-medium">{span.kind === 'insert' ? 'Add: ' : 'Delete: '}</span>
+                  <span className={span.kind === 'insert' ? 'text-green-700' : 'text-red-700 line-through'}>
+                    "{span.text}"
+                  </span>
+                </p>
+                {canResolve && (
+                  <div className="mt-2 flex justify-end space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => onResolve(span.id, true)} className="h-6 text-xs">
+                      <Check className="w-3 h-3 mr-1" />
+                      Accept
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => onResolve(span.id, false)} className="h-6 text-xs">
+                      <X className="w-3 h-3 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
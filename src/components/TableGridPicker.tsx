@@ -0,0 +1,43 @@
+import { useState } from 'react'
+
+interface TableGridPickerProps {
+  onSelect: (rows: number, columns: number) => void
+}
+
+const MAX_ROWS = 8
+const MAX_COLUMNS = 10
+
+// Hover over the grid to pick a table size, click to insert it
+export default function TableGridPicker({ onSelect }: TableGridPickerProps) {
+  const [size, setSize] = useState({ rows: 1, columns: 1 })
+
+  return (
+    <div className="p-2" onMouseLeave={() => setSize({ rows: 1, columns: 1 })}>
+      <div
+        className="grid gap-0.5"
+        style={{ gridTemplateColumns: `repeat(${MAX_COLUMNS}, 1rem)` }}
+        role="grid"
+        aria-label="Table size"
+      >
+        {Array.from({ length: MAX_ROWS * MAX_COLUMNS }, (_, index) => {
+          const rows = Math.floor(index / MAX_COLUMNS) + 1
+          const columns = (index % MAX_COLUMNS) + 1
+          const active = rows <= size.rows && columns <= size.columns
+          return (
+            <button
+              key={index}
+              type="button"
+              aria-label={`${rows} × ${columns}`}
+              className={`h-4 w-4 border ${active ? 'border-[#1a73e8] bg-[#e8f0fe]' : 'border-gray-300 bg-white'}`}
+              onMouseEnter={() => setSize({ rows, columns })}
+              onFocus={() => setSize({ rows, columns })}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(rows, columns)}
+            />
+          )
+        })}
+      </div>
+      <div className="mt-2 text-center text-xs text-gray-600">{size.rows} × {size.columns}</div>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+import React, { useLayoutEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Separator } from './ui/separator'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import {
+  ArrowDownAZ,
+  ArrowDownZA,
+  BetweenHorizontalEnd,
+  BetweenHorizontalStart,
+  BetweenVerticalEnd,
+  BetweenVerticalStart,
+  Columns2,
+  PaintBucket,
+  PanelTop,
+  Rows2,
+  Square,
+  TableCellsMerge,
+  TableCellsSplit,
+  Trash2
+} from 'lucide-react'
+import type { CellStyle, TableAction } from '../lib/table-editing'
+
+interface TableToolbarProps {
+  table: HTMLTableElement
+  // Re-measured whenever the document changes
+  content: string
+  canMerge: boolean
+  canSplit: boolean
+  headerRow: boolean
+  colors: string[]
+  onAction: (action: TableAction) => void
+  onStyle: (style: CellStyle) => void
+  onSort: (descending: boolean) => void
+}
+
+const BORDER_WIDTHS = [0, 1, 2, 3]
+
+// Floats above the table holding the caret, inside the page
+export default function TableToolbar({ table, content, canMerge, canSplit, headerRow, colors, onAction, onStyle, onSort }: TableToolbarProps) {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [position, setPosition] = useState({ top: 0, left: 0 })
+
+  useLayoutEffect(() => {
+    const overlay = overlayRef.current
+    if (!overlay) return
+    const origin = overlay.getBoundingClientRect()
+    const rect = table.getBoundingClientRect()
+    setPosition({ top: rect.top - origin.top - 40, left: rect.left - origin.left })
+  }, [table, content])
+
+  const action = (label: string, icon: React.ComponentType<{ className?: string }>, name: TableAction, disabled = false) => {
+    const Icon = icon
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        title={label}
+        aria-label={label}
+        disabled={disabled}
+        onClick={() => onAction(name)}
+        className={`h-8 w-8 p-0 hover:bg-gray-100 ${name === 'toggleHeaderRow' && headerRow ? 'bg-[#e8f0fe] text-[#1a73e8]' : ''}`}
+      >
+        <Icon className="w-4 h-4" />
+      </Button>
+    )
+  }
+
+  // Keeping focus in the document keeps the selected cells selected
+  return (
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none print:hidden">
+      <div
+        className="absolute z-20 flex items-center gap-0.5 rounded-md border border-gray-200 bg-white px-1 py-0.5 shadow-md pointer-events-auto"
+        style={{ top: Math.max(0, position.top), left: position.left }}
+        onMouseDown={(e) => e.preventDefault()}
+      >
+        {action('Insert row above', BetweenHorizontalStart, 'insertRowAbove')}
+        {action('Insert row below', BetweenHorizontalEnd, 'insertRowBelow')}
+        {action('Insert column left', BetweenVerticalStart, 'insertColumnLeft')}
+        {action('Insert column right', BetweenVerticalEnd, 'insertColumnRight')}
+        <Separator orientation="vertical" className="h-6 mx-1" />
+        {action('Delete row', Rows2, 'deleteRow')}
+        {action('Delete column', Columns2, 'deleteColumn')}
+        {action('Delete table', Trash2, 'deleteTable')}
+        <Separator orientation="vertical" className="h-6 mx-1" />
+        {action('Merge cells', TableCellsMerge, 'mergeCells', !canMerge)}
+        {action('Unmerge cells', TableCellsSplit, 'splitCell', !canSplit)}
+        {action('Header row', PanelTop, 'toggleHeaderRow')}
+        <Separator orientation="vertical" className="h-6 mx-1" />
+        <Button variant="ghost" size="sm" title="Sort column A to Z" aria-label="Sort column A to Z" onClick={() => onSort(false)} className="h-8 w-8 p-0 hover:bg-gray-100">
+          <ArrowDownAZ className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" title="Sort column Z to A" aria-label="Sort column Z to A" onClick={() => onSort(true)} className="h-8 w-8 p-0 hover:bg-gray-100">
+          <ArrowDownZA className="w-4 h-4" />
+        </Button>
+        <Separator orientation="vertical" className="h-6 mx-1" />
+
+        {/* Cell background */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" title="Cell background" aria-label="Cell background" className="h-8 w-8 p-0 hover:bg-gray-100">
+              <PaintBucket className="w-4 h-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-48" onOpenAutoFocus={(e) => e.preventDefault()}>
+            <div className="grid grid-cols-7 gap-1">
+              {colors.map((color) => (
+                <button
+                  key={color}
+                  className="w-6 h-6 rounded border border-gray-300 hover:scale-110 transition-transform"
+                  style={{ backgroundColor: color }}
+                  onClick={() => onStyle({ background: color })}
+                />
+              ))}
+            </div>
+            <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => onStyle({ background: null })}>
+              None
+            </Button>
+          </PopoverContent>
+        </Popover>
+
+        {/* Cell border */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" title="Cell border" aria-label="Cell border" className="h-8 w-8 p-0 hover:bg-gray-100">
+              <Square className="w-4 h-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-48" onOpenAutoFocus={(e) => e.preventDefault()}>
+            <div className="text-xs text-gray-600 mb-1">Border width</div>
+            <div className="flex gap-1 mb-2">
+              {BORDER_WIDTHS.map((width) => (
+                <Button key={width} variant="outline" size="sm" className="h-7 flex-1 px-0" onClick={() => onStyle({ borderWidth: width })}>
+                  {width}px
+                </Button>
+              ))}
+            </div>
+            <div className="text-xs text-gray-600 mb-1">Border color</div>
+            <div className="grid grid-cols-7 gap-1">
+              {colors.map((color) => (
+                <button
+                  key={color}
+                  className="w-6 h-6 rounded border border-gray-300 hover:scale-110 transition-transform"
+                  style={{ backgroundColor: color }}
+                  onClick={() => onStyle({ borderColor: color })}
+                />
+              ))}
+            </div>
+            <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => onStyle({ borderColor: null, borderWidth: null })}>
+              Reset border
+            </Button>
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  )
+}
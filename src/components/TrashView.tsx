@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
+import { FileText, RotateCcw, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  TRASH_RETENTION_DAYS,
+  daysUntilPurge,
+  deleteForever,
+  listTrash,
+  restoreFromTrash,
+  type TrashedDocument
+} from '../lib/trash'
+
+interface TrashViewProps {
+  userId: string
+  query: string
+  onOpenDocument: (documentId: string) => void
+}
+
+export default function TrashView({ userId, query, onOpenDocument }: TrashViewProps) {
+  const [documents, setDocuments] = useState<TrashedDocument[] | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<TrashedDocument | null>(null)
+
+  useEffect(() => {
+    listTrash(userId)
+      .then(setDocuments)
+      .catch((error) => {
+        console.error('Failed to load trash:', error)
+        setDocuments([])
+      })
+  }, [userId])
+
+  const restore = async (doc: TrashedDocument) => {
+    try {
+      await restoreFromTrash(doc.id)
+      setDocuments(prev => prev?.filter(d => d.id !== doc.id) || null)
+      toast.success(`"${doc.title}" restored`)
+    } catch (error) {
+      console.error('Failed to restore document:', error)
+      toast.error('Could not restore this document')
+    }
+  }
+
+  const confirmDelete = async () => {
+    const doc = pendingDelete
+    setPendingDelete(null)
+    if (!doc) return
+    try {
+      await deleteForever(doc.id)
+      setDocuments(prev => prev?.filter(d => d.id !== doc.id) || null)
+      toast.success(`"${doc.title}" deleted forever`)
+    } catch (error) {
+      console.error('Failed to delete document:', error)
+      toast.error('Could not delete this document')
+    }
+  }
+
+  const visible = (documents || []).filter(doc => (doc.title || '').toLowerCase().includes(query.trim().toLowerCase()))
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl text-gray-800 flex items-center">
+          <Trash2 className="w-5 h-5 mr-2" />
+          Trash
+        </h2>
+        <p className="text-sm text-gray-500">
+          Items in the trash are deleted forever after {TRASH_RETENTION_DAYS} days
+        </p>
+      </div>
+
+      {!documents && <p className="text-sm text-gray-500">Loading trash…</p>}
+      {documents && visible.length === 0 && (
+        <p className="text-sm text-gray-500 py-4">Trash is empty</p>
+      )}
+      {visible.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {visible.map((doc) => (
+            <div key={doc.id} className="flex items-center px-4 py-3 text-sm">
+              <button onClick={() => onOpenDocument(doc.id)} className="flex items-center flex-1 min-w-0 text-left">
+                <FileText className="w-4 h-4 mr-3 text-gray-500 flex-shrink-0" />
+                <span className="truncate text-gray-900">{doc.title || 'Untitled document'}</span>
+              </button>
+              <span className="w-40 text-gray-600">{doc.userId === userId ? 'me' : 'Shared with me'}</span>
+              <span className="w-48 text-gray-600">
+                Trashed {new Date(doc.trashedAt).toLocaleDateString()} · {daysUntilPurge(doc.trashedAt)} days left
+              </span>
+              <div className="flex items-center space-x-1">
+                <Button variant="ghost" size="sm" onClick={() => restore(doc)} className="h-8 px-2" title="Restore">
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+                {doc.userId === userId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPendingDelete(doc)}
+                    className="h-8 px-2 text-red-600 hover:text-red-700"
+                    title="Delete forever"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and its comments and version history will be deleted forever. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
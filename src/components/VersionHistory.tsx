@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ArrowLeft, Copy, History, Pencil, RotateCcw, Save } from 'lucide-react'
+import { diffDocuments, type DiffSpan } from '../lib/text-diff'
+import { getUserColor } from '../lib/presence'
+
+export interface DocumentVersion {
+  id: string
+  documentId: string
+  userId: string
+  title: string
+  content: string
+  name?: string | null
+  createdAt: string
+  user?: {
+    email: string
+  }
+}
+
+interface VersionHistoryProps {
+  versions: DocumentVersion[]
+  currentTitle: string
+  currentContent: string
+  canRestore: boolean
+  onClose: () => void
+  onCreate: (name: string) => void
+  onRename: (versionId: string, name: string) => void
+  onRestore: (version: DocumentVersion) => void
+  onCopy: (version: DocumentVersion) => void
+}
+
+// Sentinel ids for the live document and "whatever came before"
+const CURRENT = 'current'
+const PREVIOUS = 'previous'
+
+const authorName = (version: DocumentVersion) => version.user?.email?.split('@')[0] || 'Someone'
+
+const spanClassName = (span: DiffSpan) => {
+  if (span.type === 'insert') return 'bg-green-100 text-green-800 underline decoration-green-600'
+  if (span.type === 'delete') return 'bg-red-100 text-red-700 line-through'
+  return ''
+}
+
+export default function VersionHistory({
+  versions,
+  currentTitle,
+  currentContent,
+  canRestore,
+  onClose,
+  onCreate,
+  onRename,
+  onRestore,
+  onCopy
+}: VersionHistoryProps) {
+  // Newest first, like the list shows them
+  const sorted = useMemo(
+    () => [...versions].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+    [versions]
+  )
+  const [selectedId, setSelectedId] = useState<string | null>(sorted[0]?.id ?? null)
+  const [compareId, setCompareId] = useState(PREVIOUS)
+  const [newName, setNewName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameDraft, setRenameDraft] = useState('')
+
+  useEffect(() => {
+    if (!selectedId && sorted.length > 0) setSelectedId(sorted[0].id)
+  }, [sorted, selectedId])
+
+  const selected = sorted.find(v => v.id === selectedId) || null
+  const selectedIndex = selected ? sorted.indexOf(selected) : -1
+
+  // Diff runs from the older side to the newer side
+  const diff = useMemo(() => {
+    if (!selected) return []
+    if (compareId === CURRENT) return diffDocuments(selected.content, currentContent)
+    if (compareId === PREVIOUS) return diffDocuments(sorted[selectedIndex + 1]?.content || '', selected.content)
+    const other = sorted.find(v => v.id === compareId)
+    if (!other) return []
+    return new Date(other.createdAt) < new Date(selected.createdAt)
+      ? diffDocuments(other.content, selected.content)
+      : diffDocuments(selected.content, other.content)
+  }, [selected, selectedIndex, compareId, sorted, currentContent])
+
+  const changeCount = diff.filter(line => line.type !== 'equal').length
+
+  const startRename = (version: DocumentVersion) => {
+    setRenamingId(version.id)
+    setRenameDraft(version.name || '')
+  }
+
+  const submitRename = () => {
+    if (renamingId) onRename(renamingId, renameDraft.trim())
+    setRenamingId(null)
+  }
+
+  const submitCreate = () => {
+    onCreate(newName.trim())
+    setNewName('')
+  }
+
+  const versionLabel = (version: DocumentVersion) => version.name || new Date(version.createdAt).toLocaleString()
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#f8f9fa] flex flex-col">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 px-6 py-3 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <History className="w-5 h-5 text-gray-600" />
+          <span className="text-lg text-gray-800">
+            {selected ? versionLabel(selected) : 'Version history'}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-600">Compare with</span>
+          <Select value={compareId} onValueChange={setCompareId}>
+            <SelectTrigger className="w-56 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={PREVIOUS}>Previous version</SelectItem>
+              <SelectItem value={CURRENT}>Current document</SelectItem>
+              {sorted.filter(v => v.id !== selectedId).map(version => (
+                <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </header>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Diff of the selected version */}
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-4xl mx-auto py-8 px-4">
+            {selected ? (
+              <div className="bg-white document-shadow p-16 min-h-[600px]">
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-2xl text-gray-900">{selected.title}</h2>
+                  <Badge variant="secondary">
+                    {changeCount === 0 ? 'No text changes' : `${changeCount} changed ${changeCount === 1 ? 'line' : 'lines'}`}
+                  </Badge>
+                </div>
+                <div className="text-[11pt] leading-relaxed text-gray-900">
+                  {diff.map((line, index) => (
+                    <p key={index} className={`min-h-[1.5em] mb-2 ${line.type === 'insert' ? 'border-l-2 border-green-500 pl-2' : line.type === 'delete' ? 'border-l-2 border-red-500 pl-2' : ''}`}>
+                      {line.spans.map((span, spanIndex) => (
+                        <span key={spanIndex} className={spanClassName(span)}>{span.text}</span>
+                      ))}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-24">No saved versions yet</p>
+            )}
+          </div>
+        </div>
+
+        {/* Version list */}
+        <div className="w-80 bg-white border-l border-gray-200 flex flex-col">
+          <div className="p-4 border-b border-gray-200 space-y-2">
+            <h3 className="font-medium text-gray-900">Version history</h3>
+            <div className="flex space-x-2">
+              <Input
+                placeholder="Name current version"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && submitCreate()}
+                className="h-8 text-sm"
+              />
+              <Button size="sm" onClick={submitCreate} className="h-8 bg-[#1a73e8] hover:bg-[#1557b0]">
+                <Save className="w-3 h-3 mr-1" />
+                Save
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">Current: {currentTitle}</p>
+          </div>
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-1">
+              {sorted.map((version) => (
+                <div
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`rounded-md p-3 cursor-pointer ${version.id === selectedId ? 'bg-[#e8f0fe]' : 'hover:bg-gray-50'}`}
+                >
+                  {renamingId === version.id ? (
+                    <Input
+                      autoFocus
+                      value={renameDraft}
+                      onChange={(e) => setRenameDraft(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && submitRename()}
+                      onBlur={submitRename}
+                      onClick={(e) => e.stopPropagation()}
+                      className="h-7 text-sm mb-1"
+                    />
+                  ) : (
+                    <div className="text-sm font-medium text-gray-900">{versionLabel(version)}</div>
+                  )}
+                  {version.name && (
+                    <div className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</div>
+                  )}
+                  <div className="flex items-center space-x-2 mt-1">
+                    <div className="w-2 h-2 rounded-full" style={{ backgroundColor: getUserColor(version.userId) }} />
+                    <span className="text-xs text-gray-600">{authorName(version)}</span>
+                  </div>
+
+                  {version.id === selectedId && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      <Button size="sm" variant="outline" onClick={(e) => { e.stopPropagation(); startRename(version) }} className="h-6 text-xs">
+                        <Pencil className="w-3 h-3 mr-1" />
+                        Name
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={(e) => { e.stopPropagation(); onCopy(version) }} className="h-6 text-xs">
+                        <Copy className="w-3 h-3 mr-1" />
+                        Copy
+                      </Button>
+                      {canRestore && (
+                        <Button size="sm" variant="outline" onClick={(e) => { e.stopPropagation(); onRestore(version) }} className="h-6 text-xs">
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      </div>
+    </div>
+  )
+}
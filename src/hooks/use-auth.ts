@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react'
+import { blink } from '../blink/client'
+
+export function useAuth() {
+  const [user, setUser] = useState<any>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+      setUser(state.user)
+      setIsLoading(state.isLoading)
+    })
+    return unsubscribe
+  }, [])
+
+  return { user, isLoading }
+}
@@ -0,0 +1,14 @@
+import { useEffect, useRef } from 'react'
+import { commandRegistry, type PaletteCommand } from '../lib/command-registry'
+
+// Keeps a component's palette commands registered while it is mounted. The
+// palette reads them when it renders, so they reflect the latest state.
+export function useRegisterCommands(source: string, commands: PaletteCommand[]) {
+  const latest = useRef(commands)
+
+  useEffect(() => {
+    latest.current = commands
+  })
+
+  useEffect(() => commandRegistry.register(source, () => latest.current), [source])
+}
@@ -0,0 +1,221 @@
+import { normalizeLink } from './links'
+import { getSelectionOffsets, setSelectionOffsets } from './text-offsets'
+
+// Markdown-style shortcuts typed straight into the editor: "# " starts a
+// heading, "- " a list, **text** turns bold, a typed URL becomes a link and
+// so on. Each conversion goes through the browser's editing commands, so it
+// is one step in the native undo history: Ctrl+Z right after puts the typed
+// characters back, and redo applies it again.
+
+// The HTML a block becomes, which part of the document it replaces and
+// where in the result the caret goes
+interface BlockConversion {
+  html: string
+  replace: Range
+  caret: string
+}
+
+type BlockShortcut = (block: HTMLElement, rest: DocumentFragment) => BlockConversion
+
+// The element whose content the caret lands in afterwards
+const fillEmpty = (element: HTMLElement) => {
+  if (!element.textContent && !element.querySelector('br, img')) element.appendChild(document.createElement('br'))
+  return element
+}
+
+const withContent = (element: HTMLElement, content: DocumentFragment) => {
+  element.appendChild(content)
+  return fillEmpty(element)
+}
+
+const wholeNodes = (first: Node, last: Node = first) => {
+  const range = document.createRange()
+  range.setStartBefore(first)
+  range.setEndAfter(last)
+  return range
+}
+
+const toList = (tag: 'ul' | 'ol', start?: number): BlockShortcut => (block, rest) => {
+  const item = withContent(document.createElement('li'), rest)
+  // A bullet typed under a bulleted list continues it
+  const previous = block.previousElementSibling
+  if (previous?.tagName.toLowerCase() === tag && start === undefined) {
+    const list = previous.cloneNode(true) as HTMLElement
+    list.appendChild(item)
+    return { html: list.outerHTML, replace: wholeNodes(previous, block), caret: 'li' }
+  }
+  const list = document.createElement(tag)
+  if (start !== undefined && start !== 1) list.setAttribute('start', String(start))
+  list.appendChild(item)
+  return { html: list.outerHTML, replace: wholeNodes(block), caret: 'li' }
+}
+
+const BLOCK_SHORTCUTS: [RegExp, (marker: RegExpExecArray) => BlockShortcut][] = [
+  [/^(#{1,6})\s$/, marker => (block, rest) => {
+    const tag = `h${marker[1].length}`
+    return { html: withContent(document.createElement(tag), rest).outerHTML, replace: wholeNodes(block), caret: tag }
+  }],
+  [/^[*-]\s$/, () => toList('ul')],
+  [/^(\d{1,9})\.\s$/, marker => toList('ol', Number(marker[1]))],
+  [/^>\s$/, () => (block, rest) => {
+    const quote = document.createElement('blockquote')
+    quote.appendChild(withContent(block.cloneNode(false) as HTMLElement, rest))
+    return { html: quote.outerHTML, replace: wholeNodes(block), caret: 'blockquote > *' }
+  }]
+]
+
+const INLINE_SHORTCUTS: Record<string, [RegExp, string]> = {
+  '*': [/(?:^|[^*])(\*\*([^*\s](?:[^*]*[^*\s])?)\*\*)$/, 'strong'],
+  '`': [/(?:^|[^`])(`([^`]+)`)$/, 'code']
+}
+
+// A URL just before the caret, as the GitHub autolink extension finds them
+const TYPED_URL = /(?:^|[\s(])((?:https?:\/\/|www\.)[^\s<]+)$/i
+
+// Trailing punctuation ends a sentence, not the URL; so does a ")" that closes nothing
+const trimUrl = (url: string) => {
+  for (;;) {
+    const trimmed = url.replace(/[?!.,:;*_~'"]+$/, '')
+    const balanced = trimmed.endsWith(')') && (trimmed.match(/\)/g) || []).length > (trimmed.match(/\(/g) || []).length
+      ? trimmed.slice(0, -1)
+      : trimmed
+    if (balanced === url) return url
+    url = balanced
+  }
+}
+
+// The URL that ends at the given point of a text node, and what to link it to
+const typedUrl = (text: Text, end: number) => {
+  if (text.parentElement?.closest('a, pre, code')) return null
+  const match = TYPED_URL.exec(text.data.slice(0, end))
+  if (!match) return null
+  const url = trimUrl(match[1])
+  const href = normalizeLink(url)
+  if (!href || /^(https?:\/\/|www\.)$/i.test(url)) return null
+  const start = match.index + match[0].length - match[1].length
+  const range = document.createRange()
+  range.setStart(text, start)
+  range.setEnd(text, start + url.length)
+  return { range, href }
+}
+
+// The paragraph the caret is in, when it sits directly in the editor
+const paragraphAt = (editor: HTMLElement, node: Node) => {
+  let current: Node | null = node
+  while (current && current.parentNode !== editor) {
+    if (current instanceof HTMLElement && /^(LI|PRE|TD|TH|H[1-6])$/.test(current.tagName)) return null
+    current = current.parentNode
+  }
+  if (!(current instanceof HTMLElement) || !/^(P|DIV)$/.test(current.tagName)) return null
+  return current
+}
+
+const select = (range: Range) => {
+  const selection = window.getSelection()
+  selection?.removeAllRanges()
+  selection?.addRange(range)
+}
+
+const placeCaret = (node: Node, after = false) => {
+  const range = document.createRange()
+  if (after) range.setStartAfter(node)
+  else range.setStart(node, 0)
+  range.collapse(true)
+  select(range)
+}
+
+// The browser leaves the caret at the end of what it inserted
+const insertedElement = (selector: string) => {
+  const node = window.getSelection()?.anchorNode
+  return (node instanceof Element ? node : node?.parentElement)?.closest<HTMLElement>(selector) || null
+}
+
+// Replaces the range through the browser's editing commands, so the
+// conversion is a single step in its undo history
+const replaceRange = (range: Range, html: string) => {
+  select(range)
+  return document.execCommand('insertHTML', false, html)
+}
+
+const linkRange = (range: Range, href: string) => {
+  select(range)
+  return document.execCommand('createLink', false, href)
+}
+
+// Checks the text just typed for a shortcut and applies it
+export const autoformatInput = (editor: HTMLElement, typed: string | null) => {
+  const selection = window.getSelection()
+  if (!typed || !selection || !selection.isCollapsed || !selection.anchorNode) return false
+  const node = selection.anchorNode
+  const offset = selection.anchorOffset
+  const caret = getSelectionOffsets(editor)?.anchor
+  if (caret === undefined || !editor.contains(node) || node.parentElement?.closest('pre, code')) return false
+
+  if (/\s/.test(typed)) {
+    const block = paragraphAt(editor, node)
+    if (block) {
+      const range = document.createRange()
+      range.setStart(block, 0)
+      range.setEnd(node, offset)
+      const text = range.toString()
+      for (const [pattern, shortcut] of BLOCK_SHORTCUTS) {
+        const marker = pattern.exec(text)
+        if (!marker) continue
+        const rest = document.createRange()
+        rest.setStart(node, offset)
+        rest.setEnd(block, block.childNodes.length)
+        const conversion = shortcut(marker)(block, rest.cloneContents())
+        if (!replaceRange(conversion.replace, conversion.html)) return false
+        const target = insertedElement(conversion.caret)
+        if (target) placeCaret(target)
+        return true
+      }
+    }
+    // The space stays outside the link, and so does the caret
+    if (node.nodeType !== Node.TEXT_NODE || offset < typed.length) return false
+    const url = typedUrl(node as Text, offset - typed.length)
+    if (!url || !linkRange(url.range, url.href)) return false
+    setSelectionOffsets(editor, caret, caret)
+    return true
+  }
+
+  const inline = INLINE_SHORTCUTS[typed]
+  if (!inline || node.nodeType !== Node.TEXT_NODE) return false
+  const match = inline[0].exec((node as Text).data.slice(0, offset))
+  if (!match) return false
+  const range = document.createRange()
+  range.setStart(node, offset - match[1].length)
+  range.setEnd(node, offset)
+  const element = document.createElement(inline[1])
+  element.textContent = match[2]
+  if (!replaceRange(range, element.outerHTML)) return false
+  const inserted = insertedElement(inline[1])
+  if (inserted) placeCaret(inserted, true)
+  return true
+}
+
+// "---" on a line of its own becomes a horizontal rule when Enter is pressed
+export const autoformatEnter = (editor: HTMLElement) => {
+  const selection = window.getSelection()
+  if (!selection || !selection.isCollapsed || !selection.anchorNode) return false
+  const block = paragraphAt(editor, selection.anchorNode)
+  if (!block || block.textContent?.trim() !== '---') return false
+  return replaceRange(wholeNodes(block), '<hr><p><br></p>')
+}
+
+// A URL typed at the end of the line is linked before Enter splits it
+export const autolinkBeforeEnter = (editor: HTMLElement) => {
+  const selection = window.getSelection()
+  const node = selection?.anchorNode
+  if (!selection?.isCollapsed || !node || node.nodeType !== Node.TEXT_NODE || !editor.contains(node)) return false
+  const caret = getSelectionOffsets(editor)?.anchor
+  const url = typedUrl(node as Text, selection.anchorOffset)
+  if (caret === undefined || !url) return false
+  const atEnd = url.range.endOffset === selection.anchorOffset
+  if (!linkRange(url.range, url.href)) return false
+  // The caret goes back where it was, outside the link so the new line isn't part of it
+  setSelectionOffsets(editor, caret, caret)
+  const link = atEnd && insertedElement('a')
+  if (link) placeCaret(link, true)
+  return true
+}
@@ -0,0 +1,58 @@
+// One registry of everything that can be run from the command palette.
+// Screens register their commands while they are mounted and the palette
+// lists whatever is registered when it opens, so new features show up
+// there by registering rather than by editing the palette.
+
+export interface PaletteCommand {
+  id: string
+  label: string
+  // Palette section, e.g. "Format" or "Insert"
+  group: string
+  shortcut?: string
+  keywords?: string[]
+  disabled?: boolean
+  run: () => void
+}
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+// Prefix for shortcut hints, e.g. `${modKey}B`
+export const modKey = isMac ? '⌘' : 'Ctrl+'
+
+class CommandRegistry {
+  // Each source hands over a getter, so the palette always sees current state
+  private sources = new Map<string, () => PaletteCommand[]>()
+
+  // Call the result to remove the source's commands again
+  register = (source: string, commands: () => PaletteCommand[]) => {
+    this.sources.set(source, commands)
+    return () => {
+      if (this.sources.get(source) === commands) this.sources.delete(source)
+    }
+  }
+
+  getCommands = () => Array.from(this.sources.values()).flatMap(commands => commands())
+}
+
+export const commandRegistry = new CommandRegistry()
+
+const RECENTS_KEY = 'command-palette-recents'
+const MAX_RECENTS = 5
+
+export const recentCommandIds = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENTS_KEY) || '[]')
+    return Array.isArray(stored) ? stored.filter(id => typeof id === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+export const recordRecentCommand = (id: string) => {
+  const recents = [id, ...recentCommandIds().filter(recent => recent !== id)].slice(0, MAX_RECENTS)
+  try {
+    localStorage.setItem(RECENTS_KEY, JSON.stringify(recents))
+  } catch {
+    // Private browsing can refuse storage; recents are a convenience
+  }
+}
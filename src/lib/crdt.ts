@@ -0,0 +1,392 @@
+// Replicated sequence (RGA) used to merge concurrent edits to a document.
+//
+// The document is laid out as a flat sequence of items (see
+// document-sequence.ts): block starts, characters and embedded images or
+// line breaks. Every atom gets a globally unique id `${clock}@${site}` and
+// remembers the atom it was inserted after (its origin). Formatting and
+// block structure are attributes of atoms; each attribute keeps the stamp
+// of the change that last set it, and the newest stamp wins. Deleted atoms
+// stay in the sequence as tombstones so later operations can still refer
+// to them. Applying the same set of operations in any causal order yields
+// the same sequence on every replica.
+
+import { z } from 'zod'
+import { parseHtml, serializeHtml } from './document-html'
+import { inlineSchema } from './document-model'
+import {
+  BLOCK,
+  buildDocument,
+  flattenDocument,
+  itemKey,
+  itemTextLength,
+  type ItemAttributes,
+  type ItemValue,
+  type SequenceItem
+} from './document-sequence'
+import { diffSequences } from './text-diff'
+
+export type AtomId = string
+
+export type CrdtOperation =
+  | { type: 'insert'; id: AtomId; origin: AtomId | null; value: ItemValue; attributes: ItemAttributes }
+  | { type: 'format'; id: AtomId; stamp: AtomId; attributes: ItemAttributes }
+  | { type: 'delete'; id: AtomId }
+
+// Atoms in document order: id, origin, value, attributes, the stamps of
+// attributes set after the atom was inserted, and whether it is deleted
+export interface CrdtState {
+  clock: number
+  atoms: Array<[AtomId, AtomId | null, ItemValue, ItemAttributes, Record<string, AtomId>, 0 | 1]>
+}
+
+// States and operations arrive from other clients and the database, so they are checked before use.
+// Attribute values are checked against the document model when the page is built.
+const atomIdSchema = z.string().regex(/^\d+@[\w-]+$/)
+
+const itemValueSchema: z.ZodType<ItemValue> = z.union([
+  z.string().refine(value => Array.from(value).length === 1),
+  z.object({ type: z.literal('block') }).strict(),
+  inlineSchema
+])
+
+const attributesSchema = z.record(z.string(), z.unknown())
+
+export const crdtOperationSchema: z.ZodType<CrdtOperation> = z.union([
+  z.object({
+    type: z.literal('insert'),
+    id: atomIdSchema,
+    origin: atomIdSchema.nullable(),
+    value: itemValueSchema,
+    attributes: attributesSchema
+  }).strict(),
+  z.object({ type: z.literal('format'), id: atomIdSchema, stamp: atomIdSchema, attributes: attributesSchema }).strict(),
+  z.object({ type: z.literal('delete'), id: atomIdSchema }).strict()
+])
+
+export const crdtStateSchema: z.ZodType<CrdtState> = z.object({
+  clock: z.number().int().nonnegative(),
+  atoms: z.array(z.tuple([
+    atomIdSchema,
+    atomIdSchema.nullable(),
+    itemValueSchema,
+    attributesSchema,
+    z.record(z.string(), atomIdSchema),
+    z.union([z.literal(0), z.literal(1)])
+  ]))
+})
+
+interface Atom {
+  id: AtomId
+  origin: AtomId | null
+  value: ItemValue
+  attributes: ItemAttributes
+  // Stamp of each attribute set after the atom was inserted
+  stamps: Record<string, AtomId>
+  deleted: boolean
+  next: Atom | null
+}
+
+const SEED_SITE = 'seed'
+
+const parseId = (id: AtomId) => {
+  const separator = id.indexOf('@')
+  return { clock: Number(id.slice(0, separator)), site: id.slice(separator + 1) }
+}
+
+// Total order on ids: by clock, ties broken by site
+const compareIds = (a: AtomId, b: AtomId) => {
+  const left = parseId(a)
+  const right = parseId(b)
+  if (left.clock !== right.clock) return left.clock - right.clock
+  return left.site < right.site ? -1 : left.site > right.site ? 1 : 0
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  (a ?? null) === (b ?? null) || JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+// Attributes of `after` that differ from `before`, with removed ones cleared
+const changedAttributes = (before: ItemAttributes, after: ItemAttributes) => {
+  const changes: ItemAttributes = {}
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!sameValue(before[key], after[key])) changes[key] = after[key] ?? null
+  }
+  return changes
+}
+
+export class HtmlCrdt {
+  readonly site: string
+  private clock: number
+  // Sentinel before the first atom
+  private head: Atom = { id: '0@', origin: null, value: BLOCK, attributes: {}, stamps: {}, deleted: true, next: null }
+  private index = new Map<AtomId, Atom>()
+  // Tombstones dropped when the state was loaded, mapped to the atom left before them
+  private dropped = new Map<AtomId, AtomId | null>()
+  private pending: CrdtOperation[] = []
+
+  constructor(site: string, clock = 0) {
+    this.site = site
+    this.clock = clock
+  }
+
+  // Every replica seeded from the same HTML gets the same atom ids
+  static fromHtml(site: string, html: string) {
+    const crdt = new HtmlCrdt(site)
+    let origin: AtomId | null = null
+    flattenDocument(parseHtml(html)).forEach(({ value, attributes }, position) => {
+      const id = `${position + 1}@${SEED_SITE}`
+      crdt.integrate({ type: 'insert', id, origin, value, attributes })
+      origin = id
+    })
+    return crdt
+  }
+
+  // The state lists atoms in document order, so it is loaded as it stands.
+  // Its tombstones were deleted before this replica existed, and every
+  // replica still sending changes saw them go, so they are left out.
+  static fromState(site: string, state: CrdtState) {
+    const crdt = new HtmlCrdt(site, state.clock)
+    let last = crdt.head
+    for (const [id, origin, value, attributes, stamps, deleted] of state.atoms) {
+      if (crdt.index.has(id) || crdt.dropped.has(id)) continue
+      if (deleted) {
+        crdt.dropped.set(id, last === crdt.head ? null : last.id)
+        continue
+      }
+      const atom: Atom = { id, origin, value, attributes, stamps, deleted: false, next: null }
+      last.next = atom
+      last = atom
+      crdt.index.set(id, atom)
+    }
+    return crdt
+  }
+
+  toState(): CrdtState {
+    const atoms: CrdtState['atoms'] = []
+    for (let atom = this.head.next; atom; atom = atom.next) {
+      atoms.push([atom.id, atom.origin, atom.value, atom.attributes, atom.stamps, atom.deleted ? 1 : 0])
+    }
+    return { clock: this.clock, atoms }
+  }
+
+  toHtml() {
+    return serializeHtml(buildDocument(this.visibleAtoms()))
+  }
+
+  private visibleAtoms() {
+    const atoms: Atom[] = []
+    for (let atom = this.head.next; atom; atom = atom.next) {
+      if (!atom.deleted) atoms.push(atom)
+    }
+    return atoms
+  }
+
+  // Diff the new HTML against the current sequence and record the change.
+  // Atoms are matched on their content alone, so formatting text or
+  // changing a block's type only updates attributes.
+  applyLocalHtml(html: string): CrdtOperation[] {
+    const next = flattenDocument(parseHtml(html))
+    const visible = this.visibleAtoms()
+    const parts = diffSequences(visible.map(atom => itemKey(atom.value)), next.map(item => itemKey(item.value)))
+
+    const operations: CrdtOperation[] = []
+    const formats: Array<[Atom, ItemAttributes]> = []
+    let i = 0
+    let j = 0
+    let origin: AtomId | null = null
+
+    const insert = (item: SequenceItem) => {
+      this.clock += 1
+      const operation: CrdtOperation = { type: 'insert', id: `${this.clock}@${this.site}`, origin, value: item.value, attributes: item.attributes }
+      this.integrate(operation)
+      operations.push(operation)
+      origin = operation.id
+    }
+
+    for (const part of parts) {
+      for (let n = 0; n < part.items.length; n++) {
+        if (part.type === 'delete') {
+          const operation: CrdtOperation = { type: 'delete', id: visible[i++].id }
+          this.integrate(operation)
+          operations.push(operation)
+        } else if (part.type === 'insert') {
+          insert(next[j++])
+        } else {
+          const atom = visible[i++]
+          const changes = changedAttributes(atom.attributes, next[j++].attributes)
+          if (Object.keys(changes).length > 0) formats.push([atom, changes])
+          origin = atom.id
+        }
+      }
+    }
+
+    // One stamp for the whole change; it is newer than anything seen so far
+    if (formats.length > 0) {
+      this.clock += 1
+      const stamp = `${this.clock}@${this.site}`
+      for (const [atom, attributes] of formats) {
+        const operation: CrdtOperation = { type: 'format', id: atom.id, stamp, attributes }
+        this.integrate(operation)
+        operations.push(operation)
+      }
+    }
+
+    return operations
+  }
+
+  // Apply operations from another replica; returns true if the document changed
+  applyRemote(operations: CrdtOperation[]) {
+    let changed = false
+    const queue = [...this.pending, ...operations]
+    this.pending = []
+
+    let progressed = true
+    let remaining = queue
+    while (progressed && remaining.length > 0) {
+      progressed = false
+      const deferred: CrdtOperation[] = []
+      for (const operation of remaining) {
+        if (!this.isReady(operation)) {
+          deferred.push(operation)
+          continue
+        }
+        if (this.integrate(operation)) changed = true
+        progressed = true
+      }
+      remaining = deferred
+    }
+
+    this.pending = remaining
+    return changed
+  }
+
+  // Fold another replica's full state into this one
+  merge(state: CrdtState) {
+    const known = new Set(state.atoms.map(([id]) => id))
+    const operations: CrdtOperation[] = []
+    let previous: AtomId | null = null
+    for (const [id, origin, value, attributes, stamps, deleted] of state.atoms) {
+      // That replica may have dropped the origin as a tombstone; the atom before this one stands in for it
+      const resolved = origin === null || known.has(origin) || this.isKnown(origin) ? origin : previous
+      operations.push({ type: 'insert', id, origin: resolved, value, attributes })
+
+      // Attributes set later go back in with the stamps that set them
+      const byStamp = new Map<AtomId, ItemAttributes>()
+      for (const [key, stamp] of Object.entries(stamps)) {
+        byStamp.set(stamp, { ...byStamp.get(stamp), [key]: attributes[key] ?? null })
+      }
+      byStamp.forEach((changes, stamp) => operations.push({ type: 'format', id, stamp, attributes: changes }))
+
+      if (deleted) operations.push({ type: 'delete', id })
+      previous = id
+    }
+    return this.applyRemote(operations)
+  }
+
+  has(id: AtomId) {
+    return this.index.has(id)
+  }
+
+  // Stable anchor for a textContent offset: the id of the character just before it
+  anchorAt(textOffset: number): AtomId | null {
+    let count = 0
+    let anchor: AtomId | null = null
+    for (let atom = this.head.next; atom; atom = atom.next) {
+      const length = atom.deleted ? 0 : itemTextLength(atom.value)
+      if (length === 0) continue
+      if (count >= textOffset) break
+      count += length
+      anchor = atom.id
+    }
+    return anchor
+  }
+
+  // Current textContent range from the first to the last of two characters,
+  // or null once everything between them has been deleted
+  rangeBetween(first: AtomId, last: AtomId): { start: number; end: number } | null {
+    if (!this.index.has(first) || !this.index.has(last)) return null
+
+    let count = 0
+    let start: number | null = null
+    for (let atom = this.head.next; atom; atom = atom.next) {
+      if (atom.id === first) start = count
+      if (!atom.deleted) count += itemTextLength(atom.value)
+      if (atom.id === last) {
+        return start !== null && count > start ? { start, end: count } : null
+      }
+    }
+    return null
+  }
+
+  // Current textContent offset of an anchor; deleted characters keep their place
+  offsetOf(anchor: AtomId | null): number | null {
+    if (anchor === null) return 0
+    if (!this.index.has(anchor)) return null
+
+    let count = 0
+    for (let atom = this.head.next; atom; atom = atom.next) {
+      if (!atom.deleted) count += itemTextLength(atom.value)
+      if (atom.id === anchor) break
+    }
+    return count
+  }
+
+  private isKnown(id: AtomId) {
+    return this.index.has(id) || this.dropped.has(id)
+  }
+
+  private isReady(operation: CrdtOperation) {
+    if (operation.type !== 'insert') return this.isKnown(operation.id)
+    return operation.origin === null || this.isKnown(operation.origin)
+  }
+
+  private integrate(operation: CrdtOperation) {
+    if (operation.type === 'delete') {
+      const atom = this.index.get(operation.id)
+      if (!atom || atom.deleted) return false
+      atom.deleted = true
+      return true
+    }
+
+    if (operation.type === 'format') {
+      const atom = this.index.get(operation.id)
+      if (!atom) return false
+      this.clock = Math.max(this.clock, parseId(operation.stamp).clock)
+      let changed = false
+      const attributes = { ...atom.attributes }
+      for (const [key, value] of Object.entries(operation.attributes)) {
+        if (compareIds(operation.stamp, atom.stamps[key] ?? atom.id) <= 0) continue
+        atom.stamps = { ...atom.stamps, [key]: operation.stamp }
+        if (!sameValue(attributes[key], value)) changed = true
+        attributes[key] = value
+      }
+      atom.attributes = attributes
+      return changed && !atom.deleted
+    }
+
+    if (this.isKnown(operation.id)) return false
+
+    this.clock = Math.max(this.clock, parseId(operation.id).clock)
+
+    // An origin dropped as a tombstone stood right after the atom it maps to
+    let origin = operation.origin
+    while (origin !== null && this.dropped.has(origin)) origin = this.dropped.get(origin)!
+    let previous = origin === null ? this.head : this.index.get(origin)!
+    // Concurrent inserts at the same origin: the newer id goes first
+    while (previous.next && compareIds(previous.next.id, operation.id) > 0) {
+      previous = previous.next
+    }
+
+    const atom: Atom = {
+      id: operation.id,
+      origin: operation.origin,
+      value: operation.value,
+      attributes: operation.attributes,
+      stamps: {},
+      deleted: false,
+      next: previous.next
+    }
+    previous.next = atom
+    this.index.set(atom.id, atom)
+    return true
+  }
+}
@@ -0,0 +1,545 @@
+import {
+  type Alignment,
+  type BlockNode,
+  type DocumentNode,
+  type HeadingNode,
+  type ImageAlign,
+  type InlineNode,
+  type ListItemNode,
+  type Marks,
+  type TableCellNode,
+  BLOCK_ID,
+  sameMarks
+} from './document-model'
+
+// Parse whatever HTML the browser produced into the document model, and
+// serialize the model back to the canonical HTML we store and sync.
+// Normalizing never adds characters, but it does drop some: whitespace
+// between blocks and the contents of IGNORED_TAGS. The editor patches its
+// DOM to the normalized HTML whenever that happens, so text offsets (and
+// the CRDT anchors built on them) stay valid.
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DIV', 'DL', 'FIELDSET', 'FIGURE', 'FOOTER', 'FORM',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE',
+  'SECTION', 'TABLE', 'UL'
+])
+
+const IMAGE_ALIGNS: ImageAlign[] = ['left', 'right', 'break']
+
+const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'IFRAME', 'OBJECT', 'EMBED', 'META', 'LINK'])
+
+// Legacy <font size> steps as produced by execCommand('fontSize')
+const FONT_SIZE_STEPS: Record<string, string> = {
+  1: '8pt', 2: '10pt', 3: '12pt', 4: '14pt', 5: '18pt', 6: '24pt', 7: '36pt'
+}
+
+const FONT_SIZE_KEYWORDS: Record<string, string> = {
+  'xx-small': '7pt', 'x-small': '8pt', small: '10pt', medium: '12pt',
+  large: '14pt', 'x-large': '18pt', 'xx-large': '24pt', 'xxx-large': '36pt'
+}
+
+const isElement = (node: Node): node is HTMLElement => node.nodeType === Node.ELEMENT_NODE
+
+const isBlockElement = (node: Node) => isElement(node) && BLOCK_TAGS.has(node.tagName)
+
+const containsBlock = (element: Element): boolean =>
+  Array.from(element.childNodes).some(child => isBlockElement(child) || (isElement(child) && containsBlock(child)))
+
+// Browsers drop tabs and line breaks anywhere in a URL, so "java\nscript:"
+// is a javascript: link; control characters go before the scheme is read
+export const sanitizeUrl = (url: string | null, kind: 'link' | 'image' = 'link') => {
+  const value = (url || '').replace(/\p{Cc}/gu, '').trim()
+  if (!value) return undefined
+  if (/^(#|\/|\.\/|\.\.\/|\?)/.test(value)) return value
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(value)?.[1]?.toLowerCase()
+  if (!scheme) return value
+  if (scheme === 'http' || scheme === 'https') return value
+  if (kind === 'link' && (scheme === 'mailto' || scheme === 'tel')) return value
+  if (kind === 'image' && (/^data:image\//i.test(value) || scheme === 'blob')) return value
+  return undefined
+}
+
+export const normalizeColor = (value: string | null | undefined) => {
+  if (!value) return undefined
+  const color = value.trim().toLowerCase()
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(color)
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1]
+    return `#${digits}`
+  }
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/.exec(color)
+  if (rgb) {
+    if (rgb[4] !== undefined && Number(rgb[4]) === 0) return undefined
+    return '#' + rgb.slice(1, 4).map(n => Math.min(255, Number(n)).toString(16).padStart(2, '0')).join('')
+  }
+  const named: Record<string, string> = {
+    black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff',
+    yellow: '#ffff00', gray: '#808080', grey: '#808080', orange: '#ffa500', purple: '#800080'
+  }
+  return named[color]
+}
+
+const normalizeFontSize = (value: string | null | undefined) => {
+  if (!value) return undefined
+  const size = value.trim().toLowerCase()
+  if (FONT_SIZE_KEYWORDS[size]) return FONT_SIZE_KEYWORDS[size]
+  const match = /^(\d+(?:\.\d+)?)(pt|px)$/.exec(size)
+  if (!match) return undefined
+  const points = match[2] === 'px' ? Number(match[1]) * 0.75 : Number(match[1])
+  return `${Math.round(points * 2) / 2}pt`
+}
+
+export const normalizeFontFamily = (value: string | null | undefined) => {
+  const family = value?.trim()
+  return family && /^[\w\s,'"-]+$/.test(family) ? family.replace(/"/g, "'") : undefined
+}
+
+const getAlignment = (element: HTMLElement): Alignment | undefined => {
+  const align = (element.style.textAlign || element.getAttribute('align') || '').toLowerCase()
+  return align === 'center' || align === 'right' || align === 'justify' ? align : undefined
+}
+
+const marksOf = (element: HTMLElement, inherited: Marks): Marks => {
+  const marks: Marks = { ...inherited }
+  const tag = element.tagName
+
+  if (tag === 'B' || tag === 'STRONG') marks.bold = true
+  if (tag === 'I' || tag === 'EM') marks.italic = true
+  // How Markdown imports wrote them (see the model)
+  const markdown = element.getAttribute('data-markdown')
+  if ((tag === 'B' || tag === 'STRONG') && markdown === '__') marks.boldDelimiter = '__'
+  if ((tag === 'I' || tag === 'EM') && markdown === '*') marks.italicDelimiter = '*'
+  const suggestionId = element.getAttribute('data-suggestion-id')
+  if (tag === 'INS' && suggestionId) marks.insertion = suggestionId
+  else if (tag === 'U' || tag === 'INS') marks.underline = true
+  if (tag === 'DEL' && suggestionId) marks.deletion = suggestionId
+  else if (tag === 'S' || tag === 'STRIKE' || tag === 'DEL') marks.strike = true
+  if (tag === 'CODE' || tag === 'KBD' || tag === 'SAMP' || tag === 'TT') marks.code = true
+  if (tag === 'SUB') marks.subscript = true
+  if (tag === 'SUP') marks.superscript = true
+  if (tag === 'MARK') marks.highlight = '#ffff00'
+  if (tag === 'A') {
+    const href = sanitizeUrl(element.getAttribute('href'))
+    if (href) marks.link = href
+  }
+  if (tag === 'FONT') {
+    const color = normalizeColor(element.getAttribute('color'))
+    const family = normalizeFontFamily(element.getAttribute('face'))
+    const size = FONT_SIZE_STEPS[element.getAttribute('size') || '']
+    if (color) marks.color = color
+    if (family) marks.fontFamily = family
+    if (size) marks.fontSize = size
+  }
+
+  const style = element.style
+  const weight = style.fontWeight
+  if (weight === 'bold' || weight === 'bolder' || Number(weight) >= 600) marks.bold = true
+  if (weight === 'normal' || (Number(weight) > 0 && Number(weight) < 600)) delete marks.bold
+  if (style.fontStyle === 'italic' || style.fontStyle === 'oblique') marks.italic = true
+  if (style.fontStyle === 'normal') delete marks.italic
+  const decoration = `${style.textDecoration} ${style.textDecorationLine}`
+  if (decoration.includes('underline')) marks.underline = true
+  if (decoration.includes('line-through')) marks.strike = true
+  if (style.verticalAlign === 'sub') marks.subscript = true
+  if (style.verticalAlign === 'super') marks.superscript = true
+
+  const color = normalizeColor(style.color)
+  const highlight = normalizeColor(style.backgroundColor)
+  const family = normalizeFontFamily(style.fontFamily)
+  const size = normalizeFontSize(style.fontSize)
+  if (color) marks.color = color
+  if (highlight) marks.highlight = highlight
+  if (family) marks.fontFamily = family
+  if (size) marks.fontSize = size
+  if (!marks.bold) delete marks.boldDelimiter
+  if (!marks.italic) delete marks.italicDelimiter
+
+  return marks
+}
+
+// Marks without the ones that are off, or undefined when none are on
+export const compactMarks = (marks: Marks): Marks | undefined => {
+  const entries = Object.entries(marks).filter(([, value]) => value !== undefined && value !== false)
+  return entries.length > 0 ? Object.fromEntries(entries) as Marks : undefined
+}
+
+const parseInlines = (nodes: Node[], marks: Marks, out: InlineNode[] = []) => {
+  for (const node of nodes) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.nodeValue || ''
+      const textMarks = compactMarks(marks)
+      if (text) out.push({ type: 'text', text, ...(textMarks ? { marks: textMarks } : {}) })
+      continue
+    }
+    if (!isElement(node) || IGNORED_TAGS.has(node.tagName)) continue
+
+    if (node.tagName === 'BR') {
+      out.push({ type: 'hardBreak' })
+    } else if (node.tagName === 'IMG') {
+      const src = sanitizeUrl(node.getAttribute('src'), 'image')
+      if (src) {
+        const width = Number(node.getAttribute('width')) || undefined
+        const height = Number(node.getAttribute('height')) || undefined
+        // Placement and caption live on the frame around the image
+        const frame = node.parentElement?.hasAttribute('data-image') ? node.parentElement : null
+        const align = frame?.getAttribute('data-align')
+        const caption = frame?.getAttribute('data-caption')?.trim()
+        out.push({
+          type: 'image',
+          src,
+          ...(node.getAttribute('alt') ? { alt: node.getAttribute('alt')! } : {}),
+          ...(width ? { width } : {}),
+          ...(height ? { height } : {}),
+          ...(align && IMAGE_ALIGNS.includes(align as ImageAlign) ? { align: align as ImageAlign } : {}),
+          ...(caption ? { caption } : {}),
+          ...(marks.link ? { link: marks.link } : {})
+        })
+      }
+    } else {
+      parseInlines(Array.from(node.childNodes), marksOf(node, marks), out)
+    }
+  }
+  return out
+}
+
+// Merge neighbouring text with identical marks and drop the trailing
+// <br> browsers put in blocks to give them height
+export const tidyInlines = (children: InlineNode[]) => {
+  const result: InlineNode[] = []
+  for (const node of children) {
+    const previous = result[result.length - 1]
+    if (node.type === 'text' && previous?.type === 'text' && sameMarks(previous.marks, node.marks)) {
+      result[result.length - 1] = { ...previous, text: previous.text + node.text }
+    } else {
+      result.push(node)
+    }
+  }
+  if (result[result.length - 1]?.type === 'hardBreak') result.pop()
+  return result
+}
+
+// Only ASCII whitespace collapses away; a non-breaking space is content
+const hasVisibleContent = (children: InlineNode[]) =>
+  children.some(node => node.type !== 'text' || /[^ \t\n\r\f]/.test(node.text))
+
+// Checklist items are <li data-checked>; task lists pasted from GitHub and
+// similar put a checkbox at the start of the item instead
+const checkedOf = (item: HTMLElement) => {
+  const state = item.getAttribute('data-checked')
+  if (state !== null) return state === 'true'
+  const box = item.querySelector(':scope > input[type="checkbox"], :scope > p:first-child > input[type="checkbox"]')
+  return box ? box.hasAttribute('checked') : undefined
+}
+
+const parseListItems = (list: HTMLElement, marks: Marks): ListItemNode[] => {
+  const items: ListItemNode[] = []
+  for (const child of Array.from(list.childNodes)) {
+    if (isElement(child) && child.tagName === 'LI') {
+      const checked = checkedOf(child)
+      items.push({ type: 'listItem', ...(checked !== undefined ? { checked } : {}), children: parseBlocks(child, marks) })
+    } else if (isElement(child) && (child.tagName === 'UL' || child.tagName === 'OL')) {
+      // Nested list written as a sibling of <li>: attach it to the previous item
+      const nested = parseBlockElement(child, marks)
+      if (items.length > 0) items[items.length - 1].children.push(...nested)
+      else items.push({ type: 'listItem', children: nested })
+    } else if (child.nodeType === Node.TEXT_NODE && !(child.nodeValue || '').trim()) {
+      continue
+    } else {
+      const children = tidyInlines(parseInlines([child], marks))
+      if (children.length > 0) items.push({ type: 'listItem', children: [{ type: 'paragraph', children }] })
+    }
+  }
+  return items
+}
+
+const parsePixels = (value: string | null | undefined) => {
+  const match = /^(\d+(?:\.\d+)?)(px|pt)?$/.exec((value || '').trim().toLowerCase())
+  if (!match) return undefined
+  return Math.round(match[2] === 'pt' ? Number(match[1]) * 4 / 3 : Number(match[1]))
+}
+
+const parseTableCell = (cell: HTMLTableCellElement, marks: Marks): TableCellNode => {
+  const colspan = Number(cell.getAttribute('colspan')) || 1
+  const rowspan = Number(cell.getAttribute('rowspan')) || 1
+  const background = normalizeColor(cell.style.backgroundColor)
+  // Cells share borders, so the top edge stands for the whole cell
+  const borderColor = normalizeColor(cell.style.borderTopColor)
+  const borderWidth = cell.style.borderTopStyle === 'none' ? 0 : parsePixels(cell.style.borderTopWidth)
+  const formula = cell.getAttribute('data-formula')?.trim()
+  const children = parseBlocks(cell, marks)
+  return {
+    type: 'tableCell',
+    ...(cell.tagName === 'TH' ? { header: true } : {}),
+    ...(colspan > 1 ? { colspan } : {}),
+    ...(rowspan > 1 ? { rowspan } : {}),
+    ...(background ? { background } : {}),
+    ...(borderColor ? { borderColor } : {}),
+    ...(borderWidth !== undefined ? { borderWidth } : {}),
+    ...(formula && /^=\s*\S/.test(formula) ? { formula } : {}),
+    children: children.length > 0 ? children : [{ type: 'paragraph', children: [] }]
+  }
+}
+
+// Widths from <colgroup>, kept only when every column has one
+const parseColumnWidths = (table: HTMLTableElement) => {
+  const widths: number[] = []
+  for (const col of Array.from(table.querySelectorAll(':scope > colgroup > col'))) {
+    const width = parsePixels((col as HTMLElement).style.width || col.getAttribute('width'))
+    if (!width) return undefined
+    for (let span = Number(col.getAttribute('span')) || 1; span > 0; span--) widths.push(width)
+  }
+  return widths.length > 0 ? widths : undefined
+}
+
+// Only ids we gave out are kept; pasted pages bring plenty of their own
+const blockIdOf = (element: HTMLElement) => BLOCK_ID.test(element.id) ? { id: element.id } : {}
+
+const parseBlockElement = (element: HTMLElement, marks: Marks, align?: Alignment): BlockNode[] => {
+  const tag = element.tagName
+  const ownAlign = getAlignment(element) || align
+
+  if (/^H[1-6]$/.test(tag)) {
+    return [{
+      type: 'heading',
+      level: Number(tag[1]) as HeadingNode['level'],
+      ...(ownAlign ? { align: ownAlign } : {}),
+      ...blockIdOf(element),
+      ...(/^H[12]$/.test(tag) && element.getAttribute('data-markdown') === 'setext' ? { setext: true } : {}),
+      children: tidyInlines(parseInlines(Array.from(element.childNodes), marks))
+    }]
+  }
+
+  switch (tag) {
+    case 'UL':
+    case 'OL': {
+      const start = tag === 'OL' && element.hasAttribute('start') ? Number(element.getAttribute('start')) : NaN
+      const bullet = tag === 'UL' ? element.getAttribute('data-markdown') : null
+      return [{
+        type: 'list',
+        ordered: tag === 'OL',
+        ...(Number.isInteger(start) && start >= 0 && start !== 1 ? { start } : {}),
+        ...(bullet === '*' || bullet === '+' ? { bullet } : {}),
+        items: parseListItems(element, marks)
+      }]
+    }
+    case 'LI':
+      return [{ type: 'list', ordered: false, items: [{ type: 'listItem', children: parseBlocks(element, marks) }] }]
+    case 'BLOCKQUOTE':
+      return [{ type: 'blockquote', children: parseBlocks(element, marks) }]
+    case 'PRE': {
+      const language = /language-([\w-]+)/.exec(element.querySelector('code')?.className || element.className)?.[1]
+      const indented = !language && element.getAttribute('data-markdown') === 'indented'
+      return [{ type: 'codeBlock', ...(language ? { language } : {}), ...(indented ? { indented } : {}), text: element.textContent || '' }]
+    }
+    case 'HR':
+      return [element.hasAttribute('data-page-break') ? { type: 'pageBreak' } : { type: 'horizontalRule' }]
+    case 'TABLE': {
+      const rows = Array.from((element as HTMLTableElement).rows).map(row => ({
+        type: 'tableRow' as const,
+        cells: Array.from(row.cells).map(cell => parseTableCell(cell, marks))
+      }))
+      const columnWidths = parseColumnWidths(element as HTMLTableElement)
+      return rows.length > 0 ? [{ type: 'table', ...(columnWidths ? { columnWidths } : {}), rows }] : []
+    }
+  }
+
+  if (containsBlock(element)) {
+    return parseBlocks(element, marks, ownAlign)
+  }
+
+  return [{
+    type: 'paragraph',
+    ...(ownAlign ? { align: ownAlign } : {}),
+    ...blockIdOf(element),
+    children: tidyInlines(parseInlines(Array.from(element.childNodes), marks))
+  }]
+}
+
+const parseBlocks = (parent: Node, marks: Marks, align?: Alignment): BlockNode[] => {
+  const blocks: BlockNode[] = []
+  let run: Node[] = []
+
+  const flush = () => {
+    const children = tidyInlines(parseInlines(run, marks))
+    if (hasVisibleContent(children)) {
+      blocks.push({ type: 'paragraph', ...(align ? { align } : {}), children })
+    }
+    run = []
+  }
+
+  for (const child of Array.from(parent.childNodes)) {
+    if (isElement(child) && IGNORED_TAGS.has(child.tagName)) continue
+
+    if (isBlockElement(child)) {
+      flush()
+      blocks.push(...parseBlockElement(child as HTMLElement, marks, align))
+    } else if (isElement(child) && containsBlock(child)) {
+      // Inline wrapper around blocks (e.g. <font> around <div>s): carry its marks down
+      flush()
+      blocks.push(...parseBlocks(child, marksOf(child, marks), getAlignment(child) || align))
+    } else {
+      run.push(child)
+    }
+  }
+  flush()
+
+  return blocks
+}
+
+// The browser copies a block's id onto the new block when Enter splits it.
+// The first block keeps the id, since links pointed at its start.
+const dropRepeatedIds = (blocks: BlockNode[], seen = new Set<string>()) => {
+  for (const block of blocks) {
+    if (block.type === 'paragraph' || block.type === 'heading') {
+      if (block.id && seen.has(block.id)) delete block.id
+      else if (block.id) seen.add(block.id)
+    } else if (block.type === 'list') {
+      block.items.forEach(item => dropRepeatedIds(item.children, seen))
+    } else if (block.type === 'blockquote') {
+      dropRepeatedIds(block.children, seen)
+    } else if (block.type === 'table') {
+      block.rows.forEach(row => row.cells.forEach(cell => dropRepeatedIds(cell.children, seen)))
+    }
+  }
+  return blocks
+}
+
+export const parseHtml = (html: string): DocumentNode => {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  return { type: 'doc', children: dropRepeatedIds(parseBlocks(template.content, {})) }
+}
+
+const escapeText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\u00a0/g, '&nbsp;')
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const markdownAttribute = (syntax?: string) => syntax ? ` data-markdown="${syntax}"` : ''
+
+const serializeText = (text: string, marks: Marks = {}) => {
+  let html = escapeText(text)
+
+  if (marks.code) html = `<code>${html}</code>`
+  if (marks.subscript) html = `<sub>${html}</sub>`
+  if (marks.superscript) html = `<sup>${html}</sup>`
+  if (marks.strike) html = `<s>${html}</s>`
+  if (marks.underline) html = `<u>${html}</u>`
+  if (marks.italic) html = `<em${markdownAttribute(marks.italicDelimiter)}>${html}</em>`
+  if (marks.bold) html = `<strong${markdownAttribute(marks.boldDelimiter)}>${html}</strong>`
+
+  const styles = [
+    marks.color && `color: ${marks.color}`,
+    marks.highlight && `background-color: ${marks.highlight}`,
+    marks.fontFamily && `font-family: ${marks.fontFamily}`,
+    marks.fontSize && `font-size: ${marks.fontSize}`
+  ].filter(Boolean)
+  if (styles.length > 0) html = `<span style="${escapeAttribute(styles.join('; '))}">${html}</span>`
+
+  if (marks.link) html = `<a href="${escapeAttribute(marks.link)}">${html}</a>`
+  if (marks.deletion) html = `<del data-suggestion-id="${escapeAttribute(marks.deletion)}">${html}</del>`
+  if (marks.insertion) html = `<ins data-suggestion-id="${escapeAttribute(marks.insertion)}">${html}</ins>`
+  return html
+}
+
+export const serializeInlines = (children: InlineNode[]) => {
+  const html = children.map(node => {
+    switch (node.type) {
+      case 'text':
+        return serializeText(node.text, node.marks)
+      case 'hardBreak':
+        return '<br>'
+      case 'image': {
+        const attributes = [
+          `src="${escapeAttribute(node.src)}"`,
+          `alt="${escapeAttribute(node.alt || '')}"`,
+          node.width ? `width="${node.width}"` : '',
+          node.height ? `height="${node.height}"` : ''
+        ].filter(Boolean).join(' ')
+        let html = `<img ${attributes}>`
+        if (node.align || node.caption) {
+          const frame = [
+            'data-image',
+            node.align ? `data-align="${node.align}"` : '',
+            node.caption ? `data-caption="${escapeAttribute(node.caption)}"` : ''
+          ].filter(Boolean).join(' ')
+          html = `<span ${frame}>${html}</span>`
+        }
+        return node.link ? `<a href="${escapeAttribute(node.link)}">${html}</a>` : html
+      }
+    }
+  }).join('')
+
+  // A trailing or lone line break needs a placeholder <br> to be visible
+  if (children.length === 0 || children[children.length - 1].type === 'hardBreak') return `${html}<br>`
+  return html
+}
+
+const alignStyle = (align?: Alignment) => align ? ` style="text-align: ${align}"` : ''
+
+const idAttribute = (id?: string) => id ? ` id="${id}"` : ''
+
+// List items and table cells holding one plain paragraph are written inline,
+// the way the browser creates them
+const serializeContainer = (children: BlockNode[]) => {
+  const [first] = children
+  if (children.length === 1 && first.type === 'paragraph' && !first.align && !first.id) return serializeInlines(first.children)
+  return serializeBlocks(children)
+}
+
+export const serializeBlocks = (blocks: BlockNode[]): string => blocks.map(block => {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p${idAttribute(block.id)}${alignStyle(block.align)}>${serializeInlines(block.children)}</p>`
+    case 'heading':
+      return `<h${block.level}${idAttribute(block.id)}${alignStyle(block.align)}${markdownAttribute(block.setext ? 'setext' : undefined)}>${serializeInlines(block.children)}</h${block.level}>`
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul'
+      const start = block.start !== undefined ? ` start="${block.start}"` : ''
+      const items = block.items.map(item => {
+        const checked = item.checked !== undefined ? ` data-checked="${item.checked}"` : ''
+        return `<li${checked}>${serializeContainer(item.children)}</li>`
+      })
+      return `<${tag}${start}${markdownAttribute(block.bullet)}>${items.join('')}</${tag}>`
+    }
+    case 'blockquote':
+      return `<blockquote>${serializeBlocks(block.children)}</blockquote>`
+    case 'codeBlock': {
+      const language = block.language ? ` class="language-${escapeAttribute(block.language)}"` : ''
+      return `<pre${markdownAttribute(block.indented ? 'indented' : undefined)}><code${language}>${escapeText(block.text)}</code></pre>`
+    }
+    case 'horizontalRule':
+      return '<hr>'
+    case 'pageBreak':
+      return '<hr data-page-break="true">'
+    case 'table': {
+      const rows = block.rows.map(row => {
+        const cells = row.cells.map(cell => {
+          const tag = cell.header ? 'th' : 'td'
+          const spans = `${cell.colspan ? ` colspan="${cell.colspan}"` : ''}${cell.rowspan ? ` rowspan="${cell.rowspan}"` : ''}`
+          const styles = [
+            cell.background && `background-color: ${cell.background}`,
+            cell.borderColor && `border-color: ${cell.borderColor}`,
+            cell.borderWidth !== undefined && `border-width: ${cell.borderWidth}px`
+          ].filter(Boolean)
+          const style = styles.length > 0 ? ` style="${styles.join('; ')}"` : ''
+          const formula = cell.formula ? ` data-formula="${escapeAttribute(cell.formula)}"` : ''
+          // An empty formula cell gets its height from the result shown after it
+          const content = serializeContainer(cell.children)
+          return `<${tag}${spans}${style}${formula}>${cell.formula && content === '<br>' ? '' : content}</${tag}>`
+        }).join('')
+        return `<tr>${cells}</tr>`
+      }).join('')
+      const columns = block.columnWidths
+        ? `<colgroup>${block.columnWidths.map(width => `<col style="width: ${width}px">`).join('')}</colgroup>`
+        : ''
+      return `<table>${columns}<tbody>${rows}</tbody></table>`
+    }
+  }
+}).join('')
+
+export const serializeHtml = (doc: DocumentNode) => serializeBlocks(doc.children)
+
+export const normalizeHtml = (html: string) => serializeHtml(parseHtml(html))
@@ -0,0 +1,330 @@
+import { z } from 'zod'
+
+// Typed document schema shared by storage, realtime sync, export and
+// comments. The editor still renders HTML; everything that leaves the
+// editor goes through this model first (see document-html.ts).
+// Fields named for Markdown remember how an imported file spelled
+// something, so exporting it again writes it back the same way.
+
+export type Alignment = 'left' | 'center' | 'right' | 'justify'
+
+export interface Marks {
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  code?: boolean
+  subscript?: boolean
+  superscript?: boolean
+  link?: string
+  color?: string
+  highlight?: string
+  fontFamily?: string
+  fontSize?: string
+  // Tracked changes: id of the suggestion that inserted or deleted this text
+  insertion?: string
+  deletion?: string
+  // Markdown delimiters of italic and bold text, when not "_" and "**"
+  italicDelimiter?: '*'
+  boldDelimiter?: '__'
+}
+
+export interface TextNode {
+  type: 'text'
+  text: string
+  marks?: Marks
+}
+
+export interface HardBreakNode {
+  type: 'hardBreak'
+}
+
+// How an image sits in the text: in the line, floated with text wrapping
+// around it, or on a line of its own. Absent means inline.
+export type ImageAlign = 'left' | 'right' | 'break'
+
+export interface ImageNode {
+  type: 'image'
+  src: string
+  alt?: string
+  width?: number
+  height?: number
+  align?: ImageAlign
+  caption?: string
+  // Target when the image itself is a link
+  link?: string
+}
+
+export type InlineNode = TextNode | HardBreakNode | ImageNode
+
+export interface ParagraphNode {
+  type: 'paragraph'
+  align?: Alignment
+  // Set when the paragraph is a bookmark that links can point at
+  id?: string
+  children: InlineNode[]
+}
+
+export interface HeadingNode {
+  type: 'heading'
+  level: 1 | 2 | 3 | 4 | 5 | 6
+  align?: Alignment
+  // Set once a link points at the heading
+  id?: string
+  // Markdown heading underlined with === or --- rather than led by #
+  setext?: boolean
+  children: InlineNode[]
+}
+
+export interface ListItemNode {
+  type: 'listItem'
+  // Set on checklist items only
+  checked?: boolean
+  children: BlockNode[]
+}
+
+export interface ListNode {
+  type: 'list'
+  ordered: boolean
+  // First number of an ordered list, when not 1
+  start?: number
+  // Markdown bullet of an unordered list, when not "-"
+  bullet?: '*' | '+'
+  items: ListItemNode[]
+}
+
+export interface BlockquoteNode {
+  type: 'blockquote'
+  children: BlockNode[]
+}
+
+export interface CodeBlockNode {
+  type: 'codeBlock'
+  language?: string
+  // Markdown code block indented by four spaces rather than fenced
+  indented?: boolean
+  text: string
+}
+
+export interface HorizontalRuleNode {
+  type: 'horizontalRule'
+}
+
+// Forces the content after it onto a new page in print and PDF
+export interface PageBreakNode {
+  type: 'pageBreak'
+}
+
+export interface TableCellNode {
+  type: 'tableCell'
+  header?: boolean
+  colspan?: number
+  rowspan?: number
+  background?: string
+  borderColor?: string
+  // In pixels; 0 hides the cell's own border
+  borderWidth?: number
+  // Spreadsheet formula such as "=SUM(B2:B9)". Children are empty in the
+  // editor, which shows the result itself; exports get it written in.
+  formula?: string
+  children: BlockNode[]
+}
+
+export interface TableRowNode {
+  type: 'tableRow'
+  cells: TableCellNode[]
+}
+
+export interface TableNode {
+  type: 'table'
+  // Pixel width of each column once one has been resized; sized to content otherwise
+  columnWidths?: number[]
+  rows: TableRowNode[]
+}
+
+export type BlockNode =
+  | ParagraphNode
+  | HeadingNode
+  | ListNode
+  | BlockquoteNode
+  | CodeBlockNode
+  | HorizontalRuleNode
+  | PageBreakNode
+  | TableNode
+
+export interface DocumentNode {
+  type: 'doc'
+  children: BlockNode[]
+}
+
+const alignmentSchema = z.enum(['left', 'center', 'right', 'justify'])
+
+const colorSchema = z.string().regex(/^#[0-9a-f]{6}$/)
+
+// Targets of links within the document ("#h-…" for headings, "#bookmark-…" for bookmarks)
+export const BLOCK_ID = /^(h|bookmark)-[a-z0-9]+$/
+
+const blockIdSchema = z.string().regex(BLOCK_ID)
+
+export const marksSchema: z.ZodType<Marks> = z.object({
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.boolean().optional(),
+  strike: z.boolean().optional(),
+  code: z.boolean().optional(),
+  subscript: z.boolean().optional(),
+  superscript: z.boolean().optional(),
+  link: z.string().min(1).optional(),
+  color: colorSchema.optional(),
+  highlight: colorSchema.optional(),
+  fontFamily: z.string().regex(/^[\w\s,'"-]+$/).optional(),
+  fontSize: z.string().regex(/^\d+(\.\d+)?pt$/).optional(),
+  insertion: z.string().min(1).optional(),
+  deletion: z.string().min(1).optional(),
+  italicDelimiter: z.literal('*').optional(),
+  boldDelimiter: z.literal('__').optional()
+}).strict()
+
+export const inlineSchema: z.ZodType<InlineNode> = z.union([
+  z.object({ type: z.literal('text'), text: z.string().min(1), marks: marksSchema.optional() }).strict(),
+  z.object({ type: z.literal('hardBreak') }).strict(),
+  z.object({
+    type: z.literal('image'),
+    src: z.string().min(1),
+    alt: z.string().optional(),
+    width: z.number().positive().optional(),
+    height: z.number().positive().optional(),
+    align: z.enum(['left', 'right', 'break']).optional(),
+    caption: z.string().min(1).optional(),
+    link: z.string().min(1).optional()
+  }).strict()
+])
+
+export const blockSchema: z.ZodType<BlockNode> = z.lazy(() => z.union([
+  z.object({
+    type: z.literal('paragraph'),
+    align: alignmentSchema.optional(),
+    id: blockIdSchema.optional(),
+    children: z.array(inlineSchema)
+  }).strict(),
+  z.object({
+    type: z.literal('heading'),
+    level: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5), z.literal(6)]),
+    align: alignmentSchema.optional(),
+    id: blockIdSchema.optional(),
+    setext: z.boolean().optional(),
+    children: z.array(inlineSchema)
+  }).strict(),
+  z.object({
+    type: z.literal('list'),
+    ordered: z.boolean(),
+    start: z.number().int().nonnegative().optional(),
+    bullet: z.enum(['*', '+']).optional(),
+    items: z.array(z.object({
+      type: z.literal('listItem'),
+      checked: z.boolean().optional(),
+      children: z.array(blockSchema)
+    }).strict())
+  }).strict(),
+  z.object({ type: z.literal('blockquote'), children: z.array(blockSchema) }).strict(),
+  z.object({ type: z.literal('codeBlock'), language: z.string().optional(), indented: z.boolean().optional(), text: z.string() }).strict(),
+  z.object({ type: z.literal('horizontalRule') }).strict(),
+  z.object({ type: z.literal('pageBreak') }).strict(),
+  z.object({
+    type: z.literal('table'),
+    columnWidths: z.array(z.number().positive()).optional(),
+    rows: z.array(z.object({
+      type: z.literal('tableRow'),
+      cells: z.array(z.object({
+        type: z.literal('tableCell'),
+        header: z.boolean().optional(),
+        colspan: z.number().int().positive().optional(),
+        rowspan: z.number().int().positive().optional(),
+        background: colorSchema.optional(),
+        borderColor: colorSchema.optional(),
+        borderWidth: z.number().int().nonnegative().optional(),
+        formula: z.string().regex(/^=\s*\S/).optional(),
+        children: z.array(blockSchema)
+      }).strict())
+    }).strict())
+  }).strict()
+]))
+
+export const documentSchema: z.ZodType<DocumentNode> = z.object({
+  type: z.literal('doc'),
+  children: z.array(blockSchema)
+}).strict()
+
+export const validateDocument = (value: unknown) => documentSchema.safeParse(value)
+
+export const isTextNode = (node: InlineNode): node is TextNode => node.type === 'text'
+
+export const sameMarks = (a: Marks = {}, b: Marks = {}) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Marks>
+  for (const key of keys) {
+    if (a[key] !== b[key]) return false
+  }
+  return true
+}
+
+export const inlineText = (children: InlineNode[]) =>
+  children.map(node => node.type === 'text' ? node.text : node.type === 'hardBreak' ? '\n' : '').join('')
+
+// Splits a paragraph's content around images that need a line of their
+// own: broken out of the text, captioned, or floated where the output
+// can't wrap text. Runs of nothing but spacing between them are dropped.
+export const imageLines = (children: InlineNode[], floats = true): Array<InlineNode[] | ImageNode> => {
+  const lines: Array<InlineNode[] | ImageNode> = []
+  let run: InlineNode[] = []
+  const flush = () => {
+    if (run.some(node => node.type === 'image' || (node.type === 'text' && node.text.trim()))) lines.push(run)
+    run = []
+  }
+  for (const node of children) {
+    if (node.type === 'image' && (node.align === 'break' || node.caption || (floats && node.align))) {
+      flush()
+      lines.push(node)
+    } else {
+      run.push(node)
+    }
+  }
+  if (lines.length === 0) return [children]
+  flush()
+  return lines
+}
+
+// Where an image on its own line sits across the page
+export const imageAlignment = (image: ImageNode): Alignment =>
+  image.align === 'left' || image.align === 'right' ? image.align : 'center'
+
+// Plain text of a document, one line per paragraph-like block
+export const documentText = (doc: DocumentNode): string => {
+  const lines: string[] = []
+  const visit = (blocks: BlockNode[]) => {
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'paragraph':
+        case 'heading':
+          lines.push(inlineText(block.children))
+          break
+        case 'list':
+          block.items.forEach(item => visit(item.children))
+          break
+        case 'blockquote':
+          visit(block.children)
+          break
+        case 'codeBlock':
+          lines.push(block.text)
+          break
+        case 'horizontalRule':
+        case 'pageBreak':
+          break
+        case 'table':
+          block.rows.forEach(row => row.cells.forEach(cell => visit(cell.children)))
+          break
+      }
+    }
+  }
+  visit(doc.children)
+  return lines.join('\n')
+}
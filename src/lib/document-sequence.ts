@@ -0,0 +1,312 @@
+import {
+  blockSchema,
+  marksSchema,
+  sameMarks,
+  type BlockNode,
+  type BlockquoteNode,
+  type CodeBlockNode,
+  type DocumentNode,
+  type HeadingNode,
+  type HorizontalRuleNode,
+  type InlineNode,
+  type ListItemNode,
+  type ListNode,
+  type Marks,
+  type PageBreakNode,
+  type ParagraphNode,
+  type TableCellNode,
+  type TableNode,
+  type TableRowNode
+} from './document-model'
+
+// The document model laid out as one flat sequence, the form the CRDT
+// replicates (see crdt.ts). Every block that holds content starts with a
+// block item carrying its type and the containers around it (lists,
+// quotes, tables); its characters, line breaks and images follow, each
+// character with its marks. Structure and formatting are attributes of
+// items rather than items of their own, so changing them never moves text
+// and concurrent edits can't leave tags unbalanced.
+
+export const BLOCK = { type: 'block' } as const
+
+// One character, a line break or image, or the start of a block
+export type ItemValue = string | typeof BLOCK | InlineNode
+
+// Attributes set to null have been cleared
+export type ItemAttributes = Record<string, unknown>
+
+export interface SequenceItem {
+  value: ItemValue
+  attributes: ItemAttributes
+}
+
+// A block without its content. Containers left with no blocks at all get
+// an empty one so they still have an item to hang from.
+type Leaf =
+  | Omit<ParagraphNode, 'children'>
+  | Omit<HeadingNode, 'children'>
+  | Omit<CodeBlockNode, 'text'>
+  | HorizontalRuleNode
+  | PageBreakNode
+  | { type: 'empty' }
+
+type Container =
+  | Omit<ListNode, 'items'>
+  | Omit<ListItemNode, 'children'>
+  | Omit<BlockquoteNode, 'children'>
+  | Omit<TableNode, 'rows'>
+  | Omit<TableRowNode, 'cells'>
+  | Omit<TableCellNode, 'children'>
+
+// A container in a block's path; `continues` puts the block in the same
+// container as the block before it rather than a new one
+type PathEntry = Container & { continues?: true }
+
+// Equal items compare equal; attributes are compared separately
+export const itemKey = (value: ItemValue) => typeof value === 'string' ? value : JSON.stringify(value)
+
+// Number of UTF-16 units an item adds to the editor's textContent
+export const itemTextLength = (value: ItemValue) => typeof value === 'string' ? value.length : 0
+
+interface Frame {
+  container: Container
+  started: boolean
+}
+
+const pushBlock = (items: SequenceItem[], frames: Frame[], leaf: Leaf) => {
+  const path = frames.map(frame => frame.started ? { ...frame.container, continues: true } : frame.container)
+  frames.forEach(frame => { frame.started = true })
+  items.push({ value: BLOCK, attributes: { ...leaf, path } })
+}
+
+const flattenInlines = (children: InlineNode[], items: SequenceItem[]) => {
+  for (const node of children) {
+    if (node.type !== 'text') {
+      items.push({ value: node, attributes: {} })
+      continue
+    }
+    for (const char of node.text) items.push({ value: char, attributes: { ...node.marks } })
+  }
+}
+
+const flattenBlocks = (blocks: BlockNode[], frames: Frame[], items: SequenceItem[]) => {
+  if (blocks.length === 0) pushBlock(items, frames, { type: 'empty' })
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'paragraph':
+      case 'heading': {
+        const { children, ...leaf } = block
+        pushBlock(items, frames, leaf)
+        flattenInlines(children, items)
+        break
+      }
+      case 'codeBlock': {
+        const { text, ...leaf } = block
+        pushBlock(items, frames, leaf)
+        for (const char of text) items.push({ value: char, attributes: {} })
+        break
+      }
+      case 'horizontalRule':
+      case 'pageBreak':
+        pushBlock(items, frames, block)
+        break
+      case 'list': {
+        const { items: listItems, ...list } = block
+        const listFrame = { container: list, started: false }
+        if (listItems.length === 0) flattenBlocks([], [...frames, listFrame], items)
+        for (const { children, ...listItem } of listItems) {
+          flattenBlocks(children, [...frames, listFrame, { container: listItem, started: false }], items)
+        }
+        break
+      }
+      case 'blockquote': {
+        const { children, ...quote } = block
+        flattenBlocks(children, [...frames, { container: quote, started: false }], items)
+        break
+      }
+      case 'table': {
+        const { rows, ...table } = block
+        const tableFrame = { container: table, started: false }
+        if (rows.length === 0) flattenBlocks([], [...frames, tableFrame], items)
+        for (const { cells, ...row } of rows) {
+          const rowFrame = { container: row, started: false }
+          if (cells.length === 0) flattenBlocks([], [...frames, tableFrame, rowFrame], items)
+          for (const { children, ...cell } of cells) {
+            flattenBlocks(children, [...frames, tableFrame, rowFrame, { container: cell, started: false }], items)
+          }
+        }
+        break
+      }
+    }
+  }
+}
+
+export const flattenDocument = (doc: DocumentNode): SequenceItem[] => {
+  const items: SequenceItem[] = []
+  flattenBlocks(doc.children, [], items)
+  return items
+}
+
+// Attributes come from other clients, so each piece is checked against the
+// model before it is used; whatever fails is dropped
+const withoutCleared = (attributes: ItemAttributes) =>
+  Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== null && value !== undefined))
+
+const validLeaf = (attributes: ItemAttributes): Leaf => {
+  const leaf = withoutCleared(attributes)
+  delete leaf.path
+  if (leaf.type === 'empty') return { type: 'empty' }
+  const node = leaf.type === 'codeBlock'
+    ? { ...leaf, text: '' }
+    : leaf.type === 'paragraph' || leaf.type === 'heading' ? { ...leaf, children: [] } : leaf
+  return blockSchema.safeParse(node).success ? leaf as Leaf : { type: 'paragraph' }
+}
+
+const withoutContinues = (entry: PathEntry): Container => {
+  const container = { ...entry }
+  delete container.continues
+  return container
+}
+
+// The smallest block that holds a container of each kind
+const containerExample = (container: Container): unknown => {
+  switch (container.type) {
+    case 'list':
+      return { ...container, items: [] }
+    case 'listItem':
+      return { type: 'list', ordered: false, items: [{ ...container, children: [] }] }
+    case 'blockquote':
+      return { ...container, children: [] }
+    case 'table':
+      return { ...container, rows: [] }
+    case 'tableRow':
+      return { type: 'table', rows: [{ ...container, cells: [] }] }
+    case 'tableCell':
+      return { type: 'table', rows: [{ type: 'tableRow', cells: [{ ...container, children: [] }] }] }
+  }
+}
+
+// What each container holds directly
+const CHILD_TYPES: Record<Container['type'] | 'doc', string[]> = {
+  doc: ['list', 'blockquote', 'table'],
+  list: ['listItem'],
+  listItem: ['list', 'blockquote', 'table'],
+  blockquote: ['list', 'blockquote', 'table'],
+  table: ['tableRow'],
+  tableRow: ['tableCell'],
+  tableCell: ['list', 'blockquote', 'table']
+}
+
+// Containers a paragraph or other block can sit in directly
+const BLOCK_PARENTS = ['listItem', 'blockquote', 'tableCell']
+
+// The longest run of well-formed containers from the outside in
+const validPath = (value: unknown): PathEntry[] => {
+  if (!Array.isArray(value)) return []
+  const path: PathEntry[] = []
+  let parent: Container['type'] | 'doc' = 'doc'
+  for (const entry of value as PathEntry[]) {
+    if (!entry || typeof entry !== 'object' || !CHILD_TYPES[parent].includes(entry.type)) break
+    const container = withoutContinues(entry)
+    if (!blockSchema.safeParse(containerExample(container)).success) break
+    path.push(entry.continues === true ? { ...container, continues: true } : container)
+    parent = entry.type
+  }
+  return path
+}
+
+const validMarks = (attributes: ItemAttributes): Marks | undefined => {
+  const marks = withoutCleared(attributes)
+  if (Object.keys(marks).length === 0) return undefined
+  return marksSchema.safeParse(marks).success ? marks as Marks : undefined
+}
+
+type ContainerNode = ListNode | ListItemNode | BlockquoteNode | TableNode | TableRowNode | TableCellNode
+type ContentBlock = ParagraphNode | HeadingNode | CodeBlockNode
+
+const containerNode = (container: Container): ContainerNode => {
+  switch (container.type) {
+    case 'list':
+      return { ...container, items: [] }
+    case 'table':
+      return { ...container, rows: [] }
+    case 'tableRow':
+      return { ...container, cells: [] }
+    default:
+      return { ...container, children: [] }
+  }
+}
+
+const appendTo = (parent: ContainerNode | DocumentNode, child: ContainerNode | BlockNode) => {
+  if (parent.type === 'list') parent.items.push(child as ListItemNode)
+  else if (parent.type === 'table') parent.rows.push(child as TableRowNode)
+  else if (parent.type === 'tableRow') parent.cells.push(child as TableCellNode)
+  else parent.children.push(child as BlockNode)
+}
+
+// Rebuild the document from a sequence. Any sequence gives a valid
+// document, and the same sequence always gives the same one, so replicas
+// that agree on the items agree on the page.
+export const buildDocument = (items: SequenceItem[]): DocumentNode => {
+  const doc: DocumentNode = { type: 'doc', children: [] }
+  let open: { entry: PathEntry; node: ContainerNode }[] = []
+  let block: ContentBlock | null = null
+
+  const startBlock = (leaf: Leaf, path: PathEntry[]): ContentBlock | null => {
+    // Only an empty block can stand for a list, table or row with nothing in it
+    while (leaf.type !== 'empty' && path.length > 0 && !BLOCK_PARENTS.includes(path[path.length - 1].type)) {
+      path = path.slice(0, -1)
+    }
+
+    let depth = 0
+    while (
+      depth < path.length &&
+      depth < open.length &&
+      path[depth].continues &&
+      path[depth].type === open[depth].entry.type
+    ) depth++
+    open = open.slice(0, depth)
+    for (const entry of path.slice(depth)) {
+      const node = containerNode(withoutContinues(entry))
+      appendTo(open.length > 0 ? open[open.length - 1].node : doc, node)
+      open.push({ entry, node })
+    }
+
+    if (leaf.type === 'empty') return null
+    const parent = open.length > 0 ? open[open.length - 1].node : doc
+    const node: BlockNode = leaf.type === 'codeBlock'
+      ? { ...leaf, text: '' }
+      : leaf.type === 'paragraph' || leaf.type === 'heading' ? { ...leaf, children: [] } : leaf
+    appendTo(parent, node)
+    return node.type === 'paragraph' || node.type === 'heading' || node.type === 'codeBlock' ? node : null
+  }
+
+  for (const { value, attributes } of items) {
+    if (typeof value !== 'string' && value.type === 'block') {
+      block = startBlock(validLeaf(attributes), validPath(attributes.path))
+      continue
+    }
+    // Content that lost its block to a concurrent edit gets a paragraph of its own
+    if (!block) block = startBlock({ type: 'paragraph' }, open.map(({ entry }) => ({ ...entry, continues: true })))
+    if (!block) continue
+
+    if (block.type === 'codeBlock') {
+      if (typeof value === 'string') block.text += value
+      continue
+    }
+    if (typeof value !== 'string') {
+      if (value.type !== 'text') block.children.push(value)
+      continue
+    }
+    const marks = validMarks(attributes)
+    const previous = block.children[block.children.length - 1]
+    if (previous?.type === 'text' && sameMarks(previous.marks, marks)) {
+      previous.text += value
+    } else {
+      block.children.push({ type: 'text', text: value, ...(marks ? { marks } : {}) })
+    }
+  }
+
+  return doc
+}
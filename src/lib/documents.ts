@@ -0,0 +1,212 @@
+import { blink } from '../blink/client'
+import { retryWithBackoff } from './retry'
+import { inheritedGrants, loadFolderChain } from './folders'
+import { canView, resolveAccess, type AccessSubject, type DocumentGrant } from './permissions'
+
+// Document rows as the home screen and navigation see them
+
+export interface DocumentSummary {
+  id: string
+  title: string
+  userId: string
+  folderId?: string | null
+  trashedAt?: string | null
+  createdAt?: string
+  updatedAt?: string
+}
+
+export interface DocumentVisit {
+  id: string
+  userId: string
+  documentId: string
+  openedAt: string
+}
+
+export interface DocumentStar {
+  id: string
+  userId: string
+  documentId: string
+  createdAt: string
+}
+
+export interface HomeDocuments {
+  recent: (DocumentSummary & { openedAt: string })[]
+  starred: (DocumentSummary & { openedAt?: string })[]
+  owned: DocumentSummary[]
+  shared: DocumentSummary[]
+}
+
+const RECENT_LIMIT = 12
+
+const SUMMARY_FIELDS = ['id', 'title', 'userId', 'folderId', 'trashedAt', 'createdAt', 'updatedAt']
+
+// Trashed documents only show up in the trash
+const notTrashed = (doc: DocumentSummary) => !doc.trashedAt
+
+export const documentPath = (documentId: string) => `/d/${encodeURIComponent(documentId)}`
+
+export const createDocument = async (
+  userId: string,
+  title = 'Untitled document',
+  folderId: string | null = null,
+  content = ''
+) => {
+  const now = new Date().toISOString()
+  const document: DocumentSummary & { content: string } = {
+    id: `doc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    title,
+    content,
+    userId,
+    folderId,
+    createdAt: now,
+    updatedAt: now
+  }
+  await retryWithBackoff(async () => {
+    return await blink.db.documents.create(document)
+  })
+  return document
+}
+
+// One row per user and document, bumped every time the document is opened
+export const recordVisit = async (userId: string, documentId: string) => {
+  await retryWithBackoff(async () => {
+    return await blink.db.documentVisits.upsert({
+      id: `${userId}:${documentId}`,
+      userId,
+      documentId,
+      openedAt: new Date().toISOString()
+    })
+  })
+}
+
+// Stars are private to each user, one row per user and document
+const starId = (userId: string, documentId: string) => `${userId}:${documentId}`
+
+export const isStarred = async (userId: string, documentId: string) => {
+  const result = await retryWithBackoff(async () => {
+    return await blink.db.documentStars.list({
+      where: { id: starId(userId, documentId) },
+      limit: 1
+    })
+  })
+  return result.length > 0
+}
+
+export const setStarred = async (userId: string, documentId: string, starred: boolean) => {
+  await retryWithBackoff(async () => {
+    return starred
+      ? await blink.db.documentStars.upsert({
+        id: starId(userId, documentId),
+        userId,
+        documentId,
+        createdAt: new Date().toISOString()
+      })
+      : await blink.db.documentStars.delete(starId(userId, documentId))
+  })
+}
+
+export const listDocumentsById = async (ids: string[]): Promise<DocumentSummary[]> => {
+  if (ids.length === 0) return []
+  return await retryWithBackoff(async () => {
+    return await blink.db.documents.list({
+      where: { id: { in: ids } },
+      select: SUMMARY_FIELDS
+    })
+  })
+}
+
+// The ones the user may open, for showing titles of documents linked from
+// another document without revealing those of private ones
+export const listAccessibleDocuments = async (ids: string[], user: AccessSubject): Promise<DocumentSummary[]> => {
+  const documents = (await listDocumentsById(ids)).filter(notTrashed)
+  const shared = documents.filter(doc => doc.userId !== user.id)
+  if (shared.length === 0) return documents
+  const grants: DocumentGrant[] = await retryWithBackoff(async () => {
+    return await blink.db.documentCollaborators.list({
+      where: { documentId: { in: shared.map(doc => doc.id) } }
+    })
+  })
+  const accessible = await Promise.all(documents.map(async (doc) => {
+    if (doc.userId === user.id) return true
+    const inherited = await inheritedGrants(await loadFolderChain(doc.folderId))
+    const documentGrants = grants.filter(grant => grant.documentId === doc.id)
+    return canView(resolveAccess(doc.userId, [...documentGrants, ...inherited], user))
+  }))
+  return documents.filter((_, index) => accessible[index])
+}
+
+export const listFolderDocuments = async (folderId: string): Promise<DocumentSummary[]> => {
+  const documents: DocumentSummary[] = await retryWithBackoff(async () => {
+    return await blink.db.documents.list({
+      where: { folderId },
+      orderBy: { title: 'asc' },
+      select: SUMMARY_FIELDS
+    })
+  })
+  return documents.filter(notTrashed)
+}
+
+const byUpdatedAt = (a: DocumentSummary, b: DocumentSummary) =>
+  new Date(b.updatedAt || 0).getTime() - new Date(a.updatedAt || 0).getTime()
+
+export const listHomeDocuments = async (user: { id: string; email?: string | null }): Promise<HomeDocuments> => {
+  const [owned, grants, visits, stars]: [DocumentSummary[], { documentId: string }[], DocumentVisit[], DocumentStar[]] = await Promise.all([
+    retryWithBackoff(async () => {
+      return await blink.db.documents.list({
+        where: { userId: user.id },
+        orderBy: { updatedAt: 'desc' },
+        select: SUMMARY_FIELDS
+      })
+    }),
+    // Grants made by email before the invitee signed in are keyed by that email
+    retryWithBackoff(async () => {
+      return await blink.db.documentCollaborators.list({
+        where: { userId: { in: [user.id, user.email?.toLowerCase()].filter(Boolean) } }
+      })
+    }),
+    retryWithBackoff(async () => {
+      return await blink.db.documentVisits.list({
+        where: { userId: user.id },
+        orderBy: { openedAt: 'desc' },
+        limit: RECENT_LIMIT
+      })
+    }),
+    retryWithBackoff(async () => {
+      return await blink.db.documentStars.list({
+        where: { userId: user.id }
+      })
+    })
+  ])
+
+  const starredIds = stars.map(star => star.documentId)
+  // Starred documents sort by when we last opened them, which may predate the recent list
+  const starredVisits: DocumentVisit[] = starredIds.length === 0 ? [] : await retryWithBackoff(async () => {
+    return await blink.db.documentVisits.list({
+      where: { userId: user.id, documentId: { in: starredIds } }
+    })
+  })
+  const openedAt = new Map(starredVisits.map(visit => [visit.documentId, visit.openedAt]))
+
+  const sharedIds = [...new Set(grants.map(grant => grant.documentId))]
+  const knownIds = new Set([...owned.map(doc => doc.id), ...sharedIds])
+  const fetched = await listDocumentsById([...new Set([
+    ...sharedIds,
+    ...[...visits.map(visit => visit.documentId), ...starredIds].filter(id => !knownIds.has(id))
+  ])])
+  const byId = new Map([...owned, ...fetched].filter(notTrashed).map(doc => [doc.id, doc]))
+
+  return {
+    recent: visits.flatMap(visit => {
+      const doc = byId.get(visit.documentId)
+      return doc ? [{ ...doc, openedAt: visit.openedAt }] : []
+    }),
+    starred: starredIds
+      .flatMap(id => byId.get(id) ? [{ ...byId.get(id)!, openedAt: openedAt.get(id) }] : [])
+      .sort((a, b) => new Date(b.openedAt || 0).getTime() - new Date(a.openedAt || 0).getTime()),
+    owned: owned.filter(notTrashed),
+    shared: sharedIds
+      .flatMap(id => byId.get(id) || [])
+      .filter(doc => doc.userId !== user.id)
+      .sort(byUpdatedAt)
+  }
+}
@@ -0,0 +1,575 @@
+import { parseHtml } from './document-html'
+import { imageAlignment, imageLines, inlineText, type Alignment, type BlockNode, type DocumentNode, type ImageNode, type InlineNode, type Marks, type TableCellNode, type TableNode } from './document-model'
+import { createZip, type ZipEntry } from './zip'
+
+// Builds a Word (OOXML) package from the document model, entirely in the
+// browser. Headings map to Word's built-in Heading 1–6 styles so they show
+// up in Word's navigation pane; everything else is direct formatting.
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+// Word measures images in EMUs; 9525 per CSS pixel
+const EMU_PER_PX = 9525
+// Letter page with 1in margins leaves 6.5in (624px) of text width
+const MAX_IMAGE_WIDTH_PX = 624
+
+// Same sizes the editor uses for headings (index.css), in half-points
+const HEADING_SIZES = [40, 32, 28, 24, 22, 22]
+const HEADING_COLORS = [undefined, undefined, '434343', '666666', '666666', '666666']
+
+// Suggestions don't carry a display name, so tracked changes share one
+const REVISION_AUTHOR = 'Suggested edit'
+
+const BULLET_NUM_ID = 1
+const ORDERED_ABSTRACT_ID = 1
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp'
+}
+
+// Control characters XML 1.0 can't carry at all; tabs and line breaks it can
+const xmlCharacters = (text: string) =>
+  Array.from(text).filter(c => c.charCodeAt(0) >= 0x20 || c === '\t' || c === '\n' || c === '\r').join('')
+
+const escapeXml = (text: string) =>
+  xmlCharacters(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const JUSTIFICATION: Record<Alignment, string> = {
+  left: 'left',
+  center: 'center',
+  right: 'right',
+  justify: 'both'
+}
+
+interface ExportImage {
+  relId: string
+  fileName: string
+  data: Uint8Array
+  widthPx: number
+  heightPx: number
+}
+
+interface Relationship {
+  id: string
+  type: string
+  target: string
+  external?: boolean
+}
+
+interface ParagraphOptions {
+  style?: string
+  align?: Alignment
+  numbering?: { numId: number; level: number }
+  extra?: string
+  // Id of the heading or bookmark, for links within the document
+  bookmark?: string
+}
+
+// Word bookmark names can't hold hyphens
+const bookmarkName = (id: string) => id.replace(/-/g, '_')
+
+const parseFontSize = (size: string) => Math.round(parseFloat(size) * 2)
+
+// 'Georgia, serif' → 'Georgia'
+const primaryFont = (family: string) => family.split(',')[0].trim().replace(/^['"]|['"]$/g, '')
+
+// Children of w:rPr must follow the schema's order or Word rejects the file
+const runProperties = (marks: Marks = {}) => {
+  const props: string[] = []
+  const font = marks.code ? 'Courier New' : marks.fontFamily && primaryFont(marks.fontFamily)
+  if (font) {
+    const name = escapeXml(font)
+    props.push(`<w:rFonts w:ascii="${name}" w:hAnsi="${name}" w:cs="${name}"/>`)
+  }
+  if (marks.bold) props.push('<w:b/>')
+  if (marks.italic) props.push('<w:i/>')
+  if (marks.strike) props.push('<w:strike/>')
+  if (marks.color) props.push(`<w:color w:val="${marks.color.slice(1)}"/>`)
+  else if (marks.link) props.push('<w:color w:val="1155CC"/>')
+  if (marks.fontSize) {
+    const size = parseFontSize(marks.fontSize)
+    props.push(`<w:sz w:val="${size}"/><w:szCs w:val="${size}"/>`)
+  }
+  if (marks.underline || marks.link) props.push('<w:u w:val="single"/>')
+  if (marks.highlight) props.push(`<w:shd w:val="clear" w:color="auto" w:fill="${marks.highlight.slice(1)}"/>`)
+  if (marks.subscript) props.push('<w:vertAlign w:val="subscript"/>')
+  else if (marks.superscript) props.push('<w:vertAlign w:val="superscript"/>')
+  return props.length > 0 ? `<w:rPr>${props.join('')}</w:rPr>` : ''
+}
+
+const textRun = (text: string, marks: Marks | undefined, deleted = false) => {
+  const tag = deleted ? 'w:delText' : 'w:t'
+  // Hard line breaks inside code blocks arrive as newlines
+  const body = text
+    .split('\n')
+    .map(line => `<${tag} xml:space="preserve">${escapeXml(line)}</${tag}>`)
+    .join('<w:br/>')
+  return `<w:r>${runProperties(marks)}${body}</w:r>`
+}
+
+// Floated images are anchored to their paragraph with text wrapping around them
+const imageRun = (image: ExportImage, alt: string, docPrId: number, float?: 'left' | 'right') => {
+  let width = image.widthPx
+  let height = image.heightPx
+  if (width > MAX_IMAGE_WIDTH_PX) {
+    height = Math.round(height * MAX_IMAGE_WIDTH_PX / width)
+    width = MAX_IMAGE_WIDTH_PX
+  }
+  const cx = width * EMU_PER_PX
+  const cy = height * EMU_PER_PX
+  const description = escapeXml(alt)
+  const frame = float
+    ? `<wp:anchor distT="0" distB="114300" distL="114300" distR="114300" simplePos="0" relativeHeight="${251658240 + docPrId}" behindDoc="0" locked="0" layoutInCell="1" allowOverlap="1">` +
+      '<wp:simplePos x="0" y="0"/>' +
+      `<wp:positionH relativeFrom="column"><wp:align>${float}</wp:align></wp:positionH>` +
+      '<wp:positionV relativeFrom="paragraph"><wp:posOffset>0</wp:posOffset></wp:positionV>' +
+      `<wp:extent cx="${cx}" cy="${cy}"/><wp:effectExtent l="0" t="0" r="0" b="0"/><wp:wrapSquare wrapText="bothSides"/>`
+    : `<wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>`
+  return '<w:r><w:drawing>' +
+    frame +
+    `<wp:docPr id="${docPrId}" name="Picture ${docPrId}" descr="${description}"/>` +
+    '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>' +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+    '<pic:pic>' +
+    `<pic:nvPicPr><pic:cNvPr id="${docPrId}" name="${image.fileName}" descr="${description}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${image.relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    `</pic:pic></a:graphicData></a:graphic></wp:${float ? 'anchor' : 'inline'}></w:drawing></w:r>`
+}
+
+// Images are fetched up front so the XML writer can stay synchronous.
+// Formats Word can't show (webp, svg, …) are redrawn as PNG.
+const loadImage = async (src: string): Promise<Omit<ExportImage, 'relId' | 'fileName'> & { extension: string } | null> => {
+  try {
+    const response = await fetch(src)
+    if (!response.ok) return null
+    let blob = await response.blob()
+    const bitmap = await createImageBitmap(blob)
+    const { width, height } = bitmap
+    if (!IMAGE_EXTENSIONS[blob.type]) {
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0)
+      const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+      if (!png) return null
+      blob = png
+    }
+    bitmap.close()
+    return {
+      data: new Uint8Array(await blob.arrayBuffer()),
+      widthPx: width,
+      heightPx: height,
+      extension: IMAGE_EXTENSIONS[blob.type]
+    }
+  } catch (error) {
+    console.warn('Skipping image in export:', src, error)
+    return null
+  }
+}
+
+const collectImages = (blocks: BlockNode[], images: ImageNode[] = []) => {
+  const visitInlines = (children: InlineNode[]) => {
+    for (const node of children) {
+      if (node.type === 'image') images.push(node)
+    }
+  }
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'paragraph':
+      case 'heading':
+        visitInlines(block.children)
+        break
+      case 'list':
+        block.items.forEach(item => collectImages(item.children, images))
+        break
+      case 'blockquote':
+        collectImages(block.children, images)
+        break
+      case 'table':
+        block.rows.forEach(row => row.cells.forEach(cell => collectImages(cell.children, images)))
+        break
+    }
+  }
+  return images
+}
+
+class DocxWriter {
+  relationships: Relationship[] = [
+    { id: 'rId1', type: `${REL_NS}/styles`, target: 'styles.xml' },
+    { id: 'rId2', type: `${REL_NS}/numbering`, target: 'numbering.xml' },
+    { id: 'rId3', type: `${REL_NS}/settings`, target: 'settings.xml' }
+  ]
+  images = new Map<string, ExportImage>()
+  // Every ordered list gets its own w:num so its numbering restarts
+  orderedLists: { numId: number; level: number; start: number }[] = []
+  private nextDrawingId = 1
+  private nextRevisionId = 1
+  private nextBookmarkId = 0
+  private linkIds = new Map<string, string>()
+
+  addRelationship(type: string, target: string, external = false) {
+    const id = `rId${this.relationships.length + 1}`
+    this.relationships.push({ id, type: `${REL_NS}/${type}`, target, external })
+    return id
+  }
+
+  addImage(src: string, loaded: Omit<ExportImage, 'relId' | 'fileName'> & { extension: string }) {
+    const fileName = `image${this.images.size + 1}.${loaded.extension}`
+    const relId = this.addRelationship('image', `media/${fileName}`)
+    this.images.set(src, { relId, fileName, data: loaded.data, widthPx: loaded.widthPx, heightPx: loaded.heightPx })
+  }
+
+  private linkId(href: string) {
+    let id = this.linkIds.get(href)
+    if (!id) {
+      id = this.addRelationship('hyperlink', escapeXml(href), true)
+      this.linkIds.set(href, id)
+    }
+    return id
+  }
+
+  // Links to other documents are relative in the editor, but not in a file
+  private hyperlink(run: string, link: string) {
+    if (link.startsWith('#')) return `<w:hyperlink w:anchor="${escapeXml(bookmarkName(link.slice(1)))}">${run}</w:hyperlink>`
+    const href = link.startsWith('/') ? new URL(link, window.location.origin).href : link
+    return `<w:hyperlink r:id="${this.linkId(href)}">${run}</w:hyperlink>`
+  }
+
+  private inline(node: InlineNode) {
+    if (node.type === 'hardBreak') return '<w:r><w:br/></w:r>'
+    if (node.type === 'image') {
+      const image = this.images.get(node.src)
+      if (!image) return node.alt ? textRun(`[${node.alt}]`, node.link ? { link: node.link } : undefined) : ''
+      const width = node.width ?? image.widthPx
+      const height = node.height ?? (node.width ? Math.round(image.heightPx * node.width / image.widthPx) : image.heightPx)
+      const float = node.align === 'left' || node.align === 'right' ? node.align : undefined
+      const run = imageRun({ ...image, widthPx: width, heightPx: height }, node.alt || '', this.nextDrawingId++, float)
+      return node.link ? this.hyperlink(run, node.link) : run
+    }
+
+    const deleted = !!node.marks?.deletion
+    let run = textRun(node.text, node.marks, deleted)
+    const link = node.marks?.link
+    if (link) run = this.hyperlink(run, link)
+    // Open suggestions become Word tracked changes
+    if (node.marks?.insertion || deleted) {
+      const tag = deleted ? 'w:del' : 'w:ins'
+      run = `<${tag} w:id="${this.nextRevisionId++}" w:author="${REVISION_AUTHOR}">${run}</${tag}>`
+    }
+    return run
+  }
+
+  // Broken-out and captioned images get paragraphs of their own; a list
+  // number stays with the first one
+  private paragraph(children: InlineNode[], options: ParagraphOptions = {}) {
+    return imageLines(children, false).map((line, index) => {
+      const own = index === 0 ? options : { ...options, bookmark: undefined, ...(options.numbering ? { numbering: undefined, style: 'ListContinue' } : {}) }
+      if (Array.isArray(line)) return this.paragraphXml(line, own)
+      const align = imageAlignment(line)
+      const caption = line.caption ? this.paragraphXml([{ type: 'text', text: line.caption }], { style: 'Caption', align }) : ''
+      return this.paragraphXml([{ ...line, align: undefined }], { ...own, align }) + caption
+    }).join('')
+  }
+
+  private paragraphXml(children: InlineNode[], options: ParagraphOptions) {
+    const props: string[] = []
+    if (options.style) props.push(`<w:pStyle w:val="${options.style}"/>`)
+    if (options.numbering) {
+      props.push(`<w:numPr><w:ilvl w:val="${options.numbering.level}"/><w:numId w:val="${options.numbering.numId}"/></w:numPr>`)
+    }
+    if (options.extra) props.push(options.extra)
+    if (options.align && options.align !== 'left') props.push(`<w:jc w:val="${JUSTIFICATION[options.align]}"/>`)
+    const pPr = props.length > 0 ? `<w:pPr>${props.join('')}</w:pPr>` : ''
+    const content = children.map(child => this.inline(child)).join('')
+    if (!options.bookmark) return `<w:p>${pPr}${content}</w:p>`
+    const id = this.nextBookmarkId++
+    return `<w:p>${pPr}<w:bookmarkStart w:id="${id}" w:name="${bookmarkName(options.bookmark)}"/>${content}<w:bookmarkEnd w:id="${id}"/></w:p>`
+  }
+
+  blocks(blocks: BlockNode[], context: { style?: string; numbering?: ParagraphOptions['numbering'] } = {}): string {
+    return blocks.map(block => this.block(block, context)).join('')
+  }
+
+  private block(block: BlockNode, context: { style?: string; numbering?: ParagraphOptions['numbering'] }): string {
+    switch (block.type) {
+      case 'paragraph':
+        return this.paragraph(block.children, { style: context.style, align: block.align, numbering: context.numbering, bookmark: block.id })
+      case 'heading':
+        return this.paragraph(block.children, { style: `Heading${block.level}`, align: block.align, numbering: context.numbering, bookmark: block.id })
+      case 'list': {
+        const level = context.numbering ? Math.min(context.numbering.level + 1, 8) : 0
+        let numId = BULLET_NUM_ID
+        if (block.ordered) {
+          numId = BULLET_NUM_ID + 1 + this.orderedLists.length
+          this.orderedLists.push({ numId, level, start: block.start ?? 1 })
+        }
+        return block.items.map((item) => {
+          // Only the item's first paragraph carries the number or bullet
+          const [firstChild, ...rest] = item.children
+          const numbering = { numId, level }
+          // Word has no checklist numbering; the box is written as text
+          const first: BlockNode | undefined = item.checked !== undefined && firstChild?.type === 'paragraph'
+            ? { ...firstChild, children: [{ type: 'text', text: item.checked ? '☒ ' : '☐ ' }, ...firstChild.children] }
+            : firstChild
+          const head = first ? this.block(first, { ...context, numbering }) : this.paragraph([], { numbering })
+          const tail = rest.map(child => child.type === 'list'
+            ? this.block(child, { ...context, numbering })
+            : this.block(child, { ...context, numbering: undefined, style: 'ListContinue' }))
+          return head + tail.join('')
+        }).join('')
+      }
+      case 'blockquote':
+        return this.blocks(block.children, { ...context, style: 'Quote' })
+      case 'codeBlock':
+        return this.paragraph([{ type: 'text', text: block.text || ' ' }], { style: 'Code' })
+      case 'horizontalRule':
+        return this.paragraph([], {
+          extra: '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="DADCE0"/></w:pBdr>'
+        })
+      case 'pageBreak':
+        return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>'
+      case 'table':
+        return this.table(block)
+    }
+  }
+
+  private table(table: TableNode) {
+    // Lay the cells out on a grid so row spans can be continued below
+    const grid: ({ start: boolean; colspan: number; rowspan: number; cell: TableCellNode } | null)[][] = []
+    table.rows.forEach((row, rowIndex) => {
+      grid[rowIndex] = grid[rowIndex] || []
+      let column = 0
+      for (const cell of row.cells) {
+        while (grid[rowIndex][column] !== undefined) column++
+        const colspan = cell.colspan || 1
+        const rowspan = cell.rowspan || 1
+        for (let r = 0; r < rowspan; r++) {
+          grid[rowIndex + r] = grid[rowIndex + r] || []
+          grid[rowIndex + r][column] = { start: r === 0, colspan, rowspan, cell }
+          for (let c = 1; c < colspan; c++) grid[rowIndex + r][column + c] = null
+        }
+        column += colspan
+      }
+    })
+
+    const columns = Math.max(1, ...grid.map(row => row.length))
+    // Resized columns keep their proportions (1px = 15 twips); others share the text width
+    const widths = table.columnWidths?.length === columns
+      ? table.columnWidths.map(width => Math.round(width * 15))
+      : new Array(columns).fill(Math.floor(9360 / columns))
+    const spanWidth = (column: number, colspan: number) =>
+      widths.slice(column, column + colspan).reduce((sum, width) => sum + width, 0)
+    // Header rows at the top repeat on every page
+    const repeated = grid.findIndex(row => !row.some(slot => slot?.start && slot.cell.header))
+    const rows = grid.map((row, rowIndex) => {
+      const cells: string[] = []
+      for (let column = 0; column < columns; column++) {
+        const slot = row[column]
+        if (slot === null) continue
+        if (slot === undefined) {
+          cells.push(`<w:tc><w:tcPr><w:tcW w:w="${widths[column]}" w:type="dxa"/></w:tcPr><w:p/></w:tc>`)
+          continue
+        }
+        const { cell } = slot
+        const props = [`<w:tcW w:w="${spanWidth(column, slot.colspan)}" w:type="dxa"/>`]
+        if (slot.colspan > 1) props.push(`<w:gridSpan w:val="${slot.colspan}"/>`)
+        if (slot.rowspan > 1) props.push(slot.start ? '<w:vMerge w:val="restart"/>' : '<w:vMerge/>')
+        if (cell.borderColor || cell.borderWidth !== undefined) {
+          // Border size is in eighths of a point
+          const size = Math.round((cell.borderWidth ?? 1) * 6)
+          const color = (cell.borderColor || '#dadce0').slice(1).toUpperCase()
+          const border = size > 0 ? `w:val="single" w:sz="${size}" w:space="0" w:color="${color}"` : 'w:val="nil"'
+          props.push(`<w:tcBorders>${['top', 'left', 'bottom', 'right'].map(side => `<w:${side} ${border}/>`).join('')}</w:tcBorders>`)
+        }
+        const fill = cell.background?.slice(1).toUpperCase() || (cell.header ? 'F8F9FA' : '')
+        if (fill) props.push(`<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>`)
+        const children = slot.start ? cell.children : []
+        const content = cell.formula && slot.start
+          ? formulaParagraph(cell)
+          : children.length > 0
+            ? this.blocks(cell.header ? boldBlocks(children) : children)
+            : '<w:p/>'
+        cells.push(`<w:tc><w:tcPr>${props.join('')}</w:tcPr>${content}</w:tc>`)
+      }
+      const header = repeated === -1 || rowIndex < repeated ? '<w:trPr><w:tblHeader/></w:trPr>' : ''
+      return `<w:tr>${header}${cells.join('')}</w:tr>`
+    })
+
+    const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+      .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="DADCE0"/>`)
+      .join('')
+    const gridCols = widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')
+    // A paragraph after the table keeps two adjacent tables from merging in Word
+    return '<w:tbl>' +
+      `<w:tblPr><w:tblW w:w="${spanWidth(0, columns)}" w:type="dxa"/><w:tblBorders>${borders}</w:tblBorders>` +
+      '<w:tblCellMar><w:left w:w="100" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+      `<w:tblGrid>${gridCols}</w:tblGrid>${rows.join('')}</w:tbl><w:p/>`
+  }
+}
+
+// Word recalculates table formulas itself; the saved result shows until it does
+const formulaParagraph = (cell: TableCellNode) => {
+  const result = cell.children.map(block => block.type === 'paragraph' ? inlineText(block.children) : '').join('')
+  return `<w:p><w:pPr><w:jc w:val="right"/></w:pPr><w:fldSimple w:instr=" ${escapeXml(cell.formula!)} ">` +
+    `${textRun(result, cell.header ? { bold: true } : undefined)}</w:fldSimple></w:p>`
+}
+
+// Header cells render bold in the editor (th), so they export bold too
+const boldBlocks = (blocks: BlockNode[]): BlockNode[] => blocks.map((block) => {
+  if (block.type !== 'paragraph' && block.type !== 'heading') return block
+  return {
+    ...block,
+    children: block.children.map(child => child.type === 'text'
+      ? { ...child, marks: { ...child.marks, bold: true } }
+      : child)
+  }
+})
+
+const headingStyles = () => HEADING_SIZES.map((size, index) => {
+  const level = index + 1
+  const color = HEADING_COLORS[index] ? `<w:color w:val="${HEADING_COLORS[index]}"/>` : ''
+  const italic = level === 6 ? '<w:i/>' : ''
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}">` +
+    `<w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="${level <= 2 ? 400 : 280}" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>` +
+    `<w:rPr>${italic}${color}<w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr>` +
+    '</w:style>'
+}).join('')
+
+const stylesXml = () => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${MAIN_NS}">` +
+  '<w:docDefaults>' +
+  '<w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial" w:eastAsia="Arial"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>' +
+  '</w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  headingStyles() +
+  '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="DADCE0"/></w:pBdr><w:ind w:left="360"/></w:pPr>' +
+  '<w:rPr><w:color w:val="5F6368"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F8F9FA"/><w:spacing w:before="120" w:after="120"/></w:pPr>' +
+  '<w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:qFormat/>' +
+  '<w:pPr><w:spacing w:before="60" w:after="120"/></w:pPr><w:rPr><w:i/><w:color w:val="5F6368"/><w:sz w:val="18"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="ListContinue"><w:name w:val="List Continue"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:ind w:left="720"/></w:pPr></w:style>' +
+  '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/>' +
+  '<w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+  '</w:styles>'
+
+const BULLETS = ['●', '○', '■']
+
+const numberingXml = (orderedLists: DocxWriter['orderedLists']) => {
+  const levels = (ordered: boolean) => Array.from({ length: 9 }, (_, level) => {
+    const format = ordered ? ['decimal', 'lowerLetter', 'lowerRoman'][level % 3] : 'bullet'
+    const text = ordered ? `%${level + 1}.` : BULLETS[level % 3]
+    return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/>` +
+      `<w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+      `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+  }).join('')
+  const nums = [`<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>`]
+  for (const { numId, level, start } of orderedLists) {
+    nums.push(`<w:num w:numId="${numId}"><w:abstractNumId w:val="${ORDERED_ABSTRACT_ID}"/>` +
+      `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`)
+  }
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${MAIN_NS}">` +
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>` +
+    `<w:abstractNum w:abstractNumId="${ORDERED_ABSTRACT_ID}"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>` +
+    nums.join('') +
+    '</w:numbering>'
+}
+
+const documentXml = (body: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${MAIN_NS}" xmlns:r="${REL_NS}" ` +
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ' +
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+  `<w:body>${body}` +
+  '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+  '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+  '</w:body></w:document>'
+
+const relationshipsXml = (relationships: Relationship[]) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PACKAGE_REL_NS}">` +
+  relationships.map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"${rel.external ? ' TargetMode="External"' : ''}/>`).join('') +
+  '</Relationships>'
+
+const contentTypesXml = (extensions: string[]) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  extensions.map(extension => `<Default Extension="${extension}" ContentType="image/${extension}"/>`).join('') +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+  '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  '</Types>'
+
+const settingsXml = () => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings xmlns:w="${MAIN_NS}"><w:defaultTabStop w:val="720"/><w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat></w:settings>`
+
+const coreXml = (title: string, author: string) => {
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z')
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title><dc:creator>${escapeXml(author)}</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+    '</cp:coreProperties>'
+}
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PACKAGE_REL_NS}">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="word/document.xml"/>` +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+  '</Relationships>'
+
+export const buildDocx = async (title: string, doc: DocumentNode, author = ''): Promise<Blob> => {
+  const writer = new DocxWriter()
+
+  const sources = [...new Set(collectImages(doc.children).map(image => image.src))]
+  for (const src of sources) {
+    const loaded = await loadImage(src)
+    if (loaded) writer.addImage(src, loaded)
+  }
+
+  const body = writer.blocks(doc.children)
+  const entries: ZipEntry[] = [
+    { name: '[Content_Types].xml', data: '' },
+    { name: '_rels/.rels', data: ROOT_RELS },
+    { name: 'docProps/core.xml', data: coreXml(title, author) },
+    { name: 'word/document.xml', data: documentXml(body) },
+    { name: 'word/styles.xml', data: stylesXml() },
+    { name: 'word/numbering.xml', data: numberingXml(writer.orderedLists) },
+    { name: 'word/settings.xml', data: settingsXml() },
+    { name: 'word/_rels/document.xml.rels', data: relationshipsXml(writer.relationships) }
+  ]
+  const extensions = new Set<string>()
+  for (const image of writer.images.values()) {
+    entries.push({ name: `word/media/${image.fileName}`, data: image.data })
+    extensions.add(image.fileName.split('.').pop() as string)
+  }
+  entries[0].data = contentTypesXml([...extensions])
+
+  const zip = await createZip(entries)
+  return new Blob([zip], { type: DOCX_MIME })
+}
+
+export const exportDocx = (title: string, html: string, author?: string) => buildDocx(title, parseHtml(html), author)
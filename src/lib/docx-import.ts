@@ -0,0 +1,636 @@
+import { compactMarks, normalizeColor, normalizeFontFamily, normalizeHtml, sanitizeUrl, serializeHtml, tidyInlines } from './document-html'
+import {
+  type Alignment,
+  type BlockNode,
+  type DocumentNode,
+  type InlineNode,
+  type ListItemNode,
+  type ListNode,
+  type Marks,
+  type TableCellNode,
+  type TableNode
+} from './document-model'
+import { readZip } from './zip'
+
+// Converts a Word (.docx) file into the document model in the browser.
+// Anything the editor can't represent is counted and reported back to the
+// user instead of disappearing silently.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main'
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing'
+const MC_NS = 'http://schemas.openxmlformats.org/markup-compatibility/2006'
+const VML_NS = 'urn:schemas-microsoft-com:vml'
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships'
+
+const EMU_PER_PX = 9525
+
+// Word's named highlight colours
+const HIGHLIGHTS: Record<string, string> = {
+  yellow: '#ffff00', green: '#00ff00', cyan: '#00ffff', magenta: '#ff00ff', blue: '#0000ff',
+  red: '#ff0000', darkBlue: '#000080', darkCyan: '#008080', darkGreen: '#008000',
+  darkMagenta: '#800080', darkRed: '#800000', darkYellow: '#808000', darkGray: '#808080',
+  lightGray: '#c0c0c0', black: '#000000', white: '#ffffff'
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif',
+  bmp: 'image/bmp', webp: 'image/webp', svg: 'image/svg+xml'
+}
+
+export interface DocxImport {
+  title: string
+  doc: DocumentNode
+  html: string
+  // Human-readable notes about what could not be carried over
+  unsupported: string[]
+}
+
+interface StyleInfo {
+  basedOn?: string
+  headingLevel?: HeadingLevel
+  numbering?: { numId: string; level: number }
+  marks: Marks
+}
+
+type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6
+
+interface ListPosition {
+  numId: string
+  level: number
+  ordered: boolean
+}
+
+const child = (element: Element, name: string, ns = W_NS) =>
+  Array.from(element.children).find(el => el.localName === name && el.namespaceURI === ns)
+
+const attr = (element: Element | undefined, name: string, ns = W_NS) =>
+  element?.getAttributeNS(ns, name) ?? null
+
+// <w:b/>, <w:b w:val="true"/> and <w:b w:val="1"/> are on; "0"/"false" are off
+const toggle = (element: Element | undefined) => {
+  if (!element) return undefined
+  const value = attr(element, 'val')
+  return value === null || !['0', 'false', 'off', 'none'].includes(value)
+}
+
+const parseXml = (data: Uint8Array | undefined) => {
+  if (!data) return null
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml')
+  return xml.getElementsByTagName('parsererror').length > 0 ? null : xml
+}
+
+const toBase64 = (data: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const resolvePath = (base: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1)
+  const parts = base.split('/').slice(0, -1)
+  for (const part of target.split('/')) {
+    if (part === '..') parts.pop()
+    else if (part !== '.') parts.push(part)
+  }
+  return parts.join('/')
+}
+
+const readMarks = (rPr: Element | undefined, base: Marks = {}): Marks => {
+  const marks: Marks = { ...base }
+  if (!rPr) return marks
+  const set = <K extends keyof Marks>(key: K, value: Marks[K] | undefined) => {
+    if (value === undefined) return
+    if (value === false) delete marks[key]
+    else marks[key] = value
+  }
+  set('bold', toggle(child(rPr, 'b')))
+  set('italic', toggle(child(rPr, 'i')))
+  set('strike', toggle(child(rPr, 'strike')) || toggle(child(rPr, 'dstrike')))
+  const underline = child(rPr, 'u')
+  if (underline) set('underline', attr(underline, 'val') !== 'none')
+
+  const color = attr(child(rPr, 'color'), 'val')
+  if (color && color !== 'auto') set('color', normalizeColor(`#${color}`))
+
+  const size = Number(attr(child(rPr, 'sz'), 'val'))
+  if (size > 0) marks.fontSize = `${size / 2}pt`
+
+  const fonts = child(rPr, 'rFonts')
+  const family = normalizeFontFamily(attr(fonts, 'ascii') || attr(fonts, 'hAnsi'))
+  if (family) marks.fontFamily = family
+
+  const highlight = HIGHLIGHTS[attr(child(rPr, 'highlight'), 'val') || '']
+  const shading = attr(child(rPr, 'shd'), 'fill')
+  if (highlight) marks.highlight = highlight
+  else if (shading && shading !== 'auto') set('highlight', normalizeColor(`#${shading}`))
+
+  const vertical = attr(child(rPr, 'vertAlign'), 'val')
+  if (vertical === 'subscript') marks.subscript = true
+  if (vertical === 'superscript') marks.superscript = true
+  return marks
+}
+
+const readAlignment = (pPr: Element | undefined): Alignment | undefined => {
+  const value = attr(pPr && child(pPr, 'jc'), 'val')
+  if (value === 'center') return 'center'
+  if (value === 'right' || value === 'end') return 'right'
+  if (value === 'both' || value === 'distribute') return 'justify'
+  return undefined
+}
+
+const headingLevelOf = (name: string, outline: string | null): HeadingLevel | undefined => {
+  const match = /^heading\s*([1-6])$/i.exec(name)
+  if (match) return Number(match[1]) as HeadingLevel
+  if (/^title$/i.test(name)) return 1
+  const level = outline === null ? NaN : Number(outline)
+  return level >= 0 && level < 6 ? (level + 1) as HeadingLevel : undefined
+}
+
+// Checklists are exported as a box character in front of the item text
+const listItem = (block: BlockNode): ListItemNode => {
+  const first = block.type === 'paragraph' ? block.children[0] : undefined
+  const box = first?.type === 'text' ? /^([☐☑☒])\s*/.exec(first.text) : null
+  if (!box || block.type !== 'paragraph' || first?.type !== 'text') return { type: 'listItem', children: [block] }
+  const text = first.text.slice(box[0].length)
+  return {
+    type: 'listItem',
+    checked: box[1] !== '☐',
+    children: [{ ...block, children: text ? [{ ...first, text }, ...block.children.slice(1)] : block.children.slice(1) }]
+  }
+}
+
+class DocxReader {
+  private styles = new Map<string, StyleInfo>()
+  private defaultParagraphStyle: string | undefined
+  // numId → formats by level ('bullet', 'decimal', …)
+  private numberingFormats = new Map<string, string[]>()
+  private relationships = new Map<string, { target: string; external: boolean }>()
+  // Relationship type (last URL segment) → first target of that type
+  private relationshipTypes = new Map<string, string>()
+  private issues = new Map<string, number>()
+  // Where a page break met while reading the current paragraph goes
+  private pageBreak: 'before' | 'after' | null = null
+  private files: Map<string, Uint8Array>
+
+  constructor(files: Map<string, Uint8Array>) {
+    this.files = files
+  }
+
+  report(feature: string) {
+    this.issues.set(feature, (this.issues.get(feature) || 0) + 1)
+  }
+
+  get unsupported() {
+    return Array.from(this.issues, ([feature, count]) => count > 1 ? `${feature} (${count})` : feature)
+  }
+
+  load(documentPath: string) {
+    this.loadRelationships(documentPath)
+    this.loadStyles(parseXml(this.files.get(this.relationshipTypes.get('styles') || 'word/styles.xml')))
+    this.loadNumbering(parseXml(this.files.get(this.relationshipTypes.get('numbering') || 'word/numbering.xml')))
+  }
+
+  private loadRelationships(documentPath: string) {
+    const relsPath = documentPath.replace(/([^/]+)$/, '_rels/$1.rels')
+    const xml = parseXml(this.files.get(relsPath))
+    if (!xml) return
+    for (const rel of Array.from(xml.getElementsByTagNameNS(PACKAGE_REL_NS, 'Relationship'))) {
+      const id = rel.getAttribute('Id') || ''
+      const target = rel.getAttribute('Target') || ''
+      const external = rel.getAttribute('TargetMode') === 'External'
+      const resolved = external ? target : resolvePath(documentPath, target)
+      this.relationships.set(id, { target: resolved, external })
+      const type = (rel.getAttribute('Type') || '').split('/').pop() || ''
+      if (!this.relationshipTypes.has(type)) this.relationshipTypes.set(type, resolved)
+    }
+  }
+
+  private loadStyles(xml: Document | null) {
+    if (!xml) return
+    for (const style of Array.from(xml.getElementsByTagNameNS(W_NS, 'style'))) {
+      const id = attr(style, 'styleId')
+      if (!id) continue
+      const pPr = child(style, 'pPr')
+      const numPr = pPr && child(pPr, 'numPr')
+      const numId = attr(numPr && child(numPr, 'numId'), 'val')
+      const name = attr(child(style, 'name'), 'val') || id
+      const outline = attr(pPr && child(pPr, 'outlineLvl'), 'val')
+      this.styles.set(id, {
+        basedOn: attr(child(style, 'basedOn'), 'val') || undefined,
+        headingLevel: attr(style, 'type') === 'paragraph' ? headingLevelOf(name, outline) : undefined,
+        numbering: numId ? { numId, level: Number(attr(numPr && child(numPr, 'ilvl'), 'val')) || 0 } : undefined,
+        marks: readMarks(child(style, 'rPr'))
+      })
+      const isDefault = attr(style, 'default') === '1' || attr(style, 'default') === 'true'
+      if (attr(style, 'type') === 'paragraph' && isDefault) this.defaultParagraphStyle = id
+    }
+  }
+
+  private loadNumbering(xml: Document | null) {
+    if (!xml) return
+    const abstract = new Map<string, string[]>()
+    for (const definition of Array.from(xml.getElementsByTagNameNS(W_NS, 'abstractNum'))) {
+      const formats: string[] = []
+      for (const level of Array.from(definition.getElementsByTagNameNS(W_NS, 'lvl'))) {
+        formats[Number(attr(level, 'ilvl')) || 0] = attr(child(level, 'numFmt'), 'val') || 'decimal'
+      }
+      abstract.set(attr(definition, 'abstractNumId') || '', formats)
+    }
+    for (const num of Array.from(xml.getElementsByTagNameNS(W_NS, 'num'))) {
+      const abstractId = attr(child(num, 'abstractNumId'), 'val') || ''
+      this.numberingFormats.set(attr(num, 'numId') || '', abstract.get(abstractId) || [])
+    }
+  }
+
+  // Walks basedOn chains, nearest definition winning
+  private styleChain(id: string | null | undefined) {
+    const chain: StyleInfo[] = []
+    const seen = new Set<string>()
+    while (id && !seen.has(id)) {
+      seen.add(id)
+      const style = this.styles.get(id)
+      if (!style) break
+      chain.push(style)
+      id = style.basedOn
+    }
+    return chain
+  }
+
+  // The default paragraph style ("Normal") plays the role of the editor's
+  // own defaults, so its font and size aren't copied onto every run
+  private styleMarks(id: string | null | undefined) {
+    const defaults = this.defaultParagraphStyle ? this.styles.get(this.defaultParagraphStyle) : undefined
+    return this.styleChain(id)
+      .filter(style => style !== defaults)
+      .reduceRight<Marks>((marks, style) => ({ ...marks, ...style.marks }), {})
+  }
+
+  private section(sectPr: Element) {
+    if (child(sectPr, 'headerReference') || child(sectPr, 'footerReference')) this.report('Headers and footers')
+    if (Number(attr(child(sectPr, 'cols'), 'num')) > 1) this.report('Multiple columns')
+  }
+
+  blocks(container: Element): BlockNode[] {
+    const blocks: BlockNode[] = []
+    const lists: { list: ListNode; position: ListPosition }[] = []
+
+    const addListItem = (position: ListPosition, block: BlockNode) => {
+      while (lists.length > 0 && lists[lists.length - 1].position.level > position.level) lists.pop()
+      let top = lists[lists.length - 1]
+      if (top && top.position.level === position.level &&
+        (top.position.ordered !== position.ordered || top.position.numId !== position.numId)) {
+        lists.pop()
+        top = lists[lists.length - 1]
+      }
+      if (!top || top.position.level < position.level) {
+        const list: ListNode = { type: 'list', ordered: position.ordered, items: [] }
+        if (top) {
+          const items = top.list.items
+          if (items.length === 0) items.push({ type: 'listItem', children: [] })
+          items[items.length - 1].children.push(list)
+        } else {
+          blocks.push(list)
+        }
+        top = { list, position }
+        lists.push(top)
+      }
+      top.list.items.push(listItem(block))
+    }
+
+    for (const element of Array.from(container.children)) {
+      if (element.namespaceURI !== W_NS) continue
+      switch (element.localName) {
+        case 'p': {
+          const paragraph = this.paragraph(element)
+          if (paragraph.pageBreak) {
+            lists.length = 0
+            if (paragraph.pageBreak === 'before') blocks.push({ type: 'pageBreak' })
+            // Word often gives a page break a paragraph of its own
+            if (isEmptyBlock(paragraph.block)) {
+              if (paragraph.pageBreak === 'after') blocks.push({ type: 'pageBreak' })
+              break
+            }
+          }
+          if (paragraph.list) {
+            addListItem(paragraph.list, paragraph.block)
+          } else {
+            lists.length = 0
+            blocks.push(paragraph.block)
+          }
+          if (paragraph.pageBreak === 'after') blocks.push({ type: 'pageBreak' })
+          break
+        }
+        case 'tbl':
+          lists.length = 0
+          blocks.push(this.table(element))
+          break
+        case 'sdt': {
+          // Content controls: keep what's inside
+          const content = child(element, 'sdtContent')
+          if (content) {
+            lists.length = 0
+            blocks.push(...this.blocks(content))
+          }
+          break
+        }
+        case 'customXml':
+          lists.length = 0
+          blocks.push(...this.blocks(element))
+          break
+        case 'sectPr':
+          this.section(element)
+          break
+      }
+    }
+    return blocks
+  }
+
+  private paragraph(element: Element): { block: BlockNode; list?: ListPosition; pageBreak?: 'before' | 'after' } {
+    const pPr = child(element, 'pPr')
+    this.pageBreak = toggle(pPr && child(pPr, 'pageBreakBefore')) ? 'before' : null
+    const styleId = attr(pPr && child(pPr, 'pStyle'), 'val') || this.defaultParagraphStyle
+    const chain = this.styleChain(styleId)
+    const headingLevel = chain.find(style => style.headingLevel)?.headingLevel
+    const baseMarks = headingLevel ? {} : this.styleMarks(styleId)
+    // Word splits runs freely (spell check, revision ids); merge them back
+    const children = tidyInlines(this.inlines(element, baseMarks))
+    const align = readAlignment(pPr)
+
+    // Section breaks inside the document hang off a paragraph
+    const sectPr = pPr && child(pPr, 'sectPr')
+    if (sectPr) this.section(sectPr)
+
+    const block: BlockNode = headingLevel
+      ? { type: 'heading', level: headingLevel, ...(align ? { align } : {}), children }
+      : { type: 'paragraph', ...(align ? { align } : {}), children }
+
+    // Direct numbering wins over numbering inherited from the style
+    const numPr = pPr && child(pPr, 'numPr')
+    const numbering = numPr
+      ? { numId: attr(child(numPr, 'numId'), 'val') || '', level: Number(attr(child(numPr, 'ilvl'), 'val')) || 0 }
+      : chain.find(style => style.numbering)?.numbering
+    // numId 0 explicitly switches numbering off
+    const pageBreak = this.pageBreak || undefined
+    if (!numbering || !numbering.numId || numbering.numId === '0') return { block, pageBreak }
+    const formats = this.numberingFormats.get(numbering.numId) || []
+    const format = formats[numbering.level] || 'bullet'
+    if (format === 'none') return { block, pageBreak }
+    return { block, list: { ...numbering, ordered: format !== 'bullet' }, pageBreak }
+  }
+
+  private inlines(parent: Element, marks: Marks, out: InlineNode[] = []): InlineNode[] {
+    for (const element of Array.from(parent.children)) {
+      if (element.namespaceURI === MC_NS && element.localName === 'AlternateContent') {
+        const choice = child(element, 'Choice', MC_NS) || child(element, 'Fallback', MC_NS)
+        if (choice) this.inlines(choice, marks, out)
+        continue
+      }
+      if (element.namespaceURI !== W_NS) continue
+      switch (element.localName) {
+        case 'r':
+          this.run(element, marks, out)
+          break
+        case 'hyperlink': {
+          const id = attr(element, 'id', R_NS)
+          const anchor = attr(element, 'anchor')
+          const target = id ? this.relationships.get(id)?.target : anchor ? `#${anchor}` : undefined
+          const link = sanitizeUrl(target || null)
+          // Word's Hyperlink character style only paints the link blue; the editor does that itself
+          const linkMarks: Marks = link ? { ...marks, link } : marks
+          const start = out.length
+          this.inlines(element, linkMarks, out)
+          if (link) {
+            for (let i = start; i < out.length; i++) {
+              const node = out[i]
+              if (node.type === 'text' && node.marks) {
+                delete node.marks.color
+                delete node.marks.underline
+              }
+            }
+          }
+          break
+        }
+        case 'ins':
+        case 'moveTo':
+        case 'smartTag':
+        case 'fldSimple':
+        case 'customXml':
+          this.inlines(element, marks, out)
+          break
+        case 'sdt': {
+          const content = child(element, 'sdtContent')
+          if (content) this.inlines(content, marks, out)
+          break
+        }
+        case 'del':
+        case 'moveFrom':
+          this.report('Tracked changes (accepted on import)')
+          break
+        case 'commentRangeStart':
+          this.report('Comments')
+          break
+        case 'oMath':
+        case 'oMathPara':
+          this.report('Equations')
+          break
+      }
+    }
+    return out
+  }
+
+  private run(run: Element, inherited: Marks, out: InlineNode[]) {
+    const rPr = child(run, 'rPr')
+    const charStyle = attr(rPr && child(rPr, 'rStyle'), 'val')
+    const marks = compactMarks(readMarks(rPr, { ...inherited, ...this.styleMarks(charStyle) }))
+    const pushText = (text: string) => {
+      if (text) out.push({ type: 'text', text, ...(marks ? { marks: { ...marks } } : {}) })
+    }
+
+    for (const element of Array.from(run.children)) {
+      if (element.namespaceURI === MC_NS && element.localName === 'AlternateContent') {
+        const choice = child(element, 'Choice', MC_NS) || child(element, 'Fallback', MC_NS)
+        if (choice) this.run(choice, inherited, out)
+        continue
+      }
+      if (element.namespaceURI !== W_NS) continue
+      switch (element.localName) {
+        case 't':
+          pushText(element.textContent || '')
+          break
+        case 'tab':
+        case 'ptab':
+          pushText('\t')
+          break
+        case 'noBreakHyphen':
+          pushText('‑')
+          break
+        case 'sym': {
+          const code = parseInt(attr(element, 'char') || '', 16)
+          if (code) pushText(String.fromCharCode(code > 0xf000 ? code - 0xf000 : code))
+          break
+        }
+        case 'br':
+        case 'cr':
+          if (attr(element, 'type') === 'page') this.pageBreak = this.pageBreak || (out.length === 0 ? 'before' : 'after')
+          else if (attr(element, 'type') === 'column') this.report('Column breaks')
+          else out.push({ type: 'hardBreak' })
+          break
+        case 'lastRenderedPageBreak':
+          break
+        case 'drawing':
+          this.drawing(element, out)
+          break
+        case 'pict':
+          this.picture(element, out)
+          break
+        case 'object':
+          this.report('Embedded objects')
+          break
+        case 'footnoteReference':
+          this.report('Footnotes')
+          break
+        case 'endnoteReference':
+          this.report('Endnotes')
+          break
+        case 'commentReference':
+          break
+      }
+    }
+  }
+
+  private image(relId: string | null, alt: string, width?: number, height?: number): InlineNode | null {
+    const rel = relId ? this.relationships.get(relId) : undefined
+    if (!rel || rel.external) {
+      this.report('Linked images')
+      return null
+    }
+    const data = this.files.get(rel.target)
+    const extension = rel.target.split('.').pop()?.toLowerCase() || ''
+    const type = IMAGE_TYPES[extension]
+    if (!data || !type) {
+      this.report(`Images in ${extension.toUpperCase() || 'unknown'} format`)
+      return null
+    }
+    return {
+      type: 'image',
+      src: `data:${type};base64,${toBase64(data)}`,
+      ...(alt ? { alt } : {}),
+      ...(width ? { width } : {}),
+      ...(height ? { height } : {})
+    }
+  }
+
+  private drawing(drawing: Element, out: InlineNode[]) {
+    const frame = child(drawing, 'inline', WP_NS) || child(drawing, 'anchor', WP_NS)
+    if (!frame) return
+    if (frame.localName === 'anchor') this.report('Floating images and shapes (placed inline)')
+
+    const blip = frame.getElementsByTagNameNS(A_NS, 'blip')[0]
+    if (!blip) {
+      const graphic = frame.getElementsByTagNameNS(A_NS, 'graphicData')[0]
+      const uri = graphic?.getAttribute('uri') || ''
+      if (uri.includes('chart')) this.report('Charts')
+      else if (uri.includes('diagram')) this.report('SmartArt')
+      else if (frame.getElementsByTagNameNS(W_NS, 'txbxContent').length > 0) this.report('Text boxes')
+      else this.report('Shapes')
+      return
+    }
+
+    const extent = child(frame, 'extent', WP_NS)
+    const width = Math.round(Number(extent?.getAttribute('cx')) / EMU_PER_PX) || undefined
+    const height = Math.round(Number(extent?.getAttribute('cy')) / EMU_PER_PX) || undefined
+    const docPr = child(frame, 'docPr', WP_NS)
+    const alt = docPr?.getAttribute('descr') || docPr?.getAttribute('title') || ''
+    const image = this.image(attr(blip, 'embed', R_NS), alt, width, height)
+    if (image) out.push(image)
+  }
+
+  // Legacy VML pictures from older Word versions
+  private picture(pict: Element, out: InlineNode[]) {
+    const imageData = pict.getElementsByTagNameNS(VML_NS, 'imagedata')[0]
+    if (!imageData) {
+      this.report(pict.getElementsByTagNameNS(W_NS, 'txbxContent').length > 0 ? 'Text boxes' : 'Shapes')
+      return
+    }
+    const shape = imageData.parentElement
+    const style = shape?.getAttribute('style') || ''
+    const points = (name: string) => {
+      const match = new RegExp(`${name}:\\s*([\\d.]+)pt`).exec(style)
+      return match ? Math.round(Number(match[1]) * 4 / 3) : undefined
+    }
+    const image = this.image(attr(imageData, 'id', R_NS), shape?.getAttribute('alt') || '', points('width'), points('height'))
+    if (image) out.push(image)
+  }
+
+  private table(element: Element): TableNode {
+    const rows: TableNode['rows'] = []
+    // Column index → the cell a vertical merge started in
+    const merging = new Map<number, TableCellNode>()
+
+    for (const row of Array.from(element.children).filter(el => el.localName === 'tr' && el.namespaceURI === W_NS)) {
+      const trPr = child(row, 'trPr')
+      const header = !!toggle(trPr && child(trPr, 'tblHeader'))
+      const cells: TableCellNode[] = []
+      let column = 0
+
+      for (const tc of Array.from(row.children).filter(el => el.localName === 'tc' && el.namespaceURI === W_NS)) {
+        const tcPr = child(tc, 'tcPr')
+        const colspan = Number(attr(tcPr && child(tcPr, 'gridSpan'), 'val')) || 1
+        const vMerge = tcPr && child(tcPr, 'vMerge')
+        const mergeValue = attr(vMerge, 'val')
+
+        if (vMerge && mergeValue !== 'restart' && merging.has(column)) {
+          const origin = merging.get(column)!
+          origin.rowspan = (origin.rowspan || 1) + 1
+          column += colspan
+          continue
+        }
+
+        const children = this.blocks(tc)
+        const cell: TableCellNode = {
+          type: 'tableCell',
+          ...(header ? { header: true } : {}),
+          ...(colspan > 1 ? { colspan } : {}),
+          children: children.length > 0 ? children : [{ type: 'paragraph', children: [] }]
+        }
+        if (vMerge) merging.set(column, cell)
+        else merging.delete(column)
+        cells.push(cell)
+        column += colspan
+      }
+      rows.push({ type: 'tableRow', cells })
+    }
+    return { type: 'table', rows }
+  }
+}
+
+const isEmptyBlock = (block: BlockNode) =>
+  (block.type === 'paragraph' || block.type === 'heading') && block.children.length === 0
+
+export const importDocx = async (file: File): Promise<DocxImport> => {
+  const files = await readZip(file)
+
+  // The main part is named in the package relationships, usually word/document.xml
+  const rootRels = parseXml(files.get('_rels/.rels'))
+  const mainRel = rootRels && Array.from(rootRels.getElementsByTagNameNS(PACKAGE_REL_NS, 'Relationship'))
+    .find(rel => (rel.getAttribute('Type') || '').endsWith('/officeDocument'))
+  const documentPath = resolvePath('', mainRel?.getAttribute('Target') || 'word/document.xml')
+  const xml = parseXml(files.get(documentPath))
+  const body = xml?.getElementsByTagNameNS(W_NS, 'body')[0]
+  if (!body) throw new Error('This file is not a Word document')
+
+  const reader = new DocxReader(files)
+  reader.load(documentPath)
+  const doc: DocumentNode = { type: 'doc', children: reader.blocks(body) }
+
+  return {
+    title: file.name.replace(/\.docx$/i, '').trim() || 'Untitled document',
+    doc,
+    html: normalizeHtml(serializeHtml(doc)),
+    unsupported: reader.unsupported
+  }
+}
@@ -0,0 +1,119 @@
+import { getSelectionOffsets, setSelectionOffsets } from './text-offsets'
+
+// Bring a live DOM subtree in line with new HTML while touching as few
+// nodes as possible, so the caret, IME state and scroll position of the
+// person typing survive changes made by someone else.
+
+const syncAttributes = (target: Element, source: Element) => {
+  for (const { name } of Array.from(target.attributes)) {
+    if (!source.hasAttribute(name)) target.removeAttribute(name)
+  }
+  for (const { name, value } of Array.from(source.attributes)) {
+    if (target.getAttribute(name) !== value) target.setAttribute(name, value)
+  }
+}
+
+const canPatch = (target: Node, source: Node) => {
+  if (target.nodeType !== source.nodeType) return false
+  if (target.nodeType === Node.ELEMENT_NODE) {
+    return (target as Element).tagName === (source as Element).tagName
+  }
+  return true
+}
+
+const patchNode = (target: Node, source: Node) => {
+  if (target.nodeType === Node.ELEMENT_NODE) {
+    syncAttributes(target as Element, source as Element)
+    patchChildren(target, source)
+  } else if (target.nodeValue !== source.nodeValue) {
+    target.nodeValue = source.nodeValue
+  }
+}
+
+export const patchChildren = (target: Node, source: Node) => {
+  const current = Array.from(target.childNodes)
+  const next = Array.from(source.childNodes)
+
+  // Unchanged runs at either end stay exactly as they are
+  let start = 0
+  while (start < current.length && start < next.length && current[start].isEqualNode(next[start])) {
+    start++
+  }
+  let end = 0
+  while (
+    end < current.length - start &&
+    end < next.length - start &&
+    current[current.length - 1 - end].isEqualNode(next[next.length - 1 - end])
+  ) {
+    end++
+  }
+
+  const oldMiddle = current.slice(start, current.length - end)
+  const newMiddle = next.slice(start, next.length - end)
+  const anchor = current[current.length - end] || null
+
+  newMiddle.forEach((node, index) => {
+    const existing = oldMiddle[index]
+    if (existing && canPatch(existing, node)) {
+      patchNode(existing, node)
+    } else if (existing) {
+      target.replaceChild(node.cloneNode(true), existing)
+    } else {
+      target.insertBefore(node.cloneNode(true), anchor)
+    }
+  })
+
+  for (const node of oldMiddle.slice(newMiddle.length)) {
+    target.removeChild(node)
+  }
+}
+
+export const patchHtml = (target: HTMLElement, html: string) => {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  patchChildren(target, template.content)
+}
+
+// Where an offset into the old text lands in the new one, which is the old
+// text with some characters left out
+const shiftOffset = (offset: number, before: string, after: string) => {
+  let kept = 0
+  for (let i = 0; i < offset && kept < after.length; i++) {
+    if (before[i] === after[kept]) kept++
+  }
+  return kept
+}
+
+// Normalizing can drop text the browser left in the editor; when it has,
+// the editor takes the normalized HTML and the caret stays on its character
+export const patchDroppedText = (editor: HTMLElement, html: string) => {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  const before = editor.textContent || ''
+  const after = template.content.textContent || ''
+  if (before === after) return false
+  const offsets = getSelectionOffsets(editor)
+  patchChildren(editor, template.content)
+  if (offsets) {
+    setSelectionOffsets(editor, shiftOffset(offsets.anchor, before, after), shiftOffset(offsets.focus, before, after))
+  }
+  return true
+}
+
+// An edit made on the editor DOM directly, which the browser's undo history
+// knows nothing about. It records the HTML on both sides, so undoing right
+// after puts things back in one step.
+export interface DomEdit {
+  before: string
+  after: string
+  // Text offset of the caret before the edit
+  caret: number
+}
+
+// Reverts the edit if nothing has changed since
+export const revertDomEdit = (editor: HTMLElement, edit: DomEdit) => {
+  if (editor.innerHTML !== edit.after) return false
+  patchHtml(editor, edit.before)
+  setSelectionOffsets(editor, edit.caret, edit.caret)
+  return true
+}
@@ -0,0 +1,67 @@
+import { parseHtml, serializeHtml } from './document-html'
+import { documentText } from './document-model'
+
+// Client-side exports of the current document. Each format builds a Blob
+// from the stored (canonical) HTML and hands it to the browser.
+
+export const fileNameFor = (title: string, extension: string) => {
+  const base = title.trim().replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim() || 'Untitled document'
+  return `${base}.${extension}`
+}
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+export const exportHtml = (title: string, html: string) => {
+  const body = serializeHtml(parseHtml(html))
+  const page = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+  return new Blob([page], { type: 'text/html;charset=utf-8' })
+}
+
+export const exportText = (html: string) =>
+  new Blob([documentText(parseHtml(html))], { type: 'text/plain;charset=utf-8' })
+
+// Prints a PDF through the browser's own viewer in a hidden frame
+export const printBlob = (blob: Blob) => {
+  const url = URL.createObjectURL(blob)
+  const frame = document.createElement('iframe')
+  frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0'
+  frame.src = url
+  frame.onload = () => {
+    try {
+      frame.contentWindow?.focus()
+      frame.contentWindow?.print()
+    } catch {
+      // Some viewers can't be scripted; printing from a tab still works there
+      window.open(url, '_blank')
+    }
+    // The print dialog keeps the frame busy; clean up well after it closes
+    setTimeout(() => {
+      frame.remove()
+      URL.revokeObjectURL(url)
+    }, 60000)
+  }
+  document.body.appendChild(frame)
+}
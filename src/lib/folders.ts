@@ -0,0 +1,140 @@
+import { blink } from '../blink/client'
+import { retryWithBackoff } from './retry'
+import { grantedByEmail, type AccessGrant, type AccessSubject, type FolderGrant, type Permission } from './permissions'
+
+// Nested folders. A document points at its folder through documents.folderId
+// and a folder at its parent through folders.parentId; null means the root.
+
+export interface Folder {
+  id: string
+  name: string
+  parentId: string | null
+  userId: string
+  createdAt: string
+  updatedAt?: string
+}
+
+// Guards against corrupt parent links forming a cycle
+const MAX_DEPTH = 32
+
+export const folderPath = (folderId: string) => `/f/${encodeURIComponent(folderId)}`
+
+export const getFolder = async (folderId: string): Promise<Folder | null> => {
+  const result = await retryWithBackoff(async () => {
+    return await blink.db.folders.list({
+      where: { id: folderId },
+      limit: 1
+    })
+  })
+  return result[0] || null
+}
+
+// The folder and its ancestors, root first
+export const loadFolderChain = async (folderId: string | null | undefined) => {
+  const chain: Folder[] = []
+  let nextId = folderId
+  while (nextId && chain.length < MAX_DEPTH && !chain.some(folder => folder.id === nextId)) {
+    const folder = await getFolder(nextId)
+    if (!folder) break
+    chain.unshift(folder)
+    nextId = folder.parentId
+  }
+  return chain
+}
+
+// Everyone's root is their own; below that a folder lists all its children
+export const listChildFolders = async (parentId: string | null, userId: string): Promise<Folder[]> => {
+  return await retryWithBackoff(async () => {
+    return await blink.db.folders.list({
+      where: parentId ? { parentId } : { parentId: { is: null }, userId },
+      orderBy: { name: 'asc' }
+    })
+  })
+}
+
+export const listSharedFolders = async (user: { id: string; email?: string | null }): Promise<Folder[]> => {
+  const grants: FolderGrant[] = await retryWithBackoff(async () => {
+    return await blink.db.folderCollaborators.list({
+      where: { userId: { in: [user.id, user.email?.toLowerCase()].filter(Boolean) } }
+    })
+  })
+  const folderIds = [...new Set(grants.map(grant => grant.folderId))]
+  if (folderIds.length === 0) return []
+
+  const folders: Folder[] = await retryWithBackoff(async () => {
+    return await blink.db.folders.list({
+      where: { id: { in: folderIds } },
+      orderBy: { name: 'asc' }
+    })
+  })
+  return folders.filter(folder => folder.userId !== user.id)
+}
+
+export const createFolder = async (userId: string, name: string, parentId: string | null) => {
+  const now = new Date().toISOString()
+  const folder: Folder = {
+    id: `folder-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim() || 'Untitled folder',
+    parentId,
+    userId,
+    createdAt: now,
+    updatedAt: now
+  }
+  await retryWithBackoff(async () => {
+    return await blink.db.folders.create(folder)
+  })
+  return folder
+}
+
+export const moveDocument = async (documentId: string, folderId: string | null) => {
+  await retryWithBackoff(async () => {
+    return await blink.db.documents.update(documentId, {
+      folderId,
+      updatedAt: new Date()
+    })
+  })
+}
+
+export const listFolderGrants = async (folderIds: string[]): Promise<FolderGrant[]> => {
+  if (folderIds.length === 0) return []
+  return await retryWithBackoff(async () => {
+    return await blink.db.folderCollaborators.list({
+      where: { folderId: { in: folderIds } }
+    })
+  })
+}
+
+export const shareFolder = async (folderId: string, userId: string, permission: Permission) => {
+  const existing = await listFolderGrants([folderId])
+  const match = existing.find(grant => grant.userId === userId)
+  if (match) {
+    await retryWithBackoff(async () => {
+      return await blink.db.folderCollaborators.update(match.id, { permission })
+    })
+    return { ...match, permission }
+  }
+
+  const grant: FolderGrant = { id: `folder-collab-${Date.now()}`, folderId, userId, permission }
+  await retryWithBackoff(async () => {
+    return await blink.db.folderCollaborators.create(grant)
+  })
+  return grant
+}
+
+// Moves grants made to the user's email onto their user id, the only identity
+// other sessions can check their edits against
+export const claimFolderGrants = async (grants: FolderGrant[], user: AccessSubject) => {
+  await Promise.all(grants.filter(grant => grantedByEmail(grant, user)).map(grant => retryWithBackoff(async () => {
+    return await blink.db.folderCollaborators.update(grant.id, { userId: user.id })
+  })))
+}
+
+// Documents inherit every grant on the folders above them; whoever owns one
+// of those folders can edit everything inside it
+export const inheritedGrants = async (chain: Folder[]): Promise<AccessGrant[]> => {
+  const grants = await listFolderGrants(chain.map(folder => folder.id))
+  return [
+    ...chain.map(folder => ({ userId: folder.userId, permission: 'edit' as const })),
+    ...grants
+  ]
+}
@@ -0,0 +1,86 @@
+import { blink } from '../blink/client'
+import { retryWithBackoff } from './retry'
+import { parseHtml, serializeInlines } from './document-html'
+import type { ImageNode } from './document-model'
+
+// Images in documents. Files go to blink storage and the document only
+// holds their URL, so syncing an image costs one tag, not the whole file.
+// In the editor an image is an <img>, wrapped in a <span data-image> frame
+// once it has a placement or caption (see document-html.ts).
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+// New images start no wider than the text column of a Letter page
+const MAX_INITIAL_WIDTH = 624
+const MIN_IMAGE_WIDTH = 24
+
+export const imageFiles = (data: DataTransfer | null) =>
+  Array.from(data?.files || []).filter(file => IMAGE_TYPES.includes(file.type))
+
+// A message for files we won't upload, or null
+export const imageFileProblem = (file: File) => {
+  if (!IMAGE_TYPES.includes(file.type)) return 'Choose a PNG, JPEG, GIF or WebP image'
+  if (file.size > MAX_IMAGE_BYTES) return 'Images must be 10 MB or smaller'
+  return null
+}
+
+export const uploadImage = async (file: File, documentId: string): Promise<string> => {
+  const extension = file.type.split('/')[1].replace('jpeg', 'jpg')
+  const path = `documents/${documentId}/images/${crypto.randomUUID()}.${extension}`
+  const { publicUrl } = await retryWithBackoff(() => blink.storage.upload(file, path))
+  return publicUrl
+}
+
+// Natural size of an image file, scaled down to fit the page
+export const initialImageSize = (file: File) => new Promise<{ width: number; height: number }>((resolve, reject) => {
+  const url = URL.createObjectURL(file)
+  const image = new Image()
+  image.onload = () => {
+    URL.revokeObjectURL(url)
+    const scale = Math.min(1, MAX_INITIAL_WIDTH / image.naturalWidth)
+    resolve({ width: Math.round(image.naturalWidth * scale), height: Math.round(image.naturalHeight * scale) })
+  }
+  image.onerror = () => {
+    URL.revokeObjectURL(url)
+    reject(new Error('This file is not an image the browser can show'))
+  }
+  image.src = url
+})
+
+// The element that stands for an image in the text: its frame if it has one
+export const imageElement = (image: HTMLImageElement): HTMLElement =>
+  image.parentElement?.hasAttribute('data-image') ? image.parentElement : image
+
+// The image a selection covers exactly, as when one has been clicked
+export const selectedImage = (range: Range) => {
+  if (range.startContainer !== range.endContainer || range.endOffset - range.startOffset !== 1) return null
+  const node = range.startContainer.childNodes[range.startOffset]
+  if (node instanceof HTMLImageElement) return node
+  return node instanceof HTMLElement && node.hasAttribute('data-image') ? node.querySelector('img') : null
+}
+
+export const readImage = (image: HTMLImageElement): ImageNode | null => {
+  const block = parseHtml(imageElement(image).outerHTML).children[0]
+  const node = block?.type === 'paragraph' ? block.children.find(child => child.type === 'image') : undefined
+  return node?.type === 'image' ? node : null
+}
+
+// Swaps the image for one with the changes applied and returns the new <img>.
+// A link around the image is left where it is.
+export const updateImage = (image: HTMLImageElement, changes: Partial<ImageNode>) => {
+  const current = readImage(image)
+  if (!current) return image
+  const template = document.createElement('template')
+  template.innerHTML = serializeInlines([{ ...current, ...changes, link: undefined }])
+  const replacement = template.content.firstElementChild as HTMLElement
+  imageElement(image).replaceWith(replacement)
+  return replacement instanceof HTMLImageElement ? replacement : replacement.querySelector('img')!
+}
+
+// Resizing keeps the image's proportions
+export const resizeImage = (image: HTMLImageElement, width: number, maxWidth: number) => {
+  const ratio = (image.naturalHeight || image.height) / (image.naturalWidth || image.width) || 1
+  const next = Math.round(Math.max(MIN_IMAGE_WIDTH, Math.min(maxWidth, width)))
+  image.setAttribute('width', String(next))
+  image.setAttribute('height', String(Math.round(next * ratio)))
+}
@@ -0,0 +1,100 @@
+import { sanitizeUrl } from './document-html'
+import { BLOCK_ID } from './document-model'
+
+// Links in documents. A link to a heading or bookmark in the same document
+// is "#<id>" (see BLOCK_ID); a link to another document in the workspace is
+// its relative path, "/d/<id>", so it keeps working wherever the app is
+// served and can be shown as a chip with the document's title. The title
+// is only ever shown on the page (see showDocumentTitles), never written
+// into the text, since not everyone who reads it may open that document.
+
+export interface LinkTarget {
+  kind: 'heading' | 'bookmark'
+  element: HTMLElement
+  label: string
+  // Heading level, for indenting the outline
+  level?: number
+}
+
+// URLs as people type them: "example.com", "www.example.com", "me@example.com"
+export const normalizeLink = (value: string) => {
+  const url = value.trim()
+  if (!url) return undefined
+  if (/^[^\s@/:]+@[^\s@/]+\.[a-z]{2,}$/i.test(url)) return `mailto:${url}`
+  if (/^[\w-]+(\.[\w-]+)+(:\d+)?([/?#]|$)/.test(url) && !/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) return sanitizeUrl(`https://${url}`)
+  try {
+    const parsed = new URL(url)
+    if (parsed.origin === window.location.origin && linkedDocumentId(parsed.pathname)) {
+      return parsed.pathname + parsed.search + parsed.hash
+    }
+  } catch {
+    // Not an absolute URL
+  }
+  return sanitizeUrl(url)
+}
+
+// The document a "/d/<id>" link points at, or null
+export const linkedDocumentId = (href: string) => {
+  const match = /^\/d\/([^/?#]+)\/?(?:[?#]|$)/.exec(href)
+  return match ? decodeURIComponent(match[1]) : null
+}
+
+// Links whose text is still the document's address rather than words
+const addressLinks = (root: HTMLElement) =>
+  Array.from(root.querySelectorAll<HTMLAnchorElement>('a[href^="/d/"]'))
+    .filter(link => /^(https?:\/\/|www\.)/.test(link.textContent || ''))
+
+export const addressedDocumentIds = (root: HTMLElement) =>
+  [...new Set(addressLinks(root).map(link => linkedDocumentId(link.getAttribute('href') || '')))]
+    .filter((id): id is string => !!id)
+
+// Shows those links as the titles of the documents they point at, for the
+// documents in titles. data-title isn't part of the document model, so it
+// is never saved or synced.
+export const showDocumentTitles = (root: HTMLElement, titles: Map<string, string>) => {
+  const titled = new Set<HTMLAnchorElement>()
+  for (const link of addressLinks(root)) {
+    const title = titles.get(linkedDocumentId(link.getAttribute('href') || '') || '')
+    if (title === undefined) continue
+    titled.add(link)
+    if (link.getAttribute('data-title') !== title) link.setAttribute('data-title', title)
+    // The address is hidden at zero size; the title takes the size it would have had
+    const sized = link.querySelector<HTMLElement>('[style*="font-size"]')
+    link.style.setProperty('--chip-font-size', sized?.style.fontSize || getComputedStyle(link.parentElement || root).fontSize)
+  }
+  root.querySelectorAll<HTMLAnchorElement>('a[data-title]').forEach((link) => {
+    if (titled.has(link)) return
+    link.removeAttribute('data-title')
+    link.style.removeProperty('--chip-font-size')
+  })
+}
+
+export const newBlockId = (kind: 'h' | 'bookmark') =>
+  `${kind}-${crypto.randomUUID().replace(/-/g, '').slice(0, 10)}`
+
+const targetLabel = (element: HTMLElement) => {
+  const text = (element.textContent || '').replace(/\s+/g, ' ').trim()
+  return text.length > 60 ? `${text.slice(0, 59)}…` : text || 'Untitled'
+}
+
+// Headings and bookmarks in document order
+export const linkTargets = (editor: HTMLElement): LinkTarget[] =>
+  Array.from(editor.querySelectorAll<HTMLElement>('h1, h2, h3, h4, h5, h6, p[id^="bookmark-"]'))
+    .filter(element => element.tagName !== 'P' || BLOCK_ID.test(element.id))
+    .filter(element => element.tagName === 'P' || element.textContent?.trim())
+    .map(element => element.tagName === 'P'
+      ? { kind: 'bookmark', element, label: targetLabel(element) }
+      : { kind: 'heading', element, label: targetLabel(element), level: Number(element.tagName[1]) })
+
+// The "#<id>" to link to a target, giving a heading its id the first time
+export const targetHref = (target: LinkTarget) => {
+  if (!BLOCK_ID.test(target.element.id)) target.element.id = newBlockId('h')
+  return `#${target.element.id}`
+}
+
+// The heading or bookmark an in-document link points at
+export const findTarget = (editor: HTMLElement, href: string) => {
+  const id = href.startsWith('#') ? href.slice(1) : ''
+  if (!BLOCK_ID.test(id)) return null
+  return linkTargets(editor).find(target => target.element.id === id) || null
+}
@@ -0,0 +1,1163 @@
+import { normalizeHtml, parseHtml, sanitizeUrl, serializeHtml, serializeInlines } from './document-html'
+import {
+  sameMarks,
+  type Alignment,
+  type BlockNode,
+  type DocumentNode,
+  type ImageNode,
+  type InlineNode,
+  type ListItemNode,
+  type Marks,
+  type TableCellNode,
+  type TableNode
+} from './document-model'
+
+// CommonMark with the GitHub extensions (tables, task lists, strikethrough
+// and bare-URL autolinks) to and from the document model. Soft line breaks
+// are kept in the text, so wrapped paragraphs come back wrapped the same way;
+// likewise the delimiters, bullets, underlined headings and indented code a
+// file used are kept on the model (scripts/check-markdown.mjs checks this).
+// Marks Markdown has no syntax for are written as the inline HTML GitHub
+// renders (<u>, <sub>, <sup>, <mark>); colours and fonts are dropped.
+
+export interface MarkdownImport {
+  title: string
+  html: string
+}
+
+// ---- Parsing: blocks ----
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)[ \t]*(.*?)(?:[ \t]+#+)?[ \t]*$/
+const FENCE = /^( {0,3})(`{3,}(?=[^`]*$)|~{3,})[ \t]*(.*?)[ \t]*$/
+const THEMATIC_BREAK = /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/
+const BLOCKQUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])( +|$)(.*)$/
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/
+const REFERENCE_DEFINITION = /^ {0,3}\[((?:[^\]\\]|\\.)+)\]:[ \t]*(<[^>\n]*>|\S+)(?:[ \t]+(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^)\\]|\\.)*\)))?[ \t]*$/
+const TASK_MARKER = /^\[([ xX])\](?:[ \t]+|$)/
+// HTML blocks that may interrupt a paragraph (CommonMark types 1-6)
+const HTML_BLOCK = /^ {0,3}<(?:!--|\/?(?:address|article|aside|blockquote|center|details|dialog|div|dl|figcaption|figure|footer|h[1-6]|header|hr|li|main|nav|ol|p|picture|pre|script|section|style|summary|table|tbody|td|textarea|th|thead|tr|ul)(?=[\s/>]|$))/i
+// A lone complete tag on its own line (type 7), e.g. a centred logo
+const HTML_LINE = /^ {0,3}<\/?[a-zA-Z][\w-]*(?:\s[^<>]*)?\/?>(?:\s*<\/?[a-zA-Z][^<>]*>)*[ \t]*$/
+const HTML_RAW_END: Record<string, RegExp> = {
+  '!--': /-->/,
+  pre: /<\/pre>/i,
+  script: /<\/script>/i,
+  style: /<\/style>/i,
+  textarea: /<\/textarea>/i
+}
+const PAGE_BREAK_HTML = /^<div style="page-break-(?:after|before): ?always;?"><\/div>$/
+
+const isBlank = (line: string) => /^[ \t]*$/.test(line)
+
+const indentOf = (line: string) => /^ */.exec(line)![0].length
+
+// Tabs only matter in indentation, where they advance to the next multiple of four
+const expandTabs = (line: string) => line.replace(/^[ \t]+/, whitespace => {
+  let column = 0
+  for (const char of whitespace) column = char === '\t' ? column + 4 - (column % 4) : column + 1
+  return ' '.repeat(column)
+})
+
+// Strips up to `count` columns of indentation
+const outdent = (line: string, count: number) => line.slice(Math.min(count, indentOf(line)))
+
+const normalizeLabel = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase()
+
+const splitTableRow = (line: string) => {
+  let row = line.trim()
+  if (row.startsWith('|')) row = row.slice(1)
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1)
+  const cells: string[] = []
+  let cell = ''
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      // An escaped pipe is a literal pipe, even inside code
+      cell += '|'
+      i++
+    } else if (row[i] === '|') {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += row[i]
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+const isTableStart = (lines: string[], index: number) => {
+  const header = lines[index]
+  const delimiter = lines[index + 1]
+  if (!header || delimiter === undefined || !header.includes('|') || !delimiter.includes('|')) return false
+  if (!TABLE_DELIMITER.test(delimiter)) return false
+  return splitTableRow(header).length === splitTableRow(delimiter).length
+}
+
+const listItemAt = (line: string) => {
+  if (THEMATIC_BREAK.test(line)) return null
+  const match = LIST_ITEM.exec(line)
+  if (!match) return null
+  const [, indent, marker, spaces, rest] = match
+  const ordered = /\d/.test(marker[0])
+  // More than four spaces after the marker start indented code inside the item
+  const gap = !rest ? 1 : spaces.length > 4 ? 1 : spaces.length
+  return {
+    ordered,
+    // The bullet character, or the delimiter after the number
+    symbol: marker[marker.length - 1],
+    number: ordered ? parseInt(marker, 10) : 1,
+    indent: indent.length,
+    contentIndent: indent.length + marker.length + gap,
+    content: !rest ? '' : spaces.length > 4 ? spaces.slice(1) + rest : rest
+  }
+}
+
+// Lines that end a paragraph without a blank line in between
+const interruptsParagraph = (line: string) => {
+  if (ATX_HEADING.test(line) || FENCE.test(line) || THEMATIC_BREAK.test(line) || BLOCKQUOTE.test(line) || HTML_BLOCK.test(line)) {
+    return true
+  }
+  const item = listItemAt(line)
+  return !!item && item.content.trim() !== '' && (!item.ordered || item.number === 1)
+}
+
+class MarkdownParser {
+  private references = new Map<string, string>()
+  // Inline content is parsed once every reference definition has been seen
+  private pending: (() => void)[] = []
+
+  parse(markdown: string): DocumentNode {
+    const lines = markdown.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n').map(expandTabs)
+    const children = this.blocks(lines)
+    this.pending.forEach(fill => fill())
+    return { type: 'doc', children }
+  }
+
+  private inlineLater(text: string, target: { children: InlineNode[] }) {
+    this.pending.push(() => {
+      target.children = parseInline(text, this.references)
+    })
+  }
+
+  private paragraph(text: string, align?: Alignment) {
+    const paragraph: BlockNode = { type: 'paragraph', ...(align ? { align } : {}), children: [] }
+    this.inlineLater(text, paragraph)
+    return paragraph
+  }
+
+  private blocks(lines: string[]): BlockNode[] {
+    const blocks: BlockNode[] = []
+    let i = 0
+
+    while (i < lines.length) {
+      const line = lines[i]
+      if (isBlank(line)) {
+        i++
+        continue
+      }
+
+      // Indented code
+      if (indentOf(line) >= 4) {
+        const code: string[] = []
+        while (i < lines.length && (isBlank(lines[i]) || indentOf(lines[i]) >= 4)) code.push(outdent(lines[i++], 4))
+        while (code.length > 0 && isBlank(code[code.length - 1])) code.pop()
+        blocks.push({ type: 'codeBlock', indented: true, text: code.join('\n') })
+        continue
+      }
+
+      const fence = FENCE.exec(line)
+      if (fence) {
+        const [, indent, marker, info] = fence
+        const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`)
+        const code: string[] = []
+        i++
+        while (i < lines.length && !closing.test(lines[i])) code.push(outdent(lines[i++], indent.length))
+        i++
+        const language = unescapeText(info.split(/\s+/)[0] || '')
+        blocks.push({ type: 'codeBlock', ...(language ? { language } : {}), text: code.join('\n') })
+        continue
+      }
+
+      const heading = ATX_HEADING.exec(line)
+      if (heading) {
+        const node: BlockNode = { type: 'heading', level: heading[1].length as 1, children: [] }
+        this.inlineLater(heading[2], node)
+        blocks.push(node)
+        i++
+        continue
+      }
+
+      if (THEMATIC_BREAK.test(line)) {
+        blocks.push({ type: 'horizontalRule' })
+        i++
+        continue
+      }
+
+      if (BLOCKQUOTE.test(line)) {
+        const quoted: string[] = []
+        while (i < lines.length) {
+          if (BLOCKQUOTE.test(lines[i])) {
+            quoted.push(lines[i].replace(BLOCKQUOTE, ''))
+          } else if (!isBlank(lines[i]) && quoted.length > 0 && !isBlank(quoted[quoted.length - 1]) && !interruptsParagraph(lines[i])) {
+            // Lazy continuation of a quoted paragraph
+            quoted.push(lines[i])
+          } else {
+            break
+          }
+          i++
+        }
+        blocks.push({ type: 'blockquote', children: this.blocks(quoted) })
+        continue
+      }
+
+      if (listItemAt(line)) {
+        i = this.list(lines, i, blocks)
+        continue
+      }
+
+      if (HTML_BLOCK.test(line) || HTML_LINE.test(line)) {
+        const tag = /^ {0,3}<\/?(!--|[a-zA-Z]+)/.exec(line)![1].toLowerCase()
+        const end = HTML_RAW_END[tag]
+        const html: string[] = []
+        if (end) {
+          while (i < lines.length) {
+            html.push(lines[i])
+            if (end.test(lines[i++])) break
+          }
+        } else {
+          while (i < lines.length && !isBlank(lines[i])) html.push(lines[i++])
+        }
+        const source = html.join('\n').trim()
+        if (PAGE_BREAK_HTML.test(source)) blocks.push({ type: 'pageBreak' })
+        else blocks.push(...parseHtml(source).children)
+        continue
+      }
+
+      if (isTableStart(lines, i)) {
+        i = this.table(lines, i, blocks)
+        continue
+      }
+
+      // Paragraph, possibly a setext heading or led by reference definitions
+      const text: string[] = []
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (text.length > 0) {
+          const underline = SETEXT_UNDERLINE.exec(lines[i])
+          if (underline) {
+            const node: BlockNode = { type: 'heading', level: underline[1][0] === '=' ? 1 : 2, setext: true, children: [] }
+            this.inlineLater(text.join('\n').trim(), node)
+            blocks.push(node)
+            text.length = 0
+            i++
+            break
+          }
+          if (interruptsParagraph(lines[i]) || isTableStart(lines, i)) break
+        }
+        const definition = text.length === 0 ? REFERENCE_DEFINITION.exec(lines[i]) : null
+        if (definition) {
+          const label = normalizeLabel(definition[1])
+          if (!this.references.has(label)) this.references.set(label, unescapeText(definition[2].replace(/^<|>$/g, '')))
+        } else {
+          text.push(lines[i].trimStart())
+        }
+        i++
+      }
+      if (text.length > 0) blocks.push(this.paragraph(text.join('\n').trimEnd()))
+    }
+
+    return blocks
+  }
+
+  private list(lines: string[], start: number, blocks: BlockNode[]) {
+    const first = listItemAt(lines[start])!
+    const items: ListItemNode[] = []
+    let i = start
+
+    while (i < lines.length) {
+      const item = listItemAt(lines[i])
+      if (!item || item.ordered !== first.ordered || item.symbol !== first.symbol || item.indent >= first.contentIndent) break
+
+      const content = [item.content]
+      i++
+      while (i < lines.length) {
+        const line = lines[i]
+        if (isBlank(line)) {
+          content.push('')
+        } else if (indentOf(line) >= item.contentIndent) {
+          content.push(outdent(line, item.contentIndent))
+        } else if (!isBlank(content[content.length - 1]) && !interruptsParagraph(line) && !listItemAt(line)) {
+          // Lazy continuation of the item's paragraph
+          content.push(line.trimStart())
+        } else {
+          break
+        }
+        i++
+      }
+
+      const task = TASK_MARKER.exec(content[0])
+      if (task) content[0] = content[0].slice(task[0].length)
+      items.push({
+        type: 'listItem',
+        ...(task ? { checked: task[1] !== ' ' } : {}),
+        children: this.blocks(content)
+      })
+    }
+
+    blocks.push({
+      type: 'list',
+      ordered: first.ordered,
+      ...(first.ordered && first.number !== 1 ? { start: first.number } : {}),
+      ...(first.symbol === '*' || first.symbol === '+' ? { bullet: first.symbol } : {}),
+      items
+    })
+    return i
+  }
+
+  private table(lines: string[], start: number, blocks: BlockNode[]) {
+    const alignments = splitTableRow(lines[start + 1]).map((cell): Alignment | undefined => {
+      if (cell.startsWith(':') && cell.endsWith(':')) return 'center'
+      if (cell.endsWith(':')) return 'right'
+      return undefined
+    })
+    const row = (line: string, header: boolean) => {
+      const cells = splitTableRow(line)
+      return {
+        type: 'tableRow' as const,
+        cells: alignments.map((align, column): TableCellNode => ({
+          type: 'tableCell',
+          ...(header ? { header: true } : {}),
+          children: [this.paragraph(cells[column] || '', align)]
+        }))
+      }
+    }
+
+    const table: TableNode = { type: 'table', rows: [row(lines[start], true)] }
+    let i = start + 2
+    while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines[i])) {
+      table.rows.push(row(lines[i], false))
+      i++
+    }
+    blocks.push(table)
+    return i
+  }
+}
+
+// ---- Parsing: inlines ----
+
+type DelimiterToken = { kind: 'delimiter'; char: string; count: number; length: number; open: boolean; close: boolean }
+
+type Token =
+  | { kind: 'text'; text: string }
+  | { kind: 'break' }
+  | { kind: 'code'; text: string }
+  | { kind: 'image'; node: ImageNode }
+  | DelimiterToken
+  // An unresolved "[" or "![", with where its text starts in the source
+  | { kind: 'bracket'; image: boolean; active: boolean; start: number }
+  | { kind: 'html'; tag: string; closing: boolean; marks: Marks }
+  | { kind: 'span'; marks: Marks; children: Token[] }
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/
+const PUNCTUATION = /[!-/:-@[-`{-~\p{P}\p{S}]/u
+const WHITESPACE = /\s/
+
+// Inline HTML tags understood as marks
+const HTML_MARKS: Record<string, Marks> = {
+  b: { bold: true },
+  strong: { bold: true },
+  i: { italic: true },
+  em: { italic: true },
+  u: { underline: true },
+  ins: { underline: true },
+  s: { strike: true },
+  strike: { strike: true },
+  del: { strike: true },
+  code: { code: true },
+  kbd: { code: true },
+  sub: { subscript: true },
+  sup: { superscript: true },
+  mark: { highlight: '#ffff00' }
+}
+
+const decodeEntity = (entity: string) => {
+  const textarea = document.createElement('textarea')
+  textarea.innerHTML = entity
+  return textarea.value
+}
+
+const ENTITY = /^&(?:#[xX][0-9a-fA-F]{1,6}|#\d{1,7}|[a-zA-Z][a-zA-Z0-9]{1,31});/
+
+// Backslash escapes and entities, as allowed in link destinations and info strings
+const unescapeText = (text: string) =>
+  text.replace(/\\([!-/:-@[-`{-~])|&(?:#[xX][0-9a-fA-F]{1,6}|#\d{1,7}|[a-zA-Z][a-zA-Z0-9]{1,31});/g,
+    (match, escaped) => escaped ?? decodeEntity(match))
+
+const attributeOf = (tag: string, name: string) => {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag)
+  return match ? decodeEntity(match[1] ?? match[2] ?? match[3]) : undefined
+}
+
+// "(destination "title")" after a link's closing bracket
+const parseLinkTarget = (text: string, position: number): { destination: string; end: number } | null => {
+  let i = position + 1
+  const skipSpace = () => {
+    while (i < text.length && WHITESPACE.test(text[i])) i++
+  }
+  skipSpace()
+  let destination = ''
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i)
+    if (close < 0 || text.slice(i, close).includes('\n')) return null
+    destination = text.slice(i + 1, close)
+    i = close + 1
+  } else {
+    let depth = 0
+    const startAt = i
+    while (i < text.length && !WHITESPACE.test(text[i])) {
+      if (text[i] === '\\' && ASCII_PUNCTUATION.test(text[i + 1] || '')) i++
+      else if (text[i] === '(') depth++
+      else if (text[i] === ')') {
+        if (depth === 0) break
+        depth--
+      }
+      i++
+    }
+    destination = text.slice(startAt, i)
+  }
+  skipSpace()
+  const quote = text[i]
+  if ((quote === '"' || quote === "'" || quote === '(') && i > position + 1) {
+    const closer = quote === '(' ? ')' : quote
+    i++
+    while (i < text.length && text[i] !== closer) i += text[i] === '\\' ? 2 : 1
+    if (i >= text.length) return null
+    i++
+    skipSpace()
+  }
+  if (text[i] !== ')') return null
+  return { destination: unescapeText(destination), end: i + 1 }
+}
+
+// Matches runs of * _ ~ into emphasis, strong emphasis and strikethrough
+// spans, following the CommonMark delimiter rules
+const processEmphasis = (tokens: Token[]) => {
+  let i = 0
+  while (i < tokens.length) {
+    const closer = tokens[i]
+    if (closer.kind !== 'delimiter' || !closer.close) {
+      i++
+      continue
+    }
+
+    let j = i - 1
+    for (; j >= 0; j--) {
+      const candidate = tokens[j]
+      if (candidate.kind !== 'delimiter' || candidate.char !== closer.char || !candidate.open) continue
+      if (closer.char === '~') {
+        if (candidate.count === closer.count) break
+        continue
+      }
+      // The "rule of three" for runs that can both open and close
+      const both = candidate.close || closer.open
+      if (both && (candidate.length + closer.length) % 3 === 0 && !(candidate.length % 3 === 0 && closer.length % 3 === 0)) continue
+      break
+    }
+    if (j < 0) {
+      i++
+      continue
+    }
+
+    const opener = tokens[j] as DelimiterToken
+    const used = closer.char === '~' ? closer.count : opener.count >= 2 && closer.count >= 2 ? 2 : 1
+    const marks: Marks = closer.char === '~' ? { strike: true }
+      : used === 2 ? { bold: true, ...(closer.char === '_' ? { boldDelimiter: '__' } : {}) }
+      : { italic: true, ...(closer.char === '*' ? { italicDelimiter: '*' } : {}) }
+    tokens.splice(j + 1, i - j - 1, { kind: 'span', marks, children: tokens.slice(j + 1, i) })
+    opener.count -= used
+    closer.count -= used
+    i = j + 2
+    if (opener.count === 0) {
+      tokens.splice(j, 1)
+      i--
+    }
+    if (closer.count === 0) tokens.splice(i, 1)
+  }
+}
+
+const plainText = (tokens: Token[]): string => tokens.map(token => {
+  switch (token.kind) {
+    case 'text':
+    case 'code':
+      return token.text
+    case 'delimiter':
+      return token.char.repeat(token.count)
+    case 'bracket':
+      return token.image ? '![' : '['
+    case 'image':
+      return token.node.alt || ''
+    case 'span':
+      return plainText(token.children)
+    default:
+      return ''
+  }
+}).join('')
+
+const tokenize = (text: string, references: Map<string, string>): Token[] => {
+  const tokens: Token[] = []
+  let buffer = ''
+  // Placement and caption from a <span data-image> frame, for the image inside it
+  let frame: Pick<ImageNode, 'align' | 'caption'> = {}
+  const flush = () => {
+    if (buffer) tokens.push({ kind: 'text', text: buffer })
+    buffer = ''
+  }
+  const push = (token: Token) => {
+    flush()
+    tokens.push(token)
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+    const rest = text.slice(i)
+
+    if (char === '\\') {
+      if (text[i + 1] === '\n') {
+        push({ kind: 'break' })
+        i += 2
+        while (text[i] === ' ') i++
+      } else if (ASCII_PUNCTUATION.test(text[i + 1] || '')) {
+        buffer += text[i + 1]
+        i += 2
+      } else {
+        buffer += char
+        i++
+      }
+      continue
+    }
+
+    if (char === '`') {
+      const run = /^`+/.exec(rest)![0]
+      const pattern = new RegExp(`(?<!\`)${run}(?!\`)`, 'g')
+      pattern.lastIndex = i + run.length
+      const close = pattern.exec(text)
+      if (close) {
+        let code = text.slice(i + run.length, close.index).replace(/\n/g, ' ')
+        if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1)
+        push({ kind: 'code', text: code })
+        i = close.index + run.length
+      } else {
+        buffer += run
+        i += run.length
+      }
+      continue
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const run = new RegExp(`^\\${char}+`).exec(rest)![0]
+      const before = i > 0 ? text[i - 1] : '\n'
+      const after = text[i + run.length] ?? '\n'
+      const leftFlanking = !WHITESPACE.test(after) && (!PUNCTUATION.test(after) || WHITESPACE.test(before) || PUNCTUATION.test(before))
+      const rightFlanking = !WHITESPACE.test(before) && (!PUNCTUATION.test(before) || WHITESPACE.test(after) || PUNCTUATION.test(after))
+      if (char === '~' && run.length > 2) {
+        buffer += run
+      } else {
+        const intraword = char === '_'
+        push({
+          kind: 'delimiter',
+          char,
+          count: run.length,
+          length: run.length,
+          open: leftFlanking && (!intraword || !rightFlanking || PUNCTUATION.test(before)),
+          close: rightFlanking && (!intraword || !leftFlanking || PUNCTUATION.test(after))
+        })
+      }
+      i += run.length
+      continue
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      push({ kind: 'bracket', image: true, active: true, start: i + 2 })
+      i += 2
+      continue
+    }
+    if (char === '[') {
+      push({ kind: 'bracket', image: false, active: true, start: i + 1 })
+      i++
+      continue
+    }
+
+    if (char === ']') {
+      flush()
+      let k = tokens.length - 1
+      while (k >= 0 && tokens[k].kind !== 'bracket') k--
+      const opener = tokens[k] as Extract<Token, { kind: 'bracket' }> | undefined
+      if (!opener) {
+        buffer += char
+        i++
+        continue
+      }
+
+      let destination: string | undefined
+      let end = i + 1
+      if (opener.active) {
+        const inline = text[i + 1] === '(' ? parseLinkTarget(text, i + 1) : null
+        if (inline) {
+          destination = inline.destination
+          end = inline.end
+        } else {
+          // Full, collapsed or shortcut reference
+          const full = /^\[((?:[^\]\\]|\\.)*)\]/.exec(text.slice(i + 1))
+          const label = full && full[1].trim() ? full[1] : text.slice(opener.start, i)
+          destination = references.get(normalizeLabel(label))
+          if (destination !== undefined && full) end = i + 1 + full[0].length
+        }
+      }
+
+      if (destination === undefined) {
+        tokens[k] = { kind: 'text', text: opener.image ? '![' : '[' }
+        buffer += char
+        i++
+        continue
+      }
+
+      const children = tokens.splice(k + 1)
+      tokens.length = k
+      processEmphasis(children)
+      if (opener.image) {
+        const src = sanitizeUrl(destination, 'image')
+        const alt = plainText(children)
+        tokens.push(src ? { kind: 'image', node: { type: 'image', src, ...(alt ? { alt } : {}) } } : { kind: 'text', text: alt })
+      } else {
+        const link = sanitizeUrl(destination)
+        tokens.push(link ? { kind: 'span', marks: { link }, children } : { kind: 'span', marks: {}, children })
+        // Links can't contain other links
+        tokens.forEach(token => {
+          if (token.kind === 'bracket' && !token.image) token.active = false
+        })
+      }
+      i = end
+      continue
+    }
+
+    if (char === '<') {
+      const autolink = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^<>\s]*)>/.exec(rest)
+      const email = /^<([\w.!#$%&'*+/=?^`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/.exec(rest)
+      const comment = /^<!--[\s\S]*?-->/.exec(rest)
+      const breakTag = /^<br\s*\/?>/i.exec(rest)
+      const imageTag = /^<img\b[^>]*>/i.exec(rest)
+      const tag = /^<(\/?)([a-zA-Z][a-zA-Z0-9-]*)(?:\s+[a-zA-Z_:][\w.:-]*(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*(\/?)>/.exec(rest)
+      if (autolink || email) {
+        const target = autolink ? autolink[1] : `mailto:${email![1]}`
+        const link = sanitizeUrl(target)
+        const label = autolink ? autolink[1] : email![1]
+        push(link ? { kind: 'span', marks: { link }, children: [{ kind: 'text', text: label }] } : { kind: 'text', text: label })
+        i += (autolink || email)![0].length
+      } else if (comment) {
+        i += comment[0].length
+      } else if (breakTag) {
+        push({ kind: 'break' })
+        i += breakTag[0].length
+      } else if (imageTag) {
+        const src = sanitizeUrl(attributeOf(imageTag[0], 'src') || null, 'image')
+        if (src) {
+          const alt = attributeOf(imageTag[0], 'alt')
+          const width = Number(attributeOf(imageTag[0], 'width')) || undefined
+          const height = Number(attributeOf(imageTag[0], 'height')) || undefined
+          push({ kind: 'image', node: { type: 'image', src, ...(alt ? { alt } : {}), ...(width ? { width } : {}), ...(height ? { height } : {}), ...frame } })
+        }
+        frame = {}
+        i += imageTag[0].length
+      } else if (tag) {
+        // Formatting tags become marks; <a href> a link; other tags are dropped
+        const name = tag[2].toLowerCase()
+        if (name === 'span' && !tag[1] && /\sdata-image\b/i.test(tag[0])) {
+          const align = attributeOf(tag[0], 'data-align')
+          const caption = attributeOf(tag[0], 'data-caption')?.trim()
+          frame = {
+            ...(align === 'left' || align === 'right' || align === 'break' ? { align } : {}),
+            ...(caption ? { caption } : {})
+          }
+        }
+        const link = name === 'a' && !tag[1] ? sanitizeUrl(attributeOf(tag[0], 'href') || null) : null
+        const marks = link ? { link } : HTML_MARKS[name]
+        if ((marks || name === 'a') && !tag[3]) push({ kind: 'html', tag: name, closing: tag[1] === '/', marks: marks || {} })
+        i += tag[0].length
+      } else {
+        buffer += char
+        i++
+      }
+      continue
+    }
+
+    if (char === '&') {
+      const entity = ENTITY.exec(rest)
+      if (entity) {
+        buffer += decodeEntity(entity[0])
+        i += entity[0].length
+      } else {
+        buffer += char
+        i++
+      }
+      continue
+    }
+
+    if (char === '\n') {
+      // Two trailing spaces make a hard break; otherwise the line break is kept as typed
+      if (/ {2,}$/.test(buffer)) {
+        buffer = buffer.replace(/ +$/, '')
+        push({ kind: 'break' })
+      } else {
+        buffer = buffer.replace(/ +$/, '') + '\n'
+      }
+      i++
+      while (text[i] === ' ') i++
+      continue
+    }
+
+    // Bare URLs (GitHub's extended autolinks)
+    if ((char === 'h' || char === 'w') && (i === 0 || /[\s*_~(]/.test(text[i - 1]))) {
+      const url = /^(?:https?:\/\/|www\.)[\w-]+(?:\.[\w-]+)*[^\s<]*/.exec(rest)
+      if (url && (char === 'h' || url[0].includes('.', 4))) {
+        let target = url[0]
+        for (;;) {
+          const trimmed = target.replace(/[?!.,:*_~'"]+$/, '').replace(/&[a-zA-Z0-9]+;$/, '')
+          const opening = (trimmed.match(/\(/g) || []).length
+          const closing = (trimmed.match(/\)/g) || []).length
+          const balanced = trimmed.endsWith(')') && closing > opening ? trimmed.slice(0, -1) : trimmed
+          if (balanced === target) break
+          target = balanced
+        }
+        const link = sanitizeUrl(char === 'w' ? `http://${target}` : target)
+        if (link && !/^https?:\/\/$/.test(target)) {
+          push({ kind: 'span', marks: { link }, children: [{ kind: 'text', text: target }] })
+          i += target.length
+          continue
+        }
+      }
+    }
+
+    buffer += char
+    i++
+  }
+  flush()
+
+  tokens.forEach((token, index) => {
+    if (token.kind === 'bracket') tokens[index] = { kind: 'text', text: token.image ? '![' : '[' }
+  })
+  processEmphasis(tokens)
+  return tokens
+}
+
+const parseInline = (text: string, references: Map<string, string>): InlineNode[] => {
+  const out: InlineNode[] = []
+  const openTags: { tag: string; marks: Marks }[] = []
+
+  const visit = (tokens: Token[], marks: Marks) => {
+    for (const token of tokens) {
+      const htmlMarks = Object.assign({}, ...openTags.map(open => open.marks)) as Marks
+      const current = { ...marks, ...htmlMarks }
+      const add = (value: string, extra: Marks = {}) => {
+        if (!value) return
+        const nodeMarks = { ...current, ...extra }
+        const previous = out[out.length - 1]
+        if (previous?.type === 'text' && sameMarks(previous.marks, nodeMarks)) {
+          out[out.length - 1] = { ...previous, text: previous.text + value }
+        } else {
+          out.push({ type: 'text', text: value, ...(Object.keys(nodeMarks).length > 0 ? { marks: nodeMarks } : {}) })
+        }
+      }
+      switch (token.kind) {
+        case 'text':
+          add(token.text)
+          break
+        case 'code':
+          add(token.text, { code: true })
+          break
+        case 'delimiter':
+          add(token.char.repeat(token.count))
+          break
+        case 'bracket':
+          add(token.image ? '![' : '[')
+          break
+        case 'break':
+          out.push({ type: 'hardBreak' })
+          break
+        case 'image':
+          out.push(current.link ? { ...token.node, link: current.link } : token.node)
+          break
+        case 'html':
+          if (!token.closing) {
+            openTags.push({ tag: token.tag, marks: token.marks })
+          } else {
+            const index = openTags.map(open => open.tag).lastIndexOf(token.tag)
+            if (index >= 0) openTags.splice(index, 1)
+          }
+          break
+        case 'span':
+          visit(token.children, { ...marks, ...token.marks })
+          break
+      }
+    }
+  }
+
+  visit(tokenize(text, references), {})
+  return out
+}
+
+export const parseMarkdown = (markdown: string): DocumentNode => new MarkdownParser().parse(markdown)
+
+// ---- Serializing ----
+
+// Marks with Markdown or inline HTML syntax, outermost first when they start together
+const MARK_ORDER = ['link', 'bold', 'italic', 'strike', 'underline', 'insertion', 'deletion', 'highlight', 'subscript', 'superscript'] as const
+
+type MarkKey = typeof MARK_ORDER[number]
+
+const HTML_TAGS: Partial<Record<MarkKey, string>> = {
+  underline: 'u',
+  insertion: 'ins',
+  deletion: 'del',
+  highlight: 'mark',
+  subscript: 'sub',
+  superscript: 'sup'
+}
+
+const markKeys = (marks: Marks = {}) => MARK_ORDER
+  .filter(key => marks[key])
+  .map(key => key === 'link' ? `link:${marks.link}` : key)
+
+const isAlphanumeric = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char)
+
+const escapeMarkdownText = (text: string, table: boolean) => {
+  let result = ''
+  const tildes = (text.match(/~/g) || []).length
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    const before = text[i - 1]
+    const after = text[i + 1]
+    let escape = false
+    switch (char) {
+      case '\\':
+        escape = after === undefined || after === '\n' || ASCII_PUNCTUATION.test(after)
+        break
+      case '`':
+        escape = true
+        break
+      case '*':
+        escape = !(before !== undefined && after !== undefined && WHITESPACE.test(before) && WHITESPACE.test(after))
+        break
+      case '_':
+        escape = !(isAlphanumeric(before) && isAlphanumeric(after))
+        break
+      case '~':
+        escape = tildes > 1
+        break
+      case '[':
+        // Could start a link, or a task marker at the start of a list item
+        escape = /\][([]/.test(text.slice(i)) || /^\[[ xX]\]/.test(text.slice(i))
+        break
+      case '<':
+        escape = /[a-zA-Z/!?]/.test(after || '')
+        break
+      case '&':
+        escape = ENTITY.test(text.slice(i))
+        break
+      case '|':
+        escape = table
+        break
+    }
+    result += escape ? `\\${char}` : char
+  }
+  return result
+}
+
+// Characters that would start a block when they begin a line
+const escapeLineStart = (line: string) => {
+  const trimmed = line.trimStart()
+  if (/^(#{1,6}(?=\s|$)|>|[-+*](?=\s|$)|=+\s*$|-+\s*$)/.test(trimmed)) return `\\${trimmed}`
+  return trimmed.replace(/^(\d{1,9})([.)])(?=\s|$)/, '$1\\$2')
+}
+
+const codeSpan = (text: string) => {
+  const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length))
+  const fence = '`'.repeat(longest + 1)
+  // One space is stripped from each side when both have one
+  const padded = /^`|`$|^ .*[^ ].* $/.test(text) ? ` ${text} ` : text
+  return `${fence}${padded}${fence}`
+}
+
+const linkDestination = (url: string) => /[\s<>]|\([^)]*$|^[^(]*\)/.test(url) ? `<${url}>` : url
+
+const imageMarkdown = (node: ImageNode) => {
+  // Sized, placed and captioned images need HTML; Markdown images have only alt text
+  const image = node.width || node.height || node.align || node.caption
+    ? serializeInlines([{ ...node, link: undefined }])
+    : `![${escapeMarkdownText(node.alt || '', false).replace(/]/g, '\\]')}](${linkDestination(node.src)})`
+  return node.link ? `[${image}](${linkDestination(node.link)})` : image
+}
+
+type Piece =
+  | { kind: 'text'; text: string; marks: Marks }
+  | { kind: 'break' }
+  | { kind: 'image'; node: ImageNode }
+
+// Whitespace can't sit just inside emphasis delimiters, so it moves outside
+const toPieces = (children: InlineNode[]): Piece[] => children.flatMap((node): Piece[] => {
+  if (node.type === 'hardBreak') return [{ kind: 'break' }]
+  if (node.type === 'image') return [{ kind: 'image', node }]
+  const marks = node.marks || {}
+  // Links and emphasis around nothing but whitespace can't be written
+  if (!marks.code && !node.text.trim()) return [{ kind: 'text', text: node.text, marks: { ...marks, link: undefined, bold: undefined, italic: undefined, strike: undefined } }]
+  if (marks.code || !(marks.bold || marks.italic || marks.strike)) return [{ kind: 'text', text: node.text, marks }]
+  const [, leading, middle, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(node.text)!
+  const outside = { ...marks, bold: undefined, italic: undefined, strike: undefined }
+  return [
+    ...(leading ? [{ kind: 'text' as const, text: leading, marks: outside }] : []),
+    ...(middle ? [{ kind: 'text' as const, text: middle, marks }] : []),
+    ...(trailing ? [{ kind: 'text' as const, text: trailing, marks: outside }] : [])
+  ]
+})
+
+const inlineMarkdown = (children: InlineNode[], options: { table?: boolean; singleLine?: boolean } = {}) => {
+  const pieces = toPieces(children)
+  // A break at the end of a block would be read back as a literal backslash
+  const trailing = (piece: Piece) => piece.kind === 'break' || (piece.kind === 'text' && !piece.marks.code && !piece.text.trim())
+  while (pieces.length > 0 && trailing(pieces[pieces.length - 1])) pieces.pop()
+
+  const wanted = (index: number, stack: string[]): string[] => {
+    const piece = pieces[index]
+    if (piece.kind === 'text') return markKeys(piece.marks)
+    // Line breaks and images stay inside marks that carry on after them;
+    // images have links of their own
+    const following = index + 1 < pieces.length ? wanted(index + 1, stack) : []
+    return stack.filter(key => following.includes(key) && !(piece.kind === 'image' && key.startsWith('link:')))
+  }
+
+  const stack: { key: string; close: string }[] = []
+  let out = ''
+
+  const closeTo = (depth: number) => {
+    while (stack.length > depth) out += stack.pop()!.close
+  }
+
+  pieces.forEach((piece, index) => {
+    const want = wanted(index, stack.map(entry => entry.key))
+    let keep = 0
+    while (keep < stack.length && want.includes(stack[keep].key)) keep++
+    closeTo(keep)
+
+    // Marks that run longest open first, so they close last
+    const runLength = (key: string) => {
+      let end = index
+      while (end + 1 < pieces.length && wanted(end + 1, [...stack.map(entry => entry.key), key]).includes(key)) end++
+      return end
+    }
+    const opening = want.filter(key => !stack.some(entry => entry.key === key))
+      .map(key => ({ key, end: runLength(key) }))
+      .sort((a, b) => b.end - a.end || (a.key.startsWith('link:') ? -1 : b.key.startsWith('link:') ? 1 : 0))
+
+    for (const { key, end } of opening) {
+      // Underscores don't work inside words
+      const after = pieces[end + 1]
+      const intraword = isAlphanumeric(out[out.length - 1]) || (after?.kind === 'text' && isAlphanumeric(after.text[0]))
+      const marks = piece.kind === 'text' ? piece.marks : {}
+      if (key.startsWith('link:')) {
+        const url = key.slice(5)
+        const next = pieces[index + 1]
+        // A bare URL is linked automatically, so it needs no brackets
+        const bare = end === index && piece.kind === 'text' && piece.text === url && !piece.marks.code &&
+          /^https?:\/\/[^\s<]+$/.test(url) && !/[?!.,:*_~'")]$/.test(url) &&
+          /^[\s*_~(]?$/.test(out.slice(-1)) && (next === undefined || next.kind !== 'text' || /^[?!.,:*_~'"]*(\s|$)/.test(next.text))
+        out += bare ? '' : '['
+        stack.push({ key, close: bare ? '' : `](${linkDestination(url)})` })
+      } else if (key === 'bold') {
+        const delimiter = marks.boldDelimiter === '__' && !intraword ? '__' : '**'
+        out += delimiter
+        stack.push({ key, close: delimiter })
+      } else if (key === 'italic') {
+        const delimiter = intraword ? '*' : marks.italicDelimiter || '_'
+        out += delimiter
+        stack.push({ key, close: delimiter })
+      } else if (key === 'strike') {
+        out += '~~'
+        stack.push({ key, close: '~~' })
+      } else {
+        const tag = HTML_TAGS[key as MarkKey]
+        out += `<${tag}>`
+        stack.push({ key, close: `</${tag}>` })
+      }
+    }
+
+    if (piece.kind === 'break') {
+      out += options.singleLine ? '<br>' : '\\\n'
+    } else if (piece.kind === 'image') {
+      out += imageMarkdown(piece.node)
+    } else {
+      const text = options.singleLine ? piece.text.replace(/\n/g, ' ') : piece.text
+      if (piece.marks.code) {
+        out += codeSpan(options.table ? text.replace(/\|/g, '\\|') : text)
+      } else if (stack.some(entry => entry.key === `link:${text}` && !entry.close)) {
+        out += text
+      } else {
+        out += escapeMarkdownText(text, !!options.table)
+      }
+    }
+  })
+  closeTo(0)
+  return out
+}
+
+// Blank lines would split the paragraph, so whitespace-only lines go
+const paragraphMarkdown = (children: InlineNode[]) => inlineMarkdown(children)
+  .split('\n')
+  .map(line => line.trim())
+  .filter(Boolean)
+  .map(escapeLineStart)
+  .join('\n')
+
+// Inline HTML inside an HTML block, which a blank line would end early
+const htmlInlines = (children: InlineNode[]) => serializeInlines(children).replace(/\n\s*\n/g, '\n')
+
+const prefixLines = (text: string, first: string, rest: string) =>
+  text.split('\n').map((line, index) => line ? (index === 0 ? first : rest) + line : (index === 0 ? first.trimEnd() : '')).join('\n')
+
+const tableMarkdown = (table: TableNode) => {
+  const columns = Math.max(...table.rows.map(row => row.cells.reduce((sum, cell) => sum + (cell.colspan || 1), 0)))
+  const cellText = (cell: TableCellNode) => cell.children
+    .map(block => block.type === 'paragraph' || block.type === 'heading' ? inlineMarkdown(block.children, { table: true, singleLine: true }).trim() : '')
+    .filter(Boolean)
+    .join('<br>')
+  const rows = table.rows.map(row => {
+    const cells: string[] = []
+    for (const cell of row.cells) {
+      cells.push(cellText(cell))
+      for (let span = 1; span < (cell.colspan || 1); span++) cells.push('')
+    }
+    while (cells.length < columns) cells.push('')
+    return cells
+  })
+  const alignments = Array.from({ length: columns }, (_, column) => {
+    const cell = table.rows[0]?.cells[column]
+    const first = cell?.children[0]
+    return first && (first.type === 'paragraph' || first.type === 'heading') ? first.align : undefined
+  })
+  const widths = Array.from({ length: columns }, (_, column) => Math.max(3, ...rows.map(row => row[column].length)))
+  const pad = (text: string, column: number) => {
+    const space = widths[column] - text.length
+    if (alignments[column] === 'right') return ' '.repeat(space) + text
+    if (alignments[column] === 'center') return ' '.repeat(Math.floor(space / 2)) + text + ' '.repeat(Math.ceil(space / 2))
+    return text + ' '.repeat(space)
+  }
+  const line = (cells: string[]) => `| ${cells.map(pad).join(' | ')} |`
+  const delimiter = widths.map((width, column) => {
+    const align = alignments[column]
+    if (align === 'center') return `:${'-'.repeat(width - 2)}:`
+    if (align === 'right') return `${'-'.repeat(width - 1)}:`
+    return '-'.repeat(width)
+  })
+  return [line(rows[0]), `| ${delimiter.join(' | ')} |`, ...rows.slice(1).map(line)].join('\n')
+}
+
+type ListBlock = Extract<BlockNode, { type: 'list' }>
+
+// The bullet, or the delimiter after the number. Adjacent lists of the same
+// kind would merge, so one written right after another has to differ.
+const listSymbol = (list: ListBlock, taken?: string) => {
+  const preferred = list.ordered ? '.' : list.bullet || '-'
+  if (preferred !== taken) return preferred
+  if (list.ordered) return ')'
+  return taken === '-' ? '*' : '-'
+}
+
+const listMarkdown = (list: ListBlock, symbol: string) => {
+  // A list is tight unless an item holds more than a paragraph and its sublist
+  const tight = list.items.every(item => item.children.every((child, index) =>
+    index === 0 || (child.type === 'list' && index === 1 && item.children[0].type === 'paragraph')))
+  const start = list.start ?? 1
+  return list.items.map((item, index) => {
+    const marker = list.ordered ? `${start + index}${symbol}` : symbol
+    const task = item.checked === undefined ? '' : item.checked ? '[x] ' : '[ ] '
+    const body = blocksMarkdown(item.children, tight)
+    const indent = ' '.repeat(marker.length + 1)
+    return prefixLines(task + body, `${marker} `, indent) || marker
+  }).join(tight ? '\n' : '\n\n')
+}
+
+// Underlined headings hold text on one line, which mustn't read as another block
+const setextHeading = (block: Extract<BlockNode, { type: 'heading' }>) => {
+  const text = escapeLineStart(inlineMarkdown(block.children, { singleLine: true }).trim())
+  return text && `${text}\n${(block.level === 1 ? '=' : '-').repeat(text.length)}`
+}
+
+// Indented code can't start or end with a blank line
+const indentedCode = (text: string) => {
+  const lines = text.replace(/\n$/, '').split('\n')
+  if (!lines[0].trim() || !lines[lines.length - 1].trim()) return null
+  return lines.map(line => line ? `    ${line}` : '').join('\n')
+}
+
+// symbol: for lists, the bullet or delimiter chosen by listSymbol
+const blockMarkdown = (block: BlockNode, previous?: BlockNode, symbol = ''): string | null => {
+  switch (block.type) {
+    case 'paragraph':
+      if (block.align) return `<p align="${block.align}">${htmlInlines(block.children)}</p>`
+      return paragraphMarkdown(block.children) || null
+    case 'heading':
+      if (block.align) return `<h${block.level} align="${block.align}">${htmlInlines(block.children)}</h${block.level}>`
+      if (block.setext && block.level <= 2 && setextHeading(block)) return setextHeading(block)
+      return `${'#'.repeat(block.level)} ${inlineMarkdown(block.children, { singleLine: true }).trim()}`.trimEnd()
+    case 'list':
+      return listMarkdown(block, symbol)
+    case 'blockquote':
+      return prefixLines(blocksMarkdown(block.children), '> ', '> ').split('\n').map(line => line || '>').join('\n')
+    case 'codeBlock': {
+      // Right after a list, indented code would continue its last item
+      const indented = block.indented && !block.language && previous?.type !== 'list' && indentedCode(block.text)
+      if (indented) return indented
+      const longest = Math.max(0, ...(block.text.match(/^ {0,3}`+/gm) || []).map(run => run.trim().length))
+      const fence = '`'.repeat(Math.max(3, longest + 1))
+      return `${fence}${block.language || ''}\n${block.text ? `${block.text.replace(/\n$/, '')}\n` : ''}${fence}`
+    }
+    case 'horizontalRule':
+      return '---'
+    case 'pageBreak':
+      return '<div style="page-break-after: always"></div>'
+    case 'table':
+      return tableMarkdown(block)
+  }
+}
+
+const blocksMarkdown = (blocks: BlockNode[], tight = false): string => {
+  let out = ''
+  let previous: BlockNode | undefined
+  // The symbol of the list written last, if nothing has come after it
+  let listAbove: string | undefined
+  for (const block of blocks) {
+    const symbol = block.type === 'list'
+      ? listSymbol(block, previous?.type === 'list' && previous.ordered === block.ordered ? listAbove : undefined)
+      : undefined
+    const text = blockMarkdown(block, previous, symbol)
+    if (text === null) continue
+    listAbove = symbol
+    if (out) out += tight && block.type === 'list' && previous?.type === 'paragraph' ? '\n' : '\n\n'
+    out += text
+    previous = block
+  }
+  return out
+}
+
+export const serializeMarkdown = (doc: DocumentNode) => {
+  const markdown = blocksMarkdown(doc.children)
+  return markdown ? `${markdown}\n` : ''
+}
+
+export const exportMarkdown = (html: string) =>
+  new Blob([serializeMarkdown(parseHtml(html))], { type: 'text/markdown;charset=utf-8' })
+
+export const importMarkdown = async (file: File): Promise<MarkdownImport> => ({
+  title: file.name.replace(/\.(md|markdown)$/i, '') || 'Untitled document',
+  html: normalizeHtml(serializeHtml(parseMarkdown(await file.text())))
+})
@@ -0,0 +1,75 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { retryWithBackoff } from './retry'
+
+// Per-document page layout, stored as JSON in documents.pageSetup. The
+// editor's paper, printing and the PDF export all read it from here.
+
+export type PageSizeName = 'letter' | 'legal' | 'a4' | 'a5'
+
+// Width and height in inches
+export const PAGE_SIZES: Record<PageSizeName, { label: string; width: number; height: number }> = {
+  letter: { label: 'Letter (8.5" x 11")', width: 8.5, height: 11 },
+  legal: { label: 'Legal (8.5" x 14")', width: 8.5, height: 14 },
+  a4: { label: 'A4 (8.27" x 11.69")', width: 8.27, height: 11.69 },
+  a5: { label: 'A5 (5.83" x 8.27")', width: 5.83, height: 8.27 }
+}
+
+export interface PageSetup {
+  size: PageSizeName
+  orientation: 'portrait' | 'landscape'
+  // Margins in inches
+  margins: { top: number; right: number; bottom: number; left: number }
+  header: string
+  footer: string
+  pageNumbers: boolean
+}
+
+export const DEFAULT_PAGE_SETUP: PageSetup = {
+  size: 'letter',
+  orientation: 'portrait',
+  margins: { top: 1, right: 1, bottom: 1, left: 1 },
+  header: '',
+  footer: '',
+  pageNumbers: false
+}
+
+const marginSchema = z.number().min(0).max(4)
+
+export const pageSetupSchema: z.ZodType<PageSetup> = z.object({
+  size: z.enum(['letter', 'legal', 'a4', 'a5']),
+  orientation: z.enum(['portrait', 'landscape']),
+  margins: z.object({ top: marginSchema, right: marginSchema, bottom: marginSchema, left: marginSchema }),
+  header: z.string().max(500),
+  footer: z.string().max(500),
+  pageNumbers: z.boolean()
+})
+
+// Anything missing or malformed falls back to the defaults
+export const parsePageSetup = (value: unknown): PageSetup => {
+  let data = value
+  if (typeof value === 'string') {
+    try {
+      data = JSON.parse(value)
+    } catch {
+      return DEFAULT_PAGE_SETUP
+    }
+  }
+  const result = pageSetupSchema.safeParse({ ...DEFAULT_PAGE_SETUP, ...(data as object || {}) })
+  return result.success ? result.data : DEFAULT_PAGE_SETUP
+}
+
+// Page width and height in inches after orientation
+export const pageDimensions = (setup: PageSetup) => {
+  const { width, height } = PAGE_SIZES[setup.size]
+  return setup.orientation === 'landscape' ? { width: height, height: width } : { width, height }
+}
+
+export const savePageSetup = async (documentId: string, setup: PageSetup) => {
+  await retryWithBackoff(async () => {
+    return await blink.db.documents.update(documentId, {
+      pageSetup: JSON.stringify(setup),
+      updatedAt: new Date()
+    })
+  })
+}
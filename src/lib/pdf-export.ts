@@ -0,0 +1,829 @@
+import { parseHtml } from './document-html'
+import { imageAlignment, imageLines, type Alignment, type BlockNode, type DocumentNode, type ImageNode, type InlineNode, type Marks, type TableNode } from './document-model'
+import { DEFAULT_PAGE_SETUP, pageDimensions, type PageSetup } from './page-setup'
+import { PdfDocument, num, pdfString, toWinAnsi, unsupportedCharacters, type PdfImage, type PdfLink, type StandardFont } from './pdf'
+
+// Lays the document model out on pages and writes it as PDF, in the
+// browser. Sizes, colours and spacing follow the editor's stylesheet
+// (index.css) so the PDF matches the page on screen; layout is in points,
+// measured top-down from the top of the page.
+
+const PT_PER_INCH = 72
+const PT_PER_PX = 0.75
+const BASE_SIZE = 11
+const LINE_HEIGHT = 1.6
+const TEXT_COLOR = '#111827'
+const LINK_COLOR = '#1a73e8'
+const RULE_COLOR = '#dadce0'
+const MUTED_COLOR = '#5f6368'
+const HEADER_SIZE = 9
+// Decoded images are capped at this many pixels on their longest side
+const MAX_IMAGE_PIXELS = 2000
+
+const HEADINGS: { size: number; before: number; after: number; color?: string; italic?: boolean }[] = [
+  { size: 20, before: 20, after: 6 },
+  { size: 16, before: 18, after: 6 },
+  { size: 14, before: 16, after: 4, color: '#434343' },
+  { size: 12, before: 14, after: 4, color: '#666666' },
+  { size: 11, before: 12, after: 4, color: '#666666' },
+  { size: 11, before: 12, after: 4, color: '#666666', italic: true }
+]
+
+type Family = 'sans' | 'serif' | 'mono'
+
+const FONTS: Record<Family, [StandardFont, StandardFont, StandardFont, StandardFont]> = {
+  sans: ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique'],
+  serif: ['Times-Roman', 'Times-Bold', 'Times-Italic', 'Times-BoldItalic'],
+  mono: ['Courier', 'Courier-Bold', 'Courier-Oblique', 'Courier-BoldOblique']
+}
+
+// Fonts with the same metrics as the PDF's built-in fonts, for measuring
+const MEASURE_FONTS: Record<Family, string> = {
+  sans: 'Arial, Helvetica, sans-serif',
+  serif: '"Times New Roman", Times, serif',
+  mono: '"Courier New", Courier, monospace'
+}
+
+const SERIF_FONTS = /^(times|georgia|garamond|cambria|palatino|book antiqua|baskerville|merriweather|serif$)/
+
+interface TextStyle {
+  family: Family
+  bold: boolean
+  italic: boolean
+  size: number
+  color: string
+  background?: string
+  underline: boolean
+  strike: boolean
+  link?: string
+  // Baseline shift for sub- and superscript
+  rise: number
+}
+
+interface LoadedImage {
+  resource: string
+  width: number
+  height: number
+}
+
+type Atom =
+  | { kind: 'text'; text: string; style: TextStyle; width: number }
+  | { kind: 'space'; text: string; style: TextStyle; width: number }
+  | { kind: 'image'; resource: string | null; alt: string; style: TextStyle; width: number; height: number }
+  | { kind: 'break' }
+
+type LineAtom = Exclude<Atom, { kind: 'break' }>
+
+interface Line {
+  atoms: LineAtom[]
+  // Ends at a hard break or the end of the paragraph (never justified)
+  last: boolean
+}
+
+interface Page {
+  ops: string[]
+  links: PdfLink[]
+}
+
+// A vertical slice of laid-out content; pages are filled with these
+interface Fragment {
+  height: number
+  marginTop: number
+  marginBottom: number
+  keepWithNext?: boolean
+  pageBreak?: boolean
+  paint: (page: Page, top: number) => void
+}
+
+// Bullet or number text, or a checklist box
+type Marker = string | { checked: boolean }
+
+interface Box {
+  left: number
+  width: number
+}
+
+const familyOf = (fontFamily?: string): Family => {
+  if (!fontFamily) return 'sans'
+  const primary = fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '').toLowerCase()
+  if (/courier|mono|consolas|menlo/.test(primary)) return 'mono'
+  return SERIF_FONTS.test(primary) ? 'serif' : 'sans'
+}
+
+const rgb = (hex: string) =>
+  [1, 3, 5].map(i => num(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ')
+
+let measureContext: CanvasRenderingContext2D | null | undefined
+const measureCache = new Map<string, number>()
+
+const measure = (text: string, style: TextStyle) => {
+  const font = `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${style.size}px ${MEASURE_FONTS[style.family]}`
+  const key = `${font}|${text}`
+  let width = measureCache.get(key)
+  if (width === undefined) {
+    if (measureContext === undefined) measureContext = document.createElement('canvas').getContext('2d')
+    if (measureContext) {
+      measureContext.font = font
+      width = measureContext.measureText(text).width
+    } else {
+      width = text.length * style.size * (style.family === 'mono' ? 0.6 : 0.5)
+    }
+    measureCache.set(key, width)
+  }
+  return width
+}
+
+const styleWith = (base: TextStyle, marks: Marks = {}): TextStyle => {
+  const style: TextStyle = { ...base }
+  if (marks.fontFamily) style.family = familyOf(marks.fontFamily)
+  if (marks.code) {
+    style.family = 'mono'
+    style.background = '#f1f3f4'
+  }
+  if (marks.fontSize) style.size = parseFloat(marks.fontSize)
+  if (marks.bold) style.bold = true
+  if (marks.italic) style.italic = true
+  if (marks.underline) style.underline = true
+  if (marks.strike) style.strike = true
+  if (marks.color) style.color = marks.color
+  if (marks.highlight) style.background = marks.highlight
+  if (marks.link) {
+    style.link = marks.link
+    style.underline = true
+    if (!marks.color) style.color = LINK_COLOR
+  }
+  // Suggestions print the way the editor shows them
+  if (marks.insertion) {
+    style.color = '#188038'
+    style.underline = true
+  }
+  if (marks.deletion) {
+    style.color = '#d93025'
+    style.strike = true
+  }
+  if (marks.subscript || marks.superscript) {
+    style.rise = marks.superscript ? style.size * 0.33 : -style.size * 0.2
+    style.size = style.size * 0.83
+  }
+  return style
+}
+
+const fontFor = (style: TextStyle) => FONTS[style.family][(style.bold ? 1 : 0) + (style.italic ? 2 : 0)]
+
+// Decode any image the browser can show into raw samples
+const loadImage = async (src: string): Promise<{ image: PdfImage; width: number; height: number } | null> => {
+  try {
+    const response = await fetch(src)
+    if (!response.ok) return null
+    const bitmap = await createImageBitmap(await response.blob())
+    const scale = Math.min(1, MAX_IMAGE_PIXELS / Math.max(bitmap.width, bitmap.height))
+    const width = Math.max(1, Math.round(bitmap.width * scale))
+    const height = Math.max(1, Math.round(bitmap.height * scale))
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext('2d')
+    if (!context) return null
+    context.drawImage(bitmap, 0, 0, width, height)
+    const pixels = context.getImageData(0, 0, width, height).data
+    const natural = { width: bitmap.width, height: bitmap.height }
+    bitmap.close()
+
+    const samples = new Uint8Array(width * height * 3)
+    const alpha = new Uint8Array(width * height)
+    let opaque = true
+    for (let i = 0, j = 0; i < pixels.length; i += 4, j++) {
+      samples[j * 3] = pixels[i]
+      samples[j * 3 + 1] = pixels[i + 1]
+      samples[j * 3 + 2] = pixels[i + 2]
+      alpha[j] = pixels[i + 3]
+      if (pixels[i + 3] !== 255) opaque = false
+    }
+    return { image: { width, height, rgb: samples, ...(opaque ? {} : { alpha }) }, ...natural }
+  } catch (error) {
+    console.warn('Skipping image in PDF:', src, error)
+    return null
+  }
+}
+
+const collectImageSources = (blocks: BlockNode[], sources = new Set<string>()) => {
+  for (const block of blocks) {
+    if (block.type === 'paragraph' || block.type === 'heading') {
+      block.children.forEach(node => node.type === 'image' && sources.add(node.src))
+    } else if (block.type === 'list') {
+      block.items.forEach(item => collectImageSources(item.children, sources))
+    } else if (block.type === 'blockquote') {
+      collectImageSources(block.children, sources)
+    } else if (block.type === 'table') {
+      block.rows.forEach(row => row.cells.forEach(cell => collectImageSources(cell.children, sources)))
+    }
+  }
+  return sources
+}
+
+export interface PdfExport {
+  blob: Blob
+  // Characters the PDF's fonts can't show, printed as "?" instead
+  unsupported: string[]
+}
+
+class PdfLayout {
+  readonly pdf = new PdfDocument()
+  readonly images = new Map<string, LoadedImage | null>()
+  readonly unsupported = new Set<string>()
+  readonly pageWidth: number
+  readonly pageHeight: number
+  readonly setup: PageSetup
+
+  constructor(setup: PageSetup) {
+    const { width, height } = pageDimensions(setup)
+    this.setup = setup
+    this.pageWidth = width * PT_PER_INCH
+    this.pageHeight = height * PT_PER_INCH
+  }
+
+  get content(): Box {
+    const { left, right } = this.setup.margins
+    return { left: left * PT_PER_INCH, width: this.pageWidth - (left + right) * PT_PER_INCH }
+  }
+
+  // Text as the fonts can show it, noting the characters they can't
+  encode(text: string) {
+    unsupportedCharacters(text).forEach(char => this.unsupported.add(char))
+    return toWinAnsi(text)
+  }
+
+  // Drawing helpers take top-down coordinates and flip them for PDF
+
+  rect(page: Page, x: number, top: number, width: number, height: number, color: string) {
+    page.ops.push(`${rgb(color)} rg ${num(x)} ${num(this.pageHeight - top - height)} ${num(width)} ${num(height)} re f`)
+  }
+
+  line(page: Page, x1: number, y1: number, x2: number, y2: number, width: number, color: string) {
+    page.ops.push(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(this.pageHeight - y1)} m ${num(x2)} ${num(this.pageHeight - y2)} l S`)
+  }
+
+  // Word spacing stretches each space, for justified lines
+  text(page: Page, x: number, baseline: number, text: string, style: TextStyle, wordSpacing = 0) {
+    const font = this.pdf.font(fontFor(style))
+    page.ops.push(`BT /${font} ${num(style.size)} Tf ${num(wordSpacing)} Tw ${rgb(style.color)} rg ${num(x)} ${num(this.pageHeight - baseline + style.rise)} Td ${pdfString(text)} Tj ET`)
+  }
+
+  link(page: Page, x: number, top: number, width: number, height: number, url: string) {
+    // Only external links can be followed from a PDF; links to other documents become absolute
+    const target = url.startsWith('/') ? new URL(url, window.location.origin).href : url
+    if (!/^(https?:|mailto:|tel:)/i.test(target)) return
+    page.links.push({ x, y: this.pageHeight - top - height, width, height, url: target })
+  }
+
+  // Inline content → atoms
+
+  private atoms(children: InlineNode[], base: TextStyle, box: Box): Atom[] {
+    const atoms: Atom[] = []
+    for (const node of children) {
+      if (node.type === 'hardBreak') {
+        atoms.push({ kind: 'break' })
+      } else if (node.type === 'image') {
+        atoms.push(this.imageAtom(node, styleWith(base, node.link ? { link: node.link } : {}), box))
+      } else {
+        const style = styleWith(base, node.marks)
+        // White space collapses as in the editor; non-breaking spaces don't
+        for (const part of this.encode(node.text.replace(/\t/g, ' ')).split(/([ \n\r]+)/)) {
+          if (!part) continue
+          if (/^[ \n\r]+$/.test(part)) {
+            if (atoms[atoms.length - 1]?.kind === 'space') continue
+            atoms.push({ kind: 'space', text: ' ', style, width: measure(' ', style) })
+          } else {
+            atoms.push({ kind: 'text', text: part, style, width: measure(part, style) })
+          }
+        }
+      }
+    }
+    return atoms
+  }
+
+  private imageAtom(node: ImageNode, style: TextStyle, box: Box): Atom {
+    const loaded = this.images.get(node.src)
+    if (!loaded) {
+      const text = this.encode(node.alt ? `[${node.alt}]` : '[image]')
+      return { kind: 'text', text, style, width: measure(text, style) }
+    }
+    let width = (node.width ?? (node.height ? loaded.width * node.height / loaded.height : loaded.width)) * PT_PER_PX
+    let height = (node.height ?? (node.width ? loaded.height * node.width / loaded.width : loaded.height)) * PT_PER_PX
+    const maxHeight = this.pageHeight - (this.setup.margins.top + this.setup.margins.bottom) * PT_PER_INCH
+    const scale = Math.min(1, box.width / width, maxHeight / height)
+    width *= scale
+    height *= scale
+    return { kind: 'image', resource: loaded.resource, alt: node.alt || '', style, width, height }
+  }
+
+  // Greedy line breaking; only spaces and images are break opportunities
+  private breakLines(atoms: Atom[], width: number): Line[] {
+    const lines: Line[] = []
+    let current: LineAtom[] = []
+    let currentWidth = 0
+
+    const finish = (last: boolean) => {
+      while (current[current.length - 1]?.kind === 'space') current.pop()
+      lines.push({ atoms: current, last })
+      current = []
+      currentWidth = 0
+    }
+
+    // Group atoms into unbreakable words
+    const words: LineAtom[][] = []
+    let word: LineAtom[] = []
+    const flushWord = () => {
+      if (word.length > 0) words.push(word)
+      word = []
+    }
+    // Number of hard breaks before each word index
+    const breaks: number[] = []
+    for (const atom of atoms) {
+      if (atom.kind === 'break') {
+        flushWord()
+        breaks[words.length] = (breaks[words.length] || 0) + 1
+      } else if (atom.kind === 'space' || atom.kind === 'image') {
+        flushWord()
+        words.push([atom])
+      } else {
+        word.push(atom)
+      }
+    }
+    flushWord()
+
+    words.forEach((group, index) => {
+      for (let b = 0; b < (breaks[index] || 0); b++) finish(true)
+      const [first] = group
+      if (first.kind === 'space') {
+        if (current.length === 0) return
+        current.push(first)
+        currentWidth += first.width
+        return
+      }
+      const groupWidth = group.reduce((sum, atom) => sum + atom.width, 0)
+      if (currentWidth + groupWidth > width && current.some(atom => atom.kind !== 'space')) finish(false)
+
+      if (groupWidth <= width || first.kind === 'image') {
+        current.push(...group)
+        currentWidth += groupWidth
+        return
+      }
+      // A word wider than the line: break it between characters
+      for (const atom of group) {
+        if (atom.kind !== 'text') continue
+        let piece = ''
+        for (const char of atom.text) {
+          const next = measure(piece + char, atom.style)
+          if (currentWidth + next > width && (piece || current.length > 0)) {
+            if (piece) current.push({ ...atom, text: piece, width: measure(piece, atom.style) })
+            finish(false)
+            piece = char
+          } else {
+            piece += char
+          }
+        }
+        if (piece) {
+          const pieceWidth = measure(piece, atom.style)
+          current.push({ ...atom, text: piece, width: pieceWidth })
+          currentWidth += pieceWidth
+        }
+      }
+    })
+    for (let b = 0; b < (breaks[words.length] || 0); b++) finish(true)
+    finish(true)
+    return lines
+  }
+
+  // Paragraph-like content → one fragment per line. Text can't wrap around
+  // images here, so floated and captioned ones get lines of their own.
+  paragraph(children: InlineNode[], base: TextStyle, box: Box, align?: Alignment, marker?: Marker): Fragment[] {
+    return imageLines(children).flatMap((line, index) => {
+      if (Array.isArray(line)) return this.lines(line, base, box, align, index === 0 ? marker : undefined)
+      const placed = imageAlignment(line)
+      const caption = line.caption
+        ? this.lines([{ type: 'text', text: line.caption }], styleWith(base, { italic: true, color: MUTED_COLOR }), box, placed)
+        : []
+      return [...this.lines([line], base, box, placed, index === 0 ? marker : undefined), ...caption]
+    })
+  }
+
+  private lines(children: InlineNode[], base: TextStyle, box: Box, align?: Alignment, marker?: Marker): Fragment[] {
+    const lines = this.breakLines(this.atoms(children, base, box), box.width)
+    return lines.map((line, index) => {
+      const texts = line.atoms.filter(atom => atom.kind !== 'image')
+      const size = texts.length > 0 ? Math.max(...texts.map(atom => atom.style.size)) : base.size
+      const imageHeight = Math.max(0, ...line.atoms.map(atom => atom.kind === 'image' ? atom.height : 0))
+      const baseline = Math.max(size * 1.1, imageHeight)
+      const height = Math.max(size * LINE_HEIGHT, baseline + size * 0.5)
+
+      return {
+        height,
+        marginTop: 0,
+        marginBottom: 0,
+        paint: (page, top) => {
+          const contentWidth = line.atoms.reduce((sum, atom) => sum + atom.width, 0)
+          const spaces = line.atoms.filter(atom => atom.kind === 'space').length
+          let x = box.left
+          let gap = 0
+          if (align === 'center') x += (box.width - contentWidth) / 2
+          else if (align === 'right') x += box.width - contentWidth
+          else if (align === 'justify' && !line.last && spaces > 0) gap = (box.width - contentWidth) / spaces
+
+          if (index === 0 && typeof marker === 'string') {
+            const markerStyle = { ...base, color: TEXT_COLOR, strike: false }
+            this.text(page, box.left - measure(marker, markerStyle) - base.size * 0.5, top + baseline, marker, markerStyle)
+          } else if (index === 0 && typeof marker === 'object') {
+            const size = base.size * 0.8
+            const left = box.left - size - base.size * 0.5
+            const boxTop = top + baseline - size * 0.9
+            if (marker.checked) {
+              this.rect(page, left, boxTop, size, size, LINK_COLOR)
+              const y = (value: number) => num(this.pageHeight - boxTop - value * size)
+              page.ops.push(`1 1 1 RG ${num(size * 0.12)} w ${num(left + size * 0.2)} ${y(0.5)} m ${num(left + size * 0.42)} ${y(0.72)} l ${num(left + size * 0.8)} ${y(0.28)} l S`)
+            } else {
+              page.ops.push(`${rgb(MUTED_COLOR)} RG ${num(size * 0.1)} w ${num(left)} ${num(this.pageHeight - boxTop - size)} ${num(size)} ${num(size)} re S`)
+            }
+          }
+
+          // Neighbouring words in the same style are written as one run
+          const runs: { atom: LineAtom; text: string; width: number }[] = []
+          for (const atom of line.atoms) {
+            const width = atom.width + (atom.kind === 'space' ? gap : 0)
+            const previous = runs[runs.length - 1]
+            if (atom.kind !== 'image' && previous && previous.atom.kind !== 'image' && previous.atom.style === atom.style) {
+              previous.text += atom.text
+              previous.width += width
+            } else {
+              runs.push({ atom, text: atom.kind === 'image' ? '' : atom.text, width })
+            }
+          }
+
+          for (const { atom, text, width } of runs) {
+            if (atom.kind === 'image') {
+              if (atom.resource) {
+                page.ops.push(`q ${num(atom.width)} 0 0 ${num(atom.height)} ${num(x)} ${num(this.pageHeight - top - baseline)} cm /${atom.resource} Do Q`)
+              }
+              if (atom.style.link) this.link(page, x, top + baseline - atom.height, atom.width, atom.height, atom.style.link)
+              x += width
+              continue
+            }
+            const { style } = atom
+            const y = top + baseline - style.rise
+            if (style.background) this.rect(page, x, y - style.size * 0.9, width, style.size * 1.15, style.background)
+            this.text(page, x, top + baseline, text, style, gap)
+            if (style.underline) this.line(page, x, y + style.size * 0.12, x + width, y + style.size * 0.12, style.size * 0.06, style.color)
+            if (style.strike) this.line(page, x, y - style.size * 0.3, x + width, y - style.size * 0.3, style.size * 0.06, style.color)
+            if (style.link) this.link(page, x, y - style.size * 0.9, width, style.size * 1.15, style.link)
+            x += width
+          }
+        }
+      }
+    })
+  }
+
+  blocks(blocks: BlockNode[], base: TextStyle, box: Box, depth = 0): Fragment[] {
+    const fragments: Fragment[] = []
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'paragraph':
+          fragments.push(...this.paragraph(block.children, base, box, block.align))
+          break
+        case 'heading': {
+          const heading = HEADINGS[block.level - 1]
+          const style: TextStyle = {
+            ...base,
+            size: heading.size,
+            bold: false,
+            italic: !!heading.italic,
+            color: heading.color || base.color
+          }
+          const lines = this.paragraph(block.children, style, box, block.align)
+          lines[0].marginTop = heading.before
+          lines[lines.length - 1].marginBottom = heading.after
+          // Never leave a heading alone at the bottom of a page
+          lines[lines.length - 1].keepWithNext = true
+          fragments.push(...lines)
+          break
+        }
+        case 'list': {
+          const indent = BASE_SIZE * 1.5
+          const inner = { left: box.left + indent, width: box.width - indent }
+          block.items.forEach((item, index) => {
+            const marker: Marker = item.checked !== undefined
+              ? { checked: item.checked }
+              : block.ordered ? `${(block.start ?? 1) + index}.` : depth === 0 ? '•' : 'o'
+            // Done checklist items are struck through, as in the editor
+            const style = item.checked ? { ...base, color: MUTED_COLOR, strike: true } : base
+            const [first, ...rest] = item.children
+            if (first && (first.type === 'paragraph' || first.type === 'heading')) {
+              const firstFragments = first.type === 'paragraph'
+                ? this.paragraph(first.children, style, inner, first.align, marker)
+                : this.blocks([first], style, inner, depth + 1)
+              fragments.push(...firstFragments)
+              fragments.push(...this.blocks(rest, style, inner, depth + 1))
+            } else {
+              fragments.push(...this.blocks(item.children, style, inner, depth + 1))
+            }
+          })
+          break
+        }
+        case 'blockquote': {
+          const indent = BASE_SIZE + 2.25
+          const inner = this.blocks(block.children, { ...base, color: MUTED_COLOR }, { left: box.left + indent, width: box.width - indent }, depth)
+          // The left rule is drawn alongside each slice so it follows page breaks
+          fragments.push(...inner.map(fragment => ({
+            ...fragment,
+            paint: (page: Page, top: number) => {
+              this.rect(page, box.left, top, 2.25, fragment.height, RULE_COLOR)
+              fragment.paint(page, top)
+            }
+          })))
+          break
+        }
+        case 'codeBlock': {
+          const style: TextStyle = { ...base, family: 'mono' }
+          const padX = 9
+          const padY = 6
+          const inner = { left: box.left + padX, width: box.width - padX * 2 }
+          const lines = block.text.replace(/\n$/, '').split('\n').flatMap(text =>
+            this.paragraph(text ? [{ type: 'text', text: text.replace(/ /g, '\u00a0') }] : [], style, inner))
+          lines[0].height += padY
+          lines[lines.length - 1].height += padY
+          fragments.push(...lines.map((line, index) => ({
+            ...line,
+            paint: (page: Page, top: number) => {
+              this.rect(page, box.left, top, box.width, line.height, '#f8f9fa')
+              line.paint(page, top + (index === 0 ? padY : 0))
+            }
+          })))
+          break
+        }
+        case 'horizontalRule':
+          fragments.push({
+            height: 0.75,
+            marginTop: 12,
+            marginBottom: 12,
+            paint: (page, top) => this.rect(page, box.left, top, box.width, 0.75, RULE_COLOR)
+          })
+          break
+        case 'pageBreak':
+          fragments.push({ height: 0, marginTop: 0, marginBottom: 0, pageBreak: true, paint: () => {} })
+          break
+        case 'table':
+          fragments.push(...this.table(block, base, box))
+          break
+      }
+    }
+    return fragments
+  }
+
+  // Tables size their columns to content, like the editor's auto layout,
+  // unless columns have been resized
+  private table(table: TableNode, base: TextStyle, box: Box): Fragment[] {
+    const padX = 6
+    const padY = 3
+    const border = 0.75
+
+    // Place cells on a grid, following row and column spans
+    const placed: { row: number; column: number; colspan: number; rowspan: number; cell: TableNode['rows'][number]['cells'][number] }[] = []
+    const taken: boolean[][] = []
+    table.rows.forEach((row, rowIndex) => {
+      taken[rowIndex] = taken[rowIndex] || []
+      let column = 0
+      for (const cell of row.cells) {
+        while (taken[rowIndex][column]) column++
+        const colspan = cell.colspan || 1
+        const rowspan = Math.min(cell.rowspan || 1, table.rows.length - rowIndex)
+        for (let r = 0; r < rowspan; r++) {
+          taken[rowIndex + r] = taken[rowIndex + r] || []
+          for (let c = 0; c < colspan; c++) taken[rowIndex + r][column + c] = true
+        }
+        placed.push({ row: rowIndex, column, colspan, rowspan, cell })
+        column += colspan
+      }
+    })
+    const columns = Math.max(1, ...taken.map(row => row.length))
+
+    // Widest unbroken and fully unbroken content per column
+    const minWidths = new Array(columns).fill(padX * 2)
+    const maxWidths = new Array(columns).fill(padX * 2)
+    for (const { column, colspan, cell } of placed) {
+      const style = cell.header ? { ...base, bold: true } : base
+      let min = 0
+      let max = 0
+      const visit = (blocks: BlockNode[], indent: number) => {
+        for (const block of blocks) {
+          if (block.type === 'paragraph' || block.type === 'heading') {
+            const atoms = this.atoms(block.children, style, box)
+            let run = 0
+            let word = 0
+            for (const atom of atoms) {
+              if (atom.kind === 'break') {
+                run = 0
+                word = 0
+                continue
+              }
+              run += atom.width
+              max = Math.max(max, run + indent)
+              word = atom.kind === 'text' ? word + atom.width : 0
+              min = Math.max(min, word + indent, atom.kind === 'image' ? atom.width + indent : 0)
+            }
+          } else if (block.type === 'list') {
+            block.items.forEach(item => visit(item.children, indent + BASE_SIZE * 1.5))
+          } else if (block.type === 'blockquote') {
+            visit(block.children, indent + BASE_SIZE)
+          } else if (block.type === 'codeBlock') {
+            const longest = Math.max(...block.text.split('\n').map(line => measure(line, { ...style, family: 'mono' })))
+            max = Math.max(max, longest + indent + 18)
+            min = Math.max(min, Math.min(longest, 120) + indent + 18)
+          }
+        }
+      }
+      visit(cell.children, 0)
+      for (let c = 0; c < colspan; c++) {
+        minWidths[column + c] = Math.max(minWidths[column + c], (min + padX * 2) / colspan)
+        maxWidths[column + c] = Math.max(maxWidths[column + c], (max + padX * 2) / colspan)
+      }
+    }
+
+    const totalMax = maxWidths.reduce((sum, width) => sum + width, 0)
+    const totalMin = minWidths.reduce((sum, width) => sum + width, 0)
+    let widths: number[]
+    if (table.columnWidths?.length === columns) {
+      const fixed = table.columnWidths.map(width => width * PT_PER_PX)
+      const total = fixed.reduce((sum, width) => sum + width, 0)
+      widths = total > box.width ? fixed.map(width => width * box.width / total) : fixed
+    } else if (totalMax <= box.width) {
+      widths = maxWidths
+    } else if (totalMin >= box.width) {
+      widths = minWidths.map(width => width * box.width / totalMin)
+    } else {
+      const share = (box.width - totalMin) / (totalMax - totalMin)
+      widths = minWidths.map((width, index) => width + (maxWidths[index] - width) * share)
+    }
+    const offsets = widths.reduce<number[]>((acc, width) => [...acc, acc[acc.length - 1] + width], [box.left])
+
+    // Lay out every cell's content in its column
+    const laidOut = placed.map((entry) => {
+      const left = offsets[entry.column] + padX
+      const width = offsets[entry.column + entry.colspan] - offsets[entry.column] - padX * 2
+      const style = entry.cell.header ? { ...base, bold: true } : base
+      const content = this.blocks(entry.cell.children, style, { left, width })
+      const height = stackHeight(content) + padY * 2
+      return { ...entry, content, height }
+    })
+
+    // Row heights; spanning cells stretch the last row they cover
+    const rowHeights = table.rows.map((_, rowIndex) => Math.max(
+      BASE_SIZE * LINE_HEIGHT + padY * 2,
+      ...laidOut.filter(cell => cell.row === rowIndex && cell.rowspan === 1).map(cell => cell.height)
+    ))
+    for (const cell of laidOut.filter(entry => entry.rowspan > 1)) {
+      const covered = rowHeights.slice(cell.row, cell.row + cell.rowspan).reduce((sum, height) => sum + height, 0)
+      if (cell.height > covered) rowHeights[cell.row + cell.rowspan - 1] += cell.height - covered
+    }
+
+    // Rows spanned together must stay on one page, so each group becomes one fragment
+    const groups: { start: number; end: number }[] = []
+    for (let row = 0; row < table.rows.length; row++) {
+      const end = Math.max(row, ...laidOut.filter(cell => cell.row === row).map(cell => cell.row + cell.rowspan - 1))
+      const last = groups[groups.length - 1]
+      if (last && row <= last.end) last.end = Math.max(last.end, end)
+      else groups.push({ start: row, end })
+    }
+
+    return groups.map((group, index) => {
+      const rowTops: number[] = [0]
+      for (let row = group.start; row <= group.end; row++) rowTops.push(rowTops[rowTops.length - 1] + rowHeights[row])
+      const height = rowTops[rowTops.length - 1]
+      const cells = laidOut.filter(cell => cell.row >= group.start && cell.row <= group.end)
+      return {
+        height,
+        marginTop: index === 0 ? 6 : 0,
+        marginBottom: index === groups.length - 1 ? 6 : 0,
+        paint: (page: Page, top: number) => {
+          const frame = (cell: typeof cells[number]) => {
+            const cellTop = top + rowTops[cell.row - group.start]
+            const left = offsets[cell.column]
+            return {
+              cellTop,
+              cellHeight: top + rowTops[cell.row - group.start + cell.rowspan] - cellTop,
+              left,
+              width: offsets[cell.column + cell.colspan] - left
+            }
+          }
+          for (const cell of cells) {
+            const { cellTop, cellHeight, left, width } = frame(cell)
+            const background = cell.cell.background || (cell.cell.header ? '#f8f9fa' : undefined)
+            if (background) this.rect(page, left, cellTop, width, cellHeight, background)
+            let y = cellTop + padY
+            let previousMargin = 0
+            cell.content.forEach((fragment, position) => {
+              if (position > 0) y += Math.max(previousMargin, fragment.marginTop)
+              fragment.paint(page, y)
+              y += fragment.height
+              previousMargin = fragment.marginBottom
+            })
+          }
+          // Borders go on top of every fill, styled ones last so shared edges show their style
+          const styled = (cell: typeof cells[number]) => cell.cell.borderColor !== undefined || cell.cell.borderWidth !== undefined
+          for (const cell of [...cells.filter(cell => !styled(cell)), ...cells.filter(styled)]) {
+            const lineWidth = cell.cell.borderWidth !== undefined ? cell.cell.borderWidth * PT_PER_PX : border
+            if (lineWidth === 0) continue
+            const { cellTop, cellHeight, left, width } = frame(cell)
+            page.ops.push(`${rgb(cell.cell.borderColor || RULE_COLOR)} RG ${num(lineWidth)} w ${num(left)} ${num(this.pageHeight - cellTop - cellHeight)} ${num(width)} ${num(cellHeight)} re S`)
+          }
+        }
+      }
+    })
+  }
+
+  paginate(fragments: Fragment[]) {
+    const { top, bottom } = this.setup.margins
+    const contentTop = top * PT_PER_INCH
+    const contentBottom = this.pageHeight - bottom * PT_PER_INCH
+    const pages: Page[] = []
+    let page: Page = { ops: [], links: [] }
+    pages.push(page)
+    let y = contentTop
+    let previousMargin = 0
+    let atTop = true
+
+    const newPage = () => {
+      page = { ops: [], links: [] }
+      pages.push(page)
+      y = contentTop
+      previousMargin = 0
+      atTop = true
+    }
+
+    fragments.forEach((fragment, index) => {
+      if (fragment.pageBreak) {
+        newPage()
+        return
+      }
+      // Space before a block is dropped at the top of a page, as in print
+      let gap = atTop ? 0 : Math.max(previousMargin, fragment.marginTop)
+      let needed = fragment.height
+      const next = fragments[index + 1]
+      if (fragment.keepWithNext && next && !next.pageBreak) {
+        needed += Math.max(fragment.marginBottom, next.marginTop) + next.height
+      }
+      if (!atTop && y + gap + needed > contentBottom) {
+        newPage()
+        gap = 0
+      }
+      y += gap
+      fragment.paint(page, y)
+      y += fragment.height
+      previousMargin = fragment.marginBottom
+      atTop = false
+    })
+    return pages
+  }
+
+  headerAndFooter(page: Page, pageNumber: number, pageCount: number) {
+    const { header, footer, pageNumbers, margins } = this.setup
+    const style: TextStyle = { family: 'sans', bold: false, italic: false, size: HEADER_SIZE, color: MUTED_COLOR, underline: false, strike: false, rise: 0 }
+    const { left, width } = this.content
+    if (header) this.text(page, left, margins.top * PT_PER_INCH / 2 + HEADER_SIZE / 2, this.encode(header), style)
+    const footerBaseline = this.pageHeight - margins.bottom * PT_PER_INCH / 2 + HEADER_SIZE / 2
+    if (footer) this.text(page, left, footerBaseline, this.encode(footer), style)
+    if (pageNumbers) {
+      const label = `Page ${pageNumber} of ${pageCount}`
+      this.text(page, left + width - measure(label, style), footerBaseline, label, style)
+    }
+  }
+}
+
+const stackHeight = (fragments: Fragment[]) => fragments.reduce((height, fragment, index) =>
+  height + fragment.height + (index > 0 ? Math.max(fragments[index - 1].marginBottom, fragment.marginTop) : 0), 0)
+
+export const buildPdf = async (title: string, doc: DocumentNode, setup: PageSetup = DEFAULT_PAGE_SETUP): Promise<PdfExport> => {
+  const layout = new PdfLayout(setup)
+
+  for (const src of collectImageSources(doc.children)) {
+    const loaded = await loadImage(src)
+    layout.images.set(src, loaded && { resource: layout.pdf.image(loaded.image), width: loaded.width, height: loaded.height })
+  }
+
+  const base: TextStyle = {
+    family: 'sans',
+    bold: false,
+    italic: false,
+    size: BASE_SIZE,
+    color: TEXT_COLOR,
+    underline: false,
+    strike: false,
+    rise: 0
+  }
+  const pages = layout.paginate(layout.blocks(doc.children, base, layout.content))
+  pages.forEach((page, index) => {
+    layout.headerAndFooter(page, index + 1, pages.length)
+    layout.pdf.addPage({ width: layout.pageWidth, height: layout.pageHeight, content: page.ops.join('\n'), links: page.links })
+  })
+  return { blob: await layout.pdf.save(title), unsupported: [...layout.unsupported] }
+}
+
+export const exportPdf = (title: string, html: string, setup?: PageSetup) => buildPdf(title, parseHtml(html), setup)
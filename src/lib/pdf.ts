@@ -0,0 +1,200 @@
+// Minimal PDF writer for the client-side PDF export. Text uses the
+// standard 14 fonts with WinAnsi encoding, so no font files are needed and
+// the text stays selectable and searchable; characters outside that
+// encoding are replaced before layout (see toWinAnsi), and the export
+// reports which ones so the user can be told.
+
+export type StandardFont =
+  | 'Helvetica' | 'Helvetica-Bold' | 'Helvetica-Oblique' | 'Helvetica-BoldOblique'
+  | 'Times-Roman' | 'Times-Bold' | 'Times-Italic' | 'Times-BoldItalic'
+  | 'Courier' | 'Courier-Bold' | 'Courier-Oblique' | 'Courier-BoldOblique'
+
+export interface PdfImage {
+  width: number
+  height: number
+  // 8-bit RGB samples, plus optional 8-bit alpha
+  rgb: Uint8Array
+  alpha?: Uint8Array
+}
+
+export interface PdfLink {
+  // Rectangle in PDF user space (origin bottom left)
+  x: number
+  y: number
+  width: number
+  height: number
+  url: string
+}
+
+interface PdfPage {
+  width: number
+  height: number
+  content: string
+  links: PdfLink[]
+}
+
+// Unicode code points of WinAnsi bytes 0x80–0x9f; 0xa0–0xff match Latin-1
+const WIN_ANSI_HIGH: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f
+}
+
+// Close stand-ins for common characters WinAnsi lacks
+const SUBSTITUTES: Record<string, string> = {
+  '\u2010': '-', '\u2011': '-', '\u2212': '-', '\u2032': "'", '\u2033': '"',
+  '\u2009': ' ', '\u202f': ' ', '\u200b': '', '\u25e6': 'o', '\u25aa': '\u2022'
+}
+
+const winAnsiCode = (char: string) => {
+  const code = char.codePointAt(0) || 0
+  if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return code
+  return WIN_ANSI_HIGH[code]
+}
+
+// Text as the PDF will actually show it, so it can be measured faithfully
+export const toWinAnsi = (text: string) =>
+  Array.from(text, char => {
+    if (winAnsiCode(char) !== undefined) return char
+    const substitute = SUBSTITUTES[char]
+    return substitute !== undefined ? substitute : '?'
+  }).join('')
+
+// Characters toWinAnsi can only show as "?"
+export const unsupportedCharacters = (text: string) =>
+  Array.from(text).filter(char => char >= ' ' && winAnsiCode(char) === undefined && SUBSTITUTES[char] === undefined)
+
+// A PDF literal string; bytes outside ASCII are written as octal escapes
+export const pdfString = (text: string) => {
+  let result = '('
+  for (const char of toWinAnsi(text)) {
+    const code = winAnsiCode(char) ?? 0x3f
+    if (char === '(' || char === ')' || char === '\\') result += `\\${char}`
+    else if (code < 0x20 || code > 0x7e) result += `\\${code.toString(8).padStart(3, '0')}`
+    else result += char
+  }
+  return `${result})`
+}
+
+// Numbers with at most three decimals, as PDF operands
+export const num = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
+
+const deflate = async (data: Uint8Array) => {
+  if (typeof CompressionStream === 'undefined') return null
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+export class PdfDocument {
+  private fonts = new Map<StandardFont, string>()
+  private images: PdfImage[] = []
+  private pages: PdfPage[] = []
+
+  // Resource name (F1, F2, …) for a font, registering it on first use
+  font(name: StandardFont) {
+    let resource = this.fonts.get(name)
+    if (!resource) {
+      resource = `F${this.fonts.size + 1}`
+      this.fonts.set(name, resource)
+    }
+    return resource
+  }
+
+  // Resource name (Im1, Im2, …) for an image
+  image(image: PdfImage) {
+    this.images.push(image)
+    return `Im${this.images.length}`
+  }
+
+  addPage(page: PdfPage) {
+    this.pages.push(page)
+  }
+
+  async save(title: string): Promise<Blob> {
+    const encoder = new TextEncoder()
+    const chunks: Uint8Array[] = []
+    const offsets: number[] = []
+    let length = 0
+
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data
+      chunks.push(bytes)
+      length += bytes.length
+    }
+
+    // Object numbers are reserved before writing so objects can refer forward
+    let nextId = 1
+    const reserve = () => nextId++
+    const object = (id: number, body: string) => {
+      offsets[id] = length
+      write(`${id} 0 obj\n${body}\nendobj\n`)
+    }
+    const stream = async (id: number, dictionary: string, data: Uint8Array) => {
+      const compressed = await deflate(data)
+      const body = compressed || data
+      offsets[id] = length
+      write(`${id} 0 obj\n<< ${dictionary}${compressed ? ' /Filter /FlateDecode' : ''} /Length ${body.length} >>\nstream\n`)
+      write(body)
+      write('\nendstream\nendobj\n')
+    }
+
+    write('%PDF-1.4\n%âãÏÓ\n')
+
+    const catalogId = reserve()
+    const pagesId = reserve()
+    const infoId = reserve()
+
+    const fontRefs: string[] = []
+    for (const [name, resource] of this.fonts) {
+      const id = reserve()
+      object(id, `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`)
+      fontRefs.push(`/${resource} ${id} 0 R`)
+    }
+
+    const imageRefs: string[] = []
+    for (const [index, image] of this.images.entries()) {
+      let smask = ''
+      if (image.alpha) {
+        const maskId = reserve()
+        await stream(maskId, `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceGray /BitsPerComponent 8`, image.alpha)
+        smask = ` /SMask ${maskId} 0 R`
+      }
+      const id = reserve()
+      await stream(id, `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8${smask}`, image.rgb)
+      imageRefs.push(`/Im${index + 1} ${id} 0 R`)
+    }
+
+    const resources = `<< /Font << ${fontRefs.join(' ')} >> /XObject << ${imageRefs.join(' ')} >> >>`
+    const pageIds: number[] = []
+    for (const page of this.pages) {
+      const contentId = reserve()
+      await stream(contentId, '', encoder.encode(page.content))
+      const annotations = page.links.map(link => {
+        const rect = [link.x, link.y, link.x + link.width, link.y + link.height].map(num).join(' ')
+        return `<< /Type /Annot /Subtype /Link /Rect [${rect}] /Border [0 0 0] /A << /S /URI /URI ${pdfString(link.url)} >> >>`
+      })
+      const pageId = reserve()
+      object(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources ${resources} /Contents ${contentId} 0 R${annotations.length > 0 ? ` /Annots [${annotations.join(' ')}]` : ''} >>`)
+      pageIds.push(pageId)
+    }
+
+    object(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+    object(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`)
+    object(infoId, `<< /Title ${pdfString(title)} /Producer (Docs) >>`)
+
+    const xrefOffset = length
+    let xref = `xref\n0 ${nextId}\n0000000000 65535 f \n`
+    for (let id = 1; id < nextId; id++) {
+      xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+    }
+    write(xref)
+    write(`trailer\n<< /Size ${nextId} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+    return new Blob(chunks, { type: 'application/pdf' })
+  }
+}
@@ -0,0 +1,54 @@
+// Who may do what with a document. The owner is documents.userId; everyone
+// else needs a row in documentCollaborators, or in folderCollaborators for
+// one of the folders the document sits in. Shares made from the dialog
+// are keyed by email until the invitee signs in, so grants match either.
+
+export type Permission = 'view' | 'edit'
+
+export type AccessLevel = 'owner' | Permission | 'none'
+
+export interface AccessGrant {
+  userId: string
+  permission: Permission
+}
+
+export interface DocumentGrant extends AccessGrant {
+  id: string
+  documentId: string
+}
+
+export interface FolderGrant extends AccessGrant {
+  id: string
+  folderId: string
+}
+
+export interface AccessSubject {
+  id: string
+  email?: string | null
+}
+
+const grantMatches = (grant: AccessGrant, subject: AccessSubject) =>
+  grant.userId === subject.id ||
+  (!!subject.email && grant.userId.toLowerCase() === subject.email.toLowerCase())
+
+// A grant made to this subject's email before they signed in
+export const grantedByEmail = (grant: AccessGrant, subject: AccessSubject) =>
+  grant.userId !== subject.id && grantMatches(grant, subject)
+
+// A document nobody has saved yet belongs to whoever creates it
+export const resolveAccess = (
+  ownerId: string | null | undefined,
+  grants: AccessGrant[],
+  subject: AccessSubject
+): AccessLevel => {
+  if (!ownerId || ownerId === subject.id) return 'owner'
+
+  const permissions = grants.filter(grant => grantMatches(grant, subject)).map(grant => grant.permission)
+  if (permissions.includes('edit')) return 'edit'
+  if (permissions.includes('view')) return 'view'
+  return 'none'
+}
+
+export const canEdit = (access: AccessLevel) => access === 'owner' || access === 'edit'
+
+export const canView = (access: AccessLevel) => access !== 'none'
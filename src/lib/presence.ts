@@ -0,0 +1,13 @@
+const COLLABORATOR_COLORS = [
+  '#1a73e8', '#e8710a', '#188038', '#d93025', '#9334e6',
+  '#e52592', '#12b5cb', '#f9ab00', '#5f6368', '#137333'
+]
+
+// Same user, same color on every client
+export const getUserColor = (userId: string) => {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length]
+}
@@ -0,0 +1,25 @@
+// Retry blink calls that hit the rate limit, waiting until the limit resets
+export const retryWithBackoff = async (fn: () => Promise<any>, maxRetries = 3, baseDelay = 1000) => {
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await fn()
+    } catch (error: any) {
+      // If it's a rate limit error, wait for the specified time
+      if (error?.details?.code === 'RATE_LIMIT_EXCEEDED') {
+        const resetTime = new Date(error.details.reset).getTime()
+        const currentTime = Date.now()
+        const waitTime = Math.max(resetTime - currentTime, baseDelay * Math.pow(2, attempt))
+        
+        console.log(`Rate limited. Waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`)
+        
+        if (attempt < maxRetries - 1) {
+          await new Promise(resolve => setTimeout(resolve, waitTime))
+          continue
+        }
+      }
+      
+      // For non-rate-limit errors or final attempt, throw the error
+      throw error
+    }
+  }
+}
@@ -0,0 +1,212 @@
+// Tracked changes in the editor DOM. A suggestion is an <ins> or <del>
+// carrying data-suggestion-id; its author and status live in the
+// documentSuggestions table.
+
+export type SuggestionKind = 'insert' | 'delete'
+
+export interface SuggestionOptions {
+  // Suggestions the current user may keep typing into or take back directly
+  ownsSuggestion: (suggestionId: string) => boolean
+  createSuggestion: (kind: SuggestionKind) => string
+}
+
+export interface SuggestionSpan {
+  id: string
+  kind: SuggestionKind
+  text: string
+}
+
+const SUGGESTION_SELECTOR = '[data-suggestion-id]'
+
+const closestSuggestion = (node: Node, tag: 'INS' | 'DEL') => {
+  const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement
+  const match = element?.closest(SUGGESTION_SELECTOR)
+  return match && match.tagName === tag ? match as HTMLElement : null
+}
+
+const createMarker = (tag: 'ins' | 'del', suggestionId: string) => {
+  const element = document.createElement(tag)
+  element.setAttribute('data-suggestion-id', suggestionId)
+  return element
+}
+
+// Text nodes inside the range, split so each one lies entirely within it
+const splitTextNodesInRange = (range: Range) => {
+  const root = range.commonAncestorContainer
+  const nodes: Text[] = []
+
+  if (root.nodeType === Node.TEXT_NODE) {
+    nodes.push(root as Text)
+  } else {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+    while (walker.nextNode()) {
+      if (range.intersectsNode(walker.currentNode)) nodes.push(walker.currentNode as Text)
+    }
+  }
+
+  return nodes.flatMap(node => {
+    const start = node === range.startContainer ? range.startOffset : 0
+    const end = node === range.endContainer ? range.endOffset : node.length
+    if (end <= start) return []
+
+    let piece = node
+    if (start > 0) piece = piece.splitText(start)
+    if (end - start < piece.length) piece.splitText(end - start)
+    return [piece]
+  })
+}
+
+// Strike through the range instead of removing it. Text from the user's own
+// pending insertions is removed outright. Returns where the caret belongs.
+const markRangeDeleted = (range: Range, options: SuggestionOptions, direction: 'backward' | 'forward') => {
+  const pieces = splitTextNodesInRange(range)
+  let first: Node | null = null
+  let last: Node | null = null
+  let deletionId: string | null = null
+
+  for (const piece of pieces) {
+    const insertion = closestSuggestion(piece, 'INS')
+    if (insertion && options.ownsSuggestion(insertion.getAttribute('data-suggestion-id')!)) {
+      const marker: Node = document.createTextNode('')
+      piece.parentNode!.replaceChild(marker, piece)
+      first = first || marker
+      last = marker
+      if (!insertion.textContent) insertion.remove()
+      continue
+    }
+
+    const existing = closestSuggestion(piece, 'DEL')
+    if (existing) {
+      first = first || existing
+      last = existing
+      continue
+    }
+
+    // Extend a neighbouring deletion of ours rather than starting a new one
+    const neighbour = direction === 'backward' ? piece.nextSibling : piece.previousSibling
+    const neighbourId = neighbour instanceof HTMLElement && neighbour.tagName === 'DEL'
+      ? neighbour.getAttribute('data-suggestion-id')
+      : null
+
+    if (neighbourId && options.ownsSuggestion(neighbourId) && (!deletionId || deletionId === neighbourId)) {
+      deletionId = neighbourId
+      if (direction === 'backward') neighbour!.insertBefore(piece, neighbour!.firstChild)
+      else neighbour!.appendChild(piece)
+      first = first || neighbour
+      last = neighbour
+      continue
+    }
+
+    deletionId = deletionId || options.createSuggestion('delete')
+    const previous = piece.previousSibling
+    if (previous instanceof HTMLElement && previous.getAttribute('data-suggestion-id') === deletionId) {
+      previous.appendChild(piece)
+      first = first || previous
+      last = previous
+    } else {
+      const marker = createMarker('del', deletionId)
+      piece.parentNode!.insertBefore(marker, piece)
+      marker.appendChild(piece)
+      first = first || marker
+      last = marker
+    }
+  }
+
+  const caret = document.createRange()
+  if (direction === 'backward' && first?.parentNode) {
+    caret.setStartBefore(first)
+  } else if (last?.parentNode) {
+    caret.setStartAfter(last)
+  } else {
+    caret.setStart(range.startContainer, range.startOffset)
+  }
+  caret.collapse(true)
+  return caret
+}
+
+const placeCaret = (range: Range) => {
+  const selection = window.getSelection()
+  selection?.removeAllRanges()
+  selection?.addRange(range)
+}
+
+export const suggestInsertion = (text: string, options: SuggestionOptions) => {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0 || !text) return
+
+  let range = selection.getRangeAt(0)
+  if (!range.collapsed) {
+    range = markRangeDeleted(range, options, 'forward')
+  }
+
+  // Never type inside struck-through text
+  const deletion = closestSuggestion(range.startContainer, 'DEL')
+  if (deletion) {
+    range.setStartAfter(deletion)
+    range.collapse(true)
+  }
+
+  const container = range.startContainer
+  const insertion = closestSuggestion(container, 'INS')
+  if (container.nodeType === Node.TEXT_NODE && insertion && options.ownsSuggestion(insertion.getAttribute('data-suggestion-id')!)) {
+    const textNode = container as Text
+    textNode.insertData(range.startOffset, text)
+    range.setStart(textNode, range.startOffset + text.length)
+    range.collapse(true)
+    placeCaret(range)
+    return
+  }
+
+  const marker = createMarker('ins', options.createSuggestion('insert'))
+  const textNode = document.createTextNode(text)
+  marker.appendChild(textNode)
+  range.insertNode(marker)
+
+  const caret = document.createRange()
+  caret.setStart(textNode, textNode.length)
+  caret.collapse(true)
+  placeCaret(caret)
+}
+
+export const suggestDeletion = (direction: 'backward' | 'forward', granularity: 'character' | 'word', options: SuggestionOptions) => {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0) return
+
+  if (selection.isCollapsed) {
+    selection.modify('extend', direction, granularity)
+  }
+  if (selection.rangeCount === 0 || selection.isCollapsed) return
+
+  placeCaret(markRangeDeleted(selection.getRangeAt(0), options, direction))
+}
+
+// Accepting keeps insertions and drops deletions; rejecting does the opposite
+export const resolveSuggestion = (root: HTMLElement, suggestionId: string, accept: boolean) => {
+  const elements = Array.from(root.querySelectorAll(SUGGESTION_SELECTOR))
+    .filter(element => element.getAttribute('data-suggestion-id') === suggestionId)
+
+  for (const element of elements) {
+    const keepContent = element.tagName === 'INS' ? accept : !accept
+    if (keepContent) {
+      element.replaceWith(...Array.from(element.childNodes))
+    } else {
+      element.remove()
+    }
+  }
+  return elements.length > 0
+}
+
+export const collectSuggestions = (html: string): SuggestionSpan[] => {
+  const template = document.createElement('template')
+  template.innerHTML = html
+
+  const spans = new Map<string, SuggestionSpan>()
+  for (const element of Array.from(template.content.querySelectorAll(SUGGESTION_SELECTOR))) {
+    const id = element.getAttribute('data-suggestion-id')!
+    const kind: SuggestionKind = element.tagName === 'INS' ? 'insert' : 'delete'
+    const existing = spans.get(id)
+    if (existing) existing.text += element.textContent || ''
+    else spans.set(id, { id, kind, text: element.textContent || '' })
+  }
+  return Array.from(spans.values())
+}
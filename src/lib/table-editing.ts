@@ -0,0 +1,390 @@
+// Table structure edits, made on the editor's DOM directly. Cells are
+// addressed on a grid in which a merged cell fills every slot it covers,
+// so rows and columns can be added and removed around merged cells.
+
+type Cell = HTMLTableCellElement
+
+export type TableAction =
+  | 'insertRowAbove'
+  | 'insertRowBelow'
+  | 'insertColumnLeft'
+  | 'insertColumnRight'
+  | 'deleteRow'
+  | 'deleteColumn'
+  | 'deleteTable'
+  | 'mergeCells'
+  | 'splitCell'
+  | 'toggleHeaderRow'
+
+export interface CellStyle {
+  // null clears the property
+  background?: string | null
+  borderColor?: string | null
+  borderWidth?: number | null
+}
+
+const ownCells = (table: HTMLTableElement) =>
+  Array.from(table.querySelectorAll<Cell>('td, th')).filter(cell => cell.closest('table') === table)
+
+export const tableGrid = (table: HTMLTableElement) => {
+  const grid: Cell[][] = []
+  Array.from(table.rows).forEach((row, rowIndex) => {
+    grid[rowIndex] = grid[rowIndex] || []
+    let column = 0
+    for (const cell of Array.from(row.cells)) {
+      while (grid[rowIndex][column]) column++
+      const rowspan = Math.min(cell.rowSpan || 1, table.rows.length - rowIndex)
+      for (let r = 0; r < rowspan; r++) {
+        grid[rowIndex + r] = grid[rowIndex + r] || []
+        for (let c = 0; c < (cell.colSpan || 1); c++) grid[rowIndex + r][column + c] = cell
+      }
+      column += cell.colSpan || 1
+    }
+  })
+  return grid
+}
+
+const columnCount = (grid: Cell[][]) => Math.max(0, ...grid.map(row => row.length))
+
+const positionOf = (grid: Cell[][], cell: Cell) => {
+  for (let row = 0; row < grid.length; row++) {
+    const column = grid[row].indexOf(cell)
+    if (column !== -1) return { row, column }
+  }
+  return { row: 0, column: 0 }
+}
+
+const createCell = (tag: 'td' | 'th' = 'td') => {
+  const cell = document.createElement(tag)
+  cell.appendChild(document.createElement('br'))
+  return cell
+}
+
+// Puts a new cell into a row so that it lands in the given grid column
+const placeCell = (table: HTMLTableElement, grid: Cell[][], row: number, column: number, cell: Cell) => {
+  const tr = table.rows[row]
+  const after = Array.from(tr.cells).find(existing => positionOf(grid, existing).column >= column)
+  tr.insertBefore(cell, after || null)
+}
+
+const setSpan = (cell: Cell, name: 'colspan' | 'rowspan', span: number) => {
+  if (span > 1) cell.setAttribute(name, String(span))
+  else cell.removeAttribute(name)
+}
+
+const isHeaderRow = (row: HTMLTableRowElement) =>
+  row.cells.length > 0 && Array.from(row.cells).every(cell => cell.tagName === 'TH')
+
+const columnElements = (table: HTMLTableElement) =>
+  Array.from(table.querySelectorAll<HTMLTableColElement>(':scope > colgroup > col'))
+
+export const createTableHtml = (rows: number, columns: number) => {
+  const row = `<tr>${'<td><br></td>'.repeat(columns)}</tr>`
+  return `<table><tbody>${row.repeat(rows)}</tbody></table><p><br></p>`
+}
+
+// The cells a selection touches, or the one holding the caret
+export const selectedCells = (table: HTMLTableElement, range: Range) => {
+  const cells = ownCells(table).filter(cell => range.intersectsNode(cell))
+  if (range.collapsed || cells.length <= 1) {
+    const node = range.startContainer
+    const cell = (node instanceof Element ? node : node.parentElement)?.closest<Cell>('td, th')
+    return cell && cell.closest('table') === table ? [cell] : cells.slice(0, 1)
+  }
+  return cells
+}
+
+export const adjacentCell = (cell: Cell, backwards: boolean) => {
+  const table = cell.closest('table')
+  if (!table) return null
+  const cells = ownCells(table)
+  return cells[cells.indexOf(cell) + (backwards ? -1 : 1)] || null
+}
+
+// The cell under this one in the same column, skipping its own rowspan
+export const cellBelow = (cell: Cell) => {
+  const table = cell.closest('table')
+  if (!table) return null
+  const grid = tableGrid(table)
+  const { row, column } = positionOf(grid, cell)
+  return grid[row + (cell.rowSpan || 1)]?.[column] || null
+}
+
+export const insertRow = (table: HTMLTableElement, cell: Cell, below: boolean) => {
+  const grid = tableGrid(table)
+  const position = positionOf(grid, cell)
+  const index = below ? position.row + (cell.rowSpan || 1) : position.row
+  const tr = document.createElement('tr')
+  const stretched = new Set<Cell>()
+  let first: Cell | null = null
+
+  for (let column = 0; column < columnCount(grid); column++) {
+    const above = grid[index - 1]?.[column]
+    // A cell merged across the new row's place grows over it instead
+    if (above && above === grid[index]?.[column]) {
+      if (!stretched.has(above)) setSpan(above, 'rowspan', (above.rowSpan || 1) + 1)
+      stretched.add(above)
+      continue
+    }
+    const added = createCell()
+    first = first || added
+    tr.appendChild(added)
+  }
+
+  const reference = table.rows[index]
+  if (reference) reference.before(tr)
+  else table.rows[table.rows.length - 1].after(tr)
+  return first
+}
+
+export const insertColumn = (table: HTMLTableElement, cell: Cell, right: boolean) => {
+  const grid = tableGrid(table)
+  const position = positionOf(grid, cell)
+  const index = right ? position.column + (cell.colSpan || 1) : position.column
+  const stretched = new Set<Cell>()
+  let current: Cell | null = null
+
+  grid.forEach((row, rowIndex) => {
+    const left = row[index - 1]
+    if (left && left === row[index]) {
+      if (!stretched.has(left)) setSpan(left, 'colspan', (left.colSpan || 1) + 1)
+      stretched.add(left)
+      return
+    }
+    const added = createCell(isHeaderRow(table.rows[rowIndex]) ? 'th' : 'td')
+    placeCell(table, grid, rowIndex, index, added)
+    if (rowIndex === position.row) current = added
+  })
+
+  // A resized table keeps its widths; the new column copies its neighbour's
+  const cols = columnElements(table)
+  if (cols.length > 0) {
+    const neighbour = cols[Math.min(index, cols.length - 1)]
+    const col = neighbour.cloneNode() as HTMLTableColElement
+    if (index < cols.length) neighbour.before(col)
+    else neighbour.after(col)
+  }
+  return current
+}
+
+// An empty paragraph takes the place of a deleted table, for the caret
+const removeTable = (table: HTMLTableElement) => {
+  const paragraph = document.createElement('p')
+  paragraph.appendChild(document.createElement('br'))
+  table.replaceWith(paragraph)
+  return paragraph
+}
+
+export const deleteRow = (table: HTMLTableElement, cell: Cell) => {
+  const grid = tableGrid(table)
+  const tr = cell.parentElement as HTMLTableRowElement
+  const index = tr.rowIndex
+  const handled = new Set<Cell>()
+
+  grid[index].forEach((slot, column) => {
+    if (handled.has(slot)) return
+    handled.add(slot)
+    if ((slot.rowSpan || 1) <= 1) return
+    setSpan(slot, 'rowspan', slot.rowSpan - 1)
+    // A merged cell starting in this row moves down to the next one
+    if (slot.parentElement === tr && table.rows[index + 1]) placeCell(table, grid, index + 1, column, slot)
+  })
+  tr.remove()
+  if (ownCells(table).length === 0) return removeTable(table)
+
+  const rows = table.rows
+  const next = rows[Math.min(index, rows.length - 1)]
+  return next?.cells[0] || null
+}
+
+export const deleteColumn = (table: HTMLTableElement, cell: Cell) => {
+  const grid = tableGrid(table)
+  const { column } = positionOf(grid, cell)
+  const handled = new Set<Cell>()
+
+  for (const row of grid) {
+    const slot = row[column]
+    if (!slot || handled.has(slot)) continue
+    handled.add(slot)
+    if ((slot.colSpan || 1) > 1) setSpan(slot, 'colspan', slot.colSpan - 1)
+    else slot.remove()
+  }
+  columnElements(table)[column]?.remove()
+  if (ownCells(table).length === 0) return removeTable(table)
+
+  const next = tableGrid(table)[0]
+  return next[Math.min(column, next.length - 1)] || null
+}
+
+// Merges the smallest block of whole cells that covers every selected one
+export const mergeCells = (table: HTMLTableElement, cells: Cell[]) => {
+  if (cells.length < 2) return null
+  const grid = tableGrid(table)
+  let top = Infinity
+  let left = Infinity
+  let bottom = -1
+  let right = -1
+  const include = (cell: Cell) => {
+    const position = positionOf(grid, cell)
+    top = Math.min(top, position.row)
+    left = Math.min(left, position.column)
+    bottom = Math.max(bottom, position.row + (cell.rowSpan || 1) - 1)
+    right = Math.max(right, position.column + (cell.colSpan || 1) - 1)
+  }
+  cells.forEach(include)
+
+  // Cells sticking out of the block pull it wider until it settles
+  let grown = true
+  while (grown) {
+    const before = [top, left, bottom, right].join()
+    for (let row = top; row <= bottom; row++) {
+      for (let column = left; column <= right; column++) {
+        if (grid[row]?.[column]) include(grid[row][column])
+      }
+    }
+    grown = before !== [top, left, bottom, right].join()
+  }
+
+  const target = grid[top][left]
+  const merged = new Set<Cell>()
+  for (let row = top; row <= bottom; row++) {
+    for (let column = left; column <= right; column++) {
+      const cell = grid[row]?.[column]
+      if (!cell || cell === target || merged.has(cell)) continue
+      merged.add(cell)
+      // Content of the other cells follows on, as in a word processor
+      if (cell.textContent?.trim() || cell.querySelector('img')) {
+        if (!target.textContent?.trim() && !target.querySelector('img')) target.replaceChildren()
+        else target.appendChild(document.createElement('br'))
+        while (cell.firstChild) target.appendChild(cell.firstChild)
+      }
+      cell.remove()
+    }
+  }
+  setSpan(target, 'colspan', right - left + 1)
+  setSpan(target, 'rowspan', bottom - top + 1)
+  return target
+}
+
+export const splitCell = (table: HTMLTableElement, cell: Cell) => {
+  const colspan = cell.colSpan || 1
+  const rowspan = cell.rowSpan || 1
+  if (colspan === 1 && rowspan === 1) return null
+  const grid = tableGrid(table)
+  const position = positionOf(grid, cell)
+  setSpan(cell, 'colspan', 1)
+  setSpan(cell, 'rowspan', 1)
+
+  const tag = cell.tagName === 'TH' ? 'th' : 'td'
+  for (let row = position.row; row < position.row + rowspan && row < table.rows.length; row++) {
+    for (let column = position.column; column < position.column + colspan; column++) {
+      if (row === position.row && column === position.column) continue
+      const added = createCell(tag)
+      // Slots filled so far count as taken when placing the next cell
+      grid[row][column] = added
+      placeCell(table, grid, row, column, added)
+    }
+  }
+  return cell
+}
+
+// Swaps a cell for a <th> or <td> holding the same content
+const retag = (cell: Cell, tag: 'td' | 'th') => {
+  if (cell.tagName.toLowerCase() === tag) return cell
+  const replacement = document.createElement(tag)
+  for (const { name, value } of Array.from(cell.attributes)) replacement.setAttribute(name, value)
+  while (cell.firstChild) replacement.appendChild(cell.firstChild)
+  cell.replaceWith(replacement)
+  return replacement
+}
+
+export const toggleHeaderRow = (cell: Cell) => {
+  const tr = cell.parentElement as HTMLTableRowElement
+  const tag = isHeaderRow(tr) ? 'td' : 'th'
+  let current = cell
+  for (const existing of Array.from(tr.cells)) {
+    const replaced = retag(existing, tag)
+    if (existing === cell) current = replaced
+  }
+  return current
+}
+
+export const isInHeaderRow = (cell: Cell) => isHeaderRow(cell.parentElement as HTMLTableRowElement)
+
+export const setCellStyle = (cells: Cell[], style: CellStyle) => {
+  for (const cell of cells) {
+    if (style.background !== undefined) cell.style.backgroundColor = style.background || ''
+    if (style.borderColor !== undefined) cell.style.borderColor = style.borderColor || ''
+    if (style.borderWidth !== undefined) cell.style.borderWidth = style.borderWidth === null ? '' : `${style.borderWidth}px`
+    if (!cell.getAttribute('style')) cell.removeAttribute('style')
+  }
+}
+
+// Right edge of every column, in viewport coordinates
+export const columnEdges = (table: HTMLTableElement) => {
+  const grid = tableGrid(table)
+  const edges: number[] = []
+  for (let column = 0; column < columnCount(grid); column++) {
+    for (const row of grid) {
+      const cell = row[column]
+      if (cell && row[column + 1] !== cell) {
+        edges[column] = Math.max(edges[column] ?? -Infinity, cell.getBoundingClientRect().right)
+      }
+    }
+  }
+  return edges
+}
+
+// Fixes every column's width, as it is drawn now, in a <colgroup>
+export const freezeColumnWidths = (table: HTMLTableElement) => {
+  const edges = columnEdges(table)
+  let left = table.getBoundingClientRect().left
+  const widths = edges.map(edge => {
+    const width = Math.max(24, Math.round(edge - left))
+    left = edge
+    return width
+  })
+  let colgroup = table.querySelector(':scope > colgroup')
+  if (!colgroup) {
+    colgroup = document.createElement('colgroup')
+    table.prepend(colgroup)
+  }
+  colgroup.replaceChildren(...widths.map(width => {
+    const col = document.createElement('col')
+    col.style.width = `${width}px`
+    return col
+  }))
+  return widths
+}
+
+export const setColumnWidth = (table: HTMLTableElement, column: number, width: number) => {
+  const col = columnElements(table)[column]
+  if (col) col.style.width = `${Math.max(24, Math.round(width))}px`
+}
+
+// Runs an action on the selected cells and returns where the caret should go
+export const applyTableAction = (action: TableAction, table: HTMLTableElement, cells: Cell[]): HTMLElement | null => {
+  const [cell] = cells
+  switch (action) {
+    case 'insertRowAbove':
+      return insertRow(table, cell, false)
+    case 'insertRowBelow':
+      return insertRow(table, cell, true)
+    case 'insertColumnLeft':
+      return insertColumn(table, cell, false)
+    case 'insertColumnRight':
+      return insertColumn(table, cell, true)
+    case 'deleteRow':
+      return deleteRow(table, cell)
+    case 'deleteColumn':
+      return deleteColumn(table, cell)
+    case 'deleteTable':
+      return removeTable(table)
+    case 'mergeCells':
+      return mergeCells(table, cells)
+    case 'splitCell':
+      return splitCell(table, cell)
+    case 'toggleHeaderRow':
+      return toggleHeaderRow(cell)
+  }
+}
@@ -0,0 +1,318 @@
+import { tableGrid } from './table-editing'
+
+// Spreadsheet-style formulas and sorting for table cells. A formula cell keeps its
+// source in data-formula and no text of its own. Each editor works out the
+// results itself and shows them from data-result, which is never stored or
+// synced; exports get them written in as text (withFormulaResults).
+// References are A1-style within the same table: columns are letters and
+// rows count from 1, header rows included.
+
+type Cell = HTMLTableCellElement
+
+class FormulaError extends Error {
+  code: string
+
+  constructor(code: string) {
+    super(code)
+    this.code = code
+  }
+}
+
+const FUNCTIONS: Record<string, (values: number[]) => number> = {
+  SUM: values => values.reduce((sum, value) => sum + value, 0),
+  AVERAGE: values => {
+    if (values.length === 0) throw new FormulaError('#DIV/0!')
+    return values.reduce((sum, value) => sum + value, 0) / values.length
+  },
+  COUNT: values => values.length,
+  MIN: values => values.length > 0 ? Math.min(...values) : 0,
+  MAX: values => values.length > 0 ? Math.max(...values) : 0
+}
+
+export const isFormula = (text: string) => /^=\s*\S/.test(text)
+
+// Numbers as people type them in tables: "1,250", "$40", "12.5%"
+export const numericValue = (text: string): number | null => {
+  let value = text.trim().replace(/,/g, '').replace(/^[$€£¥]\s*/, '').replace(/^-[$€£¥]\s*/, '-')
+  const percent = value.endsWith('%')
+  if (percent) value = value.slice(0, -1).trim()
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value)) return null
+  const number = Number(value)
+  return percent ? number / 100 : number
+}
+
+export const formatNumber = (value: number) => {
+  if (!Number.isFinite(value)) return '#NUM!'
+  return String(Number(value.toPrecision(12)))
+}
+
+const columnIndex = (letters: string) =>
+  letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+
+const TOKEN = /\s*(?:(\d+\.?\d*|\.\d+)|([A-Z]+\d+)|([A-Z]+)(?=\s*\()|([-+*/(),:]))/y
+
+const tokenize = (source: string) => {
+  const tokens: string[] = []
+  TOKEN.lastIndex = 0
+  while (TOKEN.lastIndex < source.length) {
+    if (!source.slice(TOKEN.lastIndex).trim()) break
+    const match = TOKEN.exec(source)
+    if (!match) throw new FormulaError('#ERROR!')
+    tokens.push(match[0].trim())
+  }
+  return tokens
+}
+
+// Evaluates every formula in one table, following references between formula cells
+class TableCalculator {
+  private grid: Cell[][]
+  private results = new Map<Cell, number | FormulaError>()
+  private visiting = new Set<Cell>()
+
+  constructor(table: HTMLTableElement) {
+    this.grid = tableGrid(table)
+  }
+
+  result(cell: Cell): number | FormulaError {
+    const known = this.results.get(cell)
+    if (known !== undefined) return known
+    if (this.visiting.has(cell)) return new FormulaError('#CYCLE!')
+    this.visiting.add(cell)
+    let result: number | FormulaError
+    try {
+      result = this.evaluate(cell.getAttribute('data-formula') || '')
+    } catch (error) {
+      result = error instanceof FormulaError ? error : new FormulaError('#ERROR!')
+    }
+    this.visiting.delete(cell)
+    this.results.set(cell, result)
+    return result
+  }
+
+  private cellAt(reference: string) {
+    const match = /^([A-Z]+)(\d+)$/.exec(reference)!
+    return this.grid[Number(match[2]) - 1]?.[columnIndex(match[1])]
+  }
+
+  // A formula cell's result, or the number a plain cell holds (null for text or nothing)
+  private value(cell: Cell): number | null {
+    if (cell.hasAttribute('data-formula')) {
+      const result = this.result(cell)
+      if (result instanceof FormulaError) throw result
+      return result
+    }
+    return numericValue(cell.textContent || '')
+  }
+
+  private reference(reference: string) {
+    const cell = this.cellAt(reference)
+    if (!cell) throw new FormulaError('#REF!')
+    return cell
+  }
+
+  private range(from: string, to: string) {
+    const start = /^([A-Z]+)(\d+)$/.exec(from)!
+    const end = /^([A-Z]+)(\d+)$/.exec(to)!
+    const [top, bottom] = [Number(start[2]) - 1, Number(end[2]) - 1].sort((a, b) => a - b)
+    const [left, right] = [columnIndex(start[1]), columnIndex(end[1])].sort((a, b) => a - b)
+    const values: number[] = []
+    const seen = new Set<Cell>()
+    for (let row = top; row <= bottom; row++) {
+      for (let column = left; column <= right; column++) {
+        // A merged cell counts once, however many slots it covers
+        const cell = this.grid[row]?.[column]
+        if (!cell || seen.has(cell)) continue
+        seen.add(cell)
+        const value = this.value(cell)
+        if (value !== null) values.push(value)
+      }
+    }
+    return values
+  }
+
+  private evaluate(formula: string): number {
+    const tokens = tokenize(formula.replace(/^=/, '').toUpperCase())
+    let position = 0
+    const peek = () => tokens[position]
+    const take = (expected?: string) => {
+      const token = tokens[position++]
+      if (token === undefined || (expected !== undefined && token !== expected)) throw new FormulaError('#ERROR!')
+      return token
+    }
+
+    const expression = (): number => {
+      let value = term()
+      while (peek() === '+' || peek() === '-') value = take() === '+' ? value + term() : value - term()
+      return value
+    }
+    const term = (): number => {
+      let value = factor()
+      while (peek() === '*' || peek() === '/') {
+        if (take() === '*') {
+          value *= factor()
+        } else {
+          const divisor = factor()
+          if (divisor === 0) throw new FormulaError('#DIV/0!')
+          value /= divisor
+        }
+      }
+      return value
+    }
+    const factor = (): number => {
+      if (peek() === '-') {
+        take()
+        return -factor()
+      }
+      if (peek() === '+') {
+        take()
+        return factor()
+      }
+      return primary()
+    }
+    const primary = (): number => {
+      const token = take()
+      if (token === '(') {
+        const value = expression()
+        take(')')
+        return value
+      }
+      if (/^[\d.]/.test(token)) return Number(token)
+      if (/^[A-Z]+\d+$/.test(token)) {
+        const cell = this.reference(token)
+        const value = this.value(cell)
+        // Empty cells count as zero; text can't take part in arithmetic
+        if (value === null && cell.textContent?.trim()) throw new FormulaError('#VALUE!')
+        return value ?? 0
+      }
+      const fn = FUNCTIONS[token]
+      if (!fn) throw new FormulaError('#NAME?')
+      take('(')
+      const values: number[] = []
+      while (peek() !== ')') {
+        if (/^[A-Z]+\d+$/.test(peek() || '') && tokens[position + 1] === ':') {
+          const from = take()
+          take(':')
+          const to = take()
+          if (!/^[A-Z]+\d+$/.test(to)) throw new FormulaError('#ERROR!')
+          values.push(...this.range(from, to))
+        } else if (/^[A-Z]+\d+$/.test(peek() || '') && (tokens[position + 1] === ',' || tokens[position + 1] === ')')) {
+          // A lone reference to text or an empty cell is skipped, as in a range
+          const value = this.value(this.reference(take()))
+          if (value !== null) values.push(value)
+        } else {
+          values.push(expression())
+        }
+        if (peek() === ',') take()
+        else if (peek() !== ')') throw new FormulaError('#ERROR!')
+      }
+      take(')')
+      return fn(values)
+    }
+
+    const value = expression()
+    if (position < tokens.length) throw new FormulaError('#ERROR!')
+    return value
+  }
+}
+
+// Sets every formula cell's data-result to its current result
+export const recalculateFormulas = (root: HTMLElement) => {
+  for (const table of Array.from(root.querySelectorAll('table'))) {
+    const cells = Array.from(table.querySelectorAll<Cell>('td[data-formula], th[data-formula]'))
+      .filter(cell => cell.closest('table') === table)
+    if (cells.length === 0) continue
+    const calculator = new TableCalculator(table)
+    for (const cell of cells) {
+      const result = calculator.result(cell)
+      const text = result instanceof FormulaError ? result.code : formatNumber(result)
+      if (cell.getAttribute('data-result') !== text) cell.setAttribute('data-result', text)
+    }
+  }
+}
+
+// The HTML with each formula's result as its cell's text, for exports
+export const withFormulaResults = (html: string) => {
+  const root = document.createElement('div')
+  root.innerHTML = html
+  recalculateFormulas(root)
+  for (const cell of Array.from(root.querySelectorAll<Cell>('td[data-result], th[data-result]'))) {
+    cell.textContent = cell.getAttribute('data-result')
+    cell.removeAttribute('data-result')
+  }
+  return root.innerHTML
+}
+
+// Saves what was typed as a cell's formula; anything else replaces the formula as plain text
+export const setCellFormula = (cell: Cell, source: string) => {
+  const text = source.trim()
+  if (isFormula(text)) {
+    if (cell.getAttribute('data-formula') === text && !cell.textContent) return false
+    cell.setAttribute('data-formula', text)
+    cell.replaceChildren()
+    return true
+  }
+  if (!cell.hasAttribute('data-formula')) return false
+  cell.removeAttribute('data-formula')
+  cell.removeAttribute('data-result')
+  cell.textContent = text
+  if (!text) cell.appendChild(document.createElement('br'))
+  return true
+}
+
+// When the caret leaves a cell, text starting with "=" becomes its formula
+export const commitFormula = (cell: Cell) => {
+  const text = (cell.textContent || '').trim()
+  return !cell.hasAttribute('data-formula') && isFormula(text) && setCellFormula(cell, text)
+}
+
+const REFERENCE = /(?<!:\s*)\b([A-Z]+)(\d+)\b(?!\s*:)/gi
+
+// Sorts the table's body rows by the given cell's column. Header rows stay
+// on top and trailing rows totalling ranges stay at the bottom.
+// Single-cell references follow the rows they point at; ranges are left
+// alone since they usually span the rows being sorted. Returns false for
+// tables whose body rows are merged together.
+export const sortRows = (table: HTMLTableElement, cell: Cell, descending: boolean) => {
+  const grid = tableGrid(table)
+  const column = grid.find(row => row.includes(cell))?.indexOf(cell) ?? 0
+  const rows = Array.from(table.rows)
+  let first = 0
+  while (first < rows.length && Array.from(rows[first].cells).every(c => c.tagName === 'TH')) first++
+  let last = rows.length
+  while (last > first && rows[last - 1].querySelector('[data-formula*=":"]')) last--
+  const body = rows.slice(first, last)
+  if (body.length < 2) return true
+  if (body.some(row => Array.from(row.cells).some(c => c.rowSpan > 1))) return false
+
+  const key = (row: HTMLTableRowElement) => {
+    const cell = grid[row.rowIndex][column]
+    const text = ((cell?.hasAttribute('data-formula') ? cell.getAttribute('data-result') : cell?.textContent) || '').trim()
+    return { text, number: numericValue(text) }
+  }
+  const sorted = [...body].sort((a, b) => {
+    const x = key(a)
+    const y = key(b)
+    // Empty cells sort last either way
+    if (!x.text || !y.text) return Number(!x.text) - Number(!y.text)
+    let order: number
+    if (x.number !== null && y.number !== null) order = x.number - y.number
+    else if (x.number !== null || y.number !== null) order = x.number !== null ? -1 : 1
+    else order = x.text.localeCompare(y.text, undefined, { numeric: true, sensitivity: 'base' })
+    return descending ? -order : order
+  })
+
+  const moved = new Map<number, number>()
+  sorted.forEach((row, index) => moved.set(row.rowIndex + 1, first + index + 1))
+  const parent = body[0].parentElement!
+  const anchor = rows[last]?.parentElement === parent ? rows[last] : null
+  sorted.forEach(row => parent.insertBefore(row, anchor))
+
+  for (const formulaCell of Array.from(table.querySelectorAll<Cell>('td[data-formula], th[data-formula]'))) {
+    if (formulaCell.closest('table') !== table) continue
+    const formula = formulaCell.getAttribute('data-formula')!
+    formulaCell.setAttribute('data-formula', formula.replace(REFERENCE, (reference, letters: string, row: string) =>
+      moved.has(Number(row)) ? `${letters}${moved.get(Number(row))}` : reference
+    ))
+  }
+  return true
+}
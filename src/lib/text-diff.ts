@@ -0,0 +1,146 @@
+import { parseHtml } from './document-html'
+import { documentText } from './document-model'
+
+// Line and word diffs between two versions of a document, used by the
+// version history view. Only text is compared; formatting-only edits show
+// up as unchanged lines.
+
+export type DiffType = 'equal' | 'insert' | 'delete'
+
+export interface DiffPart<T> {
+  type: DiffType
+  items: T[]
+}
+
+export interface DiffSpan {
+  type: DiffType
+  text: string
+}
+
+export interface DiffLine {
+  type: DiffType | 'change'
+  spans: DiffSpan[]
+}
+
+// Past this many edits a hunk is shown as a wholesale replacement
+const MAX_EDIT_DISTANCE = 2000
+
+const pushPart = <T>(parts: DiffPart<T>[], type: DiffType, item: T) => {
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) last.items.push(item)
+  else parts.push({ type, items: [item] })
+}
+
+// Myers' O(ND) shortest edit script over the middle of a and b
+const shortestEdit = <T>(a: T[], b: T[]): DiffPart<T>[] | null => {
+  const max = Math.min(a.length + b.length, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Array<number>(2 * max + 3).fill(0)
+  const trace: number[][] = []
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= a.length && y >= b.length) {
+        return backtrack(a, b, trace, offset, d)
+      }
+    }
+  }
+  return null
+}
+
+const backtrack = <T>(a: T[], b: T[], trace: number[][], offset: number, distance: number) => {
+  const steps: { type: DiffType; item: T }[] = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = distance; d > 0; d--) {
+    const v = trace[d]
+    const k = x - y
+    const previousK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1
+    const previousX = v[offset + previousK]
+    const previousY = previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      steps.push({ type: 'equal', item: a[--x] })
+      y--
+    }
+    if (x === previousX) steps.push({ type: 'insert', item: b[--y] })
+    else steps.push({ type: 'delete', item: a[--x] })
+  }
+  while (x > 0 && y > 0) {
+    steps.push({ type: 'equal', item: a[--x] })
+    y--
+  }
+
+  const parts: DiffPart<T>[] = []
+  for (let i = steps.length - 1; i >= 0; i--) pushPart(parts, steps[i].type, steps[i].item)
+  return parts
+}
+
+export const diffSequences = <T>(a: T[], b: T[]): DiffPart<T>[] => {
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++
+
+  const middleA = a.slice(prefix, a.length - suffix)
+  const middleB = b.slice(prefix, b.length - suffix)
+  const middle = shortestEdit(middleA, middleB) || [
+    { type: 'delete' as const, items: middleA },
+    { type: 'insert' as const, items: middleB }
+  ]
+
+  const parts: DiffPart<T>[] = []
+  for (const item of a.slice(0, prefix)) pushPart(parts, 'equal', item)
+  for (const part of middle) part.items.forEach(item => pushPart(parts, part.type, item))
+  for (const item of a.slice(a.length - suffix)) pushPart(parts, 'equal', item)
+  return parts
+}
+
+const tokenizeWords = (text: string) => text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) || []
+
+export const diffWords = (before: string, after: string): DiffSpan[] =>
+  diffSequences(tokenizeWords(before), tokenizeWords(after))
+    .map(part => ({ type: part.type, text: part.items.join('') }))
+
+// Compare two stored document bodies line by line. A run of removed lines
+// followed by added ones is paired up and diffed word by word.
+export const diffDocuments = (beforeHtml: string, afterHtml: string): DiffLine[] => {
+  const before = documentText(parseHtml(beforeHtml)).split('\n')
+  const after = documentText(parseHtml(afterHtml)).split('\n')
+  const parts = diffSequences(before, after)
+  const lines: DiffLine[] = []
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i]
+    const next = parts[i + 1]
+
+    if (part.type === 'delete' && next?.type === 'insert') {
+      const paired = Math.min(part.items.length, next.items.length)
+      for (let j = 0; j < paired; j++) {
+        lines.push({ type: 'change', spans: diffWords(part.items[j], next.items[j]) })
+      }
+      part.items.slice(paired).forEach(text => lines.push({ type: 'delete', spans: [{ type: 'delete', text }] }))
+      next.items.slice(paired).forEach(text => lines.push({ type: 'insert', spans: [{ type: 'insert', text }] }))
+      i++
+      continue
+    }
+
+    part.items.forEach(text => lines.push({ type: part.type, spans: [{ type: part.type, text }] }))
+  }
+  return lines
+}
@@ -0,0 +1,94 @@
+// Convert between DOM positions inside the editor and offsets into its
+// textContent, which is what CRDT anchors are measured in.
+
+export interface DomPosition {
+  node: Node
+  offset: number
+}
+
+// Box relative to an overlay laid over the editor
+export interface OverlayRect {
+  top: number
+  left: number
+  width: number
+  height: number
+}
+
+export const getTextOffset = (root: Node, node: Node, offset: number) => {
+  const range = document.createRange()
+  range.setStart(root, 0)
+  range.setEnd(node, offset)
+  return range.toString().length
+}
+
+export const getDomPosition = (root: Node, textOffset: number): DomPosition => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  let remaining = textOffset
+  let last: Text | null = null
+
+  while (walker.nextNode()) {
+    const text = walker.currentNode as Text
+    if (remaining <= text.length) return { node: text, offset: remaining }
+    remaining -= text.length
+    last = text
+  }
+
+  return last ? { node: last, offset: last.length } : { node: root, offset: 0 }
+}
+
+export const getSelectionOffsets = (root: Node) => {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0) return null
+  if (!selection.anchorNode || !selection.focusNode) return null
+  if (!root.contains(selection.anchorNode) || !root.contains(selection.focusNode)) return null
+
+  return {
+    anchor: getTextOffset(root, selection.anchorNode, selection.anchorOffset),
+    focus: getTextOffset(root, selection.focusNode, selection.focusOffset)
+  }
+}
+
+export const createRangeFromOffsets = (root: Node, start: number, end: number) => {
+  const from = getDomPosition(root, Math.min(start, end))
+  const to = getDomPosition(root, Math.max(start, end))
+  const range = document.createRange()
+  range.setStart(from.node, from.offset)
+  range.setEnd(to.node, to.offset)
+  return range
+}
+
+export const setSelectionOffsets = (root: Node, anchor: number, focus: number) => {
+  const selection = window.getSelection()
+  if (!selection) return
+
+  const from = getDomPosition(root, anchor)
+  const to = getDomPosition(root, focus)
+  selection.setBaseAndExtent(from.node, from.offset, to.node, to.offset)
+}
+
+export const toOverlayRect = (rect: DOMRect, origin: DOMRect): OverlayRect => ({
+  top: rect.top - origin.top,
+  left: rect.left - origin.left,
+  width: rect.width,
+  height: rect.height
+})
+
+// Line boxes covered by a text range, for drawing highlights
+export const getRangeRects = (root: Node, start: number, end: number, origin: DOMRect) =>
+  Array.from(createRangeFromOffsets(root, start, end).getClientRects())
+    .filter(rect => rect.width > 0)
+    .map(rect => toOverlayRect(rect, origin))
+
+// Text from the start of the caret's block up to the caret, or null when
+// there is no collapsed caret inside the root
+export const textBeforeCaret = (root: HTMLElement) => {
+  const selection = window.getSelection()
+  if (!selection || !selection.isCollapsed || !selection.anchorNode || !root.contains(selection.anchorNode)) return null
+  const anchor = selection.anchorNode
+  const element = anchor instanceof Element ? anchor : anchor.parentElement
+  const block = element?.closest('p, div, li, h1, h2, h3, h4, h5, h6, td, th, pre')
+  const range = document.createRange()
+  range.setStart(block && root.contains(block) && block !== root ? block : root, 0)
+  range.setEnd(anchor, selection.anchorOffset)
+  return range.toString()
+}
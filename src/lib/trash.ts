@@ -0,0 +1,85 @@
+import { blink } from '../blink/client'
+import { retryWithBackoff } from './retry'
+import type { DocumentSummary } from './documents'
+
+// Deleting a document only stamps documents.trashedAt; it keeps its folderId,
+// so restoring puts it back where it was. Owners can delete for good, and
+// anything left in the trash longer than the retention period is purged.
+
+export const TRASH_RETENTION_DAYS = Number(import.meta.env.VITE_TRASH_RETENTION_DAYS) || 30
+
+// Rows that only make sense alongside their document
+const deleteDependents = (documentId: string) => [
+  () => blink.db.documentComments.deleteMany({ where: { documentId } }),
+  () => blink.db.documentSuggestions.deleteMany({ where: { documentId } }),
+  () => blink.db.documentVersions.deleteMany({ where: { documentId } }),
+  () => blink.db.documentCollaborators.deleteMany({ where: { documentId } }),
+  () => blink.db.documentAccessRequests.deleteMany({ where: { documentId } }),
+  () => blink.db.documentStars.deleteMany({ where: { documentId } }),
+  () => blink.db.documentVisits.deleteMany({ where: { documentId } })
+]
+
+export interface TrashedDocument extends DocumentSummary {
+  trashedAt: string
+  trashedBy: string
+}
+
+export const daysUntilPurge = (trashedAt: string) => {
+  const elapsed = (Date.now() - new Date(trashedAt).getTime()) / (24 * 60 * 60 * 1000)
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed))
+}
+
+export const moveToTrash = async (documentId: string, userId: string) => {
+  const trashedAt = new Date().toISOString()
+  await retryWithBackoff(async () => {
+    return await blink.db.documents.update(documentId, { trashedAt, trashedBy: userId })
+  })
+  return trashedAt
+}
+
+export const restoreFromTrash = async (documentId: string) => {
+  await retryWithBackoff(async () => {
+    return await blink.db.documents.update(documentId, { trashedAt: null, trashedBy: null })
+  })
+}
+
+export const deleteForever = async (documentId: string) => {
+  for (const deleteRows of deleteDependents(documentId)) {
+    await retryWithBackoff(async () => {
+      return await deleteRows()
+    })
+  }
+  await retryWithBackoff(async () => {
+    return await blink.db.documents.delete(documentId)
+  })
+}
+
+// A user's trash holds what they own and what they threw away themselves
+export const listTrash = async (userId: string): Promise<TrashedDocument[]> => {
+  const result: TrashedDocument[] = await retryWithBackoff(async () => {
+    return await blink.db.documents.list({
+      where: {
+        trashedAt: { not: null },
+        OR: [{ userId }, { trashedBy: userId }]
+      },
+      orderBy: { trashedAt: 'desc' },
+      select: ['id', 'title', 'userId', 'folderId', 'createdAt', 'updatedAt', 'trashedAt', 'trashedBy']
+    })
+  })
+  return result
+}
+
+// Run whenever an owner looks at their documents; there is no server job
+export const purgeExpiredTrash = async (userId: string) => {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  const expired: TrashedDocument[] = await retryWithBackoff(async () => {
+    return await blink.db.documents.list({
+      where: { userId, trashedAt: { lt: cutoff } },
+      select: ['id']
+    })
+  })
+  for (const doc of expired) {
+    await deleteForever(doc.id)
+  }
+  return expired.length
+}
@@ -0,0 +1,156 @@
+// Minimal ZIP reader and writer for client-side DOCX import and export
+// (DOCX is a ZIP of XML parts). Entries are deflated with CompressionStream
+// where the browser has it and stored uncompressed otherwise; both are
+// valid ZIP.
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array | string
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  if (typeof CompressionStream === 'undefined') return null
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  } catch {
+    // Older browsers only know 'gzip' and 'deflate'
+    return null
+  }
+}
+
+// MS-DOS date and time, as ZIP headers store them
+const dosDateTime = (date: Date) => {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+export const createZip = async (entries: ZipEntry[], modified = new Date()): Promise<Blob> => {
+  const encoder = new TextEncoder()
+  const { time, day } = dosDateTime(modified)
+  const chunks: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const raw = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+    const crc = crc32(raw)
+    const deflated = await deflateRaw(raw)
+    // Keep whichever is smaller; images are usually compressed already
+    const useDeflate = deflated !== null && deflated.length < raw.length
+    const body = useDeflate ? deflated : raw
+    const method = useDeflate ? 8 : 0
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint16(8, method, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, day, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, body.length, true)
+    local.setUint32(22, raw.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, 0x0800, true)
+    header.setUint16(10, method, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, day, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, body.length, true)
+    header.setUint32(24, raw.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+
+    chunks.push(new Uint8Array(local.buffer), name, body)
+    central.push(new Uint8Array(header.buffer), name)
+    offset += 30 + name.length + body.length
+  }
+
+  const centralSize = central.reduce((size, chunk) => size + chunk.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...chunks, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' })
+}
+
+const inflateRaw = async (data: Uint8Array) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read compressed files')
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Reads every entry through the central directory, which (unlike the
+// local headers) always carries the real sizes
+export const readZip = async (source: Blob): Promise<Map<string, Uint8Array>> => {
+  const bytes = new Uint8Array(await source.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  const decoder = new TextDecoder()
+
+  let end = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP file')
+
+  const count = view.getUint16(end + 10, true)
+  let position = view.getUint32(end + 16, true)
+  const entries = new Map<string, Uint8Array>()
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(position, true) !== 0x02014b50) throw new Error('Corrupt ZIP directory')
+    const method = view.getUint16(position + 10, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const localOffset = view.getUint32(position + 42, true)
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength))
+    position += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const data = bytes.subarray(dataStart, dataStart + compressedSize)
+    if (method === 0) entries.set(name, data)
+    else if (method === 8) entries.set(name, await inflateRaw(data))
+    else throw new Error(`Unsupported ZIP compression method ${method}`)
+  }
+  return entries
+}